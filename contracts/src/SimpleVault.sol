@@ -2,6 +2,7 @@
 pragma solidity ^0.8.19;
 
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 
@@ -17,6 +18,26 @@ contract SimpleVault is ReentrancyGuard {
     error InsufficientBalance();
     
     function deposit(address token, uint256 amount) external nonReentrant {
+        _deposit(token, amount);
+    }
+    
+    /// @notice Deposit using an EIP-2612 permit signature instead of a prior approve tx
+    function depositWithPermit(
+        address token,
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant {
+        // A front-run permit consumes the nonce but leaves the allowance in place,
+        // so ignore permit failures and let transferFrom enforce the allowance
+        try IERC20Permit(token).permit(msg.sender, address(this), amount, deadline, v, r, s) {} catch {}
+        
+        _deposit(token, amount);
+    }
+    
+    function _deposit(address token, uint256 amount) private {
         if (amount == 0) revert InvalidAmount();
         
         uint256 balanceBefore = IERC20(token).balanceOf(address(this));
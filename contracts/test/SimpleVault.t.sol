@@ -5,9 +5,10 @@ import {Test, console2} from "forge-std/Test.sol";
 import {SimpleVault} from "../src/SimpleVault.sol";
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {ERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 
-contract MockUSDC is ERC20 {
-    constructor() ERC20("Mock USDC", "USDC") {
+contract MockUSDC is ERC20, ERC20Permit {
+    constructor() ERC20("Mock USDC", "USDC") ERC20Permit("Mock USDC") {
         _mint(msg.sender, 1000000 * 10**6); // 1M USDC
     }
     
@@ -104,6 +105,78 @@ contract SimpleVaultTest is Test {
         assertEq(usdc.balanceOf(address(vault)), 0);
     }
     
+    function _signPermit(uint256 ownerKey, uint256 amount, uint256 deadline)
+        internal
+        view
+        returns (uint8 v, bytes32 r, bytes32 s)
+    {
+        address owner = vm.addr(ownerKey);
+        bytes32 structHash = keccak256(
+            abi.encode(
+                keccak256("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)"),
+                owner,
+                address(vault),
+                amount,
+                usdc.nonces(owner),
+                deadline
+            )
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", usdc.DOMAIN_SEPARATOR(), structHash));
+        return vm.sign(ownerKey, digest);
+    }
+    
+    function test_DepositWithPermit() public {
+        uint256 carolKey = 0xC0FFEE;
+        address carol = vm.addr(carolKey);
+        uint256 depositAmount = 1000 * 10**6;
+        uint256 deadline = block.timestamp + 1 hours;
+        usdc.transfer(carol, INITIAL_BALANCE);
+        
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(carolKey, depositAmount, deadline);
+        
+        vm.expectEmit(true, true, false, true);
+        emit Deposited(carol, address(usdc), depositAmount);
+        
+        vm.prank(carol);
+        vault.depositWithPermit(address(usdc), depositAmount, deadline, v, r, s);
+        
+        assertEq(vault.getBalance(carol, address(usdc)), depositAmount);
+        assertEq(usdc.allowance(carol, address(vault)), 0);
+    }
+    
+    function test_DepositWithPermit_FrontRunPermit() public {
+        uint256 carolKey = 0xC0FFEE;
+        address carol = vm.addr(carolKey);
+        uint256 depositAmount = 1000 * 10**6;
+        uint256 deadline = block.timestamp + 1 hours;
+        usdc.transfer(carol, INITIAL_BALANCE);
+        
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(carolKey, depositAmount, deadline);
+        
+        // Someone else submits the permit first, consuming the nonce
+        usdc.permit(carol, address(vault), depositAmount, deadline, v, r, s);
+        
+        vm.prank(carol);
+        vault.depositWithPermit(address(usdc), depositAmount, deadline, v, r, s);
+        
+        assertEq(vault.getBalance(carol, address(usdc)), depositAmount);
+    }
+    
+    function test_RevertWhen_DepositWithInvalidPermit() public {
+        uint256 carolKey = 0xC0FFEE;
+        address carol = vm.addr(carolKey);
+        uint256 depositAmount = 1000 * 10**6;
+        uint256 deadline = block.timestamp + 1 hours;
+        usdc.transfer(carol, INITIAL_BALANCE);
+        
+        // Signed for a smaller amount than deposited
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(carolKey, depositAmount - 1, deadline);
+        
+        vm.prank(carol);
+        vm.expectRevert();
+        vault.depositWithPermit(address(usdc), depositAmount, deadline, v, r, s);
+    }
+    
     function test_RevertWhen_DepositZeroAmount() public {
         vm.startPrank(alice);
         usdc.approve(address(vault), 1000 * 10**6);
@@ -0,0 +1,234 @@
+/**
+ * Headless runner for the batch deposit service, for funding vaults from
+ * scripts: `pnpm argenta deposit --chain sepolia=10 --chain sei=5`, or
+ * `pnpm argenta schedule --file schedules.json` for recurring deposits.
+ * Signs with the PRIVATE_KEY environment variable.
+ */
+import { readFileSync, writeFileSync } from "fs";
+import { isAddressEqual, type Address, type Hex } from "viem";
+import { getChainName, txUrl, type SupportedChainId } from "@/constant/chains";
+import { getToken } from "@/constant/tokens";
+import { createBatchDepositService } from "@/lib/batch-deposit-service";
+import { createPrivateKeyChainAdapter } from "@/lib/chain-client-adapter";
+import {
+  describeSchedule,
+  getDueSchedules,
+  getNextRunAt,
+  getScheduleRunStatus,
+  toScheduleChainAmounts,
+} from "@/lib/deposit-schedule";
+import { parseAmountToBigInt } from "@/lib/vault-operations";
+import { DEFAULT_BATCH_DEPOSIT_CONFIG } from "@/constant/batch-operation-constants";
+import type { ChainAmount } from "@/types/batch-operations";
+import type {
+  DepositSchedule,
+  DepositScheduleRunStatus,
+} from "@/types/deposit-schedule";
+import { parseCliArgs, USAGE } from "./args";
+
+// Longest wait between checks, so edits to the schedules file are picked up
+const SCHEDULE_POLL_MS = 60_000;
+
+type BatchDepositService = ReturnType<typeof createBatchDepositService>;
+
+function readPrivateKey(): Hex {
+  const raw = process.env.PRIVATE_KEY;
+  if (!raw) throw new Error("Set PRIVATE_KEY to the depositing account's key");
+  return `0x${raw.trim().replace(/^0x/, "")}`;
+}
+
+const label = (chainId: ChainAmount["chainId"]) => `[${getChainName(chainId)}]`;
+
+function logServiceEvents(service: BatchDepositService): void {
+  service.on("batchStarted", ({ chainCount, totalSteps }) =>
+    console.log(`Depositing on ${chainCount} chain(s), ${totalSteps} steps`)
+  );
+  service.on("stepStarted", ({ chainId, step, chainStep, chainTotal }) =>
+    console.log(`${label(chainId)} ${step} (${chainStep}/${chainTotal})`)
+  );
+  service.on("transactionSubmitted", ({ chainId, type, txHash }) =>
+    console.log(
+      `${label(chainId)} ${type} sent ${txUrl(chainId, txHash) ?? txHash}`
+    )
+  );
+  service.on("transactionConfirmed", ({ chainId, type, status, blockNumber }) =>
+    console.log(
+      `${label(chainId)} ${type} ${
+        status === "success" ? "confirmed" : "reverted"
+      } in block ${blockNumber}`
+    )
+  );
+  service.on("chainFailed", ({ chainId, error }) =>
+    console.error(`${label(chainId)} failed: ${error.message}`)
+  );
+  service.on("progressUpdated", ({ completed, total, percentage }) =>
+    console.log(`Progress ${completed}/${total} (${percentage}%)`)
+  );
+}
+
+// A local key signs on every chain, so the pipelines can run side by side
+function createCliService(rpcUrls: Partial<Record<SupportedChainId, string>>) {
+  const adapter = createPrivateKeyChainAdapter(readPrivateKey(), rpcUrls);
+  const service = createBatchDepositService(adapter, {
+    ...DEFAULT_BATCH_DEPOSIT_CONFIG,
+    parallelChains: true,
+  });
+  console.log(`Account ${adapter.getAddress()}`);
+  return { account: adapter.getAddress()!, service };
+}
+
+async function runDeposit(
+  cli: Extract<ReturnType<typeof parseCliArgs>, { command: "deposit" }>
+): Promise<number> {
+  const chainAmounts: ChainAmount[] = cli.chains.map(({ chainId, amount }) => {
+    const tokenAddress = getToken(chainId, cli.token)!.address;
+    return {
+      chainId,
+      tokenAddress,
+      amount,
+      amountWei: parseAmountToBigInt(amount, chainId, tokenAddress),
+    };
+  });
+
+  const { service } = createCliService(cli.rpcUrls);
+
+  if (cli.dryRun) {
+    const results = await service.simulateBatch(chainAmounts);
+    for (const result of results) {
+      console.log(
+        `${label(result.chainId)} ${result.amount} ${cli.token}: ${
+          result.wouldSucceed
+            ? result.needsApproval
+              ? "approval + deposit would succeed"
+              : "deposit would succeed"
+            : `would revert: ${result.error?.message ?? "unknown"}`
+        }${result.depositUnverified ? " (deposit not simulated)" : ""}`
+      );
+    }
+    return results.every((result) => result.wouldSucceed) ? 0 : 1;
+  }
+
+  logServiceEvents(service);
+  const results = await service.executeBatch(chainAmounts);
+  for (const result of results) {
+    console.log(
+      `${label(result.chainId)} ${result.status}${
+        result.depositTxHash ? ` ${result.depositTxHash}` : ""
+      }`
+    );
+  }
+  return results.every((result) => result.status === "success") ? 0 : 1;
+}
+
+function readSchedules(file: string): DepositSchedule[] {
+  const schedules: unknown = JSON.parse(readFileSync(file, "utf8"));
+  if (!Array.isArray(schedules)) {
+    throw new Error(`${file} does not hold an exported schedule list`);
+  }
+  return schedules;
+}
+
+function updateSchedule(
+  file: string,
+  id: string,
+  update: (schedule: DepositSchedule) => DepositSchedule
+): void {
+  const schedules = readSchedules(file).map((schedule) =>
+    schedule.id === id ? update(schedule) : schedule
+  );
+  writeFileSync(file, `${JSON.stringify(schedules, null, 2)}\n`);
+}
+
+/**
+ * Run the key's due schedules one after another. Each run is claimed in
+ * `file` (its `nextRunAt` advanced) before it starts and its outcome written
+ * once it lands, so an interrupted run is never repeated
+ */
+async function runDueSchedules(
+  file: string,
+  account: Address,
+  service: BatchDepositService
+): Promise<DepositScheduleRunStatus[]> {
+  const statuses: DepositScheduleRunStatus[] = [];
+  for (const due of getDueSchedules(readSchedules(file), account, Date.now())) {
+    console.log(`Running schedule ${due.id}: ${describeSchedule(due)}`);
+    const ranAt = Date.now();
+    updateSchedule(file, due.id, (schedule) => ({
+      ...schedule,
+      nextRunAt: getNextRunAt(schedule, ranAt),
+    }));
+    let status: DepositScheduleRunStatus;
+    try {
+      status = getScheduleRunStatus(
+        await service.executeBatch(toScheduleChainAmounts(due))
+      );
+    } catch (error) {
+      console.error(
+        `Schedule ${due.id} failed: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+      status = "failed";
+    }
+    statuses.push(status);
+
+    updateSchedule(file, due.id, (schedule) => ({
+      ...schedule,
+      lastRun: { ranAt, status },
+    }));
+    console.log(`Schedule ${due.id}: ${status}`);
+  }
+  return statuses;
+}
+
+async function runSchedules(
+  cli: Extract<ReturnType<typeof parseCliArgs>, { command: "schedule" }>
+): Promise<number> {
+  const { account, service } = createCliService(cli.rpcUrls);
+  logServiceEvents(service);
+  let announcedRunAt: number | undefined;
+
+  for (;;) {
+    const statuses = await runDueSchedules(cli.file, account, service);
+    if (cli.once) {
+      if (statuses.length === 0) console.log("No schedules are due");
+      return statuses.every((status) => status === "success") ? 0 : 1;
+    }
+
+    const upcoming = readSchedules(cli.file).filter(
+      (schedule) =>
+        schedule.enabled && isAddressEqual(schedule.account, account)
+    );
+    if (upcoming.length === 0) {
+      console.log(`No enabled schedules for ${account} in ${cli.file}`);
+      return 0;
+    }
+    const nextRunAt = Math.min(...upcoming.map((s) => s.nextRunAt));
+    if (nextRunAt !== announcedRunAt) {
+      console.log(`Next run ${new Date(nextRunAt).toLocaleString()}`);
+      announcedRunAt = nextRunAt;
+    }
+    await new Promise((resolve) =>
+      setTimeout(
+        resolve,
+        Math.min(Math.max(nextRunAt - Date.now(), 0), SCHEDULE_POLL_MS)
+      )
+    );
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const cli = parseCliArgs(argv);
+  if (cli.command === "help") {
+    console.log(USAGE);
+    return 0;
+  }
+  return cli.command === "schedule" ? runSchedules(cli) : runDeposit(cli);
+}
+
+main(process.argv.slice(2))
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
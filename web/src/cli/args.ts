@@ -0,0 +1,168 @@
+import {
+  SupportedChainId,
+  getChainName,
+  isSupportedChainId,
+} from "@/constant/chains";
+import { CHAIN_KEYS } from "@/constant/chain-registry";
+import {
+  getToken,
+  SUPPORTED_TOKEN_SYMBOLS,
+  type TokenSymbol,
+} from "@/constant/tokens";
+
+export const USAGE = `Usage: argenta deposit --chain <chain>=<amount> [--chain ...] [options]
+       argenta schedule --file <schedules.json> [options]
+
+deposit   Deposit into the Argenta vault on each chain, signing with PRIVATE_KEY.
+schedule  Run the due recurring deposits exported from the app, writing their
+          next run times back to the file; keeps waiting for the next one
+          unless --once is given.
+
+Options:
+  --chain <chain>=<amount>  Chain (name like "sepolia" or "sei", or chain id)
+                            and amount in token units; repeat per chain
+  --token <symbol>          Token to deposit (default USDC)
+  --file <path>             Schedules exported from the app (schedule only)
+  --once                    Run what is due now and exit (schedule only)
+  --rpc <chain>=<url>       Override the chain's RPC URL; repeatable
+  --dry-run                 Simulate the batch without sending transactions
+  --help                    Show this message`;
+
+export interface CliChainAmount {
+  chainId: SupportedChainId;
+  amount: string;
+}
+
+export type CliCommand =
+  | { command: "help" }
+  | {
+      command: "deposit";
+      chains: CliChainAmount[];
+      token: TokenSymbol;
+      rpcUrls: Partial<Record<SupportedChainId, string>>;
+      dryRun: boolean;
+    }
+  | {
+      command: "schedule";
+      file: string;
+      rpcUrls: Partial<Record<SupportedChainId, string>>;
+      once: boolean;
+    };
+
+/**
+ * Resolve a chain id, registry key ("eth_sepolia") or unambiguous part of
+ * one ("sepolia", "sei")
+ */
+export function resolveChainArg(value: string): SupportedChainId {
+  const name = value.trim().toUpperCase();
+  if (/^\d+$/.test(name) && isSupportedChainId(Number(name))) {
+    return Number(name) as SupportedChainId;
+  }
+  const matches = CHAIN_KEYS.filter(
+    (key) => key === name || key.split("_").includes(name)
+  );
+  if (matches.length !== 1) {
+    throw new Error(
+      `Unknown chain "${value}". Use one of: ${CHAIN_KEYS.map((key) =>
+        key.toLowerCase()
+      ).join(", ")}`
+    );
+  }
+  return SupportedChainId[matches[0]];
+}
+
+function splitPair(flag: string, value: string): [string, string] {
+  const separator = value.indexOf("=");
+  if (separator <= 0 || separator === value.length - 1) {
+    throw new Error(`${flag} expects <chain>=<value>, got "${value}"`);
+  }
+  return [value.slice(0, separator), value.slice(separator + 1)];
+}
+
+/**
+ * Parse `argenta <command> [flags]`. Throws with a readable message on bad
+ * input; amounts themselves are validated by the deposit service
+ */
+export function parseCliArgs(argv: string[]): CliCommand {
+  const [command, ...rest] = argv;
+  if (!command || command === "--help" || rest.includes("--help")) {
+    return { command: "help" };
+  }
+  if (command !== "deposit" && command !== "schedule") {
+    throw new Error(`Unknown command "${command}"`);
+  }
+
+  const chains: CliChainAmount[] = [];
+  const rpcUrls: Partial<Record<SupportedChainId, string>> = {};
+  let token: TokenSymbol = "USDC";
+  let dryRun = false;
+  let file: string | undefined;
+  let once = false;
+
+  for (let i = 0; i < rest.length; i++) {
+    const [flag, inlineValue] = rest[i].split(/=(.*)/s, 2);
+    if (flag === "--dry-run" && command === "deposit") {
+      dryRun = true;
+      continue;
+    }
+    if (flag === "--once" && command === "schedule") {
+      once = true;
+      continue;
+    }
+    const value = inlineValue ?? rest[++i];
+    if (value === undefined) {
+      throw new Error(`${flag} expects a value`);
+    }
+
+    switch (`${command} ${flag}`) {
+      case "deposit --chain": {
+        const [chain, amount] = splitPair(flag, value);
+        const chainId = resolveChainArg(chain);
+        if (chains.some((entry) => entry.chainId === chainId)) {
+          throw new Error(`${getChainName(chainId)} is listed more than once`);
+        }
+        chains.push({ chainId, amount });
+        break;
+      }
+      case "deposit --rpc":
+      case "schedule --rpc": {
+        const [chain, url] = splitPair(flag, value);
+        rpcUrls[resolveChainArg(chain)] = url;
+        break;
+      }
+      case "deposit --token": {
+        const symbol = value.toUpperCase() as TokenSymbol;
+        if (!SUPPORTED_TOKEN_SYMBOLS.includes(symbol)) {
+          throw new Error(
+            `Unknown token "${value}". Use one of: ${SUPPORTED_TOKEN_SYMBOLS.join(
+              ", "
+            )}`
+          );
+        }
+        token = symbol;
+        break;
+      }
+      case "schedule --file":
+        file = value;
+        break;
+      default:
+        throw new Error(`Unknown option "${flag}" for ${command}`);
+    }
+  }
+
+  if (command === "schedule") {
+    if (!file) throw new Error("Pass --file <schedules.json>");
+    return { command, file, rpcUrls, once };
+  }
+
+  if (chains.length === 0) {
+    throw new Error("Pass at least one --chain <chain>=<amount>");
+  }
+  for (const { chainId } of chains) {
+    if (!getToken(chainId, token)) {
+      throw new Error(`${token} is not accepted on ${getChainName(chainId)}`);
+    }
+  }
+
+  return { command: "deposit", chains, token, rpcUrls, dryRun };
+}
@@ -16,8 +16,11 @@ interface BatchOperationProgressProps {
   onRetryAllFailed?: () => void;
   onSkipChain?: (chainId: number) => void;
   onCancelBatch?: () => void;
+  onPauseBatch?: () => void;
+  onResumeBatch?: () => void;
   onDismiss?: () => void;
   onClose?: () => void;
+  tokenSymbol?: string;
 }
 
 export function BatchOperationProgress({
@@ -26,14 +29,21 @@ export function BatchOperationProgress({
   onRetryAllFailed,
   onSkipChain,
   onCancelBatch,
+  onPauseBatch,
+  onResumeBatch,
   onDismiss,
   onClose,
+  tokenSymbol = "USDC",
 }: BatchOperationProgressProps) {
+  const tokenLogo = getTokenLogo(tokenSymbol);
+
   const hasAnySuccessfulTransactions = () => {
     return progress.chainStatuses.some(
       (status) =>
         status.approveTxHash ||
         status.depositTxHash ||
+        status.withdrawTxHash ||
+        status.burnTxHash ||
         status.status === "completed" ||
         status.status === "partial"
     );
@@ -60,13 +70,26 @@ export function BatchOperationProgress({
 
   const stepLabel = (p: BatchDepositProgress) => {
     if (p.isComplete) return "";
+    if (p.isPaused) return "Paused";
+    const attesting = p.chainStatuses.find((s) => s.status === "attesting");
+    if (attesting) {
+      return `Waiting for the burn on ${getChainName(
+        attesting.chainId
+      )} to be attested`;
+    }
     const chainName = p.currentChain ? getChainName(p.currentChain) : "";
     if (!p.currentChain || !p.currentOperation) return "Preparing...";
     switch (p.currentOperation) {
       case "approval":
-        return `Approving USDC on ${chainName}`;
+        return `Approving ${tokenSymbol} on ${chainName}`;
       case "deposit":
         return `Depositing on ${chainName}`;
+      case "withdrawal":
+        return `Withdrawing from ${chainName}`;
+      case "burn":
+        return `Burning ${tokenSymbol} on ${chainName}`;
+      case "mint":
+        return `Minting ${tokenSymbol} on ${chainName}`;
       default:
         return `Processing ${chainName}`;
     }
@@ -80,6 +103,14 @@ export function BatchOperationProgress({
         return "APPROVING USDC";
       case "depositing":
         return "DEPOSITING";
+      case "withdrawing":
+        return "WITHDRAWING";
+      case "burning":
+        return "BURNING USDC";
+      case "attesting":
+        return "AWAITING ATTESTATION";
+      case "minting":
+        return "MINTING USDC";
       case "retrying":
         return "RETRYING...";
       case "partial":
@@ -87,13 +118,10 @@ export function BatchOperationProgress({
       case "completed":
         return "COMPLETED";
       case "failed":
-        if (
-          chainStatus.error?.includes("cancelled") ||
-          chainStatus.error?.includes("User cancelled")
-        ) {
-          return `CANCELLED: ${chainStatus.error}`;
+        if (chainStatus.error?.type === "user_rejection") {
+          return `CANCELLED: ${chainStatus.error.message}`;
         }
-        return `FAILED: ${chainStatus.error || "UNKNOWN ERROR"}`;
+        return `FAILED: ${chainStatus.error?.message || "UNKNOWN ERROR"}`;
       default:
         return "";
     }
@@ -105,6 +133,10 @@ export function BatchOperationProgress({
         return "text-gray-400";
       case "approving":
       case "depositing":
+      case "withdrawing":
+      case "burning":
+      case "attesting":
+      case "minting":
       case "retrying":
         return "text-teal-400";
       case "completed":
@@ -126,6 +158,41 @@ export function BatchOperationProgress({
     return `${explorerUrl}/tx/${txHash}`;
   };
 
+  const bridgeTxRow = (
+    chainStatus: ChainOperationStatus,
+    label: string,
+    txHash: string
+  ) => (
+    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+      <div className="flex items-center gap-2">
+        {getChainLogo(chainStatus.chainId) && (
+          <Image
+            src={getChainLogo(chainStatus.chainId)!}
+            alt=""
+            width={16}
+            height={16}
+            className="rounded-full ring-1 ring-white/10 bg-white/5 flex-shrink-0"
+          />
+        )}
+        <span className="text-gray-400 uppercase tracking-wide text-xs">
+          {label}
+        </span>
+      </div>
+      <a
+        href={getExplorerLink(chainStatus, txHash)}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-flex items-center gap-2 px-3 py-1.5 border border-white/10 bg-white/5 hover:bg-white/10 transition-colors rounded-sm text-teal-400 hover:text-teal-300 font-mono text-xs"
+      >
+        <span className="truncate max-w-[120px] sm:max-w-none">
+          {txHash.slice(0, 8)}...
+          {txHash.slice(-6)}
+        </span>
+        <ArrowUpRight size={14} strokeWidth={1.75} className="flex-shrink-0" />
+      </a>
+    </div>
+  );
+
   return (
     <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-2 sm:p-4">
       <div className="border border-white/10 bg-gradient-to-br from-gray-900/60 to-gray-800/40 backdrop-blur-sm max-w-2xl w-full max-h-[90vh] sm:max-h-[80vh] overflow-hidden">
@@ -195,7 +262,9 @@ export function BatchOperationProgress({
                 {stepLabel(progress)}
               </div>
               <div className="text-xs text-gray-400 uppercase tracking-wide">
-                Current operation in progress
+                {progress.isPaused
+                  ? "Stops at the next step boundary until resumed"
+                  : "Current operation in progress"}
               </div>
             </div>
           </div>
@@ -216,6 +285,10 @@ export function BatchOperationProgress({
                   ? "border-red-500/30 bg-red-500/5"
                   : chainStatus.status === "approving" ||
                     chainStatus.status === "depositing" ||
+                    chainStatus.status === "withdrawing" ||
+                    chainStatus.status === "burning" ||
+                    chainStatus.status === "attesting" ||
+                    chainStatus.status === "minting" ||
                     chainStatus.status === "retrying"
                   ? "border-teal-400/40 bg-teal-400/5"
                   : "border-white/10"
@@ -233,9 +306,9 @@ export function BatchOperationProgress({
                         className="rounded-full ring-1 ring-white/10 bg-white/5"
                       />
                     )}
-                    {getTokenLogo("USDC") && (
+                    {tokenLogo && (
                       <Image
-                        src={getTokenLogo("USDC")!}
+                        src={tokenLogo}
                         alt=""
                         width={24}
                         height={24}
@@ -256,6 +329,15 @@ export function BatchOperationProgress({
                     >
                       {getStatusText(chainStatus)}
                     </div>
+                    {chainStatus.error?.suggestedAction &&
+                      (chainStatus.status === "failed" ||
+                        chainStatus.status === "partial") && (
+                        <div className="text-xs text-gray-400 mt-1">
+                          {chainStatus.error.suggestedAction}
+                          {!chainStatus.error.isRetryable &&
+                            " — retrying won't help until this is fixed"}
+                        </div>
+                      )}
                   </div>
                 </div>
 
@@ -286,6 +368,8 @@ export function BatchOperationProgress({
                       >
                         {chainStatus.status === "partial"
                           ? "Retry Deposit"
+                          : chainStatus.burnTxHash || chainStatus.mintTxHash
+                          ? "Resume"
                           : "Retry"}
                       </button>
                       {onSkipChain && (
@@ -301,15 +385,18 @@ export function BatchOperationProgress({
               </div>
 
               {(chainStatus.approveTxHash ||
+                chainStatus.burnTxHash ||
+                chainStatus.mintTxHash ||
                 chainStatus.depositTxHash ||
+                chainStatus.withdrawTxHash ||
                 chainStatus.status === "partial") && (
                 <div className="space-y-3 pt-3 border-t border-white/10">
                   {chainStatus.approveTxHash && (
                     <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
                       <div className="flex items-center gap-2">
-                        {getTokenLogo("USDC") && (
+                        {tokenLogo && (
                           <Image
-                            src={getTokenLogo("USDC")!}
+                            src={tokenLogo}
                             alt=""
                             width={16}
                             height={16}
@@ -341,6 +428,18 @@ export function BatchOperationProgress({
                       </a>
                     </div>
                   )}
+                  {chainStatus.burnTxHash &&
+                    bridgeTxRow(
+                      chainStatus,
+                      "Burn Transaction",
+                      chainStatus.burnTxHash
+                    )}
+                  {chainStatus.mintTxHash &&
+                    bridgeTxRow(
+                      chainStatus,
+                      "Mint Transaction",
+                      chainStatus.mintTxHash
+                    )}
                   {chainStatus.depositTxHash ? (
                     <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
                       <div className="flex items-center gap-2">
@@ -398,6 +497,43 @@ export function BatchOperationProgress({
                       </span>
                     </div>
                   ) : null}
+                  {chainStatus.withdrawTxHash && (
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        {getChainLogo(chainStatus.chainId) && (
+                          <Image
+                            src={getChainLogo(chainStatus.chainId)!}
+                            alt=""
+                            width={16}
+                            height={16}
+                            className="rounded-full ring-1 ring-white/10 bg-white/5 flex-shrink-0"
+                          />
+                        )}
+                        <span className="text-gray-400 uppercase tracking-wide text-xs">
+                          Withdraw Transaction
+                        </span>
+                      </div>
+                      <a
+                        href={getExplorerLink(
+                          chainStatus,
+                          chainStatus.withdrawTxHash
+                        )}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-2 px-3 py-1.5 border border-white/10 bg-white/5 hover:bg-white/10 transition-colors rounded-sm text-teal-400 hover:text-teal-300 font-mono text-xs"
+                      >
+                        <span className="truncate max-w-[120px] sm:max-w-none">
+                          {chainStatus.withdrawTxHash.slice(0, 8)}...
+                          {chainStatus.withdrawTxHash.slice(-6)}
+                        </span>
+                        <ArrowUpRight
+                          size={14}
+                          strokeWidth={1.75}
+                          className="flex-shrink-0"
+                        />
+                      </a>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -487,9 +623,36 @@ export function BatchOperationProgress({
                 >
                   Cancel Remaining
                 </button>
+                {progress.isPaused && onResumeBatch ? (
+                  <button
+                    onClick={onResumeBatch}
+                    className="flex-1 p-3 font-mono uppercase tracking-wide bg-gradient-to-br from-teal-500/90 to-teal-600/90 border border-teal-500/60 text-white hover:from-teal-500 hover:to-teal-600 transition-colors text-sm"
+                  >
+                    Resume
+                  </button>
+                ) : (
+                  onPauseBatch && (
+                    <button
+                      onClick={onPauseBatch}
+                      className="flex-1 p-3 font-mono uppercase tracking-wide border border-white/10 bg-white/5 text-white hover:bg-white/10 transition-colors text-sm"
+                    >
+                      Pause
+                    </button>
+                  )
+                )}
                 <div className="flex-1 p-3 font-mono uppercase tracking-wide text-center border border-white/10 bg-black/20 text-gray-400 text-sm">
-                  {progress.currentOperation === "approval"
+                  {progress.isPaused
+                    ? "Paused"
+                    : progress.currentOperation === "approval"
                     ? "Approving..."
+                    : progress.currentOperation === "withdrawal"
+                    ? "Withdrawing..."
+                    : progress.currentOperation === "burn" ||
+                      progress.currentOperation === "mint" ||
+                      progress.chainStatuses.some(
+                        (s) => s.status === "attesting"
+                      )
+                    ? "Bridging..."
                     : "Depositing..."}
                 </div>
               </div>
@@ -0,0 +1,317 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { formatUnits } from "viem";
+import { getChainName, SupportedChainId, txUrl } from "@/constant/chains";
+import { BRIDGEABLE_CHAINS } from "@/constant/contracts";
+import { DEFAULT_BRIDGE_CONFIG } from "@/constant/batch-operation-constants";
+import { parseAmountToBigInt } from "@/lib/vault-operations";
+import { useChainBalances } from "@/hooks";
+import type { UseBridgeReturn } from "@/hooks/useBridge";
+import type { BridgeRequest, BridgeStep } from "@/types/bridge-operations";
+import {
+  AmountInput,
+  Alert,
+  ChainSelector,
+  ExecuteButton,
+  TransactionProgress,
+} from "@/components/ui";
+
+const STEP_LABELS: Record<BridgeStep, string> = {
+  switching: "Switching to source chain",
+  approving: "Approving USDC",
+  burning: "Burning USDC",
+  attesting: "Waiting for attestation",
+  minting: "Minting USDC",
+};
+
+const USDC_DECIMALS = 6;
+
+interface BridgeInputProps {
+  selectedChainId: SupportedChainId;
+  onBridge: (request: BridgeRequest) => void;
+  // Bridge, then deposit the minted USDC into the destination vault
+  onBridgeAndDeposit: (request: BridgeRequest) => void;
+  // A burned bridge and deposit is waiting to be minted
+  canResume: boolean;
+  onResume: () => void;
+  onDiscardResume: () => void;
+  onCancel: () => void;
+  onReset: () => void;
+  isBridging: boolean;
+  result: UseBridgeReturn["result"];
+  error: string | null;
+  progress: UseBridgeReturn["progress"];
+}
+
+export function BridgeInput({
+  selectedChainId,
+  onBridge,
+  onBridgeAndDeposit,
+  canResume,
+  onResume,
+  onDiscardResume,
+  onCancel,
+  onReset,
+  isBridging,
+  result,
+  error,
+  progress,
+}: BridgeInputProps) {
+  const [sourceChainId, setSourceChainId] = useState<SupportedChainId>(
+    BRIDGEABLE_CHAINS.includes(selectedChainId)
+      ? selectedChainId
+      : BRIDGEABLE_CHAINS[0]
+  );
+  const [destinationChainId, setDestinationChainId] =
+    useState<SupportedChainId>(
+      BRIDGEABLE_CHAINS.find((chainId) => chainId !== sourceChainId) ??
+        BRIDGEABLE_CHAINS[0]
+    );
+  const [amount, setAmount] = useState("");
+  const [depositOnArrival, setDepositOnArrival] = useState(false);
+
+  // Keep the two ends of the bridge distinct
+  useEffect(() => {
+    if (destinationChainId === sourceChainId) {
+      const other = BRIDGEABLE_CHAINS.find((id) => id !== sourceChainId);
+      if (other) setDestinationChainId(other);
+    }
+  }, [sourceChainId, destinationChainId]);
+
+  const {
+    data: balances,
+    isLoading: isBalanceLoading,
+    error: balanceError,
+  } = useChainBalances({ chainId: sourceChainId });
+  const walletBalance = balances?.walletBalance;
+
+  let amountWei: bigint | undefined;
+  try {
+    amountWei = amount ? parseAmountToBigInt(amount, sourceChainId) : undefined;
+  } catch {
+    amountWei = undefined;
+  }
+
+  const validationError = !amount
+    ? null
+    : amountWei === undefined
+    ? "Please enter a valid number"
+    : amountWei <= DEFAULT_BRIDGE_CONFIG.maxFee
+    ? `Amount must be greater than the ${formatUnits(
+        DEFAULT_BRIDGE_CONFIG.maxFee,
+        USDC_DECIMALS
+      )} USDC bridge fee`
+    : walletBalance !== undefined && amountWei > walletBalance
+    ? "Insufficient USDC balance"
+    : null;
+
+  const canBridge =
+    !isBridging &&
+    amountWei !== undefined &&
+    !validationError &&
+    sourceChainId !== destinationChainId;
+
+  const stepNumber = Math.min(progress.completed + 1, progress.total);
+  const hasStarted = isBridging || result !== null;
+
+  const explorerLink = (
+    chainId: SupportedChainId,
+    hash: string | undefined,
+    label: string
+  ) => {
+    const url = hash ? txUrl(chainId, hash) : undefined;
+    return url ? (
+      <a
+        key={label}
+        href={url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-teal-400 hover:text-teal-300 underline"
+      >
+        {label}
+      </a>
+    ) : null;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-1">
+        <div className="text-sm font-medium text-white">Bridge USDC</div>
+        <div className="text-xs text-gray-400">
+          Move wallet USDC between chains with Circle CCTP before depositing.
+          The USDC is burned on the source chain and minted on the destination
+          once Circle attests the burn.
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-xs text-gray-400 uppercase tracking-wide">
+          From
+        </div>
+        <ChainSelector
+          chains={BRIDGEABLE_CHAINS}
+          selectedChainId={sourceChainId}
+          onChainChange={setSourceChainId}
+          disabled={isBridging}
+        />
+        <div className="text-xs text-gray-400 uppercase tracking-wide pt-2">
+          To
+        </div>
+        <ChainSelector
+          chains={BRIDGEABLE_CHAINS}
+          selectedChainId={destinationChainId}
+          onChainChange={(chainId) => {
+            if (chainId !== sourceChainId) setDestinationChainId(chainId);
+          }}
+          disabled={isBridging}
+        />
+      </div>
+
+      <AmountInput
+        value={amount}
+        onChange={setAmount}
+        label={`Amount on ${getChainName(sourceChainId)}`}
+        token="USDC"
+        disabled={isBridging}
+        hasErrors={Boolean(validationError)}
+        balance={walletBalance}
+        isBalanceLoading={isBalanceLoading}
+        balanceError={balanceError}
+        onMaxClick={() =>
+          walletBalance !== undefined &&
+          setAmount(formatUnits(walletBalance, USDC_DECIMALS))
+        }
+        showBalance
+        showMaxButton
+        tokenDecimals={USDC_DECIMALS}
+      />
+
+      <label className="flex items-center gap-2 text-xs text-gray-300">
+        <input
+          type="checkbox"
+          checked={depositOnArrival}
+          onChange={(e) => setDepositOnArrival(e.target.checked)}
+          disabled={isBridging}
+          className="accent-teal-500"
+        />
+        Deposit into the {getChainName(destinationChainId)} vault on arrival
+      </label>
+
+      {validationError && <Alert type="error" message={validationError} />}
+
+      {canResume && !isBridging && (
+        <div className="flex items-center justify-between gap-3 p-3 border border-yellow-500/30 bg-yellow-500/10 text-xs text-yellow-200">
+          <span>
+            Resume interrupted bridge? Its USDC was burned but not yet
+            deposited.
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={onResume}
+              className="px-3 py-1.5 border border-white/10 bg-white/5 uppercase text-white hover:bg-white/10"
+            >
+              Resume
+            </button>
+            <button
+              onClick={onDiscardResume}
+              className="px-3 py-1.5 border border-white/10 uppercase text-gray-300 hover:bg-white/10"
+            >
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+
+      {hasStarted && (
+        <div className="space-y-3 p-3 border border-white/10 font-mono text-sm">
+          <TransactionProgress
+            progress={{
+              stepNumber: result ? progress.total : stepNumber,
+              totalSteps: progress.total,
+              percentage: String(progress.percentage),
+              currentStepLabel: result
+                ? result.status === "success"
+                  ? `Bridged ${result.amount} USDC to ${getChainName(
+                      result.destinationChainId
+                    )}`
+                  : result.status === "cancelled"
+                  ? "Bridge cancelled"
+                  : "Bridge failed"
+                : progress.currentStep && STEP_LABELS[progress.currentStep],
+              description:
+                !result &&
+                progress.currentStep === "attesting" &&
+                progress.attestationAttempts > 0
+                  ? `Checked ${progress.attestationAttempts} time(s), this can take several minutes`
+                  : undefined,
+            }}
+            status={
+              !result
+                ? "pending"
+                : result.status === "success"
+                ? "success"
+                : "error"
+            }
+          />
+          {result && (
+            <div className="flex gap-4 text-xs">
+              {explorerLink(result.sourceChainId, result.burnTxHash, "Burn tx")}
+              {explorerLink(
+                result.destinationChainId,
+                result.mintTxHash,
+                "Mint tx"
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <Alert type="error" message={error} />}
+
+      <div className="flex gap-2">
+        <div className="flex-1">
+          <ExecuteButton
+            onClick={() =>
+              (depositOnArrival ? onBridgeAndDeposit : onBridge)({
+                sourceChainId,
+                destinationChainId,
+                amount,
+              })
+            }
+            disabled={!canBridge}
+            isProcessing={isBridging}
+            text={
+              isBridging
+                ? "Bridging..."
+                : amountWei
+                ? `${
+                    depositOnArrival ? "Bridge & Deposit" : "Bridge"
+                  } to ${getChainName(destinationChainId)}`
+                : "Enter Amount to Bridge"
+            }
+          />
+        </div>
+        {isBridging && (
+          <button
+            onClick={onCancel}
+            className="px-4 border border-white/10 bg-white/5 text-xs uppercase text-gray-300 hover:bg-white/10"
+          >
+            Cancel
+          </button>
+        )}
+        {!isBridging && result && (
+          <button
+            onClick={() => {
+              setAmount("");
+              onReset();
+            }}
+            className="px-4 border border-white/10 bg-white/5 text-xs uppercase text-gray-300 hover:bg-white/10"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,19 +5,34 @@ import { useState, useEffect } from "react";
 import { useAccount, useChainId } from "wagmi";
 import { useQueryClient } from "@tanstack/react-query";
 import {
+  DEFAULT_CHAIN_ID,
   isSupportedChainId,
   SupportedChainId,
   SUPPORTED_CHAINS,
 } from "@/constant/chains";
+import type { TokenSymbol } from "@/constant/tokens";
 import { parseAmountToBigInt } from "@/lib/vault-operations";
-import { useBatchDepositValidation } from "@/hooks";
+import type { ChainAmount } from "@/types/batch-operations";
+import { useBatchDepositValidation, useBatchWithdrawValidation } from "@/hooks";
 import { useBatchDeposit } from "@/hooks/useBatchDeposit";
+import { useBatchWithdraw } from "@/hooks/useBatchWithdraw";
+import { useBridge } from "@/hooks/useBridge";
+import { useBridgeDeposit } from "@/hooks/useBridgeDeposit";
+import { useDepositScheduler } from "@/hooks/useDepositScheduler";
+import { useRebalance } from "@/hooks/useRebalance";
+import { getBridgeDepositChainStatuses } from "@/lib/bridge-deposit-progress";
+import type { BridgeRequest } from "@/types/bridge-operations";
+import type { RebalancePlan } from "@/types/rebalance";
 import { OperationTabs } from "./OperationTabs";
 import { DepositInput } from "./DepositInput";
+import { WithdrawInput } from "./WithdrawInput";
+import { BridgeInput } from "./BridgeInput";
+import { DepositSchedules } from "./DepositSchedules";
+import { RebalanceInput } from "./RebalanceInput";
 import { BatchOperationProgress } from "./BatchOperationProgress";
 import { PortfolioTabs } from "./PortfolioTabs";
 import { TransactionHistory } from "./TransactionHistory";
-import { OperationType } from "@/types/ui-state";
+import { ChainOperationStatus, OperationType } from "@/types/ui-state";
 import { OPERATION_TYPES } from "@/constant/operation-constants";
 import { createComponentLogger } from "@/lib/logger";
 import { UserWelcomeHeader, VaultEmptyState } from "./ui";
@@ -38,28 +53,116 @@ export function Dashboard() {
   );
 
   const [selectedChainId, setSelectedChainId] = useState<SupportedChainId>(
-    isSupportedChainId(chainId) ? chainId : SupportedChainId.ETH_SEPOLIA
+    isSupportedChainId(chainId) ? chainId : DEFAULT_CHAIN_ID
   );
 
+  const [depositToken, setDepositToken] = useState<TokenSymbol>("USDC");
+  const [withdrawToken, setWithdrawToken] = useState<TokenSymbol>("USDC");
+
   const {
     batchState,
     updateAmount: updateDepositAmount,
     setMaxAmount: setDepositMaxAmount,
+    splitTotal: splitDepositTotal,
     clearAll: clearDepositAmounts,
     getValidChainAmounts,
-  } = useBatchDepositValidation();
+  } = useBatchDepositValidation({ tokenSymbol: depositToken });
 
   const {
+    service: depositService,
     executeBatch,
     retryChain,
     cancel: cancelDeposit,
+    pause: pauseDeposit,
+    resume: resumeDeposit,
     reset: resetDeposit,
+    resumeBatch: resumeBatchDeposit,
+    discardResume: discardBatchDepositResume,
+    canResume: canResumeBatchDeposit,
+    resumableChains: resumableDepositChains,
+    simulateBatch,
+    clearSimulation,
     isExecuting,
+    isSimulating,
+    simulation,
+    isPaused: isDepositPaused,
     results: depositResults,
     error: depositError,
     progress: depositProgress,
   } = useBatchDeposit();
 
+  const {
+    batchState: withdrawBatchState,
+    updateAmount: updateWithdrawAmount,
+    setMaxAmount: setWithdrawMaxAmount,
+    clearAll: clearWithdrawAmounts,
+    getValidChainAmounts: getValidWithdrawAmounts,
+    chainBalances: vaultBalances,
+  } = useBatchWithdrawValidation({ tokenSymbol: withdrawToken });
+
+  const {
+    executeBatch: executeWithdrawBatch,
+    retryChain: retryWithdrawChain,
+    cancel: cancelWithdraw,
+    reset: resetWithdraw,
+    isExecuting: isWithdrawing,
+    results: withdrawResults,
+    error: withdrawError,
+    progress: withdrawProgress,
+  } = useBatchWithdraw();
+
+  const {
+    service: bridgeService,
+    bridge,
+    cancel: cancelBridge,
+    reset: resetBridge,
+    isBridging,
+    result: bridgeResult,
+    error: bridgeError,
+    progress: bridgeProgress,
+  } = useBridge();
+
+  const {
+    execute: executeBridgeDeposit,
+    resume: resumeBridgeDeposit,
+    discardResume: discardBridgeDepositResume,
+    cancel: cancelBridgeDeposit,
+    reset: resetBridgeDeposit,
+    isRunning: isBridgeDepositRunning,
+    canResume: canResumeBridgeDeposit,
+    operation: bridgeDepositOperation,
+    result: bridgeDepositResult,
+    progress: bridgeDepositProgress,
+  } = useBridgeDeposit(bridgeService, depositService);
+
+  // Each rebalance stage runs through the hook that owns it
+  const {
+    execute: executeRebalance,
+    cancel: cancelRebalance,
+    reset: resetRebalance,
+    isRunning: isRebalancing,
+    stage: rebalanceStage,
+    result: rebalanceResult,
+    error: rebalanceError,
+    progress: rebalanceProgress,
+  } = useRebalance({
+    withdraw: executeWithdrawBatch,
+    bridgeAndDeposit: executeBridgeDeposit,
+    deposit: executeBatch,
+  });
+
+  // Due schedules run from whichever open tab claims them first
+  const { pendingSchedules, runningScheduleId, runSchedule, skipSchedule } =
+    useDepositScheduler({
+      executeBatch,
+      isBusy:
+        isExecuting ||
+        depositProgress.isRetrying ||
+        isWithdrawing ||
+        isBridgeDepositRunning ||
+        isRebalancing,
+    });
+
   const [showDepositProgress, setShowDepositProgress] = useState(false);
   const [depositCompletedSuccessfully, setDepositCompletedSuccessfully] =
     useState(false);
@@ -76,11 +179,11 @@ export function Dashboard() {
 
   // Auto-show progress when execution starts
   useEffect(() => {
-    if (isExecuting) {
+    if (isExecuting || isBridgeDepositRunning) {
       setShowDepositProgress(true);
       setDepositCompletedSuccessfully(false);
     }
-  }, [isExecuting]);
+  }, [isExecuting, isBridgeDepositRunning]);
 
   // Handle completion
   useEffect(() => {
@@ -110,6 +213,34 @@ export function Dashboard() {
     }
   }, [isExecuting, depositResults.length, depositError, queryClient]);
 
+  const [showWithdrawProgress, setShowWithdrawProgress] = useState(false);
+  const [withdrawCompletedSuccessfully, setWithdrawCompletedSuccessfully] =
+    useState(false);
+  const [withdrawLocked, setWithdrawLocked] = useState(false);
+  const [lastWithdrawAmounts, setLastWithdrawAmounts] = useState<
+    Partial<Record<SupportedChainId, string>>
+  >({});
+
+  useEffect(() => {
+    if (isWithdrawing) {
+      setShowWithdrawProgress(true);
+      setWithdrawCompletedSuccessfully(false);
+    }
+  }, [isWithdrawing]);
+
+  useEffect(() => {
+    if (!isWithdrawing && withdrawResults.length > 0) {
+      setWithdrawCompletedSuccessfully(!withdrawError);
+      setWithdrawLocked(withdrawResults.some((r) => r.status !== "success"));
+
+      if (withdrawResults.some((result) => result.status === "success")) {
+        queryClient.invalidateQueries({ queryKey: ["readContract"] });
+        queryClient.invalidateQueries({ queryKey: ["readContracts"] });
+        logger.debug("Invalidated balance queries after withdrawals");
+      }
+    }
+  }, [isWithdrawing, withdrawResults, withdrawError, queryClient]);
+
   // Keep selectedChainId in sync especially when switching from the nav
   useEffect(() => {
     if (isSupportedChainId(chainId)) {
@@ -118,7 +249,17 @@ export function Dashboard() {
   }, [chainId]);
 
   const handleRetryChain = async (chainId: number) => {
+    // A failed bridge stage picks up from its journal
+    if (canResumeBridgeDeposit) {
+      await handleResumeBridgeDeposit();
+      return;
+    }
+    const bridgedAmount =
+      bridgeDepositOperation?.request.destinationChainId === chainId
+        ? bridgeDepositResult?.bridge.mintedAmount
+        : undefined;
     const amount =
+      bridgedAmount ||
       batchState.inputs[chainId as SupportedChainId] ||
       lastAttemptedAmounts[chainId as SupportedChainId];
     if (!amount) return;
@@ -126,7 +267,11 @@ export function Dashboard() {
     try {
       // Ensure modal is visible when retrying
       setShowDepositProgress(true);
-      const result = await retryChain(chainId as SupportedChainId, amount);
+      const result = await retryChain(
+        chainId as SupportedChainId,
+        amount,
+        depositResults.find((r) => r.chainId === chainId)?.tokenAddress
+      );
       logger.debug(`Retry completed for chain ${chainId}:`, result);
 
       if (result.status === "success") {
@@ -164,24 +309,20 @@ export function Dashboard() {
       return next;
     });
 
-    const chainAmounts: {
-      chainId: SupportedChainId;
-      amount: string;
-      amountWei: bigint;
-    }[] = [];
+    const chainAmounts: ChainAmount[] = [];
     const parseErrors: {
       chainId: SupportedChainId;
       amount: string;
       reason: string;
     }[] = [];
 
-    for (const { chainId, amount } of validAmounts) {
+    for (const { chainId, tokenAddress, amount } of validAmounts) {
       try {
-        const amountWei = parseAmountToBigInt(amount, chainId);
+        const amountWei = parseAmountToBigInt(amount, chainId, tokenAddress);
         logger.debug(
           `Parsed amount for chain ${chainId}: ${amount} -> ${amountWei.toString()} wei`
         );
-        chainAmounts.push({ chainId, amount, amountWei });
+        chainAmounts.push({ chainId, tokenAddress, amount, amountWei });
       } catch (error) {
         const reason = error instanceof Error ? error.message : String(error);
         logger.error(`Failed to parse amount for chain ${chainId}:`, reason);
@@ -211,6 +352,28 @@ export function Dashboard() {
     }
   };
 
+  const handlePreviewDeposit = async () => {
+    try {
+      const chainAmounts = getValidChainAmounts().map(
+        ({ chainId, tokenAddress, amount }) => ({
+          chainId,
+          tokenAddress,
+          amount,
+          amountWei: parseAmountToBigInt(amount, chainId, tokenAddress),
+        })
+      );
+      if (chainAmounts.length === 0) return;
+      await simulateBatch(chainAmounts);
+    } catch (error) {
+      logger.error("Failed to preview deposit:", error);
+    }
+  };
+
+  // A preview only describes the amounts it ran with
+  useEffect(() => {
+    clearSimulation();
+  }, [batchState.inputs, depositToken, clearSimulation]);
+
   const handleRetryAllFailed = async () => {
     setShowDepositProgress(true);
     const failedOrPartial = depositResults.filter(
@@ -227,7 +390,11 @@ export function Dashboard() {
         lastAttemptedAmounts[r.chainId as SupportedChainId];
       if (!amount) continue;
       try {
-        const result = await retryChain(r.chainId as SupportedChainId, amount);
+        const result = await retryChain(
+          r.chainId as SupportedChainId,
+          amount,
+          r.tokenAddress
+        );
         logger.debug(`Retry-all: chain ${r.chainId} -> ${result.status}`);
         if (result.status === "success") {
           queryClient.invalidateQueries({ queryKey: ["readContract"] });
@@ -244,6 +411,7 @@ export function Dashboard() {
       cancelDeposit();
     } catch {}
     resetDeposit();
+    resetBridgeDeposit();
     clearDepositAmounts();
     setShowDepositProgress(false);
     setDepositCompletedSuccessfully(false);
@@ -256,14 +424,216 @@ export function Dashboard() {
     );
   };
 
-  const _handleWithdraw = () => {
-    // logger.debug(
-    //   "Withdraw:",
-    //   withdrawAmount,
-    //   "USDC from",
-    //   getChainName(selectedChainId)
-    // );
-    // TODO: Implement withdraw logic
+  const handleWithdraw = async () => {
+    const validAmounts = getValidWithdrawAmounts();
+    if (validAmounts.length === 0) return;
+
+    logger.debug("Starting withdraw for", validAmounts.length, "chains");
+
+    setLastWithdrawAmounts(
+      Object.fromEntries(
+        validAmounts.map(({ chainId, amount }) => [chainId, amount])
+      )
+    );
+
+    try {
+      const chainAmounts = validAmounts.map(
+        ({ chainId, tokenAddress, amount }) => ({
+          chainId,
+          tokenAddress,
+          amount,
+          amountWei: parseAmountToBigInt(amount, chainId, tokenAddress),
+        })
+      );
+      await executeWithdrawBatch(chainAmounts);
+      logger.debug("Withdraw initiated successfully");
+    } catch (error) {
+      logger.error("Failed to start withdraw:", error);
+    }
+  };
+
+  const handleRetryWithdrawChain = async (chainId: number) => {
+    const amount =
+      withdrawBatchState.inputs[chainId as SupportedChainId] ||
+      lastWithdrawAmounts[chainId as SupportedChainId];
+    if (!amount) return;
+
+    try {
+      setShowWithdrawProgress(true);
+      const result = await retryWithdrawChain(
+        chainId as SupportedChainId,
+        amount,
+        withdrawResults.find((r) => r.chainId === chainId)?.tokenAddress
+      );
+      logger.debug(`Withdraw retry completed for chain ${chainId}:`, result);
+
+      if (result.status === "success") {
+        queryClient.invalidateQueries({ queryKey: ["readContract"] });
+        queryClient.invalidateQueries({ queryKey: ["readContracts"] });
+      }
+    } catch (error) {
+      logger.error(`Withdraw retry failed for chain ${chainId}:`, error);
+    }
+  };
+
+  const handleRetryAllFailedWithdrawals = async () => {
+    setShowWithdrawProgress(true);
+    const failed = withdrawResults.filter((r) => r.status !== "success");
+
+    for (const r of failed) {
+      await handleRetryWithdrawChain(r.chainId);
+    }
+  };
+
+  const handleResetWithdraw = () => {
+    cancelWithdraw();
+    resetWithdraw();
+    clearWithdrawAmounts();
+    setShowWithdrawProgress(false);
+    setWithdrawCompletedSuccessfully(false);
+    setWithdrawLocked(false);
+    setLastWithdrawAmounts({});
+  };
+
+  const handleBridge = async (request: BridgeRequest) => {
+    try {
+      const result = await bridge(request);
+      if (result.status === "success") {
+        queryClient.invalidateQueries({ queryKey: ["readContract"] });
+        queryClient.invalidateQueries({ queryKey: ["readContracts"] });
+        logger.debug("Invalidated balance queries after bridging");
+      }
+    } catch (error) {
+      logger.error("Failed to start bridge:", error);
+    }
+  };
+
+  const handleBridgeAndDeposit = async (request: BridgeRequest) => {
+    // The deposit stage reports through the batch deposit progress
+    resetDeposit();
+    setShowDepositProgress(true);
+    try {
+      const result = await executeBridgeDeposit(request);
+      logger.debug(`Bridge and deposit finished: ${result.status}`);
+    } catch (error) {
+      logger.error("Failed to start bridge and deposit:", error);
+    }
+  };
+
+  const handleRebalance = async (plan: RebalancePlan) => {
+    try {
+      const result = await executeRebalance(plan);
+      logger.debug(`Rebalance finished: ${result.status}`);
+      queryClient.invalidateQueries({ queryKey: ["readContract"] });
+      queryClient.invalidateQueries({ queryKey: ["readContracts"] });
+    } catch (error) {
+      logger.error("Failed to start rebalance:", error);
+    }
+  };
+
+  const handleResumeBatchDeposit = async () => {
+    setShowDepositProgress(true);
+    try {
+      const results = await resumeBatchDeposit();
+      logger.debug(`Resumed batch deposit on ${results.length} chains`);
+    } catch (error) {
+      logger.error("Failed to resume batch deposit:", error);
+    }
+  };
+
+  const handleResumeBridgeDeposit = async () => {
+    resetDeposit();
+    setShowDepositProgress(true);
+    try {
+      const result = await resumeBridgeDeposit();
+      logger.debug(`Resumed bridge and deposit: ${result?.status}`);
+    } catch (error) {
+      logger.error("Failed to resume bridge and deposit:", error);
+    }
+  };
+
+  const depositChainStatuses: ChainOperationStatus[] = depositResults.map(
+    (result) => ({
+      chainId: result.chainId,
+      status:
+        result.status === "success"
+          ? "completed"
+          : result.status === "cancelled"
+          ? "failed"
+          : result.status === "partial"
+          ? "partial"
+          : result.status === "retrying"
+          ? "retrying"
+          : "failed",
+
+      canRetry:
+        !isExecuting &&
+        !depositProgress.isRetrying &&
+        (result.status === "cancelled" ||
+          result.status === "partial" ||
+          (result.status === "failed" && !result.userCancelled)) &&
+        result.error?.isRetryable !== false,
+      error: result.status === "retrying" ? undefined : result.error,
+      approveTxHash: result.approvalTxHash,
+      depositTxHash: result.depositTxHash,
+    })
+  );
+
+  // A bridge and deposit shows as one batch: bridge rows, then the deposit
+  const isBridgeDepositStage =
+    bridgeDepositOperation?.stage === "bridging" && isBridgeDepositRunning;
+  const bridgeStep = bridgeDepositOperation?.bridgeStep;
+  const depositModalProgress = bridgeDepositOperation
+    ? {
+        percentage: bridgeDepositProgress.percentage,
+        totalSteps: bridgeDepositProgress.total,
+        currentStep: bridgeDepositProgress.completed + 1,
+        currentChain: isBridgeDepositStage
+          ? bridgeStep === "minting"
+            ? bridgeDepositOperation.request.destinationChainId
+            : bridgeDepositOperation.request.sourceChainId
+          : depositProgress.currentChain,
+        currentOperation: isBridgeDepositStage
+          ? bridgeStep === "approving"
+            ? ("approval" as const)
+            : bridgeStep === "burning"
+            ? ("burn" as const)
+            : bridgeStep === "minting"
+            ? ("mint" as const)
+            : undefined
+          : depositProgress.currentOperation,
+        chainStatuses: getBridgeDepositChainStatuses(
+          bridgeDepositOperation,
+          {
+            statuses: depositChainStatuses,
+            currentOperation: depositProgress.currentOperation,
+          },
+          canResumeBridgeDeposit
+        ),
+        isRunning: isBridgeDepositRunning,
+        hasResult: bridgeDepositResult !== null,
+        completedSuccessfully: bridgeDepositResult?.status === "success",
+      }
+    : {
+        percentage: depositProgress.percentage,
+        totalSteps: depositProgress.total,
+        currentStep: depositProgress.completed + 1,
+        currentChain: depositProgress.currentChain,
+        currentOperation: depositProgress.currentOperation,
+        chainStatuses: depositChainStatuses,
+        isRunning: false,
+        hasResult: depositResults.length > 0,
+        completedSuccessfully: depositCompletedSuccessfully,
+      };
+
+  const handleDepositTokenChange = (symbol: TokenSymbol) => {
+    setDepositToken(symbol);
+    clearDepositAmounts();
+  };
+
+  const handleWithdrawTokenChange = (symbol: TokenSymbol) => {
+    setWithdrawToken(symbol);
+    clearWithdrawAmounts();
   };
 
   if (!address) {
@@ -283,7 +653,11 @@ export function Dashboard() {
                 batchState={batchState}
                 onAmountChange={updateDepositAmount}
                 onMaxClick={setDepositMaxAmount}
+                onSplitTotal={splitDepositTotal}
                 onExecuteDeposit={handleUnifiedDeposit}
+                onPreview={handlePreviewDeposit}
+                isPreviewing={isSimulating}
+                previewResults={simulation}
                 disabled={isExecuting || depositProgress.isRetrying}
                 isProcessing={isExecuting || depositProgress.isRetrying}
                 selectedChainId={selectedChainId}
@@ -294,80 +668,122 @@ export function Dashboard() {
                 }
                 onRetryAllFailed={handleRetryAllFailed}
                 onReset={handleResetAll}
+                resumableChains={
+                  canResumeBatchDeposit ? resumableDepositChains : []
+                }
+                onResumeBatch={handleResumeBatchDeposit}
+                onDiscardResume={discardBatchDepositResume}
                 executeLocked={executeLocked}
+                tokenSymbol={depositToken}
+                onTokenChange={handleDepositTokenChange}
+              />
+              <DepositSchedules
+                amounts={getValidChainAmounts().map(({ chainId, amount }) => ({
+                  chainId,
+                  amount,
+                }))}
+                tokenSymbol={depositToken}
+                pendingSchedules={pendingSchedules}
+                runningScheduleId={runningScheduleId}
+                onRunSchedule={runSchedule}
+                onSkipSchedule={skipSchedule}
+                disabled={
+                  isExecuting ||
+                  depositProgress.isRetrying ||
+                  isBridgeDepositRunning
+                }
+              />
+            </div>
+          ) : activeTab === OPERATION_TYPES.BRIDGE ? (
+            <div className="space-y-4">
+              <BridgeInput
+                selectedChainId={selectedChainId}
+                onBridge={handleBridge}
+                onBridgeAndDeposit={handleBridgeAndDeposit}
+                canResume={canResumeBridgeDeposit}
+                onResume={handleResumeBridgeDeposit}
+                onDiscardResume={discardBridgeDepositResume}
+                onCancel={cancelBridge}
+                onReset={resetBridge}
+                isBridging={isBridging}
+                result={bridgeResult}
+                error={bridgeError}
+                progress={bridgeProgress}
+              />
+            </div>
+          ) : activeTab === OPERATION_TYPES.REBALANCE ? (
+            <div className="space-y-4">
+              <RebalanceInput
+                onRebalance={handleRebalance}
+                onCancel={cancelRebalance}
+                onReset={resetRebalance}
+                isRunning={isRebalancing}
+                stage={rebalanceStage}
+                result={rebalanceResult}
+                error={rebalanceError}
+                progress={rebalanceProgress}
+                disabled={
+                  isExecuting ||
+                  depositProgress.isRetrying ||
+                  isWithdrawing ||
+                  isBridging ||
+                  isBridgeDepositRunning
+                }
               />
             </div>
           ) : (
-            <div className="relative overflow-hidden border border-white/10 bg-gradient-to-br from-gray-900/30 to-gray-800/20 backdrop-blur-sm">
-              <div className="relative z-10 p-8 sm:p-12 text-center space-y-6">
-                <div className="space-y-4">
-                  <div className="space-y-2">
-                    <h3 className="text-lg font-mono font-semibold text-white uppercase tracking-wide">
-                      Withdraw Feature
-                    </h3>
-                    <p className="text-teal-400 text-sm font-mono uppercase tracking-wide">
-                      Coming Soon
-                    </p>
-                  </div>
-                </div>
-
-                <div className="space-y-3 max-w-sm mx-auto">
-                  <p className="text-gray-400 text-sm leading-relaxed">
-                    We're working hard to bring you secure and efficient
-                    withdrawal functionality.
-                  </p>
-                  <div className="border-t border-white/10 pt-3">
-                    <p className="text-xs text-gray-500 font-mono uppercase tracking-wide">
-                      Continue depositing to your vault
-                    </p>
-                  </div>
-                </div>
-              </div>
+            <div className="space-y-4">
+              <WithdrawInput
+                batchState={withdrawBatchState}
+                vaultBalances={vaultBalances}
+                onAmountChange={updateWithdrawAmount}
+                onMaxClick={setWithdrawMaxAmount}
+                onExecuteWithdraw={handleWithdraw}
+                disabled={isWithdrawing || withdrawProgress.isRetrying}
+                isProcessing={isWithdrawing || withdrawProgress.isRetrying}
+                selectedChainId={selectedChainId}
+                canRetryAll={
+                  !isWithdrawing &&
+                  !withdrawProgress.isRetrying &&
+                  withdrawResults.some((r) => r.status !== "success")
+                }
+                onRetryAllFailed={handleRetryAllFailedWithdrawals}
+                onReset={handleResetWithdraw}
+                executeLocked={withdrawLocked}
+                tokenSymbol={withdrawToken}
+                onTokenChange={handleWithdrawTokenChange}
+              />
             </div>
           )}
         </OperationTabs>
         {showDepositProgress && (
           <BatchOperationProgress
             progress={{
-              percentage: depositProgress.percentage,
-              totalSteps: depositProgress.total,
-              currentStep: depositProgress.completed + 1,
-              currentChain: depositProgress.currentChain,
-              currentOperation: depositProgress.currentOperation,
-              chainStatuses: depositResults.map((result) => ({
-                chainId: result.chainId,
-                status:
-                  result.status === "success"
-                    ? "completed"
-                    : result.status === "cancelled"
-                    ? "failed"
-                    : result.status === "partial"
-                    ? "partial"
-                    : result.status === "retrying"
-                    ? "retrying"
-                    : "failed",
-
-                canRetry:
-                  !isExecuting &&
-                  !depositProgress.isRetrying &&
-                  (result.status === "cancelled" ||
-                    result.status === "partial" ||
-                    (result.status === "failed" && !result.userCancelled)),
-                error: result.status === "retrying" ? undefined : result.error,
-                approveTxHash: result.approvalTxHash,
-                depositTxHash: result.depositTxHash,
-              })),
+              percentage: depositModalProgress.percentage,
+              totalSteps: depositModalProgress.totalSteps,
+              currentStep: depositModalProgress.currentStep,
+              currentChain: depositModalProgress.currentChain,
+              currentOperation: depositModalProgress.currentOperation,
+              chainStatuses: depositModalProgress.chainStatuses,
               isComplete:
                 !depositProgress.isRetrying &&
                 !isExecuting &&
-                depositResults.length > 0,
-              hasFailures: depositResults.some((r) => r.status !== "success"),
-              batchCompletedSuccessfully: depositCompletedSuccessfully,
+                !depositModalProgress.isRunning &&
+                depositModalProgress.hasResult,
+              hasFailures: depositModalProgress.chainStatuses.some(
+                (status) => status.status !== "completed"
+              ),
+              batchCompletedSuccessfully:
+                depositModalProgress.completedSuccessfully,
+              isPaused: isDepositPaused,
               isRetrying: depositProgress.isRetrying,
               retryingChainId: depositProgress.retryingChainId ?? null,
             }}
+            tokenSymbol={depositToken}
             onRetryChain={handleRetryChain}
             onRetryAllFailed={handleRetryAllFailed}
+            onPauseBatch={pauseDeposit}
+            onResumeBatch={resumeDeposit}
             onDismiss={() => {
               setShowDepositProgress(false);
             }}
@@ -375,21 +791,105 @@ export function Dashboard() {
               setShowDepositProgress(false);
               setDepositCompletedSuccessfully(false);
               clearDepositAmounts();
+              resetBridgeDeposit();
               // For all-success, allow next execute immediately
               setExecuteLocked(false);
             }}
             onCancelBatch={() => {
               cancelDeposit();
+              cancelBridgeDeposit();
               setShowDepositProgress(false);
               setDepositCompletedSuccessfully(false);
             }}
           />
         )}
 
+        {showWithdrawProgress && (
+          <BatchOperationProgress
+            progress={{
+              percentage: withdrawProgress.percentage,
+              totalSteps: withdrawProgress.total,
+              currentStep: withdrawProgress.completed + 1,
+              currentChain: withdrawProgress.currentChain,
+              currentOperation: withdrawProgress.currentOperation,
+              chainStatuses: withdrawResults.map((result) => ({
+                chainId: result.chainId,
+                status:
+                  result.status === "success"
+                    ? "completed"
+                    : result.status === "retrying"
+                    ? "retrying"
+                    : "failed",
+                canRetry:
+                  !isWithdrawing &&
+                  !withdrawProgress.isRetrying &&
+                  (result.status === "cancelled" ||
+                    (result.status === "failed" && !result.userCancelled)) &&
+                  result.error?.isRetryable !== false,
+                error: result.status === "retrying" ? undefined : result.error,
+                withdrawTxHash: result.withdrawTxHash,
+              })),
+              isComplete:
+                !withdrawProgress.isRetrying &&
+                !isWithdrawing &&
+                withdrawResults.length > 0,
+              hasFailures: withdrawResults.some((r) => r.status !== "success"),
+              batchCompletedSuccessfully: withdrawCompletedSuccessfully,
+              isRetrying: withdrawProgress.isRetrying,
+              retryingChainId: withdrawProgress.retryingChainId ?? null,
+            }}
+            tokenSymbol={withdrawToken}
+            onRetryChain={handleRetryWithdrawChain}
+            onRetryAllFailed={handleRetryAllFailedWithdrawals}
+            onDismiss={() => {
+              setShowWithdrawProgress(false);
+            }}
+            onClose={() => {
+              setShowWithdrawProgress(false);
+              setWithdrawCompletedSuccessfully(false);
+              clearWithdrawAmounts();
+              setWithdrawLocked(false);
+            }}
+            onCancelBatch={() => {
+              cancelWithdraw();
+              setShowWithdrawProgress(false);
+              setWithdrawCompletedSuccessfully(false);
+            }}
+          />
+        )}
+
+        {!showWithdrawProgress &&
+          (isWithdrawing ||
+            withdrawProgress.isRetrying ||
+            withdrawResults.length > 0) && (
+            <button
+              onClick={() => setShowWithdrawProgress(true)}
+              className="fixed bottom-20 right-4 z-40 px-4 py-3 shadow-lg border border-teal-500/40 bg-gradient-to-br from-gray-900/95 to-gray-800/90 backdrop-blur-md text-teal-300 hover:text-white hover:from-gray-800 hover:to-gray-700 transition-colors font-mono text-xs uppercase tracking-wide flex items-center gap-3 rounded-lg max-w-[70vw]"
+            >
+              <div className="flex flex-col text-left">
+                <span className="text-[10px] text-gray-400 uppercase tracking-wider">
+                  Batch Withdrawal
+                </span>
+                {isWithdrawing || withdrawProgress.isRetrying ? (
+                  <span>
+                    {Math.round(withdrawProgress.percentage)}% in progress
+                  </span>
+                ) : (
+                  <span>
+                    {withdrawResults.every((r) => r.status === "success")
+                      ? "Completed"
+                      : "Completed (with issues)"}
+                  </span>
+                )}
+              </div>
+            </button>
+          )}
+
         {!showDepositProgress &&
           (isExecuting ||
+            isBridgeDepositRunning ||
             depositProgress.isRetrying ||
-            depositResults.length > 0) && (
+            depositModalProgress.hasResult) && (
             <button
               onClick={() => setShowDepositProgress(true)}
               className="fixed bottom-4 right-4 z-40 px-4 py-3 shadow-lg border border-teal-500/40 bg-gradient-to-br from-gray-900/95 to-gray-800/90 backdrop-blur-md text-teal-300 hover:text-white hover:from-gray-800 hover:to-gray-700 transition-colors font-mono text-xs uppercase tracking-wide flex items-center gap-3 rounded-lg max-w-[70vw]"
@@ -398,13 +898,17 @@ export function Dashboard() {
                 <span className="text-[10px] text-gray-400 uppercase tracking-wider">
                   Batch Operation
                 </span>
-                {isExecuting || depositProgress.isRetrying ? (
+                {isExecuting ||
+                isBridgeDepositRunning ||
+                depositProgress.isRetrying ? (
                   <span>
-                    {Math.round(depositProgress.percentage)}% in progress
+                    {Math.round(depositModalProgress.percentage)}% in progress
                   </span>
                 ) : (
                   <span>
-                    {depositResults.every((r) => r.status === "success")
+                    {depositModalProgress.chainStatuses.every(
+                      (status) => status.status === "completed"
+                    )
                       ? "Completed"
                       : "Completed (with issues)"}
                   </span>
@@ -9,71 +9,111 @@ import {
   SUPPORTED_CHAINS,
   getChainName,
 } from "@/constant/chains";
-import { getUsdc } from "@/constant/tokens";
-import { useChainBalances } from "@/hooks";
+import {
+  getChainsForToken,
+  getToken,
+  SUPPORTED_TOKEN_SYMBOLS,
+  type TokenSymbol,
+} from "@/constant/tokens";
+import { useMultiChainBalances } from "@/hooks";
+import {
+  useGasEstimates,
+  type GasEstimateRequest,
+} from "@/hooks/useGasEstimates";
+import { useApprovalPolicyStore } from "@/stores/approvalPolicyStore";
 import {
   ChainInput,
   DepositTypeModeToggle,
   ChainDropdown,
   DepositSummary,
+  DepositSplitPanel,
+  BatchPreview,
   ExecuteButton,
   DepositTypeHeader,
+  TokenSelector,
 } from "@/components/ui";
-import type { BatchDepositState } from "@/types/ui-state";
+import type { BatchDepositState, DepositSplitStrategy } from "@/types/ui-state";
+import type { BatchSimulationResult } from "@/types/batch-operations";
 
 interface DepositInputProps {
   batchState: BatchDepositState;
   onAmountChange: (chainId: SupportedChainId, amount: string) => void;
   onMaxClick: (chainId: SupportedChainId) => void;
+  // Fill the chains' inputs from one total; returns why it couldn't, or null
+  onSplitTotal?: (
+    total: string,
+    strategy: DepositSplitStrategy,
+    chainIds: SupportedChainId[]
+  ) => string | null;
   onExecuteDeposit: () => void;
+  // Dry-run the batch without signing
+  onPreview?: () => void;
+  isPreviewing?: boolean;
+  previewResults?: BatchSimulationResult[] | null;
   disabled?: boolean;
   isProcessing?: boolean;
   selectedChainId: SupportedChainId;
   canRetryAll?: boolean;
   onRetryAllFailed?: () => void;
   onReset?: () => void;
+  // Chains of a batch a reload interrupted, offered for resume
+  resumableChains?: SupportedChainId[];
+  onResumeBatch?: () => void;
+  onDiscardResume?: () => void;
   executeLocked?: boolean;
+  tokenSymbol?: TokenSymbol;
+  onTokenChange?: (symbol: TokenSymbol) => void;
 }
 
 export function DepositInput({
   batchState,
   onAmountChange,
   onMaxClick,
+  onSplitTotal,
   onExecuteDeposit,
+  onPreview,
+  isPreviewing = false,
+  previewResults,
   disabled = false,
   isProcessing = false,
   selectedChainId,
   canRetryAll,
   onRetryAllFailed,
   onReset,
+  resumableChains = [],
+  onResumeBatch,
+  onDiscardResume,
   executeLocked = false,
+  tokenSymbol = "USDC",
+  onTokenChange,
 }: DepositInputProps) {
   const { address } = useAccount();
   const [isMultiChainMode, setIsMultiChainMode] = useState(false);
   const [activeChains, setActiveChains] = useState<Set<SupportedChainId>>(
     new Set([selectedChainId])
   );
+  const [isSplitMode, setIsSplitMode] = useState(false);
+  const [splitTotal, setSplitTotal] = useState("");
+  const [splitStrategy, setSplitStrategy] =
+    useState<DepositSplitStrategy>("equal");
+  const [splitError, setSplitError] = useState<string | null>(null);
 
   // Get balances for all chains
-  const ethSepoliaBalance = useChainBalances({
-    chainId: SupportedChainId.ETH_SEPOLIA,
-  });
-  const seiTestnetBalance = useChainBalances({
-    chainId: SupportedChainId.SEI_TESTNET,
-  });
+  const { balances } = useMultiChainBalances();
 
-  const chainBalances = {
-    [SupportedChainId.ETH_SEPOLIA]: {
-      data: ethSepoliaBalance.data?.walletBalance,
-      isLoading: ethSepoliaBalance.isLoading,
-      error: ethSepoliaBalance.error,
-    },
-    [SupportedChainId.SEI_TESTNET]: {
-      data: seiTestnetBalance.data?.walletBalance,
-      isLoading: seiTestnetBalance.isLoading,
-      error: seiTestnetBalance.error,
-    },
-  };
+  const chainBalances = Object.fromEntries(
+    SUPPORTED_CHAINS.map((chainId) => [
+      chainId,
+      {
+        data: balances[chainId][tokenSymbol]?.walletBalance,
+        isLoading: balances[chainId][tokenSymbol]?.isLoading ?? false,
+        error: balances[chainId][tokenSymbol]?.error,
+      },
+    ])
+  ) as Record<
+    SupportedChainId,
+    { data?: bigint; isLoading: boolean; error?: Error | null }
+  >;
 
   useEffect(() => {
     if (!isMultiChainMode) {
@@ -81,6 +121,24 @@ export function DepositInput({
     }
   }, [isMultiChainMode, selectedChainId]);
 
+  // A token switch clears the amounts, and the total meant the old token
+  useEffect(() => {
+    setSplitTotal("");
+    setSplitError(null);
+  }, [tokenSymbol]);
+
+  const applySplit = (
+    total: string,
+    strategy: DepositSplitStrategy,
+    chains: Set<SupportedChainId>
+  ) => {
+    if (!onSplitTotal || !total.trim()) {
+      setSplitError(null);
+      return;
+    }
+    setSplitError(onSplitTotal(total, strategy, Array.from(chains)));
+  };
+
   const hasAnyAmount = Array.from(activeChains).some((chainId) => {
     const amount = batchState.inputs[chainId] || "";
     const numericAmount = Number(amount);
@@ -96,20 +154,13 @@ export function DepositInput({
 
   const getTotalAmount = () => {
     try {
+      // Summed at 18 decimals so chains with differing token decimals add up exactly
       const total = Array.from(activeChains)
         .map((chainId) => batchState.inputs[chainId] || "")
         .filter((amount) => amount && Number(amount) > 0)
-        .reduce((sum, amount, index) => {
-          const chainId = Array.from(activeChains)[index];
-          const usdcDecimals = getUsdc(chainId).decimals;
-          const amountInWei = parseUnits(amount, usdcDecimals);
-          return sum + amountInWei;
-        }, 0n);
-
-      // Use decimals from the first active chain (all USDC tokens should have same decimals)
-      const firstChain = Array.from(activeChains)[0];
-      const usdcDecimals = getUsdc(firstChain).decimals;
-      return formatUnits(total, usdcDecimals);
+        .reduce((sum, amount) => sum + parseUnits(amount, 18), 0n);
+
+      return formatUnits(total, 18);
     } catch {
       return "0";
     }
@@ -131,6 +182,23 @@ export function DepositInput({
     });
   };
 
+  const gasEstimateRequests = getActiveChainIds().flatMap(
+    (chainId): GasEstimateRequest[] => {
+      const token = getToken(chainId, tokenSymbol);
+      if (!token) return [];
+      try {
+        const amount = parseUnits(batchState.inputs[chainId], token.decimals);
+        return [{ chainId, tokenAddress: token.address, amount }];
+      } catch {
+        return [];
+      }
+    }
+  );
+  const { estimates: gasEstimates, isLoading: isGasEstimating } =
+    useGasEstimates(gasEstimateRequests);
+  const approvalPolicies = useApprovalPolicyStore((state) => state.policies);
+  const setApprovalPolicy = useApprovalPolicyStore((state) => state.setPolicy);
+
   const getButtonText = () => {
     const activeChains = getActiveChainCount();
     if (isProcessing) {
@@ -153,19 +221,36 @@ export function DepositInput({
   };
 
   const handleAddChain = (chainId: SupportedChainId) => {
-    setActiveChains((prev) => new Set([...prev, chainId]));
+    const next = new Set([...activeChains, chainId]);
+    setActiveChains(next);
+    if (isSplitMode) applySplit(splitTotal, splitStrategy, next);
   };
 
   const handleRemoveChain = (chainId: SupportedChainId) => {
     if (activeChains.size > 1) {
-      setActiveChains((prev) => {
-        const newSet = new Set(prev);
-        newSet.delete(chainId);
-        return newSet;
-      });
+      const newSet = new Set(activeChains);
+      newSet.delete(chainId);
+      setActiveChains(newSet);
       // Clear the amount for the removed chain
       onAmountChange(chainId, "");
+      if (isSplitMode) applySplit(splitTotal, splitStrategy, newSet);
+    }
+  };
+
+  const handleToggleSplit = () => {
+    if (isSplitMode) {
+      setIsSplitMode(false);
+      setSplitError(null);
+      return;
     }
+    // Splitting starts from every chain holding the token
+    const chains = new Set([
+      ...activeChains,
+      ...getChainsForToken(tokenSymbol),
+    ]);
+    setIsSplitMode(true);
+    setActiveChains(chains);
+    applySplit(splitTotal, splitStrategy, chains);
   };
 
   const handleToggleMode = () => {
@@ -173,6 +258,8 @@ export function DepositInput({
     setIsMultiChainMode(newMode);
 
     if (!newMode) {
+      setIsSplitMode(false);
+      setSplitError(null);
       setActiveChains(new Set([selectedChainId]));
       SUPPORTED_CHAINS.forEach((chainId) => {
         if (chainId !== selectedChainId) {
@@ -184,6 +271,33 @@ export function DepositInput({
 
   return (
     <div className="space-y-6">
+      {resumableChains.length > 0 && onResumeBatch && !isProcessing && (
+        <div className="flex items-center justify-between gap-3 p-3 border border-yellow-500/30 bg-yellow-500/10 text-xs text-yellow-200">
+          <span>
+            Resume unfinished batch? The deposit on{" "}
+            {resumableChains.map(getChainName).join(", ")} didn&apos;t finish.
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={onResumeBatch}
+              disabled={disabled}
+              className="px-3 py-1.5 border border-white/10 bg-white/5 uppercase text-white hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Resume
+            </button>
+            {onDiscardResume && (
+              <button
+                onClick={onDiscardResume}
+                disabled={disabled}
+                className="px-3 py-1.5 border border-white/10 uppercase text-gray-300 hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Discard
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Header */}
       <div className="space-y-4">
         <div className="flex flex-col md:flex-row items-start justify-between gap-6">
@@ -191,6 +305,7 @@ export function DepositInput({
             isMultiChainMode={isMultiChainMode}
             selectedChainName={getChainName(selectedChainId)}
             activeChainCount={getActiveChainCount()}
+            tokenLabel={`Deposit ${tokenSymbol}`}
           />
 
           <DepositTypeModeToggle
@@ -201,10 +316,65 @@ export function DepositInput({
           />
         </div>
 
+        {onTokenChange && (
+          <TokenSelector
+            tokens={SUPPORTED_TOKEN_SYMBOLS}
+            selected={tokenSymbol}
+            onSelect={onTokenChange}
+            disabled={disabled}
+            isProcessing={isProcessing}
+          />
+        )}
+
         {isMultiChainMode && (
-          <ChainDropdown
-            availableChains={getAvailableChains()}
-            onAddChain={handleAddChain}
+          <div className="flex items-start gap-2">
+            <div className="flex-1">
+              <ChainDropdown
+                availableChains={getAvailableChains()}
+                onAddChain={handleAddChain}
+                disabled={disabled}
+                isProcessing={isProcessing}
+              />
+            </div>
+            {onSplitTotal && (
+              <button
+                type="button"
+                onClick={handleToggleSplit}
+                disabled={disabled || isProcessing}
+                aria-pressed={isSplitMode}
+                className={cn(
+                  "px-3 py-2 border text-xs font-mono uppercase tracking-wide whitespace-nowrap transition-colors",
+                  "disabled:opacity-50 disabled:cursor-not-allowed",
+                  isSplitMode
+                    ? "border-teal-500/50 bg-teal-500/10 text-teal-400"
+                    : "border-white/10 bg-white/5 text-gray-400 hover:text-white"
+                )}
+              >
+                Split a total
+              </button>
+            )}
+          </div>
+        )}
+
+        {isMultiChainMode && isSplitMode && (
+          <DepositSplitPanel
+            total={splitTotal}
+            strategy={splitStrategy}
+            onTotalChange={(total) => {
+              setSplitTotal(total);
+              applySplit(total, splitStrategy, activeChains);
+            }}
+            onStrategyChange={(strategy) => {
+              setSplitStrategy(strategy);
+              applySplit(splitTotal, strategy, activeChains);
+            }}
+            error={splitError}
+            token={tokenSymbol}
+            tokenDecimals={Math.min(
+              ...Array.from(activeChains).map(
+                (chainId) => getToken(chainId, tokenSymbol)?.decimals ?? 18
+              )
+            )}
             disabled={disabled}
             isProcessing={isProcessing}
           />
@@ -236,6 +406,8 @@ export function DepositInput({
               canRemove={canRemove}
               disabled={disabled}
               isProcessing={isProcessing}
+              token={tokenSymbol}
+              tokenDecimals={getToken(chainId, tokenSymbol)?.decimals}
               isSelected={isSelected}
             />
           );
@@ -246,9 +418,33 @@ export function DepositInput({
         <DepositSummary
           activeChainIds={getActiveChainIds()}
           totalAmount={getTotalAmount()}
+          tokenSymbol={tokenSymbol}
+          gasEstimates={gasEstimates}
+          isGasEstimating={isGasEstimating}
+          approvalPolicies={approvalPolicies}
+          onApprovalPolicyChange={setApprovalPolicy}
         />
       )}
 
+      {previewResults && previewResults.length > 0 && (
+        <BatchPreview results={previewResults} tokenSymbol={tokenSymbol} />
+      )}
+
+      {onPreview && (
+        <button
+          onClick={onPreview}
+          disabled={isButtonDisabled || isPreviewing}
+          className={cn(
+            "w-full p-2 font-mono uppercase tracking-wide border text-xs transition-colors",
+            isButtonDisabled || isPreviewing
+              ? "border-white/5 bg-white/5 text-gray-500 cursor-not-allowed"
+              : "border-white/10 bg-white/5 text-white hover:bg-white/10"
+          )}
+        >
+          {isPreviewing ? "Simulating..." : "Preview (no signing)"}
+        </button>
+      )}
+
       <ExecuteButton
         onClick={onExecuteDeposit}
         disabled={isButtonDisabled}
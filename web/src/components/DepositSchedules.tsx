@@ -0,0 +1,205 @@
+"use client";
+
+import React, { useState } from "react";
+import { useAccount } from "wagmi";
+import { isAddressEqual } from "viem";
+import { CalendarClock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { describeSchedule, SCHEDULE_INTERVALS } from "@/lib/deposit-schedule";
+import { useDepositScheduleStore } from "@/stores/depositScheduleStore";
+import type { TokenSymbol } from "@/constant/tokens";
+import type {
+  DepositSchedule,
+  DepositScheduleChain,
+  DepositScheduleMode,
+} from "@/types/deposit-schedule";
+
+interface DepositSchedulesProps {
+  // The deposit form's current amounts, offered as a new schedule
+  amounts: DepositScheduleChain[];
+  tokenSymbol: TokenSymbol;
+  pendingSchedules: DepositSchedule[];
+  runningScheduleId: string | null;
+  onRunSchedule: (schedule: DepositSchedule) => void;
+  onSkipSchedule: (schedule: DepositSchedule) => void;
+  disabled?: boolean;
+}
+
+const buttonClass =
+  "px-2 py-1 uppercase tracking-wide border border-white/10 bg-white/5 text-teal-400 hover:text-teal-300 hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+function downloadSchedules(schedules: DepositSchedule[]): void {
+  const url = URL.createObjectURL(
+    new Blob([JSON.stringify(schedules, null, 2)], {
+      type: "application/json",
+    })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "argenta-schedules.json";
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function DepositSchedules({
+  amounts,
+  tokenSymbol,
+  pendingSchedules,
+  runningScheduleId,
+  onRunSchedule,
+  onSkipSchedule,
+  disabled = false,
+}: DepositSchedulesProps) {
+  const { address } = useAccount();
+  const allSchedules = useDepositScheduleStore((state) => state.schedules);
+  const addSchedule = useDepositScheduleStore((state) => state.addSchedule);
+  const setEnabled = useDepositScheduleStore((state) => state.setEnabled);
+  const removeSchedule = useDepositScheduleStore(
+    (state) => state.removeSchedule
+  );
+
+  const [intervalMs, setIntervalMs] = useState<number>(
+    SCHEDULE_INTERVALS[1].intervalMs
+  );
+  const [mode, setMode] = useState<DepositScheduleMode>("prompt");
+
+  if (!address) return null;
+  const schedules = allSchedules.filter((schedule) =>
+    isAddressEqual(schedule.account, address)
+  );
+
+  const handleCreate = () => {
+    addSchedule({
+      account: address,
+      tokenSymbol,
+      chains: amounts,
+      intervalMs,
+      // The first run is one interval out; deposit now by hand if needed
+      nextRunAt: Date.now() + intervalMs,
+      mode,
+    });
+  };
+
+  return (
+    <div className="border border-white/10 bg-black/10 p-4 space-y-3 font-mono text-xs">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 text-gray-400 uppercase tracking-wide">
+          <CalendarClock size={14} className="text-teal-300" />
+          Recurring deposits
+        </span>
+        {schedules.length > 0 && (
+          <button
+            onClick={() => downloadSchedules(schedules)}
+            className={buttonClass}
+            title="Export for `argenta schedule`"
+          >
+            Export
+          </button>
+        )}
+      </div>
+
+      {pendingSchedules.map((schedule) => (
+        <div
+          key={schedule.id}
+          className="border border-yellow-500/30 bg-yellow-500/5 p-2 space-y-2"
+        >
+          <div className="text-yellow-300">
+            Scheduled deposit due: {describeSchedule(schedule)}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => onRunSchedule(schedule)}
+              disabled={disabled || runningScheduleId !== null}
+              className={buttonClass}
+            >
+              {runningScheduleId === schedule.id ? "Running..." : "Run now"}
+            </button>
+            <button
+              onClick={() => onSkipSchedule(schedule)}
+              disabled={runningScheduleId === schedule.id}
+              className={buttonClass}
+            >
+              Skip
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {schedules.map((schedule) => (
+        <div
+          key={schedule.id}
+          className="flex items-start justify-between gap-3 border-t border-white/5 pt-2"
+        >
+          <div className={cn("space-y-0.5", !schedule.enabled && "opacity-50")}>
+            <div className="text-white">{describeSchedule(schedule)}</div>
+            <div className="text-gray-500">
+              {SCHEDULE_INTERVALS.find(
+                (preset) => preset.intervalMs === schedule.intervalMs
+              )?.label ?? `Every ${schedule.intervalMs / 3_600_000}h`}{" "}
+              · {schedule.mode === "auto" ? "automatic" : "ask first"} · next{" "}
+              {new Date(schedule.nextRunAt).toLocaleString()}
+            </div>
+            {schedule.lastRun && (
+              <div
+                className={cn(
+                  schedule.lastRun.status === "success"
+                    ? "text-green-400"
+                    : schedule.lastRun.status === "partial"
+                    ? "text-yellow-400"
+                    : "text-red-400"
+                )}
+              >
+                Last run {new Date(schedule.lastRun.ranAt).toLocaleString()}:{" "}
+                {schedule.lastRun.status}
+              </div>
+            )}
+          </div>
+          <div className="flex gap-2 flex-shrink-0">
+            <button
+              onClick={() => setEnabled(schedule.id, !schedule.enabled)}
+              className={buttonClass}
+            >
+              {schedule.enabled ? "Pause" : "Resume"}
+            </button>
+            <button
+              onClick={() => removeSchedule(schedule.id)}
+              disabled={runningScheduleId === schedule.id}
+              className={buttonClass}
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-2 border-t border-white/5 pt-3">
+        <select
+          value={intervalMs}
+          onChange={(e) => setIntervalMs(Number(e.target.value))}
+          className="bg-white/5 border border-white/10 px-2 py-1 text-white"
+        >
+          {SCHEDULE_INTERVALS.map(({ label, intervalMs: value }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as DepositScheduleMode)}
+          className="bg-white/5 border border-white/10 px-2 py-1 text-white"
+        >
+          <option value="prompt">Ask first</option>
+          <option value="auto">Run automatically</option>
+        </select>
+        <button
+          onClick={handleCreate}
+          disabled={amounts.length === 0}
+          className={buttonClass}
+        >
+          Schedule current amounts
+        </button>
+      </div>
+    </div>
+  );
+}
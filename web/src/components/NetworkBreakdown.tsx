@@ -1,19 +1,18 @@
 "use client";
 
-import { SupportedChainId, getChainName } from "@/constant/chains";
+import { SUPPORTED_CHAINS, getChainName } from "@/constant/chains";
 import { NetworkBalanceCard } from "./NetworkBalanceCard";
 
 export function NetworkBreakdown() {
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-      <NetworkBalanceCard
-        chainId={SupportedChainId.ETH_SEPOLIA}
-        chainName={getChainName(SupportedChainId.ETH_SEPOLIA)}
-      />
-      <NetworkBalanceCard
-        chainId={SupportedChainId.SEI_TESTNET}
-        chainName={getChainName(SupportedChainId.SEI_TESTNET)}
-      />
+      {SUPPORTED_CHAINS.map((chainId) => (
+        <NetworkBalanceCard
+          key={chainId}
+          chainId={chainId}
+          chainName={getChainName(chainId)}
+        />
+      ))}
     </div>
   );
 }
@@ -50,11 +50,39 @@ export function OperationTabs({
               "data-[selected]:bg-teal-500/10 data-[selected]:text-teal-400",
               "focus-visible:bg-teal-500/5",
               activeTab === OPERATION_TYPES.WITHDRAW
+                ? "text-teal-400 border-r border-teal-500/50"
+                : "text-gray-400 border-r border-white/10"
+            )}
+          >
+            {OPERATION_TYPES.WITHDRAW}
+          </Tabs.Tab>
+          <Tabs.Tab
+            value={OPERATION_TYPES.BRIDGE}
+            className={cn(
+              "flex-1 px-4 py-2 text-sm font-mono transition-colors outline-none",
+              "hover:text-white",
+              "data-[selected]:bg-teal-500/10 data-[selected]:text-teal-400",
+              "focus-visible:bg-teal-500/5",
+              activeTab === OPERATION_TYPES.BRIDGE
+                ? "text-teal-400 border-r border-teal-500/50"
+                : "text-gray-400 border-r border-white/10"
+            )}
+          >
+            {OPERATION_TYPES.BRIDGE}
+          </Tabs.Tab>
+          <Tabs.Tab
+            value={OPERATION_TYPES.REBALANCE}
+            className={cn(
+              "flex-1 px-4 py-2 text-sm font-mono transition-colors outline-none",
+              "hover:text-white",
+              "data-[selected]:bg-teal-500/10 data-[selected]:text-teal-400",
+              "focus-visible:bg-teal-500/5",
+              activeTab === OPERATION_TYPES.REBALANCE
                 ? "text-teal-400"
                 : "text-gray-400"
             )}
           >
-            {OPERATION_TYPES.WITHDRAW}
+            {OPERATION_TYPES.REBALANCE}
           </Tabs.Tab>
           <Tabs.Indicator className="absolute inset-y-0 z-[-1] transition-all duration-200 ease-out bg-teal-500/10 data-[orientation=horizontal]:w-[var(--active-tab-width)] data-[orientation=horizontal]:translate-x-[var(--active-tab-left)]" />
         </Tabs.List>
@@ -67,6 +95,12 @@ export function OperationTabs({
         <Tabs.Panel value={OPERATION_TYPES.WITHDRAW} className="outline-none">
           {children}
         </Tabs.Panel>
+        <Tabs.Panel value={OPERATION_TYPES.BRIDGE} className="outline-none">
+          {children}
+        </Tabs.Panel>
+        <Tabs.Panel value={OPERATION_TYPES.REBALANCE} className="outline-none">
+          {children}
+        </Tabs.Panel>
       </div>
     </Tabs.Root>
   );
@@ -40,6 +40,7 @@ export function PortfolioSummary() {
             </div>
             <BalanceAmount
               balance={portfolioTotals.totalPortfolio}
+              decimals={portfolioTotals.decimals}
               isLoading={false}
               error={null}
               token="USDC"
@@ -58,6 +59,7 @@ export function PortfolioSummary() {
             <div className="flex items-baseline gap-1">
               <BalanceAmount
                 balance={portfolioTotals.totalVault}
+                decimals={portfolioTotals.decimals}
                 isLoading={false}
                 error={null}
                 token="USDC"
@@ -76,6 +78,7 @@ export function PortfolioSummary() {
             <div className="flex items-baseline gap-1">
               <BalanceAmount
                 balance={portfolioTotals.totalWallet}
+                decimals={portfolioTotals.decimals}
                 isLoading={false}
                 error={null}
                 token="USDC"
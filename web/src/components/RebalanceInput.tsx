@@ -0,0 +1,387 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { formatUnits } from "viem";
+import { getChainName, SupportedChainId } from "@/constant/chains";
+import { DEFAULT_BRIDGE_CONFIG } from "@/constant/batch-operation-constants";
+import {
+  getToken,
+  SUPPORTED_TOKEN_SYMBOLS,
+  type TokenSymbol,
+} from "@/constant/tokens";
+import { formatBalance } from "@/lib/format";
+import {
+  getEqualTargets,
+  getRebalanceChains,
+  isEmptyRebalancePlan,
+  planRebalance,
+} from "@/lib/rebalance";
+import { cn } from "@/lib/utils";
+import { useMultiChainBalances } from "@/hooks/useMultiChainBalances";
+import { usePortfolioTotals } from "@/hooks/usePortfolioTotals";
+import type { UseRebalanceReturn } from "@/hooks/useRebalance";
+import type {
+  RebalanceFunding,
+  RebalancePlan,
+  RebalanceStage,
+  RebalanceTargets,
+} from "@/types/rebalance";
+import {
+  Alert,
+  ExecuteButton,
+  TokenSelector,
+  TransactionProgress,
+} from "@/components/ui";
+
+const STAGE_LABELS: Record<RebalanceStage, string> = {
+  withdrawing: "Withdrawing surplus from vaults",
+  bridging: "Bridging and depositing",
+  depositing: "Depositing from wallets",
+};
+
+const USDC_DECIMALS = 6;
+
+interface RebalanceInputProps {
+  onRebalance: (plan: RebalancePlan) => void;
+  onCancel: () => void;
+  onReset: () => void;
+  isRunning: boolean;
+  stage: UseRebalanceReturn["stage"];
+  result: UseRebalanceReturn["result"];
+  error: string | null;
+  progress: UseRebalanceReturn["progress"];
+  // Another deposit, withdrawal or bridge is in flight
+  disabled?: boolean;
+}
+
+function toTargetInputs(targets: RebalanceTargets): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(targets).map(([chainId, percent]) => [
+      chainId,
+      String(percent),
+    ])
+  );
+}
+
+export function RebalanceInput({
+  onRebalance,
+  onCancel,
+  onReset,
+  isRunning,
+  stage,
+  result,
+  error,
+  progress,
+  disabled = false,
+}: RebalanceInputProps) {
+  const [tokenSymbol, setTokenSymbol] = useState<TokenSymbol>("USDC");
+  const [funding, setFunding] = useState<RebalanceFunding>("bridge");
+  const chainIds = useMemo(
+    () => getRebalanceChains(tokenSymbol, funding),
+    [tokenSymbol, funding]
+  );
+  const [targetInputs, setTargetInputs] = useState<Record<string, string>>(() =>
+    toTargetInputs(getEqualTargets(chainIds))
+  );
+
+  const { balances, isLoading } = useMultiChainBalances();
+  const { byToken } = usePortfolioTotals();
+
+  const handleScopeChange = (
+    nextToken: TokenSymbol,
+    nextFunding: RebalanceFunding
+  ) => {
+    // CCTP only moves USDC
+    const fundingForToken = nextToken === "USDC" ? nextFunding : "wallet";
+    setTokenSymbol(nextToken);
+    setFunding(fundingForToken);
+    setTargetInputs(
+      toTargetInputs(
+        getEqualTargets(getRebalanceChains(nextToken, fundingForToken))
+      )
+    );
+  };
+
+  const { plan, planError } = useMemo(() => {
+    const targets: RebalanceTargets = {};
+    const vaultBalances: Partial<Record<SupportedChainId, bigint>> = {};
+    const walletBalances: Partial<Record<SupportedChainId, bigint>> = {};
+    for (const chainId of chainIds) {
+      const input = targetInputs[chainId]?.trim();
+      targets[chainId] = input ? Number(input) : 0;
+      const balance = balances[chainId]?.[tokenSymbol];
+      vaultBalances[chainId] = balance?.vaultBalance ?? 0n;
+      walletBalances[chainId] = balance?.walletBalance ?? 0n;
+    }
+    try {
+      return {
+        plan: planRebalance({
+          tokenSymbol,
+          funding,
+          targets,
+          vaultBalances,
+          walletBalances,
+        }),
+        planError: null,
+      };
+    } catch (error) {
+      return {
+        plan: null,
+        planError: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }, [chainIds, targetInputs, balances, tokenSymbol, funding]);
+
+  // A token has the same decimals on every chain it is registered on
+  const decimals = getToken(chainIds[0], tokenSymbol)?.decimals ?? 6;
+  const format = (amount: bigint) => formatBalance(amount, decimals);
+
+  // Planning against a balance that failed to load would move the wrong amount
+  const balancesKnown = chainIds.every((chainId) => {
+    const balance = balances[chainId]?.[tokenSymbol];
+    return (
+      balance?.vaultBalance !== undefined &&
+      balance?.walletBalance !== undefined
+    );
+  });
+
+  const isEmpty = !plan || isEmptyRebalancePlan(plan);
+  const canRebalance = !isRunning && !disabled && balancesKnown && !isEmpty;
+  const hasStarted = isRunning || result !== null;
+  const tokenTotals = byToken[tokenSymbol];
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-1">
+        <div className="text-sm font-medium text-white">Rebalance vaults</div>
+        <div className="text-xs text-gray-400">
+          Set the share of your {tokenSymbol} vault balance each chain should
+          hold. Chains above their target are withdrawn from; chains below are
+          topped up by bridging the surplus with CCTP or from the chain&apos;s
+          own wallet.
+        </div>
+      </div>
+
+      <TokenSelector
+        tokens={SUPPORTED_TOKEN_SYMBOLS}
+        selected={tokenSymbol}
+        onSelect={(symbol) => handleScopeChange(symbol, funding)}
+        disabled={disabled}
+        isProcessing={isRunning}
+      />
+
+      <div className="flex gap-2 text-xs font-mono">
+        {(["bridge", "wallet"] as const).map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => handleScopeChange(tokenSymbol, option)}
+            disabled={
+              isRunning || (option === "bridge" && tokenSymbol !== "USDC")
+            }
+            className={cn(
+              "flex-1 px-3 py-2 border uppercase tracking-wide transition-colors disabled:opacity-50 disabled:cursor-not-allowed",
+              funding === option
+                ? "border-teal-500/50 bg-teal-500/10 text-teal-400"
+                : "border-white/10 bg-white/5 text-gray-400 hover:text-white"
+            )}
+          >
+            {option === "bridge" ? "Bridge surplus" : "Use wallets"}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2 font-mono text-xs">
+        <div className="flex justify-between text-gray-400 uppercase tracking-wide">
+          <span>Target allocation</span>
+          <button
+            type="button"
+            onClick={() =>
+              setTargetInputs(toTargetInputs(getEqualTargets(chainIds)))
+            }
+            disabled={isRunning}
+            className="text-teal-400 hover:text-teal-300 uppercase"
+          >
+            Even split
+          </button>
+        </div>
+        {chainIds.map((chainId) => {
+          const allocation = plan?.allocations.find(
+            (entry) => entry.chainId === chainId
+          );
+          return (
+            <div
+              key={chainId}
+              className="flex items-center justify-between gap-3 p-2 border border-white/10"
+            >
+              <div className="space-y-0.5">
+                <div className="text-white">{getChainName(chainId)}</div>
+                <div className="text-gray-500">
+                  {allocation
+                    ? `${format(allocation.current)} (${
+                        allocation.currentPercent
+                      }%) → ${format(allocation.target)}`
+                    : "—"}
+                </div>
+              </div>
+              <label className="flex items-center gap-1">
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={targetInputs[chainId] ?? ""}
+                  onChange={(e) =>
+                    setTargetInputs((prev) => ({
+                      ...prev,
+                      [chainId]: e.target.value,
+                    }))
+                  }
+                  disabled={isRunning}
+                  className="w-16 bg-white/5 border border-white/10 px-2 py-1 text-right text-white"
+                  aria-label={`${getChainName(chainId)} target percent`}
+                />
+                %
+              </label>
+            </div>
+          );
+        })}
+        {tokenTotals && (
+          <div className="text-gray-500 text-right">
+            Vault total{" "}
+            {formatBalance(tokenTotals.totalVault, tokenTotals.decimals)}{" "}
+            {tokenSymbol}
+          </div>
+        )}
+      </div>
+
+      {planError && <Alert type="error" message={planError} />}
+
+      {plan && !isEmpty && (
+        <div className="space-y-2 p-3 border border-white/10 font-mono text-xs">
+          <div className="text-gray-400 uppercase tracking-wide">Plan</div>
+          {plan.withdrawals.map(({ chainId, amountWei }) => (
+            <div key={`withdraw-${chainId}`} className="text-gray-300">
+              Withdraw {format(amountWei)} {tokenSymbol} from{" "}
+              {getChainName(chainId)}
+            </div>
+          ))}
+          {plan.bridges.map((request) => (
+            <div
+              key={`bridge-${request.sourceChainId}-${request.destinationChainId}`}
+              className="text-gray-300"
+            >
+              Bridge {request.amount} USDC {getChainName(request.sourceChainId)}{" "}
+              → {getChainName(request.destinationChainId)} and deposit it
+            </div>
+          ))}
+          {plan.deposits.map(({ chainId, amountWei }) => (
+            <div key={`deposit-${chainId}`} className="text-gray-300">
+              Deposit {format(amountWei)} {tokenSymbol} from the{" "}
+              {getChainName(chainId)} wallet
+            </div>
+          ))}
+          {plan.bridges.length > 0 && (
+            <div className="text-gray-500">
+              Each bridge deposits what is minted, up to{" "}
+              {formatUnits(DEFAULT_BRIDGE_CONFIG.maxFee, USDC_DECIMALS)} USDC
+              less than sent
+            </div>
+          )}
+        </div>
+      )}
+
+      {plan?.shortfalls.map(({ chainId, missing }) => (
+        <Alert
+          key={chainId}
+          type="warning"
+          message={`${getChainName(chainId)} wallet is ${format(
+            missing
+          )} ${tokenSymbol} short of its target; the plan deposits what is there`}
+        />
+      ))}
+
+      {!balancesKnown && !isLoading && (
+        <Alert
+          type="warning"
+          message={`Couldn't read every ${tokenSymbol} balance; rebalancing waits until they load`}
+        />
+      )}
+
+      {plan && isEmpty && balancesKnown && (
+        <Alert
+          type="info"
+          message="Vault balances already match these targets"
+        />
+      )}
+
+      {hasStarted && (
+        <div className="space-y-3 p-3 border border-white/10 font-mono text-sm">
+          <TransactionProgress
+            progress={{
+              stepNumber: result
+                ? progress.total
+                : Math.min(progress.completed + 1, progress.total),
+              totalSteps: progress.total,
+              percentage: String(progress.percentage),
+              currentStepLabel: result
+                ? result.status === "success"
+                  ? "Rebalance complete"
+                  : result.status === "partial"
+                  ? "Rebalance stopped part way"
+                  : result.status === "cancelled"
+                  ? "Rebalance cancelled"
+                  : "Rebalance failed"
+                : stage
+                ? `${STAGE_LABELS[stage.stage]}${
+                    stage.chainId ? ` (${getChainName(stage.chainId)})` : ""
+                  }`
+                : undefined,
+            }}
+            status={
+              !result
+                ? "pending"
+                : result.status === "success"
+                ? "success"
+                : "error"
+            }
+          />
+        </div>
+      )}
+
+      {error && <Alert type="error" message={error} />}
+
+      <div className="flex gap-2">
+        <div className="flex-1">
+          <ExecuteButton
+            onClick={() => plan && onRebalance(plan)}
+            disabled={!canRebalance}
+            isProcessing={isRunning}
+            text={
+              isRunning
+                ? "Rebalancing..."
+                : isEmpty
+                ? "Nothing to Rebalance"
+                : "Rebalance"
+            }
+          />
+        </div>
+        {isRunning && (
+          <button
+            onClick={onCancel}
+            className="px-4 border border-white/10 bg-white/5 text-xs uppercase text-gray-300 hover:bg-white/10"
+            title="Stop after the current step"
+          >
+            Cancel
+          </button>
+        )}
+        {!isRunning && result && (
+          <button
+            onClick={onReset}
+            className="px-4 border border-white/10 bg-white/5 text-xs uppercase text-gray-300 hover:bg-white/10"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
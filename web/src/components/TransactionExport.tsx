@@ -0,0 +1,115 @@
+"use client";
+
+import React, { useState } from "react";
+import { Download } from "lucide-react";
+import {
+  buildExportRows,
+  downloadExport,
+  type ExportFormat,
+} from "@/lib/transaction-export";
+import { createComponentLogger } from "@/lib/logger";
+import type { Transaction } from "@/stores/transactionStore";
+
+const logger = createComponentLogger("TransactionExport");
+
+const DEFAULT_RANGE_DAYS = 30;
+
+interface TransactionExportProps {
+  getTransactionsInRange: (from: number, to: number) => Promise<Transaction[]>;
+}
+
+function toDateInput(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+}
+
+export function TransactionExport({
+  getTransactionsInRange,
+}: TransactionExportProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [fromDate, setFromDate] = useState(() =>
+    toDateInput(new Date(Date.now() - DEFAULT_RANGE_DAYS * 86_400_000))
+  );
+  const [toDate, setToDate] = useState(() => toDateInput(new Date()));
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    // Whole local days, both ends inclusive
+    const from = new Date(`${fromDate}T00:00:00`).getTime();
+    const to = new Date(`${toDate}T23:59:59.999`).getTime();
+    if (Number.isNaN(from) || Number.isNaN(to) || from > to) {
+      setError("Invalid date range");
+      return;
+    }
+
+    setExporting(format);
+    setError(null);
+    try {
+      const transactions = await getTransactionsInRange(from, to);
+      const rows = await buildExportRows(transactions, { from, to });
+      downloadExport(rows, format, { from, to });
+    } catch (err) {
+      logger.error("Export failed", err);
+      setError("Export failed, please try again");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="inline-flex items-center justify-center size-7 border border-teal-500/40 hover:border-teal-300/70 bg-gradient-to-br from-teal-500/10 to-purple-700/10 hover:from-teal-400/20 hover:to-purple-600/20 transition-colors"
+        aria-label="Export"
+        title="Export"
+      >
+        <Download size={16} className="text-teal-300" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-64 p-3 space-y-3 border border-white/10 bg-gray-900/95 backdrop-blur-md font-mono text-xs">
+          <div className="text-gray-400 uppercase tracking-wide">
+            Export history
+          </div>
+          <label className="flex items-center justify-between gap-2 text-gray-300">
+            FROM
+            <input
+              type="date"
+              value={fromDate}
+              max={toDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="bg-white/5 border border-white/10 px-2 py-1 text-white"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2 text-gray-300">
+            TO
+            <input
+              type="date"
+              value={toDate}
+              min={fromDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="bg-white/5 border border-white/10 px-2 py-1 text-white"
+            />
+          </label>
+          {error && <div className="text-red-400">{error}</div>}
+          <div className="flex gap-2">
+            {(["csv", "json"] as const).map((format) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={exporting !== null}
+                className="flex-1 py-1.5 uppercase tracking-wide border border-white/10 bg-white/5 text-teal-400 hover:text-teal-300 hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {exporting === format ? "..." : format}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,15 +2,26 @@
 
 import React from "react";
 import { useAccount } from "wagmi";
-import { useVaultTransactions } from "@/hooks/useVaultTransactions";
+import { useTransactionHistory } from "@/hooks/useTransactionHistory";
 import { TransactionItem } from "./ui/TransactionItem";
 import { TransactionListSkeleton } from "./ui/TransactionListSkeleton";
 import { RefreshCw } from "lucide-react";
 import { EmptyTransactionState } from "./ui/EmptyTransactionState";
+import { TransactionExport } from "./TransactionExport";
+import { getChainName } from "@/constant/chains";
 
 export function TransactionHistory() {
-  const { transactions, isLoading, refetch, hasTransactions } =
-    useVaultTransactions();
+  const {
+    transactions,
+    isLoading,
+    refetch,
+    hasTransactions,
+    hasMore,
+    scanning,
+    loadMore,
+    isLoadingMore,
+    getTransactionsInRange,
+  } = useTransactionHistory();
 
   if (isLoading && !hasTransactions) {
     return <TransactionListSkeleton />;
@@ -26,42 +37,73 @@ export function TransactionHistory() {
         <div className="text-sm font-medium text-white">
           RECENT ACTIVITY [{transactions.length}]
         </div>
-        <button
-          onClick={() => refetch()}
-          disabled={isLoading}
-          className="inline-flex items-center justify-center size-7 border border-teal-500/40 hover:border-teal-300/70 disabled:opacity-40 disabled:cursor-not-allowed bg-gradient-to-br from-teal-500/10 to-purple-700/10 hover:from-teal-400/20 hover:to-purple-600/20 transition-colors group"
-          aria-label="Refresh"
-          title="Refresh"
-        >
-          <RefreshCw
-            size={16}
-            className={`text-teal-300 ${
-              isLoading
-                ? "animate-spin"
-                : "group-hover:rotate-45 transition-transform"
-            }`}
-          />
-        </button>
+        <div className="flex items-center gap-2">
+          <TransactionExport getTransactionsInRange={getTransactionsInRange} />
+          <button
+            onClick={() => refetch()}
+            disabled={isLoading}
+            className="inline-flex items-center justify-center size-7 border border-teal-500/40 hover:border-teal-300/70 disabled:opacity-40 disabled:cursor-not-allowed bg-gradient-to-br from-teal-500/10 to-purple-700/10 hover:from-teal-400/20 hover:to-purple-600/20 transition-colors group"
+            aria-label="Refresh"
+            title="Refresh"
+          >
+            <RefreshCw
+              size={16}
+              className={`text-teal-300 ${
+                isLoading
+                  ? "animate-spin"
+                  : "group-hover:rotate-45 transition-transform"
+              }`}
+            />
+          </button>
+        </div>
       </div>
 
       <div className="space-y-2">
-        {transactions.map((tx) => (
-          <TransactionItem
-            key={tx.hash}
-            id={tx.hash}
-            hash={tx.hash}
-            type={tx.type}
-            status="confirmed"
-            amount={tx.amount}
-            tokenSymbol={tx.tokenSymbol}
-            chainId={tx.chainId}
-            timestamp={tx.timestamp}
-            blockNumber={tx.blockNumber}
-            from={tx.from}
-            to={tx.to}
-          />
+        {transactions.map((tx, index) => (
+          <React.Fragment key={tx.id}>
+            {/* Older entries of a chain still being scanned stop here */}
+            {scanning
+              .filter(
+                ({ coveredFromTimestamp }) =>
+                  coveredFromTimestamp > tx.timestamp &&
+                  (index === 0 ||
+                    coveredFromTimestamp <= transactions[index - 1].timestamp)
+              )
+              .map(({ chainId }) => (
+                <div
+                  key={chainId}
+                  className="py-1 text-center text-xs text-gray-500 border-y border-dashed border-white/10"
+                >
+                  Scanning older {getChainName(chainId)} blocks. Load more to
+                  fill in earlier activity
+                </div>
+              ))}
+            <TransactionItem
+              id={tx.id}
+              hash={tx.hash}
+              type={tx.type}
+              status={tx.status}
+              amount={tx.amount}
+              tokenSymbol={tx.tokenSymbol}
+              chainId={tx.chainId}
+              timestamp={tx.timestamp}
+              blockNumber={tx.blockNumber}
+              from={tx.from}
+              to={tx.to}
+            />
+          </React.Fragment>
         ))}
       </div>
+
+      {hasMore && (
+        <button
+          onClick={() => loadMore()}
+          disabled={isLoadingMore}
+          className="w-full py-2 text-xs uppercase tracking-wide border border-white/10 bg-white/5 text-teal-400 hover:text-teal-300 hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isLoadingMore ? "Loading..." : "Load More"}
+        </button>
+      )}
     </div>
   );
 }
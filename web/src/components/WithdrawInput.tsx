@@ -0,0 +1,255 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { cn } from "@/lib/utils";
+import {
+  SupportedChainId,
+  SUPPORTED_CHAINS,
+  getChainName,
+} from "@/constant/chains";
+import {
+  ChainInput,
+  DepositTypeModeToggle,
+  ChainDropdown,
+  DepositSummary,
+  ExecuteButton,
+  DepositTypeHeader,
+  TokenSelector,
+} from "@/components/ui";
+import {
+  getToken,
+  SUPPORTED_TOKEN_SYMBOLS,
+  type TokenSymbol,
+} from "@/constant/tokens";
+import type { BatchWithdrawState } from "@/types/ui-state";
+
+interface WithdrawInputProps {
+  batchState: BatchWithdrawState;
+  vaultBalances: Record<
+    SupportedChainId,
+    { data?: bigint; isLoading: boolean; error?: Error | null }
+  >;
+  onAmountChange: (chainId: SupportedChainId, amount: string) => void;
+  onMaxClick: (chainId: SupportedChainId) => void;
+  onExecuteWithdraw: () => void;
+  disabled?: boolean;
+  isProcessing?: boolean;
+  selectedChainId: SupportedChainId;
+  canRetryAll?: boolean;
+  onRetryAllFailed?: () => void;
+  onReset?: () => void;
+  executeLocked?: boolean;
+  tokenSymbol?: TokenSymbol;
+  onTokenChange?: (symbol: TokenSymbol) => void;
+}
+
+export function WithdrawInput({
+  batchState,
+  vaultBalances,
+  onAmountChange,
+  onMaxClick,
+  onExecuteWithdraw,
+  disabled = false,
+  isProcessing = false,
+  selectedChainId,
+  canRetryAll,
+  onRetryAllFailed,
+  onReset,
+  executeLocked = false,
+  tokenSymbol = "USDC",
+  onTokenChange,
+}: WithdrawInputProps) {
+  const [isMultiChainMode, setIsMultiChainMode] = useState(false);
+  const [activeChains, setActiveChains] = useState<Set<SupportedChainId>>(
+    new Set([selectedChainId])
+  );
+
+  useEffect(() => {
+    if (!isMultiChainMode) {
+      setActiveChains(new Set([selectedChainId]));
+    }
+  }, [isMultiChainMode, selectedChainId]);
+
+  const getActiveChainIds = () => {
+    return Array.from(activeChains).filter((chainId) => {
+      const amount = batchState.inputs[chainId] || "";
+      const numericAmount = Number(amount);
+      return amount && Number.isFinite(numericAmount) && numericAmount > 0;
+    });
+  };
+
+  const activeChainCount = getActiveChainIds().length;
+  const hasAnyAmount = activeChainCount > 0;
+
+  const isButtonDisabled =
+    !hasAnyAmount ||
+    !batchState.isValid ||
+    disabled ||
+    isProcessing ||
+    executeLocked;
+
+  const getButtonText = () => {
+    if (isProcessing) {
+      return activeChainCount > 1
+        ? "Processing Multi-Chain Withdrawal..."
+        : "Processing Withdrawal...";
+    }
+
+    if (activeChainCount === 0) {
+      return "Enter Amount to Withdraw";
+    } else if (activeChainCount === 1) {
+      return "Execute Withdrawal";
+    } else {
+      return `Execute Multi-Chain Withdrawal (${activeChainCount} chains)`;
+    }
+  };
+
+  const handleRemoveChain = (chainId: SupportedChainId) => {
+    if (activeChains.size > 1) {
+      setActiveChains((prev) => {
+        const newSet = new Set(prev);
+        newSet.delete(chainId);
+        return newSet;
+      });
+      onAmountChange(chainId, "");
+    }
+  };
+
+  const handleToggleMode = () => {
+    const newMode = !isMultiChainMode;
+    setIsMultiChainMode(newMode);
+
+    if (!newMode) {
+      setActiveChains(new Set([selectedChainId]));
+      SUPPORTED_CHAINS.forEach((chainId) => {
+        if (chainId !== selectedChainId) {
+          onAmountChange(chainId, "");
+        }
+      });
+    }
+  };
+
+  const showReset = Boolean(
+    onReset && (hasAnyAmount || isProcessing || executeLocked || canRetryAll)
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <div className="flex flex-col md:flex-row items-start justify-between gap-6">
+          <DepositTypeHeader
+            isMultiChainMode={isMultiChainMode}
+            selectedChainName={getChainName(selectedChainId)}
+            activeChainCount={activeChainCount}
+            tokenLabel={`Withdraw ${tokenSymbol}`}
+            multiChainDescription="Set amounts per chain below. Withdrawals execute sequentially in one flow."
+          />
+
+          <DepositTypeModeToggle
+            isMultiChainMode={isMultiChainMode}
+            onToggle={handleToggleMode}
+            disabled={disabled}
+            isProcessing={isProcessing}
+          />
+        </div>
+
+        {onTokenChange && (
+          <TokenSelector
+            tokens={SUPPORTED_TOKEN_SYMBOLS}
+            selected={tokenSymbol}
+            onSelect={onTokenChange}
+            disabled={disabled}
+            isProcessing={isProcessing}
+          />
+        )}
+
+        {isMultiChainMode && (
+          <ChainDropdown
+            availableChains={SUPPORTED_CHAINS.filter(
+              (chainId) => !activeChains.has(chainId)
+            )}
+            onAddChain={(chainId) =>
+              setActiveChains((prev) => new Set([...prev, chainId]))
+            }
+            disabled={disabled}
+            isProcessing={isProcessing}
+          />
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {Array.from(activeChains).map((chainId) => {
+          const canRemove = isMultiChainMode && activeChains.size > 1;
+
+          return (
+            <ChainInput
+              key={chainId}
+              chainId={chainId}
+              amount={batchState.inputs[chainId] || ""}
+              errors={batchState.errors[chainId] || []}
+              warnings={batchState.warnings[chainId] || []}
+              balance={vaultBalances[chainId]}
+              label="Withdraw Amount"
+              onAmountChange={(amount) => onAmountChange(chainId, amount)}
+              onMaxClick={() => onMaxClick(chainId)}
+              onRemove={
+                canRemove ? () => handleRemoveChain(chainId) : undefined
+              }
+              canRemove={canRemove}
+              disabled={disabled}
+              isProcessing={isProcessing}
+              token={tokenSymbol}
+              tokenDecimals={getToken(chainId, tokenSymbol)?.decimals}
+              isSelected={!isMultiChainMode && chainId === selectedChainId}
+            />
+          );
+        })}
+      </div>
+
+      {hasAnyAmount && (
+        <DepositSummary
+          activeChainIds={getActiveChainIds()}
+          totalAmount={batchState.totalAmount}
+          transactionsPerChain={1}
+          transactionsLabel="WITHDRAW PER CHAIN"
+          tokenSymbol={tokenSymbol}
+        />
+      )}
+
+      <ExecuteButton
+        onClick={onExecuteWithdraw}
+        disabled={isButtonDisabled}
+        isProcessing={isProcessing}
+        text={getButtonText()}
+      />
+
+      {(canRetryAll || showReset) && (
+        <div className="flex gap-3">
+          {canRetryAll && onRetryAllFailed && (
+            <button
+              onClick={onRetryAllFailed}
+              disabled={isProcessing}
+              className={cn(
+                "flex-1 p-3 font-mono uppercase tracking-wide border whitespace-nowrap transition-colors",
+                isProcessing
+                  ? "bg-gray-700 text-gray-300 cursor-not-allowed border-gray-700"
+                  : "bg-gradient-to-br from-teal-500/90 to-teal-600/90 border-teal-500/60 text-white hover:from-teal-500 hover:to-teal-600"
+              )}
+            >
+              {isProcessing ? "Retrying..." : "Retry All Failed"}
+            </button>
+          )}
+          {showReset && onReset && (
+            <button
+              onClick={onReset}
+              disabled={isProcessing}
+              className="flex-1 p-3 font-mono uppercase tracking-wide border border-white/10 bg-white/5 text-white hover:bg-white/10 transition-colors"
+            >
+              Reset
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import { useEnsName } from "@/hooks";
 import { EnsAvatar } from "./EnsAvatar";
 import { cn } from "@/lib/utils";
 import { isAddress } from "viem";
-import { SupportedChainId } from "@/constant/chains";
+import { resolvesEns } from "@/constant/chains";
 
 interface AddressDisplayProps {
   address: string;
@@ -26,8 +26,7 @@ export function AddressDisplay({
 }: AddressDisplayProps) {
   const currentChainId = useChainId();
 
-  const shouldResolveEns =
-    currentChainId === SupportedChainId.ETH_SEPOLIA || currentChainId === 1;
+  const shouldResolveEns = resolvesEns(currentChainId);
 
   const { data: ensName, isLoading: nameLoading } = useEnsName({
     address: address && isAddress(address) ? address : undefined,
@@ -7,6 +7,7 @@ import { cn } from "@/lib/utils";
 
 interface BalanceAmountProps {
   balance?: bigint;
+  decimals?: number;
   isLoading?: boolean;
   error?: Error | null;
   token?: string;
@@ -32,6 +33,7 @@ const iconSizes = {
 
 export function BalanceAmount({
   balance,
+  decimals = 6,
   isLoading,
   error,
   token = "USDC",
@@ -97,7 +99,7 @@ export function BalanceAmount({
         />
       )}
       <div className={cn("font-mono font-semibold", sizeStyles[size])}>
-        {formatBalance(balance)}
+        {formatBalance(balance, decimals)}
       </div>
     </div>
   );
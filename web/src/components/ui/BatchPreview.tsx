@@ -0,0 +1,85 @@
+"use client";
+
+import Image from "next/image";
+import { getChainName } from "@/constant/chains";
+import { getChainLogo } from "@/lib/tokens";
+import { cn } from "@/lib/utils";
+import type { BatchSimulationResult } from "@/types/batch-operations";
+
+interface BatchPreviewProps {
+  results: BatchSimulationResult[];
+  tokenSymbol?: string;
+}
+
+export function BatchPreview({
+  results,
+  tokenSymbol = "USDC",
+}: BatchPreviewProps) {
+  const failures = results.filter((result) => !result.wouldSucceed).length;
+
+  return (
+    <div className="border border-white/10 bg-black/10 p-4 space-y-3 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="text-gray-400 uppercase tracking-wide">Preview</span>
+        <span
+          className={cn(
+            "font-mono uppercase",
+            failures > 0 ? "text-red-400" : "text-green-400"
+          )}
+        >
+          {failures > 0
+            ? `${failures} chain${failures !== 1 ? "s" : ""} would revert`
+            : "All chains would succeed"}
+        </span>
+      </div>
+
+      {results.map((result) => {
+        const logo = getChainLogo(result.chainId);
+        return (
+          <div
+            key={result.chainId}
+            className="flex items-start justify-between gap-3"
+          >
+            <div className="flex items-center gap-2 min-w-0">
+              {logo && (
+                <Image
+                  src={logo}
+                  alt=""
+                  width={16}
+                  height={16}
+                  className="rounded-full ring-1 ring-white/10 bg-white/5 flex-shrink-0"
+                />
+              )}
+              <span className="text-white font-mono uppercase truncate">
+                {getChainName(result.chainId)}
+              </span>
+              <span className="text-gray-500 font-mono">
+                {result.amount} {tokenSymbol}
+              </span>
+            </div>
+            <div className="text-right space-y-0.5">
+              <div
+                className={cn(
+                  "font-mono uppercase",
+                  result.wouldSucceed ? "text-green-400" : "text-red-400"
+                )}
+              >
+                {result.wouldSucceed
+                  ? result.needsApproval
+                    ? "Approval + deposit"
+                    : "Deposit only"
+                  : `Would revert: ${result.error?.message ?? "unknown"}`}
+              </div>
+              {result.depositUnverified && (
+                <div className="text-yellow-400">
+                  Deposit not simulated: the RPC can&apos;t apply the approval
+                  first
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
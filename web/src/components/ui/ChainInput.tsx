@@ -28,6 +28,9 @@ interface ChainInputProps {
   disabled?: boolean;
   isProcessing?: boolean;
   isSelected?: boolean;
+  label?: string;
+  token?: string;
+  tokenDecimals?: number;
 }
 
 export function ChainInput({
@@ -43,6 +46,9 @@ export function ChainInput({
   disabled = false,
   isProcessing = false,
   isSelected = false,
+  label = "Deposit Amount",
+  token = "USDC",
+  tokenDecimals = 6,
 }: ChainInputProps) {
   const hasErrors = errors.length > 0;
   const hasWarnings = warnings.length > 0;
@@ -87,8 +93,9 @@ export function ChainInput({
         <AmountInput
           value={amount}
           onChange={onAmountChange}
-          label="Deposit Amount"
-          token="USDC"
+          label={label}
+          token={token}
+          tokenDecimals={tokenDecimals}
           disabled={disabled || isProcessing}
           hasErrors={hasErrors}
           hasWarnings={hasWarnings}
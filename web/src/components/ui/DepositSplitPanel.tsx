@@ -0,0 +1,81 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { SPLIT_STRATEGIES } from "@/lib/deposit-split";
+import type { DepositSplitStrategy } from "@/types/ui-state";
+import { AmountInput } from "./AmountInput";
+import { Alert } from "./Alert";
+
+interface DepositSplitPanelProps {
+  total: string;
+  strategy: DepositSplitStrategy;
+  onTotalChange: (total: string) => void;
+  onStrategyChange: (strategy: DepositSplitStrategy) => void;
+  error: string | null;
+  token: string;
+  tokenDecimals?: number;
+  disabled?: boolean;
+  isProcessing?: boolean;
+}
+
+export function DepositSplitPanel({
+  total,
+  strategy,
+  onTotalChange,
+  onStrategyChange,
+  error,
+  token,
+  tokenDecimals,
+  disabled = false,
+  isProcessing = false,
+}: DepositSplitPanelProps) {
+  return (
+    <div className="space-y-3 p-3 border border-white/10 bg-white/5">
+      <AmountInput
+        value={total}
+        onChange={onTotalChange}
+        label="Total to split"
+        token={token}
+        disabled={disabled || isProcessing}
+        hasErrors={Boolean(error)}
+        tokenDecimals={tokenDecimals}
+      />
+
+      <div
+        className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs font-mono"
+        role="radiogroup"
+        aria-label="Split strategy"
+      >
+        {SPLIT_STRATEGIES.map(({ strategy: option, label, description }) => (
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={strategy === option}
+            title={description}
+            onClick={() => onStrategyChange(option)}
+            disabled={disabled || isProcessing}
+            className={cn(
+              "px-2 py-2 border uppercase tracking-wide transition-colors",
+              "disabled:opacity-50 disabled:cursor-not-allowed",
+              strategy === option
+                ? "border-teal-500/50 bg-teal-500/10 text-teal-400"
+                : "border-white/10 text-gray-400 hover:text-white"
+            )}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="text-xs text-gray-500">
+        {`${
+          SPLIT_STRATEGIES.find((entry) => entry.strategy === strategy)
+            ?.description
+        }. The amounts below stay editable.`}
+      </div>
+
+      {error && <Alert type="error" message={error} />}
+    </div>
+  );
+}
@@ -3,18 +3,61 @@
 import Image from "next/image";
 import { getTokenLogo, getChainLogo } from "@/lib/tokens";
 import { cn } from "@/lib/utils";
+import { formatBalance } from "@/lib/format";
+import { getChainName } from "@/constant/chains";
 import type { SupportedChainId } from "@/constant/contracts";
+import type { ChainGasEstimate } from "@/lib/gas-estimation";
+import {
+  DEFAULT_APPROVAL_POLICY,
+  isUnlimitedAllowance,
+  parseApprovalCap,
+} from "@/lib/approval-policy";
+import type {
+  ApprovalPolicy,
+  ApprovalStrategy,
+} from "@/types/batch-operations";
 
 interface DepositSummaryProps {
   activeChainIds: SupportedChainId[];
   totalAmount: string;
+  transactionsPerChain?: number;
+  transactionsLabel?: string;
+  tokenSymbol?: string;
+  // Deposits only; withdrawals don't preview gas
+  gasEstimates?: ChainGasEstimate[];
+  isGasEstimating?: boolean;
+  // Deposits only; per-chain approval policy with the current allowance
+  approvalPolicies?: Partial<Record<SupportedChainId, ApprovalPolicy>>;
+  onApprovalPolicyChange?: (
+    chainId: SupportedChainId,
+    policy: ApprovalPolicy
+  ) => void;
 }
 
+const APPROVAL_STRATEGIES: { value: ApprovalStrategy; label: string }[] = [
+  { value: "exact", label: "Exact" },
+  { value: "unlimited", label: "Unlimited" },
+  { value: "custom", label: "Custom cap" },
+];
+
+const formatGas = (cost: bigint, estimate: ChainGasEstimate) =>
+  `${cost === 0n ? "0" : formatBalance(cost, estimate.nativeDecimals, 6)} ${
+    estimate.nativeSymbol
+  }`;
+
 export function DepositSummary({
   activeChainIds,
   totalAmount,
+  transactionsPerChain = 2,
+  transactionsLabel = "APPROVAL + DEPOSIT PER CHAIN",
+  tokenSymbol = "USDC",
+  gasEstimates,
+  isGasEstimating = false,
+  approvalPolicies,
+  onApprovalPolicyChange,
 }: DepositSummaryProps) {
   const activeChainCount = activeChainIds.length;
+  const tokenLogo = getTokenLogo(tokenSymbol);
 
   return (
     <div className="border border-teal-500/30 bg-teal-500/5 p-4">
@@ -60,15 +103,17 @@ export function DepositSummary({
             Total Amount
           </span>
           <div className="flex items-center gap-1.5">
-            <Image
-              src={getTokenLogo("USDC")}
-              alt="USDC"
-              width={16}
-              height={16}
-              className="rounded-full"
-            />
+            {tokenLogo && (
+              <Image
+                src={tokenLogo}
+                alt={tokenSymbol}
+                width={16}
+                height={16}
+                className="rounded-full"
+              />
+            )}
             <span className="text-white font-mono font-semibold">
-              {totalAmount} USDC
+              {totalAmount} {tokenSymbol}
             </span>
           </div>
         </div>
@@ -78,9 +123,132 @@ export function DepositSummary({
             Estimated Transactions
           </span>
           <span className="text-gray-400 font-mono uppercase">
-            {activeChainCount * 2} (APPROVAL + DEPOSIT PER CHAIN)
+            {activeChainCount * transactionsPerChain} ({transactionsLabel})
           </span>
         </div>
+
+        {gasEstimates && (
+          <div className="space-y-2 pt-3 border-t border-white/10 text-xs">
+            <span className="text-gray-500 uppercase tracking-wide">
+              Estimated Gas
+            </span>
+            {isGasEstimating && gasEstimates.length === 0 && (
+              <div className="text-gray-500 font-mono">Estimating...</div>
+            )}
+            {gasEstimates.map((estimate) => (
+              <div key={estimate.chainId} className="space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-gray-400 uppercase tracking-wide">
+                    {getChainName(estimate.chainId)}
+                  </span>
+                  <span className="text-white font-mono">
+                    {formatGas(estimate.totalCost, estimate)}
+                  </span>
+                </div>
+                <div className="text-gray-500 font-mono">
+                  Switch {formatGas(estimate.switchCost, estimate)} · Approve{" "}
+                  {estimate.approval
+                    ? formatGas(estimate.approvalCost, estimate)
+                    : "not needed"}{" "}
+                  · Deposit {formatGas(estimate.depositCost, estimate)}
+                </div>
+                {estimate.warning && (
+                  <div className="text-yellow-400">
+                    {estimate.warning}:{" "}
+                    {formatGas(estimate.nativeBalance, estimate)} available
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {approvalPolicies && onApprovalPolicyChange && (
+          <div className="space-y-3 pt-3 border-t border-white/10 text-xs">
+            <span className="text-gray-500 uppercase tracking-wide">
+              Approval
+            </span>
+            {activeChainIds.map((chainId) => {
+              const policy =
+                approvalPolicies[chainId] ?? DEFAULT_APPROVAL_POLICY;
+              const estimate = gasEstimates?.find(
+                (candidate) => candidate.chainId === chainId
+              );
+              return (
+                <div key={chainId} className="space-y-1.5">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-gray-400 uppercase tracking-wide">
+                      {getChainName(chainId)}
+                    </span>
+                    <span className="text-gray-500 font-mono">
+                      Current allowance:{" "}
+                      {estimate
+                        ? isUnlimitedAllowance(estimate.allowance)
+                          ? "Unlimited"
+                          : `${formatBalance(
+                              estimate.allowance,
+                              estimate.tokenDecimals
+                            )} ${tokenSymbol}`
+                        : "..."}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {APPROVAL_STRATEGIES.map(({ value, label }) => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() =>
+                          onApprovalPolicyChange(chainId, {
+                            ...policy,
+                            strategy: value,
+                          })
+                        }
+                        className={cn(
+                          "px-2 py-1 border font-mono uppercase transition-colors",
+                          policy.strategy === value
+                            ? "border-teal-400 text-teal-300 bg-teal-500/10"
+                            : "border-white/10 text-gray-400 hover:text-white"
+                        )}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                    {policy.strategy === "custom" && (
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        value={policy.customCap ?? ""}
+                        onChange={(event) =>
+                          onApprovalPolicyChange(chainId, {
+                            ...policy,
+                            customCap: event.target.value,
+                          })
+                        }
+                        placeholder={`Cap in ${tokenSymbol}`}
+                        className="flex-1 min-w-0 px-2 py-1 bg-black/20 border border-white/10 text-white font-mono placeholder-gray-600 focus:outline-none focus:border-teal-400"
+                      />
+                    )}
+                  </div>
+                  {policy.strategy === "unlimited" && (
+                    <div className="text-yellow-400">
+                      The vault can spend any amount of your {tokenSymbol} on
+                      this chain until you revoke the approval
+                    </div>
+                  )}
+                  {policy.strategy === "custom" &&
+                    parseApprovalCap(
+                      policy.customCap,
+                      estimate?.tokenDecimals ?? 6
+                    ) === undefined && (
+                      <div className="text-yellow-400">
+                        Enter a cap; the exact amount is approved until then
+                      </div>
+                    )}
+                </div>
+              );
+            })}
+          </div>
+        )}
       </div>
     </div>
   );
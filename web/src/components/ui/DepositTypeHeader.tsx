@@ -9,6 +9,7 @@ interface DepositTypeHeaderProps {
   activeChainCount: number;
   tokenLabel?: string;
   showActiveCount?: boolean;
+  multiChainDescription?: string;
 }
 
 export function DepositTypeHeader({
@@ -17,6 +18,7 @@ export function DepositTypeHeader({
   activeChainCount,
   tokenLabel = "Deposit USDC",
   showActiveCount = true,
+  multiChainDescription = "Set amounts per chain below. Deposits execute sequentially in one flow.",
 }: DepositTypeHeaderProps) {
   return (
     <div className="space-y-1.5">
@@ -42,10 +44,7 @@ export function DepositTypeHeader({
       </div>
       <div className="text-xs text-gray-300 leading-relaxed">
         {isMultiChainMode ? (
-          <span>
-            Set amounts per chain below. Deposits execute sequentially in one
-            flow.
-          </span>
+          <span>{multiChainDescription}</span>
         ) : (
           <span>
             Target Chain:{" "}
@@ -7,7 +7,7 @@ import { useEnsAvatar } from "@/hooks";
 import { cn } from "@/lib/utils";
 import { isAddress } from "viem";
 import { normalize } from "viem/ens";
-import { SupportedChainId } from "@/constant/chains";
+import { resolvesEns } from "@/constant/chains";
 
 interface EnsAvatarProps {
   address: string;
@@ -27,8 +27,7 @@ export function EnsAvatar({
   const [imageError, setImageError] = useState(false);
   const currentChainId = useChainId();
 
-  const shouldResolveEns =
-    currentChainId === SupportedChainId.ETH_SEPOLIA || currentChainId === 1;
+  const shouldResolveEns = resolvesEns(currentChainId);
 
   const normalizedEnsName = ensName
     ? (() => {
@@ -0,0 +1,67 @@
+"use client";
+
+import Image from "next/image";
+import { cn } from "@/lib/utils";
+import { getTokenLogo } from "@/lib/tokens";
+import type { TokenSymbol } from "@/constant/tokens";
+
+interface TokenSelectorProps {
+  tokens: readonly TokenSymbol[];
+  selected: TokenSymbol;
+  onSelect: (symbol: TokenSymbol) => void;
+  disabled?: boolean;
+  isProcessing?: boolean;
+}
+
+export function TokenSelector({
+  tokens,
+  selected,
+  onSelect,
+  disabled = false,
+  isProcessing = false,
+}: TokenSelectorProps) {
+  if (tokens.length < 2) return null;
+
+  return (
+    <div
+      className="flex flex-wrap items-center gap-2"
+      role="tablist"
+      aria-label="Token selection"
+    >
+      {tokens.map((symbol) => {
+        const logo = getTokenLogo(symbol);
+        const isSelected = symbol === selected;
+        return (
+          <button
+            key={symbol}
+            type="button"
+            role="tab"
+            aria-selected={isSelected}
+            disabled={disabled || isProcessing}
+            onClick={() => !isSelected && onSelect(symbol)}
+            className={cn(
+              "px-2.5 py-1 border text-xs font-mono tracking-wide flex items-center gap-1.5",
+              "transition-colors outline-none",
+              "focus-visible:border-teal-500/60",
+              "disabled:opacity-50 disabled:cursor-not-allowed",
+              isSelected
+                ? "border-teal-500/60 bg-teal-500/10 text-teal-400"
+                : "border-white/10 bg-gray-800/60 text-gray-300 hover:border-teal-500/40 hover:text-white"
+            )}
+          >
+            {logo && (
+              <Image
+                src={logo}
+                alt={symbol}
+                width={16}
+                height={16}
+                className="size-4"
+              />
+            )}
+            <span>{symbol}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,10 +1,7 @@
 import React from "react";
+import type { TransactionStatus } from "@/stores/transactionStore";
 import { TransactionStatusIcon } from "./TransactionStatusIcon";
-import {
-  getBlockExplorerUrl,
-  SupportedChainId,
-  getChainName,
-} from "@/constant/chains";
+import { isSupportedChainId, getChainName, txUrl } from "@/constant/chains";
 import { getTokenLogo, getChainLogo } from "@/lib/tokens";
 import Image from "next/image";
 import { ArrowUpRight } from "lucide-react";
@@ -13,7 +10,7 @@ export interface TransactionItemProps {
   id: string;
   hash: string;
   type: "deposit" | "withdrawal" | "approval";
-  status: "pending" | "confirmed" | "failed" | "cancelled";
+  status: TransactionStatus;
   amount?: string;
   tokenSymbol?: string;
   chainId: number;
@@ -38,14 +35,7 @@ function formatTimeAgo(timestamp: number): string {
 }
 
 function getExplorerUrl(chainId: number, hash: string): string | undefined {
-  if (
-    chainId === SupportedChainId.ETH_SEPOLIA ||
-    chainId === SupportedChainId.SEI_TESTNET
-  ) {
-    const baseUrl = getBlockExplorerUrl(chainId as SupportedChainId);
-    return `${baseUrl}/tx/${hash}`;
-  }
-  return undefined;
+  return isSupportedChainId(chainId) ? txUrl(chainId, hash) : undefined;
 }
 
 export function TransactionItem({
@@ -59,11 +49,9 @@ export function TransactionItem({
   timestamp,
 }: TransactionItemProps) {
   const explorerUrl = getExplorerUrl(chainId, hash);
-  const chainName =
-    chainId === SupportedChainId.ETH_SEPOLIA ||
-    chainId === SupportedChainId.SEI_TESTNET
-      ? getChainName(chainId as SupportedChainId)
-      : `Chain ${chainId}`;
+  const chainName = isSupportedChainId(chainId)
+    ? getChainName(chainId)
+    : `Chain ${chainId}`;
   const tokenLogo = tokenSymbol ? getTokenLogo(tokenSymbol) : "";
   const chainLogo = getChainLogo(chainId);
   const formattedType =
@@ -1,7 +1,8 @@
 import React from "react";
+import type { TransactionStatus } from "@/stores/transactionStore";
 
 interface TransactionStatusIconProps {
-  status: "pending" | "confirmed" | "failed" | "cancelled";
+  status: TransactionStatus;
 }
 
 export function TransactionStatusIcon({ status }: TransactionStatusIconProps) {
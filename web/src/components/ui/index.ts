@@ -11,7 +11,10 @@ export { CardContainer } from "./CardContainer";
 export { ChainInput } from "./ChainInput";
 export { DepositTypeModeToggle } from "./DepositTypeModeToggle";
 export { ChainDropdown } from "./ChainDropdown";
+export { TokenSelector } from "./TokenSelector";
 export { DepositSummary } from "./DepositSummary";
+export { DepositSplitPanel } from "./DepositSplitPanel";
+export { BatchPreview } from "./BatchPreview";
 export { ExecuteButton } from "./ExecuteButton";
 export { AmountInput } from "./AmountInput";
 export { ValidationMessages } from "./ValidationMessages";
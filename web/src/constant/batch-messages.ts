@@ -9,6 +9,7 @@ export const BATCH_MESSAGES = {
     SERVICE_NOT_AVAILABLE: "Service not available",
     SERVICE_INITIALIZATION_FAILED: "Service initialization failed",
     OPERATION_CANCELLED: "Operation cancelled",
+    BATCH_STOPPED_AFTER_FAILURE: "Batch stopped after a chain failed",
 
     // Generic fallbacks
     UNKNOWN: "Unknown error",
@@ -18,13 +19,31 @@ export const BATCH_MESSAGES = {
     // Network/tx categories
     TRANSACTION_CANCELLED_BY_USER: "Transaction cancelled by user",
     INSUFFICIENT_FUNDS: "Insufficient funds for this transaction",
+    VAULT_INSUFFICIENT_BALANCE: "Vault balance is too low for this amount",
+    VAULT_INVALID_AMOUNT: "Vault rejected the amount",
     NETWORK_ERROR_OCCURRED: "Network error occurred",
     TRANSACTION_FAILED_GENERIC: "Transaction failed",
+    BUNDLE_FAILED: "Approve and deposit bundle failed",
+    APPROVAL_REVERTED: "Approval transaction reverted",
+    DEPOSIT_REVERTED: "Deposit transaction reverted",
+    WITHDRAW_REVERTED: "Withdraw transaction reverted",
     UNEXPECTED_ERROR_OCCURRED: "An unexpected error occurred",
 
     // Step-specific user cancellations
     USER_CANCELLED_APPROVAL: "User cancelled approval",
+    USER_CANCELLED_PERMIT: "User cancelled permit signature",
     USER_CANCELLED_DEPOSIT: "User cancelled deposit",
+    USER_CANCELLED_BUNDLE: "User cancelled approve and deposit bundle",
+    USER_CANCELLED_WITHDRAW: "User cancelled withdrawal",
+    USER_CANCELLED_BURN: "User cancelled USDC burn",
+    USER_CANCELLED_MINT: "User cancelled USDC mint",
+
+    // Bridge
+    BRIDGE_SAME_CHAIN: "Source and destination chains must differ",
+    BRIDGE_AMOUNT_BELOW_FEE: "Amount must be greater than the bridge fee",
+    BRIDGE_BURN_REVERTED: "USDC burn reverted",
+    BRIDGE_MINT_REVERTED: "USDC mint reverted",
+    ATTESTATION_TIMEOUT: "Timed out waiting for the burn attestation",
 
     // Dynamic formatters
     TIMEOUT: (ms: number) => `Timeout after ${ms}ms`,
@@ -34,6 +53,8 @@ export const BATCH_MESSAGES = {
       `Another chain (id ${activeChainId}) is currently retrying. Please wait for it to finish before retrying this chain.`,
     RETRY_ALREADY_IN_PROGRESS_FOR: (chainId: SupportedChainId) =>
       `Retry for chain ${chainId} already in progress; please wait.`,
+    BRIDGE_UNSUPPORTED_CHAIN: (chainId: SupportedChainId) =>
+      `Chain ${chainId} has no CCTP bridge configured`,
     INVALID_CHAIN_CONFIGURATION: (chainId: SupportedChainId, reason?: string) =>
       `Invalid chain configuration for chain ${chainId}: ${
         reason ?? "Unknown error"
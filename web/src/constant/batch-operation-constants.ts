@@ -1,7 +1,9 @@
 import type {
   BatchExecutionConfig,
   BatchDepositConfig,
+  BatchWithdrawConfig,
 } from "@/types/batch-operations";
+import type { BridgeConfig } from "@/types/bridge-operations";
 
 /**
  * Default configuration for batch execution
@@ -36,4 +38,31 @@ export const DEFAULT_BATCH_DEPOSIT_CONFIG: BatchDepositConfig = {
   confirmationTimeoutMs: 300000,
   retryAttempts: 3,
   retryDelayMs: 1000,
+  usePermit: true,
+  permitDeadlineSeconds: 1800,
+  useAtomicBatch: true,
+  callsStatusPollIntervalMs: 2000,
+  parallelChains: false,
+  execution: DEFAULT_BATCH_CONFIG,
+};
+
+/**
+ * Default configuration for batch withdraw service
+ */
+export const DEFAULT_BATCH_WITHDRAW_CONFIG: BatchWithdrawConfig = {
+  ...DEFAULT_BATCH_DEPOSIT_CONFIG,
+};
+
+/**
+ * Default configuration for the CCTP bridge service
+ */
+export const DEFAULT_BRIDGE_CONFIG: BridgeConfig = {
+  timeoutMs: 60000,
+  confirmationTimeoutMs: 300000,
+  retryAttempts: 3,
+  retryDelayMs: 1000,
+  maxFee: BigInt(500), // 0.0005 USDC
+  minFinalityThreshold: 1000,
+  attestationPollIntervalMs: 5000,
+  attestationTimeoutMs: 1800000, // 30 minutes
 };
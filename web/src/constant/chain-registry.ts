@@ -0,0 +1,96 @@
+import type { Address, Chain } from "viem";
+import { sepolia, seiTestnet } from "viem/chains";
+
+/**
+ * Single source of truth for every chain the app supports.
+ *
+ * Mirrors `deployments/deployments.json`. Adding a chain (e.g. Base Sepolia)
+ * means deploying SimpleVault there and appending an entry here; ids, addresses,
+ * wagmi transports, explorer links, icons and portfolio totals derive from it.
+ */
+export type TokenSymbol = "USDC" | "EURC" | "WETH";
+
+export interface RegistryToken {
+  readonly address: Address;
+  readonly decimals: number;
+}
+
+export interface ChainRegistryEntry {
+  readonly chain: Chain;
+  readonly rpcUrl: string;
+  readonly iconUrl: string;
+  // Any ERC-20 the vault should accept on this chain; USDC is always present
+  readonly tokens: { readonly USDC: RegistryToken } & Partial<
+    Record<TokenSymbol, RegistryToken>
+  >;
+  readonly vault: {
+    readonly address: Address;
+    readonly deploymentBlock: number;
+    // Has depositWithPermit; older deployments only take approve + deposit
+    readonly supportsPermit?: boolean;
+  };
+  // Max block range per eth_getLogs call, for RPCs that cap it
+  readonly maxLogBlockRange?: number;
+  // Preselected while the wallet is on an unsupported chain
+  readonly isDefault?: boolean;
+  // ENS names and avatars are looked up while the wallet is on this chain
+  readonly resolvesEns?: boolean;
+  // Circle CCTP V2 for bridging USDC; chains without it can't be bridged
+  readonly cctp?: {
+    readonly domain: number;
+    readonly tokenMessenger: Address;
+    readonly messageTransmitter: Address;
+  };
+}
+
+// CCTP V2 testnet contracts share one address on every EVM chain
+const CCTP_V2_TESTNET = {
+  tokenMessenger: "0x8FE6B999Dc680CcFDD5Bf7EB0974218be2542DAA",
+  messageTransmitter: "0xE737e5cEBEEBa77EFE34D4aa090756590b1CE275",
+} as const;
+
+export const CHAIN_REGISTRY = {
+  ETH_SEPOLIA: {
+    chain: sepolia,
+    rpcUrl: "https://ethereum-sepolia-rpc.publicnode.com",
+    iconUrl: "/tokens/eth-logo.svg",
+    tokens: {
+      USDC: {
+        address: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
+        decimals: 6,
+      },
+      EURC: {
+        address: "0x08210F9170F89Ab7658F0B5E3fF39b0E03C594D4",
+        decimals: 6,
+      },
+    },
+    vault: {
+      address: "0xaaaac415c0719cff6BAe3816FE244589442db46C",
+      deploymentBlock: 7011573,
+    },
+    isDefault: true,
+    resolvesEns: true,
+    cctp: { domain: 0, ...CCTP_V2_TESTNET },
+  },
+  SEI_TESTNET: {
+    chain: seiTestnet,
+    rpcUrl: "https://evm-rpc-testnet.sei-apis.com",
+    iconUrl: "/tokens/sei-logo.svg",
+    tokens: {
+      USDC: {
+        address: "0x4fCF1784B31630811181f670Aea7A7bEF803eaED",
+        decimals: 6,
+      },
+    },
+    vault: {
+      address: "0xaaaac415c0719cff6BAe3816FE244589442db46C",
+      deploymentBlock: 137259626,
+    },
+    maxLogBlockRange: 1800,
+    cctp: { domain: 16, ...CCTP_V2_TESTNET },
+  },
+} as const satisfies Record<string, ChainRegistryEntry>;
+
+export type ChainKey = keyof typeof CHAIN_REGISTRY;
+
+export const CHAIN_KEYS = Object.keys(CHAIN_REGISTRY) as ChainKey[];
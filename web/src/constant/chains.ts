@@ -1,22 +1,52 @@
-import { sepolia, seiTestnet, type Chain } from "viem/chains";
+import type { Chain } from "viem";
+import { mainnet } from "viem/chains";
+import {
+  CHAIN_REGISTRY,
+  CHAIN_KEYS,
+  type ChainKey,
+  type ChainRegistryEntry,
+} from "./chain-registry";
 
-export const SupportedChainId = {
-  ETH_SEPOLIA: sepolia.id,
-  SEI_TESTNET: seiTestnet.id,
-} as const;
+export const SupportedChainId = Object.fromEntries(
+  CHAIN_KEYS.map((key) => [key, CHAIN_REGISTRY[key].chain.id])
+) as { [K in ChainKey]: (typeof CHAIN_REGISTRY)[K]["chain"]["id"] };
 
 export type SupportedChainId =
   (typeof SupportedChainId)[keyof typeof SupportedChainId];
 
-const CHAIN_META = {
-  [SupportedChainId.ETH_SEPOLIA]: sepolia,
-  [SupportedChainId.SEI_TESTNET]: seiTestnet,
-} as const satisfies Record<SupportedChainId, Chain>;
+const REGISTRY_ENTRIES: readonly ChainRegistryEntry[] = CHAIN_KEYS.map(
+  (key) => CHAIN_REGISTRY[key]
+);
+
+const REGISTRY_BY_ID = Object.fromEntries(
+  REGISTRY_ENTRIES.map((entry) => [entry.chain.id, entry])
+) as Record<SupportedChainId, ChainRegistryEntry>;
+
+const CHAIN_META = Object.fromEntries(
+  REGISTRY_ENTRIES.map((entry) => [entry.chain.id, entry.chain])
+) as Record<SupportedChainId, Chain>;
 
 export const SUPPORTED_CHAINS = Object.values(
   SupportedChainId
 ) as SupportedChainId[];
-export const SUPPORTED_CHAIN_CONFIGS = [sepolia, seiTestnet] as const;
+export const SUPPORTED_CHAIN_CONFIGS = REGISTRY_ENTRIES.map(
+  (entry) => entry.chain
+) as [Chain, ...Chain[]];
+
+// The entry flagged `isDefault`, else the first one
+export const DEFAULT_CHAIN_ID = (
+  REGISTRY_ENTRIES.find((entry) => entry.isDefault) ?? REGISTRY_ENTRIES[0]
+).chain.id as SupportedChainId;
+
+export function getChainRegistryEntry(
+  id: SupportedChainId
+): ChainRegistryEntry {
+  return REGISTRY_BY_ID[id];
+}
+
+export function getRpcUrl(id: SupportedChainId): string {
+  return REGISTRY_BY_ID[id].rpcUrl;
+}
 
 export const SupportedChainIds = Object.fromEntries(
   Object.entries(CHAIN_META).map(([k, c]) => [k, c.id])
@@ -26,13 +56,8 @@ export const SupportedChainNames = Object.fromEntries(
   Object.entries(CHAIN_META).map(([k, c]) => [k, c.name])
 ) as Record<SupportedChainId, string>;
 
-const CHAIN_ICON_URL = {
-  [SupportedChainId.ETH_SEPOLIA]: "/tokens/eth-logo.svg",
-  [SupportedChainId.SEI_TESTNET]: "/tokens/sei-logo.svg",
-} as const satisfies Record<SupportedChainId, string>;
-
 export function getChainIconUrl(id: SupportedChainId): string {
-  return CHAIN_ICON_URL[id];
+  return REGISTRY_BY_ID[id].iconUrl;
 }
 
 export function getSupportedChainMeta(id: SupportedChainId): Chain {
@@ -63,3 +88,15 @@ export function isSupportedChainId(
 export function getChainName(chainId: SupportedChainId): string {
   return CHAIN_META[chainId].name;
 }
+
+/**
+ * Whether ENS lookups run while the wallet is on `chainId`: mainnet, or a
+ * registry chain flagged `resolvesEns`
+ */
+export function resolvesEns(chainId: number): boolean {
+  return (
+    chainId === mainnet.id ||
+    (isSupportedChainId(chainId) &&
+      Boolean(REGISTRY_BY_ID[chainId].resolvesEns))
+  );
+}
@@ -1,20 +1,32 @@
 import type { Address } from "viem";
-import { SupportedChainId } from "./chains";
+import {
+  SupportedChainId,
+  SUPPORTED_CHAINS,
+  getChainRegistryEntry,
+} from "./chains";
+import type { ChainRegistryEntry } from "./chain-registry";
 
-export const USDC_ADDRESSES = {
-  [SupportedChainId.ETH_SEPOLIA]: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
-  [SupportedChainId.SEI_TESTNET]: "0x4fCF1784B31630811181f670Aea7A7bEF803eaED",
-} as const satisfies Record<SupportedChainId, Address>;
+export { SupportedChainId };
 
-export const VAULT_ADDRESSES = {
-  [SupportedChainId.ETH_SEPOLIA]: "0xaaaac415c0719cff6BAe3816FE244589442db46C",
-  [SupportedChainId.SEI_TESTNET]: "0xaaaac415c0719cff6BAe3816FE244589442db46C",
-} as const satisfies Record<SupportedChainId, Address>;
+function fromRegistry<T>(
+  pick: (chainId: SupportedChainId) => T
+): Record<SupportedChainId, T> {
+  return Object.fromEntries(
+    SUPPORTED_CHAINS.map((chainId) => [chainId, pick(chainId)])
+  ) as Record<SupportedChainId, T>;
+}
+
+export const USDC_ADDRESSES = fromRegistry<Address>(
+  (chainId) => getChainRegistryEntry(chainId).tokens.USDC.address
+);
+
+export const VAULT_ADDRESSES = fromRegistry<Address>(
+  (chainId) => getChainRegistryEntry(chainId).vault.address
+);
 
-export const VAULT_DEPLOYMENT_BLOCKS = {
-  [SupportedChainId.ETH_SEPOLIA]: 7011573,
-  [SupportedChainId.SEI_TESTNET]: 137259626,
-} as const satisfies Record<SupportedChainId, number>;
+export const VAULT_DEPLOYMENT_BLOCKS = fromRegistry<number>(
+  (chainId) => getChainRegistryEntry(chainId).vault.deploymentBlock
+);
 
 export function getUsdcAddress(chainId: SupportedChainId): Address {
   return USDC_ADDRESSES[chainId];
@@ -27,3 +39,20 @@ export function getVaultAddress(chainId: SupportedChainId): Address {
 export function getVaultDeploymentBlock(chainId: SupportedChainId): number {
   return VAULT_DEPLOYMENT_BLOCKS[chainId];
 }
+
+export function vaultSupportsPermit(chainId: SupportedChainId): boolean {
+  return getChainRegistryEntry(chainId).vault.supportsPermit ?? false;
+}
+
+export type CctpConfig = NonNullable<ChainRegistryEntry["cctp"]>;
+
+export function getCctpConfig(
+  chainId: SupportedChainId
+): CctpConfig | undefined {
+  return getChainRegistryEntry(chainId).cctp;
+}
+
+// Chains USDC can be bridged between with CCTP
+export const BRIDGEABLE_CHAINS = SUPPORTED_CHAINS.filter((chainId) =>
+  Boolean(getCctpConfig(chainId))
+);
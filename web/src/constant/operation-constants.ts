@@ -4,6 +4,8 @@
 export const OPERATION_TYPES = {
   DEPOSIT: "DEPOSIT",
   WITHDRAW: "WITHDRAW",
+  BRIDGE: "BRIDGE",
+  REBALANCE: "REBALANCE",
 } as const;
 
 /**
@@ -14,6 +16,14 @@ export const SUPPORTED_TOKENS = {
     symbol: "USDC",
     name: "USD Coin",
   },
+  EURC: {
+    symbol: "EURC",
+    name: "Euro Coin",
+  },
+  WETH: {
+    symbol: "WETH",
+    name: "Wrapped Ether",
+  },
   ETH: {
     symbol: "ETH",
     name: "Ethereum",
@@ -26,10 +36,14 @@ export const SUPPORTED_TOKENS = {
 export const VALIDATION_CONFIG = {
   MIN_AMOUNTS: {
     USDC: "0.000001",
+    EURC: "0.000001",
+    WETH: "0.000000000000001",
     ETH: "0.000000000000001",
   },
   MAX_DECIMALS: {
     USDC: 6,
+    EURC: 6,
+    WETH: 18,
     ETH: 18,
   },
   GAS_WARNING_THRESHOLD: "0.001",
@@ -63,6 +77,8 @@ export const VALIDATION_MESSAGES = {
       `Insufficient ${symbol} balance. Maximum: ${maxAmount}`,
     INSUFFICIENT_VAULT_BALANCE: (maxAmount: string) =>
       `Insufficient vault balance. Maximum: ${maxAmount}`,
+    TOKEN_NOT_AVAILABLE: (symbol: string, chainName: string) =>
+      `${symbol} is not available on ${chainName}`,
   },
   WARNINGS: {
     WALLET_BALANCE_UNKNOWN: "Unable to verify wallet balance",
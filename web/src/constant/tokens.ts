@@ -1,7 +1,12 @@
-import { getAddress } from "viem";
-import { SupportedChainId } from "./chains";
+import { getAddress, isAddressEqual, type Address } from "viem";
+import {
+  SupportedChainId,
+  SUPPORTED_CHAINS,
+  getChainRegistryEntry,
+} from "./chains";
+import type { TokenSymbol } from "./chain-registry";
 
-export type TokenSymbol = "USDC";
+export type { TokenSymbol };
 
 export interface TokenInfo {
   readonly address: `0x${string}`;
@@ -12,28 +17,39 @@ export interface TokenInfo {
   readonly chainId: SupportedChainId;
 }
 
-export const TOKENS_BY_CHAIN = {
-  [SupportedChainId.ETH_SEPOLIA]: {
-    USDC: {
-      address: getAddress("0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238"),
-      symbol: "USDC",
-      name: "USD Coin",
-      decimals: 6,
-      logoURI: "/tokens/usdc-logo.svg",
-      chainId: SupportedChainId.ETH_SEPOLIA,
-    },
-  },
-  [SupportedChainId.SEI_TESTNET]: {
-    USDC: {
-      address: getAddress("0x4fCF1784B31630811181f670Aea7A7bEF803eaED"),
-      symbol: "USDC",
-      name: "USD Coin",
-      decimals: 6,
-      logoURI: "/tokens/usdc-logo.svg",
-      chainId: SupportedChainId.SEI_TESTNET,
-    },
-  },
-} as const satisfies Record<SupportedChainId, Record<TokenSymbol, TokenInfo>>;
+export const TOKEN_METADATA = {
+  USDC: { name: "USD Coin", logoURI: "/tokens/usdc-logo.svg" },
+  EURC: { name: "Euro Coin", logoURI: "" },
+  WETH: { name: "Wrapped Ether", logoURI: "/tokens/eth-logo.svg" },
+} as const satisfies Record<TokenSymbol, { name: string; logoURI: string }>;
+
+export const TOKENS_BY_CHAIN = Object.fromEntries(
+  SUPPORTED_CHAINS.map((chainId) => {
+    const { tokens } = getChainRegistryEntry(chainId);
+    const chainTokens: Partial<Record<TokenSymbol, TokenInfo>> = {};
+    (Object.keys(tokens) as TokenSymbol[]).forEach((symbol) => {
+      const token = tokens[symbol];
+      if (!token) return;
+      chainTokens[symbol] = {
+        address: getAddress(token.address),
+        symbol,
+        name: TOKEN_METADATA[symbol].name,
+        decimals: token.decimals,
+        logoURI: TOKEN_METADATA[symbol].logoURI,
+        chainId,
+      };
+    });
+    return [chainId, chainTokens];
+  })
+) as Record<SupportedChainId, Partial<Record<TokenSymbol, TokenInfo>>> &
+  Record<SupportedChainId, { USDC: TokenInfo }>;
+
+// Symbols registered on at least one chain, USDC first
+export const SUPPORTED_TOKEN_SYMBOLS = (
+  Object.keys(TOKEN_METADATA) as TokenSymbol[]
+).filter((symbol) =>
+  SUPPORTED_CHAINS.some((chainId) => TOKENS_BY_CHAIN[chainId][symbol])
+);
 
 export function getToken(
   chainId: SupportedChainId,
@@ -44,3 +60,22 @@ export function getToken(
 export function getUsdc(chainId: SupportedChainId): TokenInfo {
   return TOKENS_BY_CHAIN[chainId].USDC;
 }
+
+export function getChainTokens(chainId: SupportedChainId): TokenInfo[] {
+  return Object.values(TOKENS_BY_CHAIN[chainId]).filter(
+    (token): token is TokenInfo => Boolean(token)
+  );
+}
+
+export function getTokenByAddress(
+  chainId: SupportedChainId,
+  address: Address
+): TokenInfo | undefined {
+  return getChainTokens(chainId).find((token) =>
+    isAddressEqual(token.address, address)
+  );
+}
+
+export function getChainsForToken(symbol: TokenSymbol): SupportedChainId[] {
+  return SUPPORTED_CHAINS.filter((chainId) => getToken(chainId, symbol));
+}
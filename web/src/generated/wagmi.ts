@@ -30,6 +30,20 @@ export const simpleVaultAbi = [
     outputs: [],
     stateMutability: 'nonpayable',
   },
+  {
+    type: 'function',
+    inputs: [
+      { name: 'token', internalType: 'address', type: 'address' },
+      { name: 'amount', internalType: 'uint256', type: 'uint256' },
+      { name: 'deadline', internalType: 'uint256', type: 'uint256' },
+      { name: 'v', internalType: 'uint8', type: 'uint8' },
+      { name: 'r', internalType: 'bytes32', type: 'bytes32' },
+      { name: 's', internalType: 'bytes32', type: 'bytes32' },
+    ],
+    name: 'depositWithPermit',
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
   {
     type: 'function',
     inputs: [
@@ -141,6 +155,15 @@ export const useWriteSimpleVaultDeposit = /*#__PURE__*/ createUseWriteContract({
   functionName: 'deposit',
 })
 
+/**
+ * Wraps __{@link useWriteContract}__ with `abi` set to __{@link simpleVaultAbi}__ and `functionName` set to `"depositWithPermit"`
+ */
+export const useWriteSimpleVaultDepositWithPermit =
+  /*#__PURE__*/ createUseWriteContract({
+    abi: simpleVaultAbi,
+    functionName: 'depositWithPermit',
+  })
+
 /**
  * Wraps __{@link useWriteContract}__ with `abi` set to __{@link simpleVaultAbi}__ and `functionName` set to `"withdraw"`
  */
@@ -164,6 +187,15 @@ export const useSimulateSimpleVaultDeposit =
     functionName: 'deposit',
   })
 
+/**
+ * Wraps __{@link useSimulateContract}__ with `abi` set to __{@link simpleVaultAbi}__ and `functionName` set to `"depositWithPermit"`
+ */
+export const useSimulateSimpleVaultDepositWithPermit =
+  /*#__PURE__*/ createUseSimulateContract({
+    abi: simpleVaultAbi,
+    functionName: 'depositWithPermit',
+  })
+
 /**
  * Wraps __{@link useSimulateContract}__ with `abi` set to __{@link simpleVaultAbi}__ and `functionName` set to `"withdraw"`
  */
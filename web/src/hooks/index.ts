@@ -1,5 +1,11 @@
 // Balance hooks
 export { useChainBalances } from "./useChainBalances";
+export { useMultiChainBalances } from "./useMultiChainBalances";
+export type {
+  ChainBalanceEntry,
+  MultiChainBalances,
+} from "./useMultiChainBalances";
+export type { TokenTotals } from "./usePortfolioTotals";
 
 // Portfolio hooks
 export { usePortfolioTotals } from "./usePortfolioTotals";
@@ -10,6 +16,7 @@ export type { UseInputValidationProps } from "./useInputValidation";
 
 // Batch operation hooks
 export { useBatchDepositValidation } from "./useBatchDepositValidation";
+export { useBatchWithdrawValidation } from "./useBatchWithdrawValidation";
 
 // ENS hooks
 export { useEnsName, useEnsAvatar } from "./useEnsName";
@@ -11,8 +11,13 @@
  * - Provides executeBatch to start a batch deposit across chains.
  * - Provides retryChain to retry a failed/cancelled chain operation.
  * - Provides cancel to abort an in-progress batch operation.
+ * - Provides pause/resume to halt a running batch at the next step boundary and continue it later.
+ * - Provides simulateBatch to dry-run every chain's approval and deposit without signing.
  * - Tracks current progress, active chain, operation type, and retry state.
+ * - Journals the running batch to storage and offers to resume it after a page reload.
+ * - Records each approval/deposit tx in the persisted transaction store.
  *
+ * @param {BatchDepositConfig} [config] - Service configuration. `parallelChains` has no effect here: the wagmi wallet signs on the active chain only.
  * @returns {UseBatchDepositReturn} Object containing service instance, main operations, state, and progress info.
  */
 import { useState, useEffect, useCallback, useRef } from "react";
@@ -21,24 +26,56 @@ import {
   createBatchDepositService,
   type BatchDepositService,
 } from "@/lib/batch-deposit-service";
+import { createWagmiChainAdapter } from "@/lib/chain-client-adapter";
+import { recordBatchDepositTransactions } from "@/lib/transaction-recorder";
+import { wagmiConfig } from "@/wagmi";
+import type { Address, Hash } from "viem";
 import type {
   ChainAmount,
   BatchDepositResult,
+  BatchDepositStep,
   BatchTransactionType,
+  BatchDepositConfig,
+  BatchOperationError,
+  BatchSimulationResult,
 } from "@/types/batch-operations";
 import { SupportedChainId } from "@/constant/contracts";
 import { BATCH_MESSAGES } from "@/constant/batch-messages";
+import { DEFAULT_BATCH_DEPOSIT_CONFIG } from "@/constant/batch-operation-constants";
+import { useApprovalPolicyStore } from "@/stores/approvalPolicyStore";
+import {
+  useBatchJournalStore,
+  hasUnfinishedChains,
+} from "@/stores/batchJournalStore";
 
 export interface UseBatchDepositReturn {
   service: BatchDepositService | null;
   executeBatch: (chainAmounts: ChainAmount[]) => Promise<BatchDepositResult[]>;
   retryChain: (
     chainId: SupportedChainId,
-    amount: string
+    amount: string,
+    tokenAddress?: Address
   ) => Promise<BatchDepositResult>;
   cancel: () => void;
+  pause: () => void;
+  resume: () => void;
   reset: () => void;
+  // Continue the journaled batch a reload interrupted
+  resumeBatch: () => Promise<BatchDepositResult[]>;
+  // Drop the journaled batch instead of resuming it
+  discardResume: () => void;
+  canResume: boolean;
+  // Chains of the journaled batch that never reached a final state
+  resumableChains: SupportedChainId[];
+  simulateBatch: (
+    chainAmounts: ChainAmount[]
+  ) => Promise<BatchSimulationResult[]>;
+  clearSimulation: () => void;
   isExecuting: boolean;
+  isSimulating: boolean;
+  // Last dry-run, null until one runs
+  simulation: BatchSimulationResult[] | null;
+  isPaused: boolean;
   results: BatchDepositResult[];
   error: string | null;
   progress: {
@@ -52,15 +89,22 @@ export interface UseBatchDepositReturn {
   };
 }
 
-export function useBatchDeposit(): UseBatchDepositReturn {
+export function useBatchDeposit(
+  config?: BatchDepositConfig
+): UseBatchDepositReturn {
   /**
    * The batch deposit service instance, or null if not initialized.
    */
   const { address } = useAccount();
 
   const [isExecuting, setIsExecuting] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [results, setResults] = useState<BatchDepositResult[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [simulation, setSimulation] = useState<BatchSimulationResult[] | null>(
+    null
+  );
   const [progress, setProgress] = useState({
     completed: 0,
     total: 0,
@@ -82,6 +126,16 @@ export function useBatchDeposit(): UseBatchDepositReturn {
 
   // ref to avoid losing in-flight batch state
   const serviceRef = useRef<BatchDepositService | null>(null);
+  const journalCheckedRef = useRef(false);
+  const journal = useBatchJournalStore((state) => state.journal);
+  // the service is created once, so later config changes are ignored.
+  // Approval policies are read from the store at approval time instead
+  const configRef = useRef<BatchDepositConfig>({
+    ...DEFAULT_BATCH_DEPOSIT_CONFIG,
+    getApprovalPolicy: (chainId) =>
+      useApprovalPolicyStore.getState().getPolicy(chainId),
+    ...config,
+  });
 
   // Initialize service when address is available
   useEffect(() => {
@@ -91,7 +145,10 @@ export function useBatchDeposit(): UseBatchDepositReturn {
     }
     if (!serviceRef.current) {
       try {
-        serviceRef.current = createBatchDepositService();
+        serviceRef.current = createBatchDepositService(
+          createWagmiChainAdapter(wagmiConfig),
+          configRef.current
+        );
         setServiceInitTick((t) => t + 1);
       } catch (error) {
         console.error("Failed to create batch deposit service:", error);
@@ -125,6 +182,7 @@ export function useBatchDeposit(): UseBatchDepositReturn {
       results: BatchDepositResult[];
     }) => {
       setIsExecuting(false);
+      setIsPaused(false);
       setResults(results);
       setCurrentChain(undefined);
       setCurrentOperation(undefined);
@@ -132,9 +190,13 @@ export function useBatchDeposit(): UseBatchDepositReturn {
 
     const handleBatchFailed = ({ error }: { error: string }) => {
       setIsExecuting(false);
+      setIsPaused(false);
       setError(error);
     };
 
+    const handleBatchPaused = () => setIsPaused(true);
+    const handleBatchResumed = () => setIsPaused(false);
+
     const handleProgressUpdated = (progressData: {
       completed: number;
       total: number;
@@ -171,7 +233,7 @@ export function useBatchDeposit(): UseBatchDepositReturn {
       error,
     }: {
       chainId: SupportedChainId;
-      error: string;
+      error: BatchOperationError;
     }) => {
       setResults((prev) => {
         const existing = prev.find((r) => r.chainId === chainId);
@@ -242,6 +304,8 @@ export function useBatchDeposit(): UseBatchDepositReturn {
     service.on("batchStarted", handleBatchStarted);
     service.on("batchCompleted", handleBatchCompleted);
     service.on("batchFailed", handleBatchFailed);
+    service.on("batchPaused", handleBatchPaused);
+    service.on("batchResumed", handleBatchResumed);
     service.on("progressUpdated", handleProgressUpdated);
     service.on("chainCompleted", handleChainCompleted);
     service.on("chainFailed", handleChainFailed);
@@ -252,6 +316,8 @@ export function useBatchDeposit(): UseBatchDepositReturn {
       service.off("batchStarted", handleBatchStarted);
       service.off("batchCompleted", handleBatchCompleted);
       service.off("batchFailed", handleBatchFailed);
+      service.off("batchPaused", handleBatchPaused);
+      service.off("batchResumed", handleBatchResumed);
       service.off("progressUpdated", handleProgressUpdated);
       service.off("chainCompleted", handleChainCompleted);
       service.off("chainFailed", handleChainFailed);
@@ -260,6 +326,132 @@ export function useBatchDeposit(): UseBatchDepositReturn {
     };
   }, [service, serviceInitTick, retryActiveChain]);
 
+  // Record every tx the service sends in the persisted transaction store
+  useEffect(() => {
+    if (!service || !address) return;
+    return recordBatchDepositTransactions(service, address);
+  }, [service, address]);
+
+  // Mirror batch progress into the persisted journal
+  useEffect(() => {
+    if (!service) return;
+    const { updateChain, clearJournal } = useBatchJournalStore.getState();
+
+    const handleStepStarted = ({
+      chainId,
+      tokenAddress,
+      step,
+    }: {
+      chainId: SupportedChainId;
+      tokenAddress: Address;
+      step: BatchDepositStep;
+    }) => updateChain(chainId, tokenAddress, { step });
+
+    const handleTransactionSubmitted = ({
+      chainId,
+      tokenAddress,
+      txHash,
+      type,
+    }: {
+      chainId: SupportedChainId;
+      tokenAddress: Address;
+      txHash: Hash;
+      type: BatchTransactionType;
+    }) =>
+      updateChain(
+        chainId,
+        tokenAddress,
+        type === "approval"
+          ? { approvalTxHash: txHash }
+          : { depositTxHash: txHash }
+      );
+
+    const handleBundleSubmitted = ({
+      chainId,
+      tokenAddress,
+      bundleId,
+    }: {
+      chainId: SupportedChainId;
+      tokenAddress: Address;
+      bundleId: string;
+    }) => updateChain(chainId, tokenAddress, { bundleId });
+
+    const handleChainCompleted = ({
+      chainId,
+      tokenAddress,
+      result,
+    }: {
+      chainId: SupportedChainId;
+      tokenAddress: Address;
+      result: BatchDepositResult;
+    }) =>
+      updateChain(chainId, tokenAddress, {
+        status: result.status,
+        error: result.error,
+      });
+
+    const handleChainFailed = ({
+      chainId,
+      tokenAddress,
+      error,
+    }: {
+      chainId: SupportedChainId;
+      tokenAddress: Address;
+      error: BatchOperationError;
+    }) => updateChain(chainId, tokenAddress, { status: "failed", error });
+
+    service.on("stepStarted", handleStepStarted);
+    service.on("transactionSubmitted", handleTransactionSubmitted);
+    service.on("bundleSubmitted", handleBundleSubmitted);
+    service.on("chainCompleted", handleChainCompleted);
+    service.on("chainFailed", handleChainFailed);
+    service.on("batchCompleted", clearJournal);
+
+    return () => {
+      service.off("stepStarted", handleStepStarted);
+      service.off("transactionSubmitted", handleTransactionSubmitted);
+      service.off("bundleSubmitted", handleBundleSubmitted);
+      service.off("chainCompleted", handleChainCompleted);
+      service.off("chainFailed", handleChainFailed);
+      service.off("batchCompleted", clearJournal);
+    };
+  }, [service, serviceInitTick]);
+
+  // Drop a journal whose chains all finished, once per session. An
+  // unfinished one waits for the user to resume or discard it
+  useEffect(() => {
+    if (!address || journalCheckedRef.current) return;
+    journalCheckedRef.current = true;
+
+    const { journal, clearJournal } = useBatchJournalStore.getState();
+    if (journal?.account === address && !hasUnfinishedChains(journal)) {
+      clearJournal();
+    }
+  }, [address]);
+
+  const resumeBatch = useCallback(async () => {
+    /**
+     * Continues the journaled batch: finished chains are restored, submitted
+     * transactions and bundles re-attached, untouched chains run in full.
+     */
+    const svc = serviceRef.current;
+    if (!svc) throw new Error(BATCH_MESSAGES.ERRORS.SERVICE_NOT_AVAILABLE);
+    const { journal } = useBatchJournalStore.getState();
+    if (!journal || journal.account !== address) return [];
+    return svc.resumeBatch(journal);
+  }, [address]);
+
+  const discardResume = useCallback(() => {
+    useBatchJournalStore.getState().clearJournal();
+  }, []);
+
+  const resumableChains =
+    journal && !isExecuting && journal.account === address
+      ? journal.chains
+          .filter((chain) => !chain.status)
+          .map((chain) => chain.chainId)
+      : [];
+
   const executeBatch = useCallback(
     async (chainAmounts: ChainAmount[]) => {
       // lazy init if somehow not ready yet
@@ -273,23 +465,33 @@ export function useBatchDeposit(): UseBatchDepositReturn {
       if (!serviceRef.current) {
         if (address) {
           try {
-            serviceRef.current = createBatchDepositService();
+            serviceRef.current = createBatchDepositService(
+              createWagmiChainAdapter(wagmiConfig),
+              configRef.current
+            );
             setServiceInitTick((t) => t + 1);
           } catch {
             throw new Error(BATCH_MESSAGES.ERRORS.SERVICE_NOT_AVAILABLE);
           }
         }
       }
-      if (!serviceRef.current) {
+      if (!serviceRef.current || !address) {
         throw new Error(BATCH_MESSAGES.ERRORS.SERVICE_NOT_AVAILABLE);
       }
+      if (!serviceRef.current.getStatus().isRunning) {
+        useBatchJournalStore.getState().startJournal(address, chainAmounts);
+      }
       return await serviceRef.current.executeBatch(chainAmounts);
     },
     [address]
   );
 
   const retryChain = useCallback(
-    async (chainId: SupportedChainId, amount: string) => {
+    async (
+      chainId: SupportedChainId,
+      amount: string,
+      tokenAddress?: Address
+    ) => {
       /**
        * Retries a failed or cancelled chain deposit operation.
        *
@@ -329,7 +531,7 @@ export function useBatchDeposit(): UseBatchDepositReturn {
       setRetryActiveChain(chainId);
 
       try {
-        const result = await svc.retryChain(chainId, amount);
+        const result = await svc.retryChain(chainId, amount, tokenAddress);
 
         // The chainCompleted event will automatically update the result
         // No need to manually update here since the event handler will do it
@@ -358,13 +560,49 @@ export function useBatchDeposit(): UseBatchDepositReturn {
      * Cancels an in-progress batch deposit operation.
      */
     serviceRef.current?.cancel();
+    setIsPaused(false);
+  }, []);
+
+  const pause = useCallback(() => {
+    /**
+     * Pauses the running batch once the in-flight step finishes.
+     */
+    serviceRef.current?.pause();
   }, []);
 
+  const resume = useCallback(() => {
+    /**
+     * Resumes a paused batch from the chain and step it halted at.
+     */
+    serviceRef.current?.resume();
+  }, []);
+
+  const simulateBatch = useCallback(async (chainAmounts: ChainAmount[]) => {
+    /**
+     * Dry-runs allowance checks and simulations for every chain. Nothing is
+     * signed, so it can run before the first wallet prompt.
+     */
+    if (!serviceRef.current) {
+      throw new Error(BATCH_MESSAGES.ERRORS.SERVICE_NOT_AVAILABLE);
+    }
+    setIsSimulating(true);
+    try {
+      const results = await serviceRef.current.simulateBatch(chainAmounts);
+      setSimulation(results);
+      return results;
+    } finally {
+      setIsSimulating(false);
+    }
+  }, []);
+
+  const clearSimulation = useCallback(() => setSimulation(null), []);
+
   const reset = useCallback(() => {
     /**
      * Resets local hook state, clearing results and progress.
      */
     setIsExecuting(false);
+    setIsPaused(false);
     setResults([]);
     setError(null);
     setProgress({ completed: 0, total: 0, percentage: 0 });
@@ -378,8 +616,19 @@ export function useBatchDeposit(): UseBatchDepositReturn {
     executeBatch,
     retryChain,
     cancel,
+    pause,
+    resume,
     reset,
+    resumeBatch,
+    discardResume,
+    canResume: Boolean(service) && resumableChains.length > 0,
+    resumableChains,
+    simulateBatch,
+    clearSimulation,
     isExecuting,
+    isSimulating,
+    simulation,
+    isPaused,
     results,
     error,
     progress: {
@@ -1,17 +1,28 @@
 import { useState, useCallback, useMemo } from "react";
-import { parseUnits } from "viem";
-import { SupportedChainId, SUPPORTED_CHAINS } from "@/constant/chains";
-import { useChainBalances } from "./useChainBalances";
+import { formatUnits, parseUnits } from "viem";
+import {
+  SupportedChainId,
+  SUPPORTED_CHAINS,
+  getChainName,
+} from "@/constant/chains";
+import { getToken, type TokenSymbol } from "@/constant/tokens";
+import { useMultiChainBalances } from "./useMultiChainBalances";
 import { CommonValidations } from "@/lib/validators";
+import { splitDepositTotal } from "@/lib/deposit-split";
 import { VALIDATION_MESSAGES } from "@/constant/operation-constants";
-import type { BatchDepositState } from "@/types/ui-state";
+import type { BatchDepositState, DepositSplitStrategy } from "@/types/ui-state";
 
 interface UseBatchDepositValidationParams {
   enabled?: boolean;
+  tokenSymbol?: TokenSymbol;
 }
 
+// Amounts are summed at 18 decimals so chains with differing token decimals add up exactly
+const TOTAL_DECIMALS = 18;
+
 export function useBatchDepositValidation({
   enabled = true,
+  tokenSymbol = "USDC",
 }: UseBatchDepositValidationParams = {}) {
   const [inputs, setInputs] = useState<Record<SupportedChainId, string>>(() =>
     SUPPORTED_CHAINS.reduce((acc, chainId) => {
@@ -20,27 +31,21 @@ export function useBatchDepositValidation({
     }, {} as Record<SupportedChainId, string>)
   );
 
-  const ethSepoliaBalance = useChainBalances({
-    chainId: SupportedChainId.ETH_SEPOLIA,
-    enabled,
-  });
-  const seiTestnetBalance = useChainBalances({
-    chainId: SupportedChainId.SEI_TESTNET,
-    enabled,
-  });
-
-  const chainBalances = {
-    [SupportedChainId.ETH_SEPOLIA]: {
-      data: ethSepoliaBalance.data?.walletBalance,
-      isLoading: ethSepoliaBalance.isLoading,
-      error: ethSepoliaBalance.error,
-    },
-    [SupportedChainId.SEI_TESTNET]: {
-      data: seiTestnetBalance.data?.walletBalance,
-      isLoading: seiTestnetBalance.isLoading,
-      error: seiTestnetBalance.error,
-    },
-  };
+  const { balances } = useMultiChainBalances({ enabled });
+
+  const chainBalances = Object.fromEntries(
+    SUPPORTED_CHAINS.map((chainId) => [
+      chainId,
+      {
+        data: balances[chainId][tokenSymbol]?.walletBalance,
+        isLoading: balances[chainId][tokenSymbol]?.isLoading ?? false,
+        error: balances[chainId][tokenSymbol]?.error,
+      },
+    ])
+  ) as Record<
+    SupportedChainId,
+    { data?: bigint; isLoading: boolean; error?: Error | null }
+  >;
 
   const updateAmount = useCallback(
     (chainId: SupportedChainId, amount: string) => {
@@ -55,12 +60,50 @@ export function useBatchDepositValidation({
   const setMaxAmount = useCallback(
     (chainId: SupportedChainId) => {
       const balance = chainBalances[chainId];
-      if (balance.data) {
-        const maxAmount = (Number(balance.data) / Math.pow(10, 6)).toString();
-        updateAmount(chainId, maxAmount);
+      const token = getToken(chainId, tokenSymbol);
+      if (balance.data && token) {
+        updateAmount(chainId, formatUnits(balance.data, token.decimals));
       }
     },
-    [chainBalances, updateAmount]
+    [chainBalances, updateAmount, tokenSymbol]
+  );
+
+  /**
+   * Fill the inputs of `chainIds` with `total` split by `strategy`, leaving
+   * them untouched when it can't be split. Returns the reason, or null
+   */
+  const splitTotal = useCallback(
+    (
+      total: string,
+      strategy: DepositSplitStrategy,
+      chainIds: SupportedChainId[]
+    ): string | null => {
+      const chains = chainIds.flatMap((chainId) => {
+        const token = getToken(chainId, tokenSymbol);
+        if (!token) return [];
+        const balance = balances[chainId][tokenSymbol];
+        return [
+          {
+            chainId,
+            decimals: token.decimals,
+            walletBalance: balance?.error ? undefined : balance?.walletBalance,
+            vaultBalance: balance?.vaultBalance,
+          },
+        ];
+      });
+      const split = splitDepositTotal(total, strategy, chains, tokenSymbol);
+      if (split.error) return split.error;
+
+      setInputs((prev) => {
+        const next = { ...prev };
+        chainIds.forEach((chainId) => {
+          next[chainId] = split.amounts[chainId] ?? "";
+        });
+        return next;
+      });
+      return null;
+    },
+    [balances, tokenSymbol]
   );
 
   const clearAll = useCallback(() => {
@@ -96,6 +139,17 @@ export function useBatchDepositValidation({
 
       hasAnyAmount = true;
 
+      const token = getToken(chainId, tokenSymbol);
+      if (!token) {
+        errors[chainId].push(
+          VALIDATION_MESSAGES.ERRORS.TOKEN_NOT_AVAILABLE(
+            tokenSymbol,
+            getChainName(chainId)
+          )
+        );
+        return;
+      }
+
       const amountValidation = CommonValidations.amount(amount);
       if (!amountValidation.isValid) {
         errors[chainId].push(amountValidation.error!);
@@ -108,14 +162,12 @@ export function useBatchDepositValidation({
         );
       } else if (chainBalance.data !== undefined) {
         try {
-          const amountInWei = parseUnits(amount, 6);
+          const amountInWei = parseUnits(amount, token.decimals);
           if (amountInWei > chainBalance.data) {
-            const maxAmount = (
-              Number(chainBalance.data) / Math.pow(10, 6)
-            ).toFixed(6);
+            const maxAmount = formatUnits(chainBalance.data, token.decimals);
             errors[chainId].push(
               VALIDATION_MESSAGES.ERRORS.INSUFFICIENT_WALLET_BALANCE(
-                "USDC",
+                tokenSymbol,
                 maxAmount
               )
             );
@@ -149,13 +201,12 @@ export function useBatchDepositValidation({
       const total = SUPPORTED_CHAINS.reduce((sum, chainId) => {
         const amount = inputs[chainId];
         if (amount && Number(amount) > 0 && errors[chainId].length === 0) {
-          const amountInWei = parseUnits(amount, 6);
-          return sum + amountInWei;
+          return sum + parseUnits(amount, TOTAL_DECIMALS);
         }
         return sum;
       }, 0n);
 
-      totalAmount = (Number(total) / Math.pow(10, 6)).toString();
+      totalAmount = formatUnits(total, TOTAL_DECIMALS);
     } catch {
       totalAmount = "0";
     }
@@ -167,7 +218,7 @@ export function useBatchDepositValidation({
       errors,
       warnings,
     };
-  }, [inputs, chainBalances]);
+  }, [inputs, chainBalances, tokenSymbol]);
 
   const getValidChainAmounts = useCallback(() => {
     return SUPPORTED_CHAINS.filter((chainId) => {
@@ -177,14 +228,16 @@ export function useBatchDepositValidation({
       return hasAmount && !hasErrors;
     }).map((chainId) => ({
       chainId,
+      tokenAddress: getToken(chainId, tokenSymbol)!.address,
       amount: inputs[chainId],
     }));
-  }, [inputs, batchState.errors]);
+  }, [inputs, batchState.errors, tokenSymbol]);
 
   return {
     batchState,
     updateAmount,
     setMaxAmount,
+    splitTotal,
     clearAll,
     getValidChainAmounts,
     chainBalances,
@@ -0,0 +1,328 @@
+/**
+ * React hook for managing multi-chain batch withdraw operations.
+ *
+ * Mirrors useBatchDeposit: wraps the batch withdraw service, subscribes to its events
+ * and exposes executeBatch / retryChain / cancel alongside UI-friendly progress state.
+ *
+ * @returns {UseBatchWithdrawReturn} Object containing service instance, main operations, state, and progress info.
+ */
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useAccount } from "wagmi";
+import type { Address } from "viem";
+import {
+  createBatchWithdrawService,
+  type BatchWithdrawService,
+} from "@/lib/batch-withdraw-service";
+import type {
+  ChainAmount,
+  BatchWithdrawResult,
+  BatchWithdrawStep,
+  BatchTransactionType,
+  BatchOperationError,
+} from "@/types/batch-operations";
+import { SupportedChainId } from "@/constant/contracts";
+import { BATCH_MESSAGES } from "@/constant/batch-messages";
+
+export interface UseBatchWithdrawReturn {
+  service: BatchWithdrawService | null;
+  executeBatch: (chainAmounts: ChainAmount[]) => Promise<BatchWithdrawResult[]>;
+  retryChain: (
+    chainId: SupportedChainId,
+    amount: string,
+    tokenAddress?: Address
+  ) => Promise<BatchWithdrawResult>;
+  cancel: () => void;
+  reset: () => void;
+  isExecuting: boolean;
+  results: BatchWithdrawResult[];
+  error: string | null;
+  progress: {
+    completed: number;
+    total: number;
+    percentage: number;
+    currentChain?: SupportedChainId;
+    currentOperation?: BatchTransactionType;
+    isRetrying?: boolean;
+    retryingChainId?: SupportedChainId | null;
+  };
+}
+
+export function useBatchWithdraw(): UseBatchWithdrawReturn {
+  const { address } = useAccount();
+
+  const [isExecuting, setIsExecuting] = useState(false);
+  const [results, setResults] = useState<BatchWithdrawResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState({
+    completed: 0,
+    total: 0,
+    percentage: 0,
+  });
+
+  const [currentChain, setCurrentChain] = useState<
+    SupportedChainId | undefined
+  >();
+
+  const [currentOperation, setCurrentOperation] = useState<
+    BatchTransactionType | undefined
+  >();
+
+  const [retryActiveChain, setRetryActiveChain] =
+    useState<SupportedChainId | null>(null);
+
+  const [serviceInitTick, setServiceInitTick] = useState(0);
+
+  const serviceRef = useRef<BatchWithdrawService | null>(null);
+
+  useEffect(() => {
+    if (!address) {
+      serviceRef.current = null;
+      return;
+    }
+    if (!serviceRef.current) {
+      try {
+        serviceRef.current = createBatchWithdrawService();
+        setServiceInitTick((t) => t + 1);
+      } catch (error) {
+        console.error("Failed to create batch withdraw service:", error);
+        setError(
+          error instanceof Error
+            ? error.message
+            : BATCH_MESSAGES.ERRORS.SERVICE_INITIALIZATION_FAILED
+        );
+      }
+    }
+  }, [address]);
+
+  const service = serviceRef.current;
+
+  useEffect(() => {
+    if (!service) return;
+
+    const handleBatchStarted = () => {
+      setIsExecuting(true);
+      setError(null);
+      setResults([]);
+      setProgress({ completed: 0, total: 0, percentage: 0 });
+      setCurrentChain(undefined);
+      setCurrentOperation(undefined);
+    };
+
+    const handleBatchCompleted = ({
+      results,
+    }: {
+      results: BatchWithdrawResult[];
+    }) => {
+      setIsExecuting(false);
+      setResults(results);
+      setCurrentChain(undefined);
+      setCurrentOperation(undefined);
+    };
+
+    const handleBatchFailed = ({ error }: { error: string }) => {
+      setIsExecuting(false);
+      setError(error);
+    };
+
+    const handleProgressUpdated = (progressData: {
+      completed: number;
+      total: number;
+      percentage: number;
+    }) => {
+      setProgress(progressData);
+    };
+
+    const handleChainCompleted = ({
+      result,
+    }: {
+      chainId: SupportedChainId;
+      result: BatchWithdrawResult;
+    }) => {
+      setResults((prev) => [
+        ...prev.filter((r) => r.chainId !== result.chainId),
+        result,
+      ]);
+      if (retryActiveChain === result.chainId) setRetryActiveChain(null);
+    };
+
+    const handleChainFailed = ({
+      chainId,
+      error,
+    }: {
+      chainId: SupportedChainId;
+      error: BatchOperationError;
+    }) => {
+      setResults((prev) => {
+        const existing = prev.find((r) => r.chainId === chainId);
+        const failedResult: BatchWithdrawResult = {
+          chainId,
+          status: "failed",
+          error,
+          startedAt: existing?.startedAt || Date.now(),
+          completedAt: Date.now(),
+        };
+        const filtered = prev.filter((r) => r.chainId !== chainId);
+        return [...filtered, failedResult];
+      });
+      if (retryActiveChain === chainId) {
+        setRetryActiveChain(null);
+      }
+    };
+
+    const handleStepStarted = ({
+      chainId,
+      step,
+      chainStep,
+      chainTotal,
+    }: {
+      chainId: SupportedChainId;
+      step: BatchWithdrawStep;
+      chainStep: number;
+      chainTotal: number;
+    }) => {
+      setCurrentChain(chainId);
+      setCurrentOperation(step === "withdrawing" ? "withdrawal" : undefined);
+      if (retryActiveChain === chainId) {
+        setProgress({
+          completed: chainStep - 1,
+          total: chainTotal,
+          percentage: Math.round(((chainStep - 1) / chainTotal) * 10000) / 100,
+        });
+      }
+    };
+
+    const handleStepCompleted = ({
+      chainId,
+      chainStep,
+      chainTotal,
+    }: {
+      chainId: SupportedChainId;
+      chainStep: number;
+      chainTotal: number;
+    }) => {
+      if (retryActiveChain === chainId) {
+        setProgress({
+          completed: chainStep,
+          total: chainTotal,
+          percentage: Math.round((chainStep / chainTotal) * 10000) / 100,
+        });
+      }
+    };
+
+    service.on("batchStarted", handleBatchStarted);
+    service.on("batchCompleted", handleBatchCompleted);
+    service.on("batchFailed", handleBatchFailed);
+    service.on("progressUpdated", handleProgressUpdated);
+    service.on("chainCompleted", handleChainCompleted);
+    service.on("chainFailed", handleChainFailed);
+    service.on("stepStarted", handleStepStarted);
+    service.on("stepCompleted", handleStepCompleted);
+
+    return () => {
+      service.off("batchStarted", handleBatchStarted);
+      service.off("batchCompleted", handleBatchCompleted);
+      service.off("batchFailed", handleBatchFailed);
+      service.off("progressUpdated", handleProgressUpdated);
+      service.off("chainCompleted", handleChainCompleted);
+      service.off("chainFailed", handleChainFailed);
+      service.off("stepStarted", handleStepStarted);
+      service.off("stepCompleted", handleStepCompleted);
+    };
+  }, [service, serviceInitTick, retryActiveChain]);
+
+  const executeBatch = useCallback(
+    async (chainAmounts: ChainAmount[]) => {
+      if (!serviceRef.current && address) {
+        try {
+          serviceRef.current = createBatchWithdrawService();
+          setServiceInitTick((t) => t + 1);
+        } catch {
+          throw new Error(BATCH_MESSAGES.ERRORS.SERVICE_NOT_AVAILABLE);
+        }
+      }
+      if (!serviceRef.current) {
+        throw new Error(BATCH_MESSAGES.ERRORS.SERVICE_NOT_AVAILABLE);
+      }
+      return await serviceRef.current.executeBatch(chainAmounts);
+    },
+    [address]
+  );
+
+  const retryChain = useCallback(
+    async (
+      chainId: SupportedChainId,
+      amount: string,
+      tokenAddress?: Address
+    ) => {
+      const svc = serviceRef.current;
+      if (!svc) throw new Error(BATCH_MESSAGES.ERRORS.SERVICE_NOT_AVAILABLE);
+
+      if (retryActiveChain && retryActiveChain !== chainId) {
+        throw new Error(
+          BATCH_MESSAGES.ERRORS.RETRY_IN_PROGRESS_OTHER(retryActiveChain)
+        );
+      }
+      if (retryActiveChain === chainId) {
+        throw new Error(
+          BATCH_MESSAGES.ERRORS.RETRY_ALREADY_IN_PROGRESS_FOR(chainId)
+        );
+      }
+
+      setError(null);
+      setResults((prev) =>
+        prev.map((result) =>
+          result.chainId === chainId
+            ? { ...result, status: "retrying", error: undefined }
+            : result
+        )
+      );
+      setRetryActiveChain(chainId);
+
+      try {
+        // chainCompleted / chainFailed events update the result list
+        return await svc.retryChain(chainId, amount, tokenAddress);
+      } catch (error) {
+        setError(
+          error instanceof Error
+            ? error.message
+            : BATCH_MESSAGES.ERRORS.RETRY_FAILED
+        );
+        setRetryActiveChain(null);
+        throw error;
+      }
+    },
+    [retryActiveChain]
+  );
+
+  const cancel = useCallback(() => {
+    serviceRef.current?.cancel();
+  }, []);
+
+  const reset = useCallback(() => {
+    setIsExecuting(false);
+    setResults([]);
+    setError(null);
+    setProgress({ completed: 0, total: 0, percentage: 0 });
+    setCurrentChain(undefined);
+    setCurrentOperation(undefined);
+    setRetryActiveChain(null);
+  }, []);
+
+  return {
+    service,
+    executeBatch,
+    retryChain,
+    cancel,
+    reset,
+    isExecuting,
+    results,
+    error,
+    progress: {
+      ...progress,
+      currentChain,
+      currentOperation,
+      isRetrying: retryActiveChain !== null,
+      retryingChainId: retryActiveChain,
+    },
+  };
+}
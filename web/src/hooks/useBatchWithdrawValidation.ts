@@ -0,0 +1,158 @@
+import { useState, useCallback, useMemo } from "react";
+import { useAccount } from "wagmi";
+import { formatUnits, parseUnits } from "viem";
+import {
+  SupportedChainId,
+  SUPPORTED_CHAINS,
+  getChainName,
+} from "@/constant/chains";
+import { getToken, type TokenSymbol } from "@/constant/tokens";
+import { useMultiChainBalances } from "./useMultiChainBalances";
+import { validateInput } from "@/lib/validation";
+import {
+  OPERATION_TYPES,
+  VALIDATION_CONFIG,
+  VALIDATION_MESSAGES,
+} from "@/constant/operation-constants";
+import type { BatchWithdrawState } from "@/types/ui-state";
+
+interface UseBatchWithdrawValidationParams {
+  enabled?: boolean;
+  tokenSymbol?: TokenSymbol;
+}
+
+const TOTAL_DECIMALS = 18;
+
+function emptyInputs(): Record<SupportedChainId, string> {
+  return SUPPORTED_CHAINS.reduce((acc, chainId) => {
+    acc[chainId] = "";
+    return acc;
+  }, {} as Record<SupportedChainId, string>);
+}
+
+export function useBatchWithdrawValidation({
+  enabled = true,
+  tokenSymbol = "USDC",
+}: UseBatchWithdrawValidationParams = {}) {
+  const { address, isConnected } = useAccount();
+  const [inputs, setInputs] =
+    useState<Record<SupportedChainId, string>>(emptyInputs);
+
+  const { balances } = useMultiChainBalances({ enabled });
+
+  const chainBalances = Object.fromEntries(
+    SUPPORTED_CHAINS.map((chainId) => [
+      chainId,
+      {
+        data: balances[chainId][tokenSymbol]?.vaultBalance,
+        isLoading: balances[chainId][tokenSymbol]?.isLoading ?? false,
+        error: balances[chainId][tokenSymbol]?.error,
+      },
+    ])
+  ) as Record<
+    SupportedChainId,
+    { data?: bigint; isLoading: boolean; error?: Error | null }
+  >;
+
+  const updateAmount = useCallback(
+    (chainId: SupportedChainId, amount: string) => {
+      setInputs((prev) => ({
+        ...prev,
+        [chainId]: amount,
+      }));
+    },
+    []
+  );
+
+  const setMaxAmount = useCallback(
+    (chainId: SupportedChainId) => {
+      const balance = chainBalances[chainId];
+      const token = getToken(chainId, tokenSymbol);
+      if (balance.data && token) {
+        updateAmount(chainId, formatUnits(balance.data, token.decimals));
+      }
+    },
+    [chainBalances, updateAmount, tokenSymbol]
+  );
+
+  const clearAll = useCallback(() => {
+    setInputs(emptyInputs());
+  }, []);
+
+  const batchState = useMemo((): BatchWithdrawState => {
+    const errors = {} as Record<SupportedChainId, string[]>;
+    const warnings = {} as Record<SupportedChainId, string[]>;
+    let total = 0n;
+    let hasValidAmounts = false;
+
+    SUPPORTED_CHAINS.forEach((chainId) => {
+      errors[chainId] = [];
+      warnings[chainId] = [];
+
+      const amount = inputs[chainId];
+      if (!amount || amount === "0") return;
+
+      const token = getToken(chainId, tokenSymbol);
+      if (!token) {
+        errors[chainId].push(
+          VALIDATION_MESSAGES.ERRORS.TOKEN_NOT_AVAILABLE(
+            tokenSymbol,
+            getChainName(chainId)
+          )
+        );
+        return;
+      }
+
+      const validation = validateInput({
+        amount,
+        type: OPERATION_TYPES.WITHDRAW,
+        vaultBalance: chainBalances[chainId].data,
+        isConnected,
+        address,
+        token: {
+          symbol: token.symbol,
+          decimals: token.decimals,
+          minAmount: VALIDATION_CONFIG.MIN_AMOUNTS[token.symbol],
+        },
+      });
+
+      errors[chainId].push(...validation.errors);
+      warnings[chainId].push(...validation.warnings);
+
+      if (validation.isValid) {
+        hasValidAmounts = true;
+        total += parseUnits(amount, TOTAL_DECIMALS);
+      }
+    });
+
+    return {
+      inputs,
+      isValid: hasValidAmounts,
+      totalAmount: formatUnits(total, TOTAL_DECIMALS),
+      errors,
+      warnings,
+    };
+  }, [inputs, chainBalances, isConnected, address, tokenSymbol]);
+
+  const getValidChainAmounts = useCallback(() => {
+    return SUPPORTED_CHAINS.filter((chainId) => {
+      const amount = inputs[chainId];
+      const hasAmount = amount && Number(amount) > 0;
+      const hasErrors = batchState.errors[chainId].length > 0;
+      return hasAmount && !hasErrors;
+    }).map((chainId) => ({
+      chainId,
+      tokenAddress: getToken(chainId, tokenSymbol)!.address,
+      amount: inputs[chainId],
+    }));
+  }, [inputs, batchState.errors, tokenSymbol]);
+
+  return {
+    batchState,
+    updateAmount,
+    setMaxAmount,
+    clearAll,
+    getValidChainAmounts,
+    chainBalances,
+  };
+}
@@ -0,0 +1,195 @@
+/**
+ * React hook for bridging wallet USDC between chains with CCTP.
+ *
+ * Mirrors useBatchWithdraw: wraps the bridge service, subscribes to its events
+ * and exposes bridge / cancel alongside step-by-step progress state.
+ *
+ * @returns {UseBridgeReturn} Object containing service instance, main operations, state, and progress info.
+ */
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useAccount } from "wagmi";
+import { createBridgeService, type BridgeService } from "@/lib/bridge-service";
+import type {
+  BridgeEvents,
+  BridgeRequest,
+  BridgeResult,
+  BridgeStep,
+} from "@/types/bridge-operations";
+import { BATCH_MESSAGES } from "@/constant/batch-messages";
+
+export interface UseBridgeReturn {
+  service: BridgeService | null;
+  bridge: (request: BridgeRequest) => Promise<BridgeResult>;
+  cancel: () => void;
+  reset: () => void;
+  isBridging: boolean;
+  result: BridgeResult | null;
+  error: string | null;
+  progress: {
+    completed: number;
+    total: number;
+    percentage: number;
+    currentStep?: BridgeStep;
+    completedSteps: BridgeStep[];
+    attestationAttempts: number;
+  };
+}
+
+export function useBridge(): UseBridgeReturn {
+  const { address } = useAccount();
+
+  const [isBridging, setIsBridging] = useState(false);
+  const [result, setResult] = useState<BridgeResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState({
+    completed: 0,
+    total: 0,
+    percentage: 0,
+  });
+  const [currentStep, setCurrentStep] = useState<BridgeStep | undefined>();
+  const [completedSteps, setCompletedSteps] = useState<BridgeStep[]>([]);
+  const [attestationAttempts, setAttestationAttempts] = useState(0);
+
+  const [serviceInitTick, setServiceInitTick] = useState(0);
+
+  const serviceRef = useRef<BridgeService | null>(null);
+
+  useEffect(() => {
+    if (!address) {
+      serviceRef.current = null;
+      return;
+    }
+    if (!serviceRef.current) {
+      try {
+        serviceRef.current = createBridgeService();
+        setServiceInitTick((t) => t + 1);
+      } catch (error) {
+        console.error("Failed to create bridge service:", error);
+        setError(
+          error instanceof Error
+            ? error.message
+            : BATCH_MESSAGES.ERRORS.SERVICE_INITIALIZATION_FAILED
+        );
+      }
+    }
+  }, [address]);
+
+  const service = serviceRef.current;
+
+  useEffect(() => {
+    if (!service) return;
+
+    const handleBridgeStarted = ({
+      totalSteps,
+    }: BridgeEvents["bridgeStarted"]) => {
+      setIsBridging(true);
+      setError(null);
+      setResult(null);
+      setProgress({ completed: 0, total: totalSteps, percentage: 0 });
+      setCurrentStep(undefined);
+      setCompletedSteps([]);
+      setAttestationAttempts(0);
+    };
+
+    const handleBridgeCompleted = ({
+      result,
+    }: BridgeEvents["bridgeCompleted"]) => {
+      setIsBridging(false);
+      setResult(result);
+      setCurrentStep(undefined);
+    };
+
+    const handleBridgeFailed = ({
+      result,
+      error,
+    }: BridgeEvents["bridgeFailed"]) => {
+      setIsBridging(false);
+      setResult(result);
+      setError(error.message);
+    };
+
+    const handleProgressUpdated = (
+      progress: BridgeEvents["progressUpdated"]
+    ) => {
+      setProgress(progress);
+    };
+
+    const handleStepStarted = ({ step }: BridgeEvents["stepStarted"]) => {
+      setCurrentStep(step);
+    };
+
+    const handleStepCompleted = ({ step }: BridgeEvents["stepCompleted"]) => {
+      setCompletedSteps((prev) => [...prev, step]);
+    };
+
+    const handleAttestationPending = ({
+      attempt,
+    }: BridgeEvents["attestationPending"]) => {
+      setAttestationAttempts(attempt);
+    };
+
+    service.on("bridgeStarted", handleBridgeStarted);
+    service.on("bridgeCompleted", handleBridgeCompleted);
+    service.on("bridgeFailed", handleBridgeFailed);
+    service.on("progressUpdated", handleProgressUpdated);
+    service.on("stepStarted", handleStepStarted);
+    service.on("stepCompleted", handleStepCompleted);
+    service.on("attestationPending", handleAttestationPending);
+
+    return () => {
+      service.off("bridgeStarted", handleBridgeStarted);
+      service.off("bridgeCompleted", handleBridgeCompleted);
+      service.off("bridgeFailed", handleBridgeFailed);
+      service.off("progressUpdated", handleProgressUpdated);
+      service.off("stepStarted", handleStepStarted);
+      service.off("stepCompleted", handleStepCompleted);
+      service.off("attestationPending", handleAttestationPending);
+    };
+  }, [service, serviceInitTick]);
+
+  const bridge = useCallback(async (request: BridgeRequest) => {
+    if (!serviceRef.current) {
+      throw new Error(BATCH_MESSAGES.ERRORS.SERVICE_NOT_AVAILABLE);
+    }
+    setError(null);
+    try {
+      return await serviceRef.current.bridge(request);
+    } catch (error) {
+      // Validation errors are thrown before the bridge starts
+      setError(
+        error instanceof Error ? error.message : BATCH_MESSAGES.ERRORS.UNKNOWN
+      );
+      throw error;
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    serviceRef.current?.cancel();
+  }, []);
+
+  const reset = useCallback(() => {
+    setIsBridging(false);
+    setResult(null);
+    setError(null);
+    setProgress({ completed: 0, total: 0, percentage: 0 });
+    setCurrentStep(undefined);
+    setCompletedSteps([]);
+    setAttestationAttempts(0);
+  }, []);
+
+  return {
+    service,
+    bridge,
+    cancel,
+    reset,
+    isBridging,
+    result,
+    error,
+    progress: {
+      ...progress,
+      currentStep,
+      completedSteps,
+      attestationAttempts,
+    },
+  };
+}
@@ -0,0 +1,311 @@
+/**
+ * React hook for bridging USDC with CCTP and depositing it on arrival.
+ *
+ * Runs on the services behind useBridge and useBatchDeposit, so both hooks
+ * follow along: the bridge stage shows in the Bridge tab and the deposit stage
+ * is a regular batch deposit.
+ *
+ * Features:
+ * - Journals the bridge stage (burn, attestation, mint) to storage and offers to resume it after a page reload.
+ * - Hands the minted amount to the batch deposit journal before the deposit starts.
+ * - Keeps a failed bridge resumable once USDC has been burned.
+ *
+ * @param bridgeService - Service from useBridge.
+ * @param depositService - Service from useBatchDeposit.
+ * @returns {UseBridgeDepositReturn} Object containing service instance, main operations, state, and progress info.
+ */
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useAccount } from "wagmi";
+import {
+  createBridgeDepositService,
+  type BridgeDepositService,
+} from "@/lib/bridge-deposit-service";
+import type { BridgeService } from "@/lib/bridge-service";
+import type { BatchDepositService } from "@/lib/batch-deposit-service";
+import type { BridgeDepositOperation } from "@/lib/bridge-deposit-progress";
+import type {
+  BridgeDepositEvents,
+  BridgeDepositResult,
+  BridgeEvents,
+  BridgeRequest,
+} from "@/types/bridge-operations";
+import { BATCH_MESSAGES } from "@/constant/batch-messages";
+import { useBridgeJournalStore } from "@/stores/bridgeJournalStore";
+import { useBatchJournalStore } from "@/stores/batchJournalStore";
+
+export interface UseBridgeDepositReturn {
+  service: BridgeDepositService | null;
+  execute: (request: BridgeRequest) => Promise<BridgeDepositResult>;
+  resume: () => Promise<BridgeDepositResult | undefined>;
+  discardResume: () => void;
+  cancel: () => void;
+  reset: () => void;
+  isRunning: boolean;
+  // A burned but unminted bridge is journaled for this account
+  canResume: boolean;
+  operation: BridgeDepositOperation | null;
+  result: BridgeDepositResult | null;
+  error: string | null;
+  progress: {
+    completed: number;
+    total: number;
+    percentage: number;
+  };
+}
+
+export function useBridgeDeposit(
+  bridgeService: BridgeService | null,
+  depositService: BatchDepositService | null
+): UseBridgeDepositReturn {
+  const { address } = useAccount();
+  const journal = useBridgeJournalStore((state) => state.journal);
+
+  const [isRunning, setIsRunning] = useState(false);
+  const [operation, setOperation] = useState<BridgeDepositOperation | null>(
+    null
+  );
+  const [result, setResult] = useState<BridgeDepositResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState({
+    completed: 0,
+    total: 0,
+    percentage: 0,
+  });
+
+  const [serviceInitTick, setServiceInitTick] = useState(0);
+
+  const serviceRef = useRef<BridgeDepositService | null>(null);
+  const journalCheckedRef = useRef(false);
+
+  useEffect(() => {
+    if (!bridgeService || !depositService) {
+      serviceRef.current = null;
+      return;
+    }
+    serviceRef.current = createBridgeDepositService(
+      bridgeService,
+      depositService
+    );
+    setServiceInitTick((t) => t + 1);
+  }, [bridgeService, depositService]);
+
+  const service = serviceRef.current;
+
+  // Subscribe to service events
+  useEffect(() => {
+    if (!service) return;
+
+    const handleOperationStarted = ({
+      request,
+      totalSteps,
+    }: BridgeDepositEvents["operationStarted"]) => {
+      setIsRunning(true);
+      setError(null);
+      setResult(null);
+      setProgress({ completed: 0, total: totalSteps, percentage: 0 });
+      setOperation({
+        request,
+        stage: "bridging",
+        // A resumed bridge starts from what was journaled
+        bridge: useBridgeJournalStore.getState().journal?.bridge ?? {},
+      });
+    };
+
+    const handleStageStarted = ({
+      stage,
+    }: BridgeDepositEvents["stageStarted"]) => {
+      setOperation((prev) => prev && { ...prev, stage });
+    };
+
+    const handleProgressUpdated = (
+      progress: BridgeDepositEvents["progressUpdated"]
+    ) => {
+      setProgress(progress);
+    };
+
+    const handleOperationCompleted = ({
+      result,
+    }: BridgeDepositEvents["operationCompleted"]) => {
+      setIsRunning(false);
+      setResult(result);
+    };
+
+    const handleOperationFailed = ({
+      result,
+      error,
+    }: BridgeDepositEvents["operationFailed"]) => {
+      setIsRunning(false);
+      setResult(result);
+      setError(error.message);
+    };
+
+    service.on("operationStarted", handleOperationStarted);
+    service.on("stageStarted", handleStageStarted);
+    service.on("progressUpdated", handleProgressUpdated);
+    service.on("operationCompleted", handleOperationCompleted);
+    service.on("operationFailed", handleOperationFailed);
+
+    return () => {
+      service.off("operationStarted", handleOperationStarted);
+      service.off("stageStarted", handleStageStarted);
+      service.off("progressUpdated", handleProgressUpdated);
+      service.off("operationCompleted", handleOperationCompleted);
+      service.off("operationFailed", handleOperationFailed);
+    };
+  }, [service, serviceInitTick]);
+
+  // Follow the bridge stage; the bridge service also runs standalone bridges
+  useEffect(() => {
+    if (!service || !bridgeService) return;
+    const isOwnStage = () => service.getStatus().stage === "bridging";
+
+    const handleStepStarted = ({ step }: BridgeEvents["stepStarted"]) => {
+      if (!isOwnStage()) return;
+      setOperation((prev) => prev && { ...prev, bridgeStep: step });
+    };
+
+    const handleTransactionSubmitted = ({
+      txHash,
+      type,
+    }: BridgeEvents["transactionSubmitted"]) => {
+      if (!isOwnStage()) return;
+      const patch =
+        type === "approval"
+          ? { approvalTxHash: txHash }
+          : type === "burn"
+          ? { burnTxHash: txHash }
+          : { mintTxHash: txHash };
+      useBridgeJournalStore.getState().updateBridge(patch);
+      setOperation(
+        (prev) => prev && { ...prev, bridge: { ...prev.bridge, ...patch } }
+      );
+    };
+
+    const handleAttestationReceived = ({
+      message,
+      attestation,
+    }: BridgeEvents["attestationReceived"]) => {
+      if (!isOwnStage()) return;
+      useBridgeJournalStore.getState().updateBridge({ message, attestation });
+      setOperation(
+        (prev) =>
+          prev && { ...prev, bridge: { ...prev.bridge, message, attestation } }
+      );
+    };
+
+    const handleBridgeFailed = ({ error }: BridgeEvents["bridgeFailed"]) => {
+      if (!isOwnStage()) return;
+      setOperation((prev) => prev && { ...prev, bridgeError: error });
+    };
+
+    bridgeService.on("stepStarted", handleStepStarted);
+    bridgeService.on("transactionSubmitted", handleTransactionSubmitted);
+    bridgeService.on("attestationReceived", handleAttestationReceived);
+    bridgeService.on("bridgeFailed", handleBridgeFailed);
+
+    return () => {
+      bridgeService.off("stepStarted", handleStepStarted);
+      bridgeService.off("transactionSubmitted", handleTransactionSubmitted);
+      bridgeService.off("attestationReceived", handleAttestationReceived);
+      bridgeService.off("bridgeFailed", handleBridgeFailed);
+    };
+  }, [service, serviceInitTick, bridgeService]);
+
+  // Hand over from the bridge journal to the batch deposit journal
+  useEffect(() => {
+    if (!service || !address) return;
+
+    const handleDepositStarted = ({
+      chainAmount,
+    }: BridgeDepositEvents["depositStarted"]) => {
+      useBatchJournalStore.getState().startJournal(address, [chainAmount]);
+      useBridgeJournalStore.getState().clearJournal();
+    };
+
+    // Keep the journal only while burned USDC is still waiting to be minted
+    const handleOperationFailed = ({
+      result,
+    }: BridgeDepositEvents["operationFailed"]) => {
+      if (result.bridge.status === "success" || !result.bridge.burnTxHash) {
+        useBridgeJournalStore.getState().clearJournal();
+      }
+    };
+
+    service.on("depositStarted", handleDepositStarted);
+    service.on("operationFailed", handleOperationFailed);
+
+    return () => {
+      service.off("depositStarted", handleDepositStarted);
+      service.off("operationFailed", handleOperationFailed);
+    };
+  }, [service, serviceInitTick, address]);
+
+  const resume = useCallback(async () => {
+    const svc = serviceRef.current;
+    const { journal } = useBridgeJournalStore.getState();
+    if (!svc || !journal?.bridge.burnTxHash || journal.account !== address) {
+      return undefined;
+    }
+    return svc.resume(journal);
+  }, [address]);
+
+  const discardResume = useCallback(() => {
+    useBridgeJournalStore.getState().clearJournal();
+  }, []);
+
+  // Drop a journal that never burned, once per session: nothing left the
+  // wallet, so it is safe to start over. A burned one waits for the user to
+  // resume or discard it
+  useEffect(() => {
+    if (!address || journalCheckedRef.current) return;
+    journalCheckedRef.current = true;
+
+    const { journal, clearJournal } = useBridgeJournalStore.getState();
+    if (journal?.account === address && !journal.bridge.burnTxHash) {
+      clearJournal();
+    }
+  }, [address]);
+
+  const execute = useCallback(
+    async (request: BridgeRequest) => {
+      if (!serviceRef.current || !address) {
+        throw new Error(BATCH_MESSAGES.ERRORS.SERVICE_NOT_AVAILABLE);
+      }
+      if (serviceRef.current.getStatus().isRunning) {
+        throw new Error(BATCH_MESSAGES.ERRORS.BATCH_ALREADY_RUNNING);
+      }
+      useBridgeJournalStore.getState().startJournal(address, request);
+      return serviceRef.current.execute(request);
+    },
+    [address]
+  );
+
+  const cancel = useCallback(() => {
+    serviceRef.current?.cancel();
+  }, []);
+
+  const reset = useCallback(() => {
+    setIsRunning(false);
+    setOperation(null);
+    setResult(null);
+    setError(null);
+    setProgress({ completed: 0, total: 0, percentage: 0 });
+  }, []);
+
+  return {
+    service,
+    execute,
+    resume,
+    discardResume,
+    cancel,
+    reset,
+    isRunning,
+    canResume:
+      !isRunning &&
+      Boolean(journal?.bridge.burnTxHash && journal.account === address),
+    operation,
+    result,
+    error,
+    progress,
+  };
+}
@@ -2,44 +2,48 @@ import { useAccount, useReadContracts } from "wagmi";
 import { erc20Abi } from "viem";
 import { simpleVaultAbi } from "@/generated/wagmi";
 import { type SupportedChainId } from "@/constant/chains";
-import { getUsdcAddress, getVaultAddress } from "@/constant/contracts";
+import { getVaultAddress } from "@/constant/contracts";
+import { getToken, type TokenSymbol } from "@/constant/tokens";
 
 interface UseChainBalancesParams {
   chainId: SupportedChainId;
+  tokenSymbol?: TokenSymbol;
   enabled?: boolean;
 }
 
 export function useChainBalances({
   chainId,
+  tokenSymbol = "USDC",
   enabled = true,
 }: UseChainBalancesParams) {
   const { address: userAddress } = useAccount();
 
-  const usdcAddress = getUsdcAddress(chainId);
+  const tokenAddress = getToken(chainId, tokenSymbol)?.address;
   const vaultAddress = getVaultAddress(chainId);
-  const contracts = userAddress
-    ? [
-        {
-          chainId,
-          abi: erc20Abi,
-          address: usdcAddress,
-          functionName: "balanceOf" as const,
-          args: [userAddress],
-        },
-        {
-          chainId,
-          abi: simpleVaultAbi,
-          address: vaultAddress,
-          functionName: "getBalance" as const,
-          args: [userAddress, usdcAddress],
-        },
-      ]
-    : [];
+  const contracts =
+    userAddress && tokenAddress
+      ? [
+          {
+            chainId,
+            abi: erc20Abi,
+            address: tokenAddress,
+            functionName: "balanceOf" as const,
+            args: [userAddress],
+          },
+          {
+            chainId,
+            abi: simpleVaultAbi,
+            address: vaultAddress,
+            functionName: "getBalance" as const,
+            args: [userAddress, tokenAddress],
+          },
+        ]
+      : [];
 
   const result = useReadContracts({
     contracts,
     query: {
-      enabled: Boolean(userAddress && enabled),
+      enabled: Boolean(userAddress && tokenAddress && enabled),
       refetchInterval: 5000,
     },
   });
@@ -55,7 +59,7 @@ export function useChainBalances({
     ...result,
     data,
     addresses: {
-      usdc: usdcAddress,
+      token: tokenAddress,
       vault: vaultAddress,
     },
   };
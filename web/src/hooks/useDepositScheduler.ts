@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useAccount } from "wagmi";
+import {
+  getDueSchedules,
+  getScheduleRunStatus,
+  isScheduleDue,
+  toScheduleChainAmounts,
+} from "@/lib/deposit-schedule";
+import { createComponentLogger } from "@/lib/logger";
+import { useDepositScheduleStore } from "@/stores/depositScheduleStore";
+import type { BatchDepositResult, ChainAmount } from "@/types/batch-operations";
+import type { DepositSchedule } from "@/types/deposit-schedule";
+
+const logger = createComponentLogger("useDepositScheduler");
+
+// How often open tabs look for schedules that have come due
+const SCHEDULE_CHECK_INTERVAL_MS = 30_000;
+
+// Held by the tab running a schedule, so two tabs never run one at once
+const SCHEDULE_RUN_LOCK = "argenta-deposit-schedule-run";
+
+/**
+ * Run `task` while holding the schedule lock. With `wait` off it is skipped
+ * when another tab holds the lock. Browsers without Web Locks just run it
+ */
+async function withScheduleRunLock(
+  task: () => Promise<void>,
+  wait: boolean
+): Promise<void> {
+  if (typeof navigator === "undefined" || !navigator.locks) return task();
+  await navigator.locks.request(
+    SCHEDULE_RUN_LOCK,
+    { ifAvailable: !wait },
+    async (lock) => {
+      if (lock) await task();
+    }
+  );
+}
+
+interface UseDepositSchedulerOptions {
+  executeBatch: (chainAmounts: ChainAmount[]) => Promise<BatchDepositResult[]>;
+  // Another deposit, retry or bridge is in flight; due schedules wait for it
+  isBusy: boolean;
+}
+
+/**
+ * Runs the connected account's due deposit schedules while the app is open.
+ * "auto" schedules start as soon as nothing else is running; "prompt"
+ * schedules are returned in `pendingSchedules` until run or skipped.
+ *
+ * A run is claimed (its `nextRunAt` advanced and persisted) before anything
+ * is sent, under a lock shared by every open tab, so neither a second tab
+ * nor a reload mid-run deposits the same slot twice.
+ */
+export function useDepositScheduler({
+  executeBatch,
+  isBusy,
+}: UseDepositSchedulerOptions) {
+  const { address } = useAccount();
+  const schedules = useDepositScheduleStore((state) => state.schedules);
+  const recordRun = useDepositScheduleStore((state) => state.recordRun);
+
+  const [now, setNow] = useState(() => Date.now());
+  const [runningScheduleId, setRunningScheduleId] = useState<string | null>(
+    null
+  );
+  const runningRef = useRef(false);
+
+  useEffect(() => {
+    const timer = setInterval(
+      () => setNow(Date.now()),
+      SCHEDULE_CHECK_INTERVAL_MS
+    );
+    return () => clearInterval(timer);
+  }, []);
+
+  // Pick up runs, skips and edits made in other tabs
+  useEffect(() => {
+    const storageKey = useDepositScheduleStore.persist.getOptions().name;
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === storageKey) {
+        void useDepositScheduleStore.persist.rehydrate();
+      }
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  const dueSchedules = useMemo(
+    () => (address ? getDueSchedules(schedules, address, now) : []),
+    [schedules, address, now]
+  );
+
+  const claimAndRun = useCallback(
+    async (schedule: DepositSchedule, wait: boolean) => {
+      if (runningRef.current) return;
+      runningRef.current = true;
+      setRunningScheduleId(schedule.id);
+      try {
+        await withScheduleRunLock(async () => {
+          // Another tab may have claimed it since this one last read storage
+          await useDepositScheduleStore.persist.rehydrate();
+          const current = useDepositScheduleStore
+            .getState()
+            .schedules.find(({ id }) => id === schedule.id);
+          const ranAt = Date.now();
+          if (!current || !isScheduleDue(current, ranAt)) return;
+
+          recordRun(current.id, ranAt);
+          try {
+            const results = await executeBatch(toScheduleChainAmounts(current));
+            recordRun(current.id, ranAt, getScheduleRunStatus(results));
+          } catch (error) {
+            logger.error(`Scheduled deposit ${current.id} failed`, error);
+            recordRun(current.id, ranAt, "failed");
+          }
+        }, wait);
+      } finally {
+        runningRef.current = false;
+        setRunningScheduleId(null);
+        setNow(Date.now());
+      }
+    },
+    [executeBatch, recordRun]
+  );
+
+  // A user-started run waits for another tab's run to finish
+  const runSchedule = useCallback(
+    (schedule: DepositSchedule) => claimAndRun(schedule, true),
+    [claimAndRun]
+  );
+
+  const skipSchedule = useCallback(
+    (schedule: DepositSchedule) => {
+      recordRun(schedule.id, Date.now());
+      setNow(Date.now());
+    },
+    [recordRun]
+  );
+
+  useEffect(() => {
+    if (isBusy || runningRef.current) return;
+    const next = dueSchedules.find((schedule) => schedule.mode === "auto");
+    if (next) void claimAndRun(next, false);
+  }, [dueSchedules, isBusy, claimAndRun]);
+
+  return {
+    pendingSchedules: dueSchedules.filter(
+      (schedule) => schedule.mode === "prompt"
+    ),
+    runningScheduleId,
+    runSchedule,
+    skipSchedule,
+  };
+}
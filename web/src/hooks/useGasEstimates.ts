@@ -0,0 +1,63 @@
+import { useAccount } from "wagmi";
+import type { Address } from "viem";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import type { SupportedChainId } from "@/constant/chains";
+import {
+  estimateDepositGas,
+  type ChainGasEstimate,
+} from "@/lib/gas-estimation";
+import { createComponentLogger } from "@/lib/logger";
+
+const logger = createComponentLogger("useGasEstimates");
+
+// Gas prices move, so refresh the preview while it is on screen
+const GAS_ESTIMATE_REFRESH_MS = 30_000;
+
+export interface GasEstimateRequest {
+  chainId: SupportedChainId;
+  tokenAddress: Address;
+  amount: bigint;
+}
+
+/**
+ * Per-chain gas preview for a batch deposit. A chain whose estimate fails is
+ * left out rather than failing the whole preview.
+ */
+export function useGasEstimates(requests: GasEstimateRequest[]) {
+  const { address } = useAccount();
+
+  const query = useQuery({
+    queryKey: [
+      "gasEstimates",
+      address,
+      requests.map(
+        ({ chainId, tokenAddress, amount }) =>
+          `${chainId}:${tokenAddress}:${amount}`
+      ),
+    ],
+    queryFn: async (): Promise<ChainGasEstimate[]> => {
+      const settled = await Promise.allSettled(
+        requests.map(({ chainId, tokenAddress, amount }) =>
+          estimateDepositGas(chainId, address!, tokenAddress, amount)
+        )
+      );
+      return settled.flatMap((result, index) => {
+        if (result.status === "fulfilled") return [result.value];
+        logger.warn(
+          `Gas estimate failed for chain ${requests[index].chainId}`,
+          result.reason
+        );
+        return [];
+      });
+    },
+    enabled: Boolean(address) && requests.length > 0,
+    placeholderData: keepPreviousData,
+    refetchInterval: GAS_ESTIMATE_REFRESH_MS,
+  });
+
+  return {
+    estimates: requests.length > 0 ? query.data ?? [] : [],
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
@@ -0,0 +1,94 @@
+import { useMemo } from "react";
+import { useAccount, useReadContracts } from "wagmi";
+import { erc20Abi } from "viem";
+import { simpleVaultAbi } from "@/generated/wagmi";
+import { SupportedChainId, SUPPORTED_CHAINS } from "@/constant/chains";
+import { getVaultAddress } from "@/constant/contracts";
+import { getChainTokens, type TokenSymbol } from "@/constant/tokens";
+
+interface UseMultiChainBalancesParams {
+  chainIds?: readonly SupportedChainId[];
+  enabled?: boolean;
+}
+
+export interface ChainBalanceEntry {
+  walletBalance?: bigint;
+  vaultBalance?: bigint;
+  isLoading: boolean;
+  error?: Error | null;
+}
+
+export type MultiChainBalances = Record<
+  SupportedChainId,
+  Partial<Record<TokenSymbol, ChainBalanceEntry>>
+>;
+
+/**
+ * Wallet and vault balances of every registered token on every chain,
+ * keyed by chain then token symbol, in one multicall batch
+ */
+export function useMultiChainBalances({
+  chainIds = SUPPORTED_CHAINS,
+  enabled = true,
+}: UseMultiChainBalancesParams = {}) {
+  const { address: userAddress } = useAccount();
+
+  const reads = useMemo(
+    () =>
+      chainIds.flatMap((chainId) =>
+        getChainTokens(chainId).map((token) => ({ chainId, token }))
+      ),
+    [chainIds]
+  );
+
+  const contracts = userAddress
+    ? reads.flatMap(({ chainId, token }) => [
+        {
+          chainId,
+          abi: erc20Abi,
+          address: token.address,
+          functionName: "balanceOf" as const,
+          args: [userAddress],
+        },
+        {
+          chainId,
+          abi: simpleVaultAbi,
+          address: getVaultAddress(chainId),
+          functionName: "getBalance" as const,
+          args: [userAddress, token.address],
+        },
+      ])
+    : [];
+
+  const result = useReadContracts({
+    contracts,
+    query: {
+      enabled: Boolean(userAddress && enabled),
+      refetchInterval: 5000,
+    },
+  });
+
+  // Rebuilt only when the reads return, so consumers can memoize on it
+  const balances = useMemo(() => {
+    const byChain = Object.fromEntries(
+      chainIds.map((chainId) => [chainId, {}])
+    ) as MultiChainBalances;
+
+    reads.forEach(({ chainId, token }, index) => {
+      const wallet = result.data?.[index * 2];
+      const vault = result.data?.[index * 2 + 1];
+      byChain[chainId][token.symbol] = {
+        walletBalance: wallet?.result as bigint | undefined,
+        vaultBalance: vault?.result as bigint | undefined,
+        isLoading: result.isLoading,
+        error: result.error || wallet?.error || vault?.error,
+      };
+    });
+    return byChain;
+  }, [chainIds, reads, result.data, result.isLoading, result.error]);
+
+  return {
+    ...result,
+    balances,
+  };
+}
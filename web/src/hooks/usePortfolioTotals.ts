@@ -1,34 +1,64 @@
 import { useMemo } from "react";
-import { useChainBalances } from "./useChainBalances";
-import { SupportedChainId } from "@/constant/chains";
+import { useMultiChainBalances } from "./useMultiChainBalances";
+import { SUPPORTED_CHAINS } from "@/constant/chains";
+import { getToken, type TokenSymbol } from "@/constant/tokens";
 
-export function usePortfolioTotals() {
-  const sepoliaBalances = useChainBalances({
-    chainId: SupportedChainId.ETH_SEPOLIA,
-  });
+export interface TokenTotals {
+  // Totals are scaled to the most decimals the token has on any chain
+  decimals: number;
+  totalWallet: bigint;
+  totalVault: bigint;
+  totalPortfolio: bigint;
+}
 
-  const seiBalances = useChainBalances({
-    chainId: SupportedChainId.SEI_TESTNET,
-  });
+export function usePortfolioTotals() {
+  const { balances, isLoading, error } = useMultiChainBalances();
 
   const totals = useMemo(() => {
-    const sepoliaWalletBalance = sepoliaBalances.data?.walletBalance ?? 0n;
-    const seiWalletBalance = seiBalances.data?.walletBalance ?? 0n;
-    const sepoliaVaultBalance = sepoliaBalances.data?.vaultBalance ?? 0n;
-    const seiVaultBalance = seiBalances.data?.vaultBalance ?? 0n;
+    const byToken: Partial<Record<TokenSymbol, TokenTotals>> = {};
 
-    const totalWallet = sepoliaWalletBalance + seiWalletBalance;
-    const totalVault = sepoliaVaultBalance + seiVaultBalance;
-    const totalPortfolio = totalWallet + totalVault;
+    SUPPORTED_CHAINS.forEach((chainId) => {
+      Object.entries(balances[chainId]).forEach(([key, balance]) => {
+        const symbol = key as TokenSymbol;
+        const chainDecimals = getToken(chainId, symbol)?.decimals ?? 6;
+        const current = byToken[symbol] ?? {
+          decimals: chainDecimals,
+          totalWallet: 0n,
+          totalVault: 0n,
+          totalPortfolio: 0n,
+        };
+
+        // Rescale whichever side has fewer decimals before adding
+        const decimals = Math.max(current.decimals, chainDecimals);
+        const scaleCurrent = 10n ** BigInt(decimals - current.decimals);
+        const scaleChain = 10n ** BigInt(decimals - chainDecimals);
+        const wallet = (balance?.walletBalance ?? 0n) * scaleChain;
+        const vault = (balance?.vaultBalance ?? 0n) * scaleChain;
+        byToken[symbol] = {
+          decimals,
+          totalWallet: current.totalWallet * scaleCurrent + wallet,
+          totalVault: current.totalVault * scaleCurrent + vault,
+          totalPortfolio:
+            current.totalPortfolio * scaleCurrent + wallet + vault,
+        };
+      });
+    });
+
+    // Top-level totals stay denominated in USDC; other tokens live in byToken
+    const usdc = byToken.USDC ?? {
+      decimals: 6,
+      totalWallet: 0n,
+      totalVault: 0n,
+      totalPortfolio: 0n,
+    };
 
     return {
-      totalWallet,
-      totalVault,
-      totalPortfolio,
-      isLoading: sepoliaBalances.isLoading || seiBalances.isLoading,
-      error: sepoliaBalances.error || seiBalances.error,
+      ...usdc,
+      byToken,
+      isLoading,
+      error,
     };
-  }, [sepoliaBalances, seiBalances]);
+  }, [balances, isLoading, error]);
 
   return totals;
 }
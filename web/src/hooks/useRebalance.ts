@@ -0,0 +1,158 @@
+/**
+ * React hook for moving vault balances toward target allocations.
+ *
+ * Runs a plan from `planRebalance` on the withdraw, bridge and deposit, and
+ * deposit executors it is given, so each stage also reports through the hook
+ * that owns it (progress, journals, history).
+ *
+ * @param executors - executeBatch of useBatchWithdraw, execute of useBridgeDeposit and executeBatch of useBatchDeposit.
+ * @returns {UseRebalanceReturn} Object containing service instance, main operations, state, and progress info.
+ */
+import { useState, useEffect, useCallback, useRef } from "react";
+import {
+  createRebalanceService,
+  type RebalanceExecutors,
+  type RebalanceService,
+} from "@/lib/rebalance-service";
+import type {
+  RebalanceEvents,
+  RebalancePlan,
+  RebalanceResult,
+} from "@/types/rebalance";
+import { BATCH_MESSAGES } from "@/constant/batch-messages";
+
+export interface UseRebalanceReturn {
+  service: RebalanceService;
+  execute: (plan: RebalancePlan) => Promise<RebalanceResult>;
+  cancel: () => void;
+  reset: () => void;
+  isRunning: boolean;
+  stage: RebalanceEvents["stageStarted"] | null;
+  result: RebalanceResult | null;
+  error: string | null;
+  progress: {
+    completed: number;
+    total: number;
+    percentage: number;
+  };
+}
+
+export function useRebalance(
+  executors: RebalanceExecutors
+): UseRebalanceReturn {
+  const [isRunning, setIsRunning] = useState(false);
+  const [stage, setStage] = useState<RebalanceEvents["stageStarted"] | null>(
+    null
+  );
+  const [result, setResult] = useState<RebalanceResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState({
+    completed: 0,
+    total: 0,
+    percentage: 0,
+  });
+
+  // The executors change with their hooks' state; the service calls the latest
+  const executorsRef = useRef(executors);
+  executorsRef.current = executors;
+
+  const serviceRef = useRef<RebalanceService | null>(null);
+  if (!serviceRef.current) {
+    serviceRef.current = createRebalanceService({
+      withdraw: (chainAmounts) => executorsRef.current.withdraw(chainAmounts),
+      bridgeAndDeposit: (request) =>
+        executorsRef.current.bridgeAndDeposit(request),
+      deposit: (chainAmounts) => executorsRef.current.deposit(chainAmounts),
+    });
+  }
+  const service = serviceRef.current;
+
+  // Subscribe to service events
+  useEffect(() => {
+    const handleRebalanceStarted = ({
+      totalSteps,
+    }: RebalanceEvents["rebalanceStarted"]) => {
+      setIsRunning(true);
+      setError(null);
+      setResult(null);
+      setStage(null);
+      setProgress({ completed: 0, total: totalSteps, percentage: 0 });
+    };
+
+    const handleStageStarted = (next: RebalanceEvents["stageStarted"]) => {
+      setStage(next);
+    };
+
+    const handleProgressUpdated = (
+      progress: RebalanceEvents["progressUpdated"]
+    ) => {
+      setProgress(progress);
+    };
+
+    const handleRebalanceCompleted = ({
+      result,
+    }: RebalanceEvents["rebalanceCompleted"]) => {
+      setIsRunning(false);
+      setStage(null);
+      setResult(result);
+    };
+
+    const handleRebalanceFailed = ({
+      result,
+      error,
+    }: RebalanceEvents["rebalanceFailed"]) => {
+      setIsRunning(false);
+      setStage(null);
+      setResult(result);
+      setError(error.message);
+    };
+
+    service.on("rebalanceStarted", handleRebalanceStarted);
+    service.on("stageStarted", handleStageStarted);
+    service.on("progressUpdated", handleProgressUpdated);
+    service.on("rebalanceCompleted", handleRebalanceCompleted);
+    service.on("rebalanceFailed", handleRebalanceFailed);
+
+    return () => {
+      service.off("rebalanceStarted", handleRebalanceStarted);
+      service.off("stageStarted", handleStageStarted);
+      service.off("progressUpdated", handleProgressUpdated);
+      service.off("rebalanceCompleted", handleRebalanceCompleted);
+      service.off("rebalanceFailed", handleRebalanceFailed);
+    };
+  }, [service]);
+
+  const execute = useCallback(
+    async (plan: RebalancePlan) => {
+      if (service.getStatus().isRunning) {
+        throw new Error(BATCH_MESSAGES.ERRORS.BATCH_ALREADY_RUNNING);
+      }
+      return service.execute(plan);
+    },
+    [service]
+  );
+
+  const cancel = useCallback(() => {
+    service.cancel();
+  }, [service]);
+
+  const reset = useCallback(() => {
+    setIsRunning(false);
+    setStage(null);
+    setResult(null);
+    setError(null);
+    setProgress({ completed: 0, total: 0, percentage: 0 });
+  }, []);
+
+  return {
+    service,
+    execute,
+    cancel,
+    reset,
+    isRunning,
+    stage,
+    result,
+    error,
+    progress,
+  };
+}
@@ -0,0 +1,105 @@
+import { useCallback, useMemo } from "react";
+import { useAccount } from "wagmi";
+import type { Address } from "viem";
+import { useQuery } from "@tanstack/react-query";
+import { useVaultTransactions } from "@/hooks/useVaultTransactions";
+import {
+  mergeTransactionHistory,
+  reconcilePendingTransaction,
+} from "@/lib/transaction-reconciliation";
+import { createComponentLogger } from "@/lib/logger";
+import {
+  useTransactionStore,
+  type Transaction,
+} from "@/stores/transactionStore";
+
+const logger = createComponentLogger("useTransactionHistory");
+
+const PENDING_POLL_INTERVAL_MS = 15_000;
+
+function filterByAccount(
+  transactions: Transaction[],
+  address: Address
+): Transaction[] {
+  return transactions.filter(
+    (tx) => !tx.from || tx.from.toLowerCase() === address.toLowerCase()
+  );
+}
+
+/**
+ * On-chain vault history merged with the transactions recorded locally during
+ * batch runs, so pending and failed attempts show up next to confirmed ones.
+ * Pending entries are polled until their receipt lands or they are dropped.
+ */
+export function useTransactionHistory() {
+  const { address } = useAccount();
+  const vault = useVaultTransactions();
+  const stored = useTransactionStore((state) => state.transactions);
+
+  const local = useMemo(
+    () => (address ? filterByAccount(stored, address) : []),
+    [address, stored]
+  );
+
+  const pending = useMemo(
+    () => local.filter((tx) => tx.status === "pending"),
+    [local]
+  );
+
+  useQuery({
+    queryKey: [
+      "pendingTransactions",
+      address,
+      pending.map((tx) => `${tx.hash}:${tx.chainId}`),
+    ],
+    queryFn: async () => {
+      const { updateTransaction } = useTransactionStore.getState();
+      await Promise.all(
+        pending.map(async (tx) => {
+          try {
+            const updates = await reconcilePendingTransaction(tx);
+            if (updates) updateTransaction(tx.hash, tx.chainId, updates);
+          } catch (error) {
+            logger.warn(`Receipt check failed for ${tx.hash}`, error);
+          }
+        })
+      );
+      return true;
+    },
+    enabled: pending.length > 0,
+    refetchInterval: PENDING_POLL_INTERVAL_MS,
+  });
+
+  const transactions = useMemo(
+    () => mergeTransactionHistory(local, vault.transactions),
+    [local, vault.transactions]
+  );
+
+  const { loadUntil } = vault;
+
+  /**
+   * Full history between two timestamps across all chains, loading older
+   * pages as needed, e.g. for exports
+   */
+  const getTransactionsInRange = useCallback(
+    async (from: number, to: number): Promise<Transaction[]> => {
+      if (!address) return [];
+      const onChain = await loadUntil(from);
+      const recorded = filterByAccount(
+        useTransactionStore.getState().transactions,
+        address
+      );
+      return mergeTransactionHistory(recorded, onChain).filter(
+        (tx) => tx.timestamp >= from && tx.timestamp <= to
+      );
+    },
+    [address, loadUntil]
+  );
+
+  return {
+    ...vault,
+    getTransactionsInRange,
+    transactions,
+    hasTransactions: transactions.length > 0,
+  };
+}
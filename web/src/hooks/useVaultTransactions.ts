@@ -1,256 +1,175 @@
-import { useAccount, useChainId, useBlockNumber, usePublicClient } from "wagmi";
+import { useCallback, useMemo, useState } from "react";
+import { useAccount } from "wagmi";
+import type { Address } from "viem";
 import { useQuery } from "@tanstack/react-query";
-import { SupportedChainId } from "@/constant/chains";
+import { SUPPORTED_CHAINS, SupportedChainId } from "@/constant/chains";
 import {
-  getUsdcAddress,
-  getVaultAddress,
-  getVaultDeploymentBlock,
-} from "@/constant/contracts";
-import { formatUnits, parseAbiItem } from "viem";
-
-interface UseVaultTransactionsOptions {
-  limit?: number;
+  loadHistoryPage,
+  mergeChainHistories,
+  type ChainHistoryCache,
+  type VaultTransaction,
+} from "@/lib/vault-history";
+import { createComponentLogger } from "@/lib/logger";
+import {
+  useVaultHistoryStore,
+  getHistoryKey,
+} from "@/stores/vaultHistoryStore";
+
+export type { VaultTransaction } from "@/lib/vault-history";
+
+const logger = createComponentLogger("useVaultTransactions");
+
+function getAccountHistories(
+  histories: Record<string, ChainHistoryCache>,
+  address: Address
+): Partial<Record<SupportedChainId, ChainHistoryCache>> {
+  return Object.fromEntries(
+    SUPPORTED_CHAINS.map((chainId) => [
+      chainId,
+      histories[getHistoryKey(address, chainId)],
+    ])
+  );
 }
 
-export interface VaultTransaction {
-  hash: string;
-  type: "deposit" | "withdrawal" | "approval";
-  amount: string;
-  tokenSymbol: string;
-  chainId: number;
-  timestamp: number;
-  blockNumber: number;
-  from: string;
-  to: string;
+interface UseVaultTransactionsOptions {
+  // Minimum number of new entries each chain scans for per page
+  pageSize?: number;
 }
 
+/**
+ * Vault history across every supported chain, newest first.
+ *
+ * Each chain is scanned backwards from the latest block towards its vault
+ * deployment block in pages; `loadMore` fetches the next page. Scanned ranges
+ * are cached, so a refetch only scans blocks mined since the previous one.
+ */
 export function useVaultTransactions(options?: UseVaultTransactionsOptions) {
   const { address } = useAccount();
-  const chainId = useChainId();
-  const limit = options?.limit ?? 10;
-
-  const { data: currentBlock } = useBlockNumber({
-    chainId: chainId as SupportedChainId,
-  });
-
-  const publicClient = usePublicClient({
-    chainId: chainId as SupportedChainId,
-  });
-
-  const {
-    data: transactions,
-    isLoading,
-    error,
-    refetch,
-    isRefetching,
-  } = useQuery({
-    queryKey: ["vaultTransactions", chainId, address, limit],
-    queryFn: async () => {
-      if (!address || !chainId || !currentBlock || !publicClient) {
-        return [];
-      }
-
-      const usdcAddress = getUsdcAddress(chainId as SupportedChainId);
-      const vaultAddress = getVaultAddress(chainId as SupportedChainId);
-      const deploymentBlock = getVaultDeploymentBlock(
-        chainId as SupportedChainId
+  const pageSize = options?.pageSize ?? 10;
+  const histories = useVaultHistoryStore((state) => state.histories);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  const loadPages = useCallback(
+    async (chainIds: SupportedChainId[], newBlocksOnly: boolean) => {
+      if (!address) return;
+      const { setChainHistory } = useVaultHistoryStore.getState();
+
+      const settled = await Promise.allSettled(
+        chainIds.map(async (chainId) => {
+          const cache =
+            useVaultHistoryStore.getState().histories[
+              getHistoryKey(address, chainId)
+            ];
+          const next = await loadHistoryPage(chainId, address, cache, {
+            pageSize,
+            newBlocksOnly,
+          });
+          setChainHistory(address, chainId, next);
+        })
       );
 
-      let allLogs: any[] = [];
-
-      if (chainId === SupportedChainId.SEI_TESTNET) {
-        const CHUNK_SIZE = 1800;
-        const MAX_ITERATIONS = 10;
-        let searchBlock = currentBlock;
-
-        for (let i = 0; i < MAX_ITERATIONS && allLogs.length < limit; i++) {
-          const fromBlock = searchBlock - BigInt(CHUNK_SIZE);
-          const toBlock = searchBlock;
-
-          if (Number(fromBlock) < deploymentBlock) break;
-
-          try {
-            const [depositLogs, withdrawalLogs, approvalLogs] =
-              await Promise.all([
-                publicClient
-                  .getLogs({
-                    address: usdcAddress,
-                    event: parseAbiItem(
-                      "event Transfer(address indexed from, address indexed to, uint256 value)"
-                    ),
-                    args: { from: address, to: vaultAddress },
-                    fromBlock,
-                    toBlock,
-                  })
-                  .catch(() => []),
-                publicClient
-                  .getLogs({
-                    address: usdcAddress,
-                    event: parseAbiItem(
-                      "event Transfer(address indexed from, address indexed to, uint256 value)"
-                    ),
-                    args: { from: vaultAddress, to: address },
-                    fromBlock,
-                    toBlock,
-                  })
-                  .catch(() => []),
-                publicClient
-                  .getLogs({
-                    address: usdcAddress,
-                    event: parseAbiItem(
-                      "event Approval(address indexed owner, address indexed spender, uint256 value)"
-                    ),
-                    args: { owner: address, spender: vaultAddress },
-                    fromBlock,
-                    toBlock,
-                  })
-                  .catch(() => []),
-              ]);
-
-            allLogs.push(
-              ...depositLogs.map((log) => ({
-                ...log,
-                type: "deposit" as const,
-              })),
-              ...withdrawalLogs.map((log) => ({
-                ...log,
-                type: "withdrawal" as const,
-              })),
-              ...approvalLogs.map((log) => ({
-                ...log,
-                type: "approval" as const,
-              }))
-            );
-          } catch (error) {
-            console.warn(
-              `Sei chunk search failed for blocks ${fromBlock}-${toBlock}:`,
-              error
-            );
-          }
-
-          searchBlock = fromBlock - 1n; // Move to next chunk
-        }
-      } else {
-        const fromBlock = BigInt(
-          Math.max(Number(currentBlock) - 1999, deploymentBlock)
-        );
-
-        const [depositLogs, withdrawalLogs, approvalLogs] = await Promise.all([
-          publicClient.getLogs({
-            address: usdcAddress,
-            event: parseAbiItem(
-              "event Transfer(address indexed from, address indexed to, uint256 value)"
-            ),
-            args: { from: address, to: vaultAddress },
-            fromBlock,
-            toBlock: "latest",
-          }),
-          publicClient.getLogs({
-            address: usdcAddress,
-            event: parseAbiItem(
-              "event Transfer(address indexed from, address indexed to, uint256 value)"
-            ),
-            args: { from: vaultAddress, to: address },
-            fromBlock,
-            toBlock: "latest",
-          }),
-          publicClient.getLogs({
-            address: usdcAddress,
-            event: parseAbiItem(
-              "event Approval(address indexed owner, address indexed spender, uint256 value)"
-            ),
-            args: { owner: address, spender: vaultAddress },
-            fromBlock,
-            toBlock: "latest",
-          }),
-        ]);
-
-        // Combine all logs with their types
-        allLogs = [
-          ...depositLogs.map((log) => ({ ...log, type: "deposit" as const })),
-          ...withdrawalLogs.map((log) => ({
-            ...log,
-            type: "withdrawal" as const,
-          })),
-          ...approvalLogs.map((log) => ({ ...log, type: "approval" as const })),
-        ];
-      }
-
-      const sortedLogs = allLogs
-        .sort((a, b) => Number(b.blockNumber) - Number(a.blockNumber))
-        .slice(0, limit);
-
-      const uniqueBlockNumbers = [
-        ...new Set(sortedLogs.map((log) => log.blockNumber)),
-      ];
-
-      const blockPromises = uniqueBlockNumbers.map((blockNumber) =>
-        publicClient.getBlock({ blockNumber }).catch(() => null)
+      const failures = settled.filter(
+        (result): result is PromiseRejectedResult =>
+          result.status === "rejected"
       );
-      const blocks = await Promise.all(blockPromises);
-
-      const blockTimestampMap = new Map<bigint, number>();
-      blocks.forEach((block, index) => {
-        if (block) {
-          blockTimestampMap.set(
-            uniqueBlockNumbers[index],
-            Number(block.timestamp) * 1000
-          );
-        }
-      });
-
-      // Transform logs into transactions
-      const transactions: VaultTransaction[] = sortedLogs.map((log) => {
-        const timestamp = blockTimestampMap.get(log.blockNumber) || Date.now();
-
-        let from: string;
-        let to: string;
-
-        if (log.type === "approval") {
-          const args = log.args as {
-            owner?: string;
-            spender?: string;
-            value?: bigint;
-          };
-          from = args.owner as string;
-          to = args.spender as string;
-        } else {
-          const args = log.args as {
-            from?: string;
-            to?: string;
-            value?: bigint;
-          };
-          from = args.from as string;
-          to = args.to as string;
-        }
-
-        return {
-          hash: log.transactionHash,
-          type: log.type,
-          amount: formatUnits(log.args.value as bigint, 6),
-          tokenSymbol: "USDC",
-          chainId: chainId!,
-          timestamp,
-          blockNumber: Number(log.blockNumber),
-          from,
-          to,
-        };
-      });
+      failures.forEach((failure) =>
+        logger.warn("History page failed", failure.reason)
+      );
+      if (failures.length > 0 && failures.length === chainIds.length) {
+        throw failures[0].reason;
+      }
+    },
+    [address, pageSize]
+  );
 
-      return transactions;
+  const { isLoading, error, refetch, isRefetching } = useQuery({
+    queryKey: ["vaultTransactions", address, pageSize],
+    queryFn: async () => {
+      await loadPages(SUPPORTED_CHAINS, true);
+      return true;
     },
-    enabled: !!address && !!chainId && !!currentBlock && !!publicClient,
+    enabled: !!address,
     staleTime: 30_000,
     refetchOnWindowFocus: true,
     refetchOnReconnect: true,
   });
 
+  const accountHistories = useMemo(
+    () => (address ? getAccountHistories(histories, address) : {}),
+    [address, histories]
+  );
+
+  const { transactions, hasMore, scanning } = useMemo(
+    () => mergeChainHistories(accountHistories),
+    [accountHistories]
+  );
+
+  const loadMore = useCallback(async () => {
+    if (!address || isLoadingMore) return;
+    const chainIds = SUPPORTED_CHAINS.filter(
+      (chainId) => histories[getHistoryKey(address, chainId)]?.hasMore
+    );
+    if (chainIds.length === 0) return;
+
+    setIsLoadingMore(true);
+    try {
+      await loadPages(chainIds, false);
+    } catch (error) {
+      logger.error("Failed to load older transactions", error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [address, histories, isLoadingMore, loadPages]);
+
+  /**
+   * Page every chain back to `timestamp` and return the merged history.
+   * Chains whose page fails are skipped, so this always finishes.
+   */
+  const loadUntil = useCallback(
+    async (timestamp: number): Promise<VaultTransaction[]> => {
+      if (!address) return [];
+      const stalled = new Set<SupportedChainId>();
+      const coverage = () => useVaultHistoryStore.getState().histories;
+
+      for (;;) {
+        const before = coverage();
+        const chainIds = SUPPORTED_CHAINS.filter((chainId) => {
+          const cache = before[getHistoryKey(address, chainId)];
+          return (
+            !stalled.has(chainId) &&
+            cache?.hasMore &&
+            cache.coveredFromTimestamp > timestamp
+          );
+        });
+        if (chainIds.length === 0) break;
+
+        await loadPages(chainIds, false).catch(() => undefined);
+        const after = coverage();
+        for (const chainId of chainIds) {
+          const key = getHistoryKey(address, chainId);
+          if (before[key]?.coveredFromBlock === after[key]?.coveredFromBlock) {
+            stalled.add(chainId);
+          }
+        }
+      }
+
+      return mergeChainHistories(getAccountHistories(coverage(), address))
+        .transactions;
+    },
+    [address, loadPages]
+  );
+
   return {
-    transactions: transactions ?? [],
+    transactions,
     isLoading,
     error,
     refetch,
     isRefetching,
-    hasTransactions: (transactions?.length ?? 0) > 0,
+    hasTransactions: transactions.length > 0,
+    hasMore,
+    scanning,
+    loadMore,
+    isLoadingMore,
+    loadUntil,
   };
 }
@@ -0,0 +1,50 @@
+import { maxUint256, parseUnits } from "viem";
+import type { ApprovalPolicy } from "@/types/batch-operations";
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = { strategy: "exact" };
+
+// Tokens like USDC count down even a max approval, so anything this large
+// still reads as unlimited
+const UNLIMITED_ALLOWANCE_THRESHOLD = maxUint256 / 2n;
+
+export function isUnlimitedAllowance(allowance: bigint): boolean {
+  return allowance >= UNLIMITED_ALLOWANCE_THRESHOLD;
+}
+
+/**
+ * Parse a custom cap in token units, or undefined when it isn't a positive
+ * amount
+ */
+export function parseApprovalCap(
+  cap: string | undefined,
+  decimals: number
+): bigint | undefined {
+  if (!cap?.trim()) return undefined;
+  try {
+    const value = parseUnits(cap.trim(), decimals);
+    return value > 0n ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Allowance to approve for a deposit of `amount` under the given policy.
+ * Never less than the deposit itself, so a cap below it approves exactly
+ */
+export function getApprovalAmount(
+  policy: ApprovalPolicy,
+  amount: bigint,
+  decimals: number
+): bigint {
+  switch (policy.strategy) {
+    case "unlimited":
+      return maxUint256;
+    case "custom": {
+      const cap = parseApprovalCap(policy.customCap, decimals);
+      return cap !== undefined && cap > amount ? cap : amount;
+    }
+    default:
+      return amount;
+  }
+}
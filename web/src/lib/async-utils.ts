@@ -0,0 +1,87 @@
+import { BATCH_MESSAGES } from "@/constant/batch-messages";
+
+export async function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Rejection from `withTimeout`. The wrapped promise is not cancelled, so a
+ * wallet prompt that timed out can still be signed afterwards
+ */
+export class TimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(BATCH_MESSAGES.ERRORS.TIMEOUT(timeoutMs));
+    this.name = "TimeoutError";
+  }
+}
+
+export async function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number
+): Promise<T> {
+  const timeoutPromise = new Promise<never>((_, reject) =>
+    setTimeout(() => reject(new TimeoutError(timeoutMs)), timeoutMs)
+  );
+  return Promise.race([promise, timeoutPromise]);
+}
+
+export interface RetryOptions {
+  backoffMultiplier?: number;
+  // Errors for which this returns false are rethrown without retrying
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+export async function retryOperation<T>(
+  operation: () => Promise<T>,
+  maxAttempts: number,
+  delayMs: number,
+  operationName: string,
+  { backoffMultiplier = 2, shouldRetry }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (shouldRetry && !shouldRetry(error)) throw error;
+      if (attempt === maxAttempts) {
+        throw new Error(
+          `${operationName} failed after ${maxAttempts} attempts: ${error}`,
+          { cause: error }
+        );
+      }
+
+      const delay = delayMs * Math.pow(backoffMultiplier, attempt - 1); // Exponential backoff
+      console.warn(
+        `${operationName} attempt ${attempt} failed, retrying in ${delay}ms`
+      );
+      await sleep(delay);
+    }
+  }
+  throw new Error(`${operationName} failed unexpectedly`);
+}
+
+/**
+ * Serializes async tasks that share a key while letting different keys run
+ * concurrently (e.g. one in-flight approve/deposit pipeline per chain)
+ */
+export function createKeyedMutex<K>() {
+  const tails = new Map<K, Promise<void>>();
+
+  async function runExclusive<T>(key: K, task: () => Promise<T>): Promise<T> {
+    const previous = tails.get(key) ?? Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>((resolve) => (release = resolve));
+    const tail = previous.then(() => current);
+    tails.set(key, tail);
+
+    await previous;
+    try {
+      return await task();
+    } finally {
+      release();
+      if (tails.get(key) === tail) tails.delete(key);
+    }
+  }
+
+  return { runExclusive };
+}
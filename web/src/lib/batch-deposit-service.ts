@@ -1,84 +1,76 @@
 import type { Address, Hash } from "viem";
-import { erc20Abi } from "viem";
-import {
-  readContract,
-  writeContract,
-  simulateContract,
-  switchChain,
-  waitForTransactionReceipt,
-  getAccount,
-} from "@wagmi/core";
+import { encodeFunctionData, erc20Abi } from "viem";
 import { SupportedChainId } from "@/constant/chains";
+import { getUsdcAddress, vaultSupportsPermit } from "@/constant/contracts";
 import { simpleVaultAbi } from "@/generated/wagmi";
-import { wagmiConfig } from "@/wagmi";
+import type { ChainClientAdapter } from "@/lib/chain-client-adapter";
 import {
   parseAmountToBigInt,
   isUserRejection,
+  categorizeError,
+  createBatchError,
+  BatchChainError,
   validateChainOperation,
+  resolveToken,
 } from "@/lib/vault-operations";
+import {
+  DEFAULT_APPROVAL_POLICY,
+  getApprovalAmount,
+} from "@/lib/approval-policy";
+import {
+  erc20PermitAbi,
+  buildPermitTypedData,
+  matchesDomainSeparator,
+  toPermitSignature,
+  type PermitSignature,
+} from "@/lib/permit";
 import { createTypedEventEmitter } from "@/types/typed-event-emitter";
 import type {
   ChainAmount,
   BatchDepositConfig,
   BatchDepositResult,
   BatchDepositEvents,
+  BatchJournal,
+  BatchJournalChainEntry,
+  BatchDepositStep,
+  BatchSimulationResult,
 } from "@/types/batch-operations";
-import { DEFAULT_BATCH_DEPOSIT_CONFIG as DEFAULT_CONFIG } from "@/constant/batch-operation-constants";
+import {
+  DEFAULT_BATCH_CONFIG,
+  DEFAULT_BATCH_DEPOSIT_CONFIG as DEFAULT_CONFIG,
+} from "@/constant/batch-operation-constants";
 import { BATCH_MESSAGES } from "@/constant/batch-messages";
+import {
+  sleep,
+  withTimeout,
+  TimeoutError,
+  retryOperation as retryWithBackoff,
+  createKeyedMutex,
+} from "@/lib/async-utils";
 
-async function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-async function withTimeout<T>(
-  promise: Promise<T>,
-  timeoutMs: number
-): Promise<T> {
-  const timeoutPromise = new Promise<never>((_, reject) =>
-    setTimeout(
-      () => reject(new Error(BATCH_MESSAGES.ERRORS.TIMEOUT(timeoutMs))),
-      timeoutMs
-    )
-  );
-  return Promise.race([promise, timeoutPromise]);
-}
-
-async function retryOperation<T>(
-  operation: () => Promise<T>,
-  maxAttempts: number,
-  delayMs: number,
-  operationName: string
-): Promise<T> {
-  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-    try {
-      return await operation();
-    } catch (error) {
-      if (attempt === maxAttempts) {
-        throw new Error(
-          `${operationName} failed after ${maxAttempts} attempts: ${error}`
-        );
-      }
-
-      const delay = delayMs * Math.pow(2, attempt - 1); // Exponential backoff
-      console.warn(
-        `${operationName} attempt ${attempt} failed, retrying in ${delay}ms`
-      );
-      await sleep(delay);
-    }
-  }
-  throw new Error(`${operationName} failed unexpectedly`);
-}
+type ResumePoint = Pick<
+  BatchJournalChainEntry,
+  "approvalTxHash" | "depositTxHash" | "bundleId"
+>;
 
 export interface BatchDepositService {
   executeBatch: (chainAmounts: ChainAmount[]) => Promise<BatchDepositResult[]>;
+  resumeBatch: (journal: BatchJournal) => Promise<BatchDepositResult[]>;
+  simulateBatch: (
+    chainAmounts: ChainAmount[]
+  ) => Promise<BatchSimulationResult[]>;
   retryChain: (
     chainId: SupportedChainId,
-    amount: string
+    amount: string,
+    tokenAddress?: Address
   ) => Promise<BatchDepositResult>;
   cancel: () => void;
+  pause: () => void;
+  resume: () => void;
   getStatus: () => {
     isRunning: boolean;
     isCancelled: boolean;
+    isPaused: boolean;
     resultsCount: number;
   };
   on: <K extends keyof BatchDepositEvents>(
@@ -92,23 +84,64 @@ export interface BatchDepositService {
 }
 
 export function createBatchDepositService(
+  adapter: ChainClientAdapter,
   config: BatchDepositConfig = DEFAULT_CONFIG
 ): BatchDepositService {
-  const account = getAccount(wagmiConfig);
-  if (!account.address) {
+  const address = adapter.getAddress();
+  if (!address) {
     throw new Error(BATCH_MESSAGES.ERRORS.NO_WALLET_CONNECTED);
   }
-  const userAddress = account.address;
+  const userAddress = address;
 
   let isRunning = false;
   let isCancelled = false;
+  // Set when a chain fails and `continueOnFailure` is off
+  let haltedByFailure = false;
+  let isPaused = false;
+  // Pending while paused; step boundaries await it
+  let resumeSignal: Promise<void> | null = null;
+  let releasePause: (() => void) | null = null;
   let results: BatchDepositResult[] = [];
   let currentStep = 0;
   let totalSteps = 0;
   let activeRetryChain: SupportedChainId | null = null;
+  const atomicBatchSupport = new Map<SupportedChainId, boolean>();
+  // One approve/deposit pipeline per chain at a time to keep nonces ordered
+  const chainLocks = createKeyedMutex<SupportedChainId>();
 
   const events = createTypedEventEmitter<BatchDepositEvents>();
 
+  const execution = config.execution ?? DEFAULT_BATCH_CONFIG;
+  // A wallet that signs on the active chain only has to switch chain by chain
+  const runInParallel =
+    Boolean(config.parallelChains) && adapter.signsOnAnyChain;
+
+  /**
+   * Only errors whose category is listed in `retry.retryableErrorTypes` are
+   * retried; network errors additionally need `autoRetryOnNetworkError`
+   */
+  function isRetryableError(error: unknown): boolean {
+    const type = categorizeError(error);
+    if (type === "network" && !execution.autoRetryOnNetworkError) return false;
+    return execution.retry.retryableErrorTypes.includes(type);
+  }
+
+  function retryStep<T>(
+    operation: () => Promise<T>,
+    operationName: string
+  ): Promise<T> {
+    return retryWithBackoff(
+      operation,
+      execution.retry.maxAttempts,
+      execution.retry.delayMs,
+      operationName,
+      {
+        backoffMultiplier: execution.retry.backoffMultiplier,
+        shouldRetry: isRetryableError,
+      }
+    );
+  }
+
   function updateProgress(): void {
     const percentage =
       totalSteps > 0 ? Math.round((currentStep / totalSteps) * 100) : 0;
@@ -125,14 +158,47 @@ export function createBatchDepositService(
   }
 
   async function switchToChain(chainId: SupportedChainId): Promise<void> {
-    await retryOperation(
-      async () => {
-        await switchChain(wagmiConfig, { chainId });
-        await sleep(1000);
-      },
-      config.retryAttempts,
-      config.retryDelayMs,
-      `Chain switch to ${chainId}`
+    await retryStep(async () => {
+      await withTimeout(
+        adapter.switchChain(chainId),
+        execution.timeouts.chainSwitch
+      );
+      await sleep(1000);
+    }, `Chain switch to ${chainId}`);
+  }
+
+  /**
+   * Step boundary: park here while the batch is paused, then bail out if it
+   * was cancelled or halted in the meantime
+   */
+  async function checkpoint(): Promise<void> {
+    if (resumeSignal) await resumeSignal;
+    assertNotStopped();
+  }
+
+  function assertNotStopped(): void {
+    if (isCancelled) {
+      throw new Error(BATCH_MESSAGES.ERRORS.OPERATION_CANCELLED);
+    }
+    if (haltedByFailure) {
+      throw new Error(BATCH_MESSAGES.ERRORS.BATCH_STOPPED_AFTER_FAILURE);
+    }
+  }
+
+  function readAllowance(
+    chainId: SupportedChainId,
+    tokenAddress: Address,
+    spenderAddress: Address
+  ): Promise<bigint> {
+    return retryStep(
+      () =>
+        adapter.getPublicClient(chainId).readContract({
+          address: tokenAddress,
+          abi: erc20Abi,
+          functionName: "allowance",
+          args: [userAddress, spenderAddress],
+        }),
+      `Allowance check for chain ${chainId}`
     );
   }
 
@@ -143,18 +209,10 @@ export function createBatchDepositService(
     amount: bigint
   ): Promise<boolean> {
     try {
-      const allowance = await retryOperation(
-        () =>
-          readContract(wagmiConfig, {
-            address: tokenAddress,
-            abi: erc20Abi,
-            functionName: "allowance",
-            args: [userAddress, spenderAddress],
-            chainId,
-          }),
-        2,
-        500,
-        `Allowance check for chain ${chainId}`
+      const allowance = await readAllowance(
+        chainId,
+        tokenAddress,
+        spenderAddress
       );
       return allowance < amount;
     } catch {
@@ -162,150 +220,492 @@ export function createBatchDepositService(
     }
   }
 
-  async function executeApproval(
+  /**
+   * Allowance to approve for a deposit under the chain's approval policy
+   */
+  function getPolicyApprovalAmount(
+    chainId: SupportedChainId,
+    tokenAddress: Address | undefined,
+    amount: bigint
+  ): bigint {
+    const policy =
+      config.getApprovalPolicy?.(chainId) ?? DEFAULT_APPROVAL_POLICY;
+    return getApprovalAmount(
+      policy,
+      amount,
+      resolveToken(chainId, tokenAddress).decimals
+    );
+  }
+
+  /**
+   * Sign an EIP-2612 permit for the vault, or return null when the token or
+   * vault doesn't support permit so the caller falls back to an approve tx
+   */
+  async function signPermit(
     chainId: SupportedChainId,
     tokenAddress: Address,
     spenderAddress: Address,
     amount: bigint
-  ): Promise<Hash> {
-    const { request } = await retryOperation(
-      () =>
-        simulateContract(wagmiConfig, {
-          address: tokenAddress,
-          abi: erc20Abi,
-          functionName: "approve",
-          args: [spenderAddress, amount],
-          account: userAddress,
-          chainId,
-        }),
-      2,
-      500,
-      `Approval simulation for chain ${chainId}`
+  ): Promise<PermitSignature | null> {
+    if (config.usePermit === false || !vaultSupportsPermit(chainId)) {
+      return null;
+    }
+
+    const client = adapter.getPublicClient(chainId);
+    const token = { address: tokenAddress, abi: erc20PermitAbi };
+    const [name, version, nonce, onChainSeparator] = await Promise.allSettled([
+      client.readContract({ ...token, functionName: "name" }),
+      client.readContract({ ...token, functionName: "version" }),
+      client.readContract({
+        ...token,
+        functionName: "nonces",
+        args: [userAddress],
+      }),
+      client.readContract({ ...token, functionName: "DOMAIN_SEPARATOR" }),
+    ]);
+
+    if (
+      name.status !== "fulfilled" ||
+      nonce.status !== "fulfilled" ||
+      onChainSeparator.status !== "fulfilled"
+    ) {
+      return null;
+    }
+
+    const deadline = BigInt(
+      Math.floor(Date.now() / 1000) + (config.permitDeadlineSeconds ?? 1800)
     );
+    const typedData = buildPermitTypedData({
+      name: name.value,
+      // Tokens without version() use "1" per the OpenZeppelin default
+      version: version.status === "fulfilled" ? version.value : "1",
+      chainId,
+      token: tokenAddress,
+      owner: userAddress,
+      spender: spenderAddress,
+      value: amount,
+      nonce: nonce.value,
+      deadline,
+    });
 
-    const submitTx = async () => writeContract(wagmiConfig, request);
+    if (!matchesDomainSeparator(typedData.domain, onChainSeparator.value)) {
+      return null;
+    }
 
-    let hash: Hash;
     try {
-      hash = await withTimeout(submitTx(), config.timeoutMs);
+      const wallet = await adapter.getWalletClient(chainId);
+      const signature = await withTimeout(
+        wallet.signTypedData({ ...typedData, account: wallet.account }),
+        execution.timeouts.approval
+      );
+      return toPermitSignature(signature, deadline);
     } catch (error) {
       if (isUserRejection(error)) {
-        throw new Error(BATCH_MESSAGES.ERRORS.USER_CANCELLED_APPROVAL);
+        throw new Error(BATCH_MESSAGES.ERRORS.USER_CANCELLED_PERMIT, {
+          cause: error,
+        });
       }
-      hash = await retryOperation(
-        submitTx,
-        config.retryAttempts,
-        config.retryDelayMs,
-        "Approval transaction"
+      // Wallets that can't sign typed data still get the approve path
+      return null;
+    }
+  }
+
+  /**
+   * Whether the connected wallet can execute an EIP-5792 call bundle
+   * atomically on this chain (smart accounts, EIP-7702 wallets)
+   */
+  async function supportsAtomicBatch(
+    chainId: SupportedChainId
+  ): Promise<boolean> {
+    if (config.useAtomicBatch === false) return false;
+
+    const cached = atomicBatchSupport.get(chainId);
+    if (cached !== undefined) return cached;
+
+    let supported = false;
+    try {
+      const wallet = await adapter.getWalletClient(chainId);
+      const capabilities = await wallet.getCapabilities({
+        account: wallet.account,
+        chainId,
+      });
+      const status = capabilities?.atomic?.status;
+      supported = status === "supported" || status === "ready";
+    } catch {
+      // Wallets without wallet_getCapabilities use the sequential flow
+      supported = false;
+    }
+    atomicBatchSupport.set(chainId, supported);
+    return supported;
+  }
+
+  /**
+   * Submit approve + deposit as one atomic sendCalls bundle and wait for
+   * the wallet to report its final status. The bundle id is announced as
+   * soon as the wallet accepts it, so a reload can wait for it instead of
+   * sending a second bundle
+   */
+  async function executeBundledDeposit(
+    chainId: SupportedChainId,
+    vaultAddress: Address,
+    tokenAddress: Address,
+    amount: bigint,
+    approvalAmount: bigint
+  ): Promise<{ approvalTxHash: Hash; depositTxHash: Hash }> {
+    const wallet = await adapter.getWalletClient(chainId);
+    let bundleId: string;
+    try {
+      const bundle = await withTimeout(
+        wallet.sendCalls({
+          account: wallet.account,
+          forceAtomic: true,
+          calls: [
+            {
+              to: tokenAddress,
+              abi: erc20Abi,
+              functionName: "approve",
+              args: [vaultAddress, approvalAmount],
+            },
+            {
+              to: vaultAddress,
+              abi: simpleVaultAbi,
+              functionName: "deposit",
+              args: [tokenAddress, amount],
+            },
+          ],
+        }),
+        execution.timeouts.approval
       );
+      bundleId = bundle.id;
+    } catch (error) {
+      if (isUserRejection(error)) {
+        throw new Error(BATCH_MESSAGES.ERRORS.USER_CANCELLED_BUNDLE, {
+          cause: error,
+        });
+      }
+      throw error;
     }
 
-    events.emit("transactionSubmitted", {
+    events.emit("bundleSubmitted", { chainId, tokenAddress, bundleId });
+    return confirmBundle(chainId, bundleId, tokenAddress, amount);
+  }
+
+  /**
+   * Wait for a sendCalls bundle to land and report its transactions
+   */
+  async function confirmBundle(
+    chainId: SupportedChainId,
+    bundleId: string,
+    tokenAddress: Address,
+    amount: bigint
+  ): Promise<{ approvalTxHash: Hash; depositTxHash: Hash }> {
+    const receipts = await pollCallsStatus(chainId, bundleId);
+
+    // Atomic bundles usually land in a single tx, reported once as the deposit
+    const approvalReceipt = receipts[0];
+    const depositReceipt = receipts[receipts.length - 1];
+    const reported =
+      approvalReceipt.transactionHash === depositReceipt.transactionHash
+        ? ([[depositReceipt, "deposit"]] as const)
+        : ([
+            [approvalReceipt, "approval"],
+            [depositReceipt, "deposit"],
+          ] as const);
+
+    for (const [receipt, type] of reported) {
+      const txHash = receipt.transactionHash;
+      events.emit("transactionSubmitted", {
+        chainId,
+        txHash,
+        type,
+        tokenAddress,
+        amount,
+      });
+      events.emit("transactionConfirmed", {
+        chainId,
+        txHash,
+        type,
+        status: receipt.status,
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed,
+      });
+    }
+
+    return {
+      approvalTxHash: approvalReceipt.transactionHash,
+      depositTxHash: depositReceipt.transactionHash,
+    };
+  }
+
+  async function pollCallsStatus(
+    chainId: SupportedChainId,
+    bundleId: string
+  ): Promise<
+    {
+      transactionHash: Hash;
+      status: "success" | "reverted";
+      blockNumber: bigint;
+      gasUsed: bigint;
+    }[]
+  > {
+    const wallet = await adapter.getWalletClient(chainId);
+    const deadline = Date.now() + execution.timeouts.confirmation;
+    while (Date.now() < deadline) {
+      const { status, receipts } = await retryStep(
+        () => wallet.getCallsStatus({ id: bundleId }),
+        "Bundle status check"
+      );
+
+      if (status === "success" && receipts?.length) {
+        if (receipts.some((receipt) => receipt.status !== "success")) {
+          throw new Error(BATCH_MESSAGES.ERRORS.BUNDLE_FAILED);
+        }
+        return receipts;
+      }
+      if (status === "failure") {
+        throw new Error(BATCH_MESSAGES.ERRORS.BUNDLE_FAILED);
+      }
+
+      await sleep(config.callsStatusPollIntervalMs ?? 2000);
+    }
+    throw new Error(
+      BATCH_MESSAGES.ERRORS.TIMEOUT(execution.timeouts.confirmation)
+    );
+  }
+
+  async function confirmTransaction(
+    chainId: SupportedChainId,
+    hash: Hash,
+    type: "approval" | "deposit"
+  ): Promise<void> {
+    const receipt = await retryStep(
+      () =>
+        adapter.getPublicClient(chainId).waitForTransactionReceipt({
+          hash,
+          timeout: execution.timeouts.confirmation,
+        }),
+      `${type === "approval" ? "Approval" : "Deposit"} confirmation`
+    );
+
+    events.emit("transactionConfirmed", {
       chainId,
       txHash: hash,
-      type: "approval",
+      type,
+      status: receipt.status,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed,
+      effectiveGasPrice: receipt.effectiveGasPrice,
     });
 
-    await retryOperation(
-      () => waitForTransactionReceipt(wagmiConfig, { hash, chainId }),
-      config.retryAttempts,
-      config.retryDelayMs,
-      "Approval confirmation"
+    // viem resolves reverted receipts rather than throwing
+    if (receipt.status !== "success") {
+      throw new BatchChainError({
+        type: "transaction",
+        message:
+          type === "approval"
+            ? BATCH_MESSAGES.ERRORS.APPROVAL_REVERTED
+            : BATCH_MESSAGES.ERRORS.DEPOSIT_REVERTED,
+        chainId,
+        step: type === "approval" ? "approving" : "depositing",
+        isRetryable: true,
+        suggestedAction: "Check the transaction in the explorer and try again",
+      });
+    }
+  }
+
+  /**
+   * Sends a transaction once and only re-sends it after a retryable error.
+   * A prompt that timed out may still be signed, so it fails the step
+   * instead of opening a second one; receipts are waited for separately
+   */
+  async function submitTransaction(
+    chainId: SupportedChainId,
+    step: "approving" | "depositing",
+    submitTx: () => Promise<Hash>,
+    timeoutMs: number
+  ): Promise<Hash> {
+    try {
+      return await withTimeout(submitTx(), timeoutMs);
+    } catch (error) {
+      if (isUserRejection(error)) {
+        throw new Error(
+          step === "approving"
+            ? BATCH_MESSAGES.ERRORS.USER_CANCELLED_APPROVAL
+            : BATCH_MESSAGES.ERRORS.USER_CANCELLED_DEPOSIT,
+          { cause: error }
+        );
+      }
+      if (error instanceof TimeoutError) {
+        throw new BatchChainError({
+          type: "transaction",
+          message: error.message,
+          chainId,
+          step,
+          originalError: error,
+          isRetryable: true,
+          suggestedAction:
+            "Check your wallet for a pending request before retrying",
+        });
+      }
+      if (!isRetryableError(error)) {
+        throw new BatchChainError(createBatchError(error, chainId, step));
+      }
+      return retryStep(
+        submitTx,
+        step === "approving" ? "Approval transaction" : "Deposit transaction"
+      );
+    }
+  }
+
+  async function executeApproval(
+    chainId: SupportedChainId,
+    tokenAddress: Address,
+    spenderAddress: Address,
+    amount: bigint
+  ): Promise<Hash> {
+    const wallet = await adapter.getWalletClient(chainId);
+    const { request } = await retryStep(
+      () =>
+        adapter.getPublicClient(chainId).simulateContract({
+          address: tokenAddress,
+          abi: erc20Abi,
+          functionName: "approve",
+          args: [spenderAddress, amount],
+          account: wallet.account,
+        }),
+      `Approval simulation for chain ${chainId}`
+    );
+
+    const hash = await submitTransaction(
+      chainId,
+      "approving",
+      async () => wallet.writeContract(request),
+      execution.timeouts.approval
     );
 
-    events.emit("transactionConfirmed", {
+    events.emit("transactionSubmitted", {
       chainId,
       txHash: hash,
       type: "approval",
+      tokenAddress,
+      amount,
     });
+
+    await confirmTransaction(chainId, hash, "approval");
     return hash;
   }
 
-  async function executeDeposit(
+  async function prepareDeposit(
     chainId: SupportedChainId,
     vaultAddress: Address,
     tokenAddress: Address,
     amount: bigint
-  ): Promise<Hash> {
-    const { request } = await retryOperation(
+  ): Promise<() => Promise<Hash>> {
+    const wallet = await adapter.getWalletClient(chainId);
+    const { request } = await retryStep(
       () =>
-        simulateContract(wagmiConfig, {
+        adapter.getPublicClient(chainId).simulateContract({
           address: vaultAddress,
           abi: simpleVaultAbi,
           functionName: "deposit",
           args: [tokenAddress, amount],
-          account: userAddress,
-          chainId,
+          account: wallet.account,
         }),
-      2,
-      500,
       `Deposit simulation for chain ${chainId}`
     );
+    return () => wallet.writeContract(request);
+  }
 
-    const submitTx = async () => writeContract(wagmiConfig, request);
+  async function prepareDepositWithPermit(
+    chainId: SupportedChainId,
+    vaultAddress: Address,
+    tokenAddress: Address,
+    amount: bigint,
+    permit: PermitSignature
+  ): Promise<() => Promise<Hash>> {
+    const wallet = await adapter.getWalletClient(chainId);
+    const { request } = await retryStep(
+      () =>
+        adapter.getPublicClient(chainId).simulateContract({
+          address: vaultAddress,
+          abi: simpleVaultAbi,
+          functionName: "depositWithPermit",
+          args: [
+            tokenAddress,
+            amount,
+            permit.deadline,
+            permit.v,
+            permit.r,
+            permit.s,
+          ],
+          account: wallet.account,
+        }),
+      `Permit deposit simulation for chain ${chainId}`
+    );
+    return () => wallet.writeContract(request);
+  }
 
-    let hash: Hash;
-    try {
-      hash = await withTimeout(submitTx(), config.timeoutMs);
-    } catch (error) {
-      if (isUserRejection(error)) {
-        throw new Error(BATCH_MESSAGES.ERRORS.USER_CANCELLED_DEPOSIT);
-      }
-      hash = await retryOperation(
-        submitTx,
-        config.retryAttempts,
-        config.retryDelayMs,
-        "Deposit transaction"
-      );
-    }
+  async function executeDeposit(
+    chainId: SupportedChainId,
+    vaultAddress: Address,
+    tokenAddress: Address,
+    amount: bigint,
+    preparedDeposit?: () => Promise<Hash>
+  ): Promise<Hash> {
+    const submitTx =
+      preparedDeposit ??
+      (await prepareDeposit(chainId, vaultAddress, tokenAddress, amount));
 
-    events.emit("transactionSubmitted", {
+    const hash = await submitTransaction(
       chainId,
-      txHash: hash,
-      type: "deposit",
-    });
-
-    await retryOperation(
-      () => waitForTransactionReceipt(wagmiConfig, { hash, chainId }),
-      config.retryAttempts,
-      config.retryDelayMs,
-      "Deposit confirmation"
+      "depositing",
+      submitTx,
+      execution.timeouts.deposit
     );
 
-    events.emit("transactionConfirmed", {
+    events.emit("transactionSubmitted", {
       chainId,
       txHash: hash,
       type: "deposit",
+      tokenAddress,
+      amount,
     });
+
+    await confirmTransaction(chainId, hash, "deposit");
     return hash;
   }
 
   async function executeChainDeposit(
     chainAmount: ChainAmount,
-    isRetry = false
+    isRetry = false,
+    resume?: ResumePoint
   ): Promise<BatchDepositResult> {
-    const { chainId, amount } = chainAmount;
-    const amountWei = parseAmountToBigInt(amount, chainId);
+    const { chainId, amount, tokenAddress } = chainAmount;
+    const amountWei = parseAmountToBigInt(amount, chainId, tokenAddress);
 
     const result: BatchDepositResult = {
       chainId,
+      tokenAddress,
       status: "success",
       startedAt: Date.now(),
     };
 
     let currentChainStep = 0;
+    let activeStep: BatchDepositStep = "switching";
 
     const emitStepEvent = (
-      step: "switching" | "approving" | "depositing",
+      step: BatchDepositStep,
       type: "Started" | "Completed"
     ) => {
       if (type === "Started") {
         currentChainStep++;
+        activeStep = step;
       }
 
       const eventName = `step${type}` as keyof BatchDepositEvents;
       events.emit(eventName, {
         chainId,
+        tokenAddress,
         step,
         stepNumber: currentStep + 1,
         totalSteps: isRetry ? 3 : totalSteps,
@@ -316,43 +716,113 @@ export function createBatchDepositService(
 
     try {
       // Step 1: Switch chain
+      // (a deposit submitted before a reload only needs its receipt)
+      // (parallel mode signs on non-active chains, so never switches)
       emitStepEvent("switching", "Started");
-      await switchToChain(chainId);
+      if (!resume?.depositTxHash && !runInParallel) {
+        await switchToChain(chainId);
+      }
       emitStepEvent("switching", "Completed");
       if (!isRetry) incrementProgress();
 
-      if (isCancelled)
-        throw new Error(BATCH_MESSAGES.ERRORS.OPERATION_CANCELLED);
+      await checkpoint();
 
       // Get contract addresses
-      const { usdcAddress, vaultAddress } = validateChainOperation(chainId);
+      const { vaultAddress } = validateChainOperation(chainId, tokenAddress);
 
-      // Step 2: Approval (if needed)
-      const needsApproval = await checkNeedsApproval(
+      // Step 2: Approval (if needed), either a permit signature or an approve tx
+      let permitDeposit: (() => Promise<Hash>) | undefined;
+      const needsApproval =
+        resume?.approvalTxHash || resume?.depositTxHash || resume?.bundleId
+          ? false
+          : await checkNeedsApproval(
+              chainId,
+              tokenAddress,
+              vaultAddress,
+              amountWei
+            );
+      const approvalAmount = getPolicyApprovalAmount(
         chainId,
-        usdcAddress,
-        vaultAddress,
+        tokenAddress,
         amountWei
       );
 
-      if (needsApproval) {
+      if (resume?.bundleId && !resume.depositTxHash) {
+        // Wait for a bundle sent before the page reloaded; it may still land
+        emitStepEvent("approving", "Started");
+        const hashes = await confirmBundle(
+          chainId,
+          resume.bundleId,
+          tokenAddress,
+          amountWei
+        );
+        result.approvalTxHash = hashes.approvalTxHash;
+        result.depositTxHash = hashes.depositTxHash;
+        emitStepEvent("approving", "Completed");
+      } else if (resume?.approvalTxHash) {
+        // Re-attach to an approval submitted before the page reloaded
+        emitStepEvent("approving", "Started");
+        await confirmTransaction(chainId, resume.approvalTxHash, "approval");
+        result.approvalTxHash = resume.approvalTxHash;
+        emitStepEvent("approving", "Completed");
+      } else if (needsApproval && (await supportsAtomicBatch(chainId))) {
+        // Approve and deposit in one wallet prompt; both steps finish together
         emitStepEvent("approving", "Started");
         try {
-          result.approvalTxHash = await executeApproval(
+          const hashes = await executeBundledDeposit(
             chainId,
-            usdcAddress,
             vaultAddress,
-            amountWei
+            tokenAddress,
+            amountWei,
+            approvalAmount
           );
+          result.approvalTxHash = hashes.approvalTxHash;
+          result.depositTxHash = hashes.depositTxHash;
+        } catch (error) {
+          if (categorizeError(error) === "user_rejection") {
+            result.status = "cancelled";
+            result.userCancelled = true;
+            result.error = createBatchError(error, chainId, "approving");
+            result.completedAt = Date.now();
+            return result;
+          }
+          throw error;
+        }
+        emitStepEvent("approving", "Completed");
+      } else if (needsApproval) {
+        emitStepEvent("approving", "Started");
+        try {
+          // Prefer a gasless permit signature, fall back to approve tx.
+          // A permit only covers this deposit, so a standing allowance
+          // always goes through approve
+          const permit =
+            approvalAmount === amountWei
+              ? await signPermit(chainId, tokenAddress, vaultAddress, amountWei)
+              : null;
+          if (permit) {
+            // A permit deposit that can't be simulated won't land either
+            permitDeposit = await prepareDepositWithPermit(
+              chainId,
+              vaultAddress,
+              tokenAddress,
+              amountWei,
+              permit
+            ).catch(() => undefined);
+          }
+          if (!permitDeposit) {
+            result.approvalTxHash = await executeApproval(
+              chainId,
+              tokenAddress,
+              vaultAddress,
+              approvalAmount
+            );
+          }
           emitStepEvent("approving", "Completed");
         } catch (error) {
-          if (
-            error instanceof Error &&
-            error.message.includes("User cancelled")
-          ) {
+          if (categorizeError(error) === "user_rejection") {
             result.status = "cancelled";
             result.userCancelled = true;
-            result.error = BATCH_MESSAGES.ERRORS.USER_CANCELLED_APPROVAL;
+            result.error = createBatchError(error, chainId, "approving");
             result.completedAt = Date.now();
             return result;
           }
@@ -364,31 +834,37 @@ export function createBatchDepositService(
       }
       if (!isRetry) incrementProgress();
 
-      if (isCancelled)
-        throw new Error(BATCH_MESSAGES.ERRORS.OPERATION_CANCELLED);
+      await checkpoint();
 
       // Step 3: Deposit
       emitStepEvent("depositing", "Started");
-      try {
-        result.depositTxHash = await executeDeposit(
-          chainId,
-          vaultAddress,
-          usdcAddress,
-          amountWei
-        );
+      if (result.depositTxHash) {
+        // Already executed as part of the approve + deposit bundle
+        emitStepEvent("depositing", "Completed");
+      } else if (resume?.depositTxHash) {
+        await confirmTransaction(chainId, resume.depositTxHash, "deposit");
+        result.depositTxHash = resume.depositTxHash;
         emitStepEvent("depositing", "Completed");
-      } catch (error) {
-        if (
-          error instanceof Error &&
-          error.message.includes("User cancelled")
-        ) {
-          result.status = "partial";
-          result.userCancelled = true;
-          result.error = BATCH_MESSAGES.ERRORS.USER_CANCELLED_DEPOSIT;
-          result.completedAt = Date.now();
-          return result;
+      } else {
+        try {
+          result.depositTxHash = await executeDeposit(
+            chainId,
+            vaultAddress,
+            tokenAddress,
+            amountWei,
+            permitDeposit
+          );
+          emitStepEvent("depositing", "Completed");
+        } catch (error) {
+          if (categorizeError(error) === "user_rejection") {
+            result.status = "partial";
+            result.userCancelled = true;
+            result.error = createBatchError(error, chainId, "depositing");
+            result.completedAt = Date.now();
+            return result;
+          }
+          throw error;
         }
-        throw error;
       }
       if (!isRetry) incrementProgress();
 
@@ -396,15 +872,96 @@ export function createBatchDepositService(
       return result;
     } catch (error) {
       result.status = "failed";
-      result.error =
-        error instanceof Error ? error.message : BATCH_MESSAGES.ERRORS.UNKNOWN;
+      result.error = createBatchError(error, chainId, activeStep);
       result.completedAt = Date.now();
-      throw error;
+      throw new BatchChainError(result.error);
     }
   }
 
-  async function executeBatch(
-    chainAmounts: ChainAmount[]
+  /**
+   * Rebuild the result of a chain that already finished before a reload
+   */
+  function restoreResult(
+    entry: BatchJournalChainEntry,
+    startedAt: number
+  ): BatchDepositResult {
+    return {
+      chainId: entry.chainId,
+      tokenAddress: entry.tokenAddress,
+      status: entry.status!,
+      approvalTxHash: entry.approvalTxHash,
+      depositTxHash: entry.depositTxHash,
+      error: entry.error,
+      userCancelled: entry.status === "cancelled" || entry.status === "partial",
+      startedAt,
+      completedAt: startedAt,
+    };
+  }
+
+  /**
+   * Run one chain of a batch. Resolves to null when the batch was cancelled
+   * before or while this chain ran
+   */
+  async function runBatchItem(
+    {
+      chainAmount,
+      journalEntry,
+    }: { chainAmount: ChainAmount; journalEntry?: BatchJournalChainEntry },
+    index: number,
+    startedAt: number
+  ): Promise<BatchDepositResult | null> {
+    if (resumeSignal) await resumeSignal;
+    if (isCancelled || haltedByFailure) return null;
+    events.emit("chainStarted", { chainId: chainAmount.chainId, index });
+
+    if (journalEntry?.status) {
+      const restored = restoreResult(journalEntry, startedAt);
+      currentStep += 3;
+      updateProgress();
+      events.emit("chainCompleted", {
+        chainId: chainAmount.chainId,
+        tokenAddress: chainAmount.tokenAddress,
+        result: restored,
+      });
+      return restored;
+    }
+
+    try {
+      const result = await chainLocks.runExclusive(chainAmount.chainId, () =>
+        executeChainDeposit(chainAmount, false, journalEntry)
+      );
+      events.emit("chainCompleted", {
+        chainId: chainAmount.chainId,
+        tokenAddress: chainAmount.tokenAddress,
+        result,
+      });
+      return result;
+    } catch (error) {
+      if (isCancelled) return null;
+
+      const failedResult: BatchDepositResult = {
+        chainId: chainAmount.chainId,
+        status: "failed",
+        error: createBatchError(error, chainAmount.chainId),
+        startedAt: Date.now(),
+        completedAt: Date.now(),
+      };
+      if (!execution.continueOnFailure) haltedByFailure = true;
+      events.emit("chainFailed", {
+        chainId: chainAmount.chainId,
+        tokenAddress: chainAmount.tokenAddress,
+        error: failedResult.error!,
+      });
+      return failedResult;
+    }
+  }
+
+  async function runBatch(
+    items: {
+      chainAmount: ChainAmount;
+      journalEntry?: BatchJournalChainEntry;
+    }[],
+    startedAt = Date.now()
   ): Promise<BatchDepositResult[]> {
     if (isRunning) {
       throw new Error(BATCH_MESSAGES.ERRORS.BATCH_ALREADY_RUNNING);
@@ -412,48 +969,31 @@ export function createBatchDepositService(
 
     isRunning = true;
     isCancelled = false;
+    haltedByFailure = false;
     results = [];
     currentStep = 0;
-    totalSteps = chainAmounts.length * 3; // 3 steps per chain
+    totalSteps = items.length * 3; // 3 steps per chain
 
     try {
       events.emit("batchStarted", {
-        chainCount: chainAmounts.length,
+        chainCount: items.length,
         totalSteps,
       });
       updateProgress();
 
-      for (let i = 0; i < chainAmounts.length; i++) {
-        if (isCancelled) break;
-
-        const chainAmount = chainAmounts[i];
-        events.emit("chainStarted", { chainId: chainAmount.chainId, index: i });
-
-        try {
-          const result = await executeChainDeposit(chainAmount);
+      if (runInParallel) {
+        const settled = await Promise.all(
+          items.map((item, i) => runBatchItem(item, i, startedAt))
+        );
+        results = settled.filter(
+          (result): result is BatchDepositResult => result !== null
+        );
+      } else {
+        for (let i = 0; i < items.length; i++) {
+          const result = await runBatchItem(items[i], i, startedAt);
+          if (!result) break;
           results.push(result);
-          events.emit("chainCompleted", {
-            chainId: chainAmount.chainId,
-            result,
-          });
-        } catch (error) {
-          if (isCancelled) break;
-
-          const failedResult: BatchDepositResult = {
-            chainId: chainAmount.chainId,
-            status: "failed",
-            error:
-              error instanceof Error
-                ? error.message
-                : BATCH_MESSAGES.ERRORS.UNKNOWN,
-            startedAt: Date.now(),
-            completedAt: Date.now(),
-          };
-          results.push(failedResult);
-          events.emit("chainFailed", {
-            chainId: chainAmount.chainId,
-            error: failedResult.error || BATCH_MESSAGES.ERRORS.UNKNOWN,
-          });
+          if (haltedByFailure) break;
         }
       }
 
@@ -468,12 +1008,147 @@ export function createBatchDepositService(
       throw error;
     } finally {
       isRunning = false;
+      clearPause();
+    }
+  }
+
+  async function executeBatch(
+    chainAmounts: ChainAmount[]
+  ): Promise<BatchDepositResult[]> {
+    return runBatch(chainAmounts.map((chainAmount) => ({ chainAmount })));
+  }
+
+  /**
+   * Continue a batch recorded in a journal before the page reloaded.
+   * Finished chains are restored as-is, submitted transactions are re-attached
+   * via their receipts and untouched chains run the full flow.
+   */
+  async function resumeBatch(
+    journal: BatchJournal
+  ): Promise<BatchDepositResult[]> {
+    return runBatch(
+      journal.chains.map((entry) => ({
+        chainAmount: {
+          chainId: entry.chainId,
+          tokenAddress: entry.tokenAddress ?? getUsdcAddress(entry.chainId),
+          amount: entry.amount,
+          amountWei: parseAmountToBigInt(
+            entry.amount,
+            entry.chainId,
+            entry.tokenAddress
+          ),
+        },
+        journalEntry: entry,
+      })),
+      journal.startedAt
+    );
+  }
+
+  /**
+   * Dry-run one chain: read the allowance and simulate the approval and
+   * deposit it would send. With an approval pending, both calls are simulated
+   * in sequence (eth_simulateV1) so the deposit sees the new allowance.
+   */
+  async function simulateChain({
+    chainId,
+    tokenAddress,
+    amount,
+    amountWei,
+  }: ChainAmount): Promise<BatchSimulationResult> {
+    const result: BatchSimulationResult = {
+      chainId,
+      tokenAddress,
+      amount,
+      needsApproval: false,
+      wouldSucceed: true,
+    };
+    let step: BatchDepositStep = "approving";
+
+    try {
+      const { vaultAddress } = validateChainOperation(chainId, tokenAddress);
+      const client = adapter.getPublicClient(chainId);
+      const allowance = await readAllowance(
+        chainId,
+        tokenAddress,
+        vaultAddress
+      );
+      result.needsApproval = allowance < amountWei;
+      const approvalAmount = getPolicyApprovalAmount(
+        chainId,
+        tokenAddress,
+        amountWei
+      );
+
+      if (result.needsApproval) {
+        await client.simulateContract({
+          address: tokenAddress,
+          abi: erc20Abi,
+          functionName: "approve",
+          args: [vaultAddress, approvalAmount],
+          account: userAddress,
+        });
+      }
+
+      step = "depositing";
+      if (!result.needsApproval) {
+        await client.simulateContract({
+          address: vaultAddress,
+          abi: simpleVaultAbi,
+          functionName: "deposit",
+          args: [tokenAddress, amountWei],
+          account: userAddress,
+        });
+        return result;
+      }
+
+      // Nodes without eth_simulateV1 reject the request
+      const depositCall = await client
+        .simulateCalls({
+          account: userAddress,
+          calls: [
+            {
+              to: tokenAddress,
+              data: encodeFunctionData({
+                abi: erc20Abi,
+                functionName: "approve",
+                args: [vaultAddress, approvalAmount],
+              }),
+            },
+            {
+              to: vaultAddress,
+              data: encodeFunctionData({
+                abi: simpleVaultAbi,
+                functionName: "deposit",
+                args: [tokenAddress, amountWei],
+              }),
+            },
+          ],
+        })
+        .then(({ results }) => results[1])
+        .catch(() => undefined);
+      if (!depositCall) {
+        result.depositUnverified = true;
+      } else if (depositCall.status === "failure") {
+        throw depositCall.error;
+      }
+      return result;
+    } catch (error) {
+      result.wouldSucceed = false;
+      result.error = createBatchError(error, chainId, step);
+      return result;
     }
   }
 
+  async function simulateBatch(
+    chainAmounts: ChainAmount[]
+  ): Promise<BatchSimulationResult[]> {
+    return Promise.all(chainAmounts.map(simulateChain));
+  }
+
   async function retryChain(
     chainId: SupportedChainId,
-    amount: string
+    amount: string,
+    tokenAddress: Address = getUsdcAddress(chainId)
   ): Promise<BatchDepositResult> {
     if (isRunning) {
       throw new Error(BATCH_MESSAGES.ERRORS.CANNOT_RETRY_WHILE_RUNNING);
@@ -490,19 +1165,22 @@ export function createBatchDepositService(
     try {
       const chainAmount: ChainAmount = {
         chainId,
+        tokenAddress,
         amount,
-        amountWei: parseAmountToBigInt(amount, chainId),
+        amountWei: parseAmountToBigInt(amount, chainId, tokenAddress),
       };
 
-      const result = await executeChainDeposit(chainAmount, true);
-      events.emit("chainCompleted", { chainId, result });
+      const result = await chainLocks.runExclusive(chainId, () =>
+        executeChainDeposit(chainAmount, true)
+      );
+      events.emit("chainCompleted", { chainId, tokenAddress, result });
       return result;
     } catch (error) {
-      const errorMessage =
-        error instanceof Error
-          ? error.message
-          : BATCH_MESSAGES.ERRORS.RETRY_FAILED;
-      events.emit("chainFailed", { chainId, error: errorMessage });
+      events.emit("chainFailed", {
+        chainId,
+        tokenAddress,
+        error: createBatchError(error, chainId),
+      });
       throw error;
     } finally {
       activeRetryChain = null;
@@ -511,20 +1189,54 @@ export function createBatchDepositService(
 
   function cancel(): void {
     isCancelled = true;
+    // Wake paused pipelines so they observe the cancellation
+    clearPause();
+  }
+
+  function clearPause(): void {
+    isPaused = false;
+    releasePause?.();
+    releasePause = null;
+    resumeSignal = null;
+  }
+
+  /**
+   * Halt the running batch at the next step boundary; the in-flight step
+   * (e.g. a submitted transaction) is allowed to finish
+   */
+  function pause(): void {
+    if (!isRunning || isPaused || isCancelled) return;
+    isPaused = true;
+    resumeSignal = new Promise((resolve) => (releasePause = resolve));
+    events.emit("batchPaused", { pausedAt: Date.now() });
+  }
+
+  /**
+   * Continue a paused batch from the chain and step it halted at
+   */
+  function resume(): void {
+    if (!isPaused) return;
+    clearPause();
+    events.emit("batchResumed", { resumedAt: Date.now() });
   }
 
   function getStatus() {
     return {
       isRunning,
       isCancelled,
+      isPaused,
       resultsCount: results.length,
     };
   }
 
   return {
     executeBatch,
+    resumeBatch,
+    simulateBatch,
     retryChain,
     cancel,
+    pause,
+    resume,
     getStatus,
     on: events.on,
     off: events.off,
@@ -0,0 +1,404 @@
+import type { Address, Hash } from "viem";
+import {
+  writeContract,
+  simulateContract,
+  switchChain,
+  waitForTransactionReceipt,
+  getAccount,
+} from "@wagmi/core";
+import { SupportedChainId } from "@/constant/chains";
+import { getUsdcAddress } from "@/constant/contracts";
+import { simpleVaultAbi } from "@/generated/wagmi";
+import { wagmiConfig } from "@/wagmi";
+import {
+  parseAmountToBigInt,
+  isUserRejection,
+  categorizeError,
+  createBatchError,
+  BatchChainError,
+  validateChainOperation,
+} from "@/lib/vault-operations";
+import { createTypedEventEmitter } from "@/types/typed-event-emitter";
+import type {
+  ChainAmount,
+  BatchWithdrawConfig,
+  BatchWithdrawResult,
+  BatchWithdrawEvents,
+  BatchWithdrawStep,
+} from "@/types/batch-operations";
+import { DEFAULT_BATCH_WITHDRAW_CONFIG as DEFAULT_CONFIG } from "@/constant/batch-operation-constants";
+import { BATCH_MESSAGES } from "@/constant/batch-messages";
+import {
+  sleep,
+  withTimeout,
+  retryOperation,
+  TimeoutError,
+} from "@/lib/async-utils";
+
+const STEPS_PER_CHAIN = 2; // switch + withdraw
+
+export interface BatchWithdrawService {
+  executeBatch: (chainAmounts: ChainAmount[]) => Promise<BatchWithdrawResult[]>;
+  retryChain: (
+    chainId: SupportedChainId,
+    amount: string,
+    tokenAddress?: Address
+  ) => Promise<BatchWithdrawResult>;
+  cancel: () => void;
+  getStatus: () => {
+    isRunning: boolean;
+    isCancelled: boolean;
+    resultsCount: number;
+  };
+  on: <K extends keyof BatchWithdrawEvents>(
+    event: K,
+    listener: (data: BatchWithdrawEvents[K]) => void
+  ) => void;
+  off: <K extends keyof BatchWithdrawEvents>(
+    event: K,
+    listener: (data: BatchWithdrawEvents[K]) => void
+  ) => void;
+}
+
+export function createBatchWithdrawService(
+  config: BatchWithdrawConfig = DEFAULT_CONFIG
+): BatchWithdrawService {
+  const account = getAccount(wagmiConfig);
+  if (!account.address) {
+    throw new Error(BATCH_MESSAGES.ERRORS.NO_WALLET_CONNECTED);
+  }
+  const userAddress = account.address;
+
+  let isRunning = false;
+  let isCancelled = false;
+  let results: BatchWithdrawResult[] = [];
+  let currentStep = 0;
+  let totalSteps = 0;
+  let activeRetryChain: SupportedChainId | null = null;
+
+  const events = createTypedEventEmitter<BatchWithdrawEvents>();
+
+  function updateProgress(): void {
+    const percentage =
+      totalSteps > 0 ? Math.round((currentStep / totalSteps) * 100) : 0;
+    events.emit("progressUpdated", {
+      completed: currentStep,
+      total: totalSteps,
+      percentage,
+    });
+  }
+
+  function incrementProgress(): void {
+    currentStep++;
+    updateProgress();
+  }
+
+  async function switchToChain(chainId: SupportedChainId): Promise<void> {
+    await retryOperation(
+      async () => {
+        await switchChain(wagmiConfig, { chainId });
+        await sleep(1000);
+      },
+      config.retryAttempts,
+      config.retryDelayMs,
+      `Chain switch to ${chainId}`
+    );
+  }
+
+  async function executeWithdraw(
+    chainId: SupportedChainId,
+    vaultAddress: Address,
+    tokenAddress: Address,
+    amount: bigint
+  ): Promise<Hash> {
+    const { request } = await retryOperation(
+      () =>
+        simulateContract(wagmiConfig, {
+          address: vaultAddress,
+          abi: simpleVaultAbi,
+          functionName: "withdraw",
+          args: [tokenAddress, amount],
+          account: userAddress,
+          chainId,
+        }),
+      2,
+      500,
+      `Withdraw simulation for chain ${chainId}`
+    );
+
+    const submitTx = async () => writeContract(wagmiConfig, request);
+
+    let hash: Hash;
+    try {
+      hash = await withTimeout(submitTx(), config.timeoutMs);
+    } catch (error) {
+      if (isUserRejection(error)) {
+        throw new Error(BATCH_MESSAGES.ERRORS.USER_CANCELLED_WITHDRAW, {
+          cause: error,
+        });
+      }
+      // A prompt that timed out may still be signed, so never open another
+      if (error instanceof TimeoutError) {
+        throw new BatchChainError({
+          type: "transaction",
+          message: error.message,
+          chainId,
+          step: "withdrawing",
+          originalError: error,
+          isRetryable: true,
+          suggestedAction:
+            "Check your wallet for a pending request before retrying",
+        });
+      }
+      if (categorizeError(error) !== "network") throw error;
+      hash = await retryOperation(
+        submitTx,
+        config.retryAttempts,
+        config.retryDelayMs,
+        "Withdraw transaction",
+        {
+          shouldRetry: (retryError) =>
+            categorizeError(retryError) === "network",
+        }
+      );
+    }
+
+    events.emit("transactionSubmitted", {
+      chainId,
+      txHash: hash,
+      type: "withdrawal",
+    });
+
+    const receipt = await retryOperation(
+      () => waitForTransactionReceipt(wagmiConfig, { hash, chainId }),
+      config.retryAttempts,
+      config.retryDelayMs,
+      "Withdraw confirmation"
+    );
+
+    // viem resolves reverted receipts rather than throwing
+    if (receipt.status !== "success") {
+      throw new BatchChainError({
+        type: "transaction",
+        message: BATCH_MESSAGES.ERRORS.WITHDRAW_REVERTED,
+        chainId,
+        step: "withdrawing",
+        isRetryable: true,
+        suggestedAction: "Check the transaction in the explorer and try again",
+      });
+    }
+
+    events.emit("transactionConfirmed", {
+      chainId,
+      txHash: hash,
+      type: "withdrawal",
+    });
+    return hash;
+  }
+
+  async function executeChainWithdraw(
+    chainAmount: ChainAmount,
+    isRetry = false
+  ): Promise<BatchWithdrawResult> {
+    const { chainId, amount, tokenAddress } = chainAmount;
+    const amountWei = parseAmountToBigInt(amount, chainId, tokenAddress);
+
+    const result: BatchWithdrawResult = {
+      chainId,
+      tokenAddress,
+      status: "success",
+      startedAt: Date.now(),
+    };
+
+    let currentChainStep = 0;
+    let activeStep: BatchWithdrawStep = "switching";
+
+    const emitStepEvent = (
+      step: BatchWithdrawStep,
+      type: "Started" | "Completed"
+    ) => {
+      if (type === "Started") {
+        currentChainStep++;
+        activeStep = step;
+      }
+
+      const eventName = `step${type}` as "stepStarted" | "stepCompleted";
+      events.emit(eventName, {
+        chainId,
+        step,
+        stepNumber: currentStep + 1,
+        totalSteps: isRetry ? STEPS_PER_CHAIN : totalSteps,
+        chainStep: currentChainStep,
+        chainTotal: STEPS_PER_CHAIN,
+      });
+    };
+
+    try {
+      // Step 1: Switch chain
+      emitStepEvent("switching", "Started");
+      await switchToChain(chainId);
+      emitStepEvent("switching", "Completed");
+      if (!isRetry) incrementProgress();
+
+      if (isCancelled)
+        throw new Error(BATCH_MESSAGES.ERRORS.OPERATION_CANCELLED);
+
+      const { vaultAddress } = validateChainOperation(chainId, tokenAddress);
+
+      // Step 2: Withdraw
+      emitStepEvent("withdrawing", "Started");
+      try {
+        result.withdrawTxHash = await executeWithdraw(
+          chainId,
+          vaultAddress,
+          tokenAddress,
+          amountWei
+        );
+        emitStepEvent("withdrawing", "Completed");
+      } catch (error) {
+        if (categorizeError(error) === "user_rejection") {
+          result.status = "cancelled";
+          result.userCancelled = true;
+          result.error = createBatchError(error, chainId, "withdrawing");
+          result.completedAt = Date.now();
+          return result;
+        }
+        throw error;
+      }
+      if (!isRetry) incrementProgress();
+
+      result.completedAt = Date.now();
+      return result;
+    } catch (error) {
+      result.status = "failed";
+      result.error = createBatchError(error, chainId, activeStep);
+      result.completedAt = Date.now();
+      throw new BatchChainError(result.error);
+    }
+  }
+
+  async function executeBatch(
+    chainAmounts: ChainAmount[]
+  ): Promise<BatchWithdrawResult[]> {
+    if (isRunning) {
+      throw new Error(BATCH_MESSAGES.ERRORS.BATCH_ALREADY_RUNNING);
+    }
+
+    isRunning = true;
+    isCancelled = false;
+    results = [];
+    currentStep = 0;
+    totalSteps = chainAmounts.length * STEPS_PER_CHAIN;
+
+    try {
+      events.emit("batchStarted", {
+        chainCount: chainAmounts.length,
+        totalSteps,
+      });
+      updateProgress();
+
+      for (let i = 0; i < chainAmounts.length; i++) {
+        if (isCancelled) break;
+
+        const chainAmount = chainAmounts[i];
+        events.emit("chainStarted", { chainId: chainAmount.chainId, index: i });
+
+        try {
+          const result = await executeChainWithdraw(chainAmount);
+          results.push(result);
+          events.emit("chainCompleted", {
+            chainId: chainAmount.chainId,
+            result,
+          });
+        } catch (error) {
+          if (isCancelled) break;
+
+          const failedResult: BatchWithdrawResult = {
+            chainId: chainAmount.chainId,
+            status: "failed",
+            error: createBatchError(error, chainAmount.chainId),
+            startedAt: Date.now(),
+            completedAt: Date.now(),
+          };
+          results.push(failedResult);
+          events.emit("chainFailed", {
+            chainId: chainAmount.chainId,
+            error: failedResult.error!,
+          });
+        }
+      }
+
+      events.emit("batchCompleted", { results });
+      return results;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : BATCH_MESSAGES.ERRORS.BATCH_FAILED;
+      events.emit("batchFailed", { error: errorMessage });
+      throw error;
+    } finally {
+      isRunning = false;
+    }
+  }
+
+  async function retryChain(
+    chainId: SupportedChainId,
+    amount: string,
+    tokenAddress: Address = getUsdcAddress(chainId)
+  ): Promise<BatchWithdrawResult> {
+    if (isRunning) {
+      throw new Error(BATCH_MESSAGES.ERRORS.CANNOT_RETRY_WHILE_RUNNING);
+    }
+
+    if (activeRetryChain) {
+      throw new Error(
+        BATCH_MESSAGES.ERRORS.RETRY_ALREADY_IN_PROGRESS(activeRetryChain)
+      );
+    }
+
+    activeRetryChain = chainId;
+
+    try {
+      const chainAmount: ChainAmount = {
+        chainId,
+        tokenAddress,
+        amount,
+        amountWei: parseAmountToBigInt(amount, chainId, tokenAddress),
+      };
+
+      const result = await executeChainWithdraw(chainAmount, true);
+      events.emit("chainCompleted", { chainId, result });
+      return result;
+    } catch (error) {
+      events.emit("chainFailed", {
+        chainId,
+        error: createBatchError(error, chainId),
+      });
+      throw error;
+    } finally {
+      activeRetryChain = null;
+    }
+  }
+
+  function cancel(): void {
+    isCancelled = true;
+  }
+
+  function getStatus() {
+    return {
+      isRunning,
+      isCancelled,
+      resultsCount: results.length,
+    };
+  }
+
+  return {
+    executeBatch,
+    retryChain,
+    cancel,
+    getStatus,
+    on: events.on,
+    off: events.off,
+  };
+}
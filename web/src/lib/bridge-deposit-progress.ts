@@ -0,0 +1,96 @@
+import type {
+  BatchOperationError,
+  BatchTransactionType,
+} from "@/types/batch-operations";
+import type {
+  BridgeDepositStage,
+  BridgeRequest,
+  BridgeResumePoint,
+  BridgeStep,
+} from "@/types/bridge-operations";
+import type { ChainOperationStatus } from "@/types/ui-state";
+
+export interface BridgeDepositOperation {
+  request: BridgeRequest;
+  stage: BridgeDepositStage;
+  bridgeStep?: BridgeStep;
+  bridge: BridgeResumePoint;
+  // Set when the bridge stage failed or was cancelled
+  bridgeError?: BatchOperationError;
+}
+
+function getSourceStatus({
+  request,
+  stage,
+  bridgeStep,
+  bridgeError,
+}: BridgeDepositOperation): ChainOperationStatus["status"] {
+  if (bridgeError?.chainId === request.sourceChainId) return "failed";
+  if (stage === "depositing" || bridgeStep === "minting") return "completed";
+  switch (bridgeStep) {
+    case "approving":
+    case "burning":
+    case "attesting":
+      return bridgeStep;
+    default:
+      return "pending";
+  }
+}
+
+/**
+ * Rows for a bridge and deposit in BatchOperationProgress: the source chain
+ * covers approve → burn → attest, the destination mint → approve → deposit.
+ * Once the deposit has a result, its row takes over the destination.
+ */
+export function getBridgeDepositChainStatuses(
+  operation: BridgeDepositOperation,
+  deposit: {
+    statuses: ChainOperationStatus[];
+    currentOperation?: BatchTransactionType;
+  },
+  canResume: boolean
+): ChainOperationStatus[] {
+  const { request, stage, bridgeStep, bridge, bridgeError } = operation;
+  const { sourceChainId, destinationChainId } = request;
+
+  const sourceStatus = getSourceStatus(operation);
+  const source: ChainOperationStatus = {
+    chainId: sourceChainId,
+    status: sourceStatus,
+    approveTxHash: bridge.approvalTxHash,
+    burnTxHash: bridge.burnTxHash,
+    error: sourceStatus === "failed" ? bridgeError : undefined,
+    canRetry: sourceStatus === "failed" && canResume,
+  };
+
+  const depositStatus = deposit.statuses.find(
+    (status) => status.chainId === destinationChainId
+  );
+  if (depositStatus) {
+    return [source, { ...depositStatus, mintTxHash: bridge.mintTxHash }];
+  }
+
+  const destinationStatus: ChainOperationStatus["status"] =
+    bridgeError?.chainId === destinationChainId
+      ? "failed"
+      : stage === "depositing"
+      ? deposit.currentOperation === "deposit"
+        ? "depositing"
+        : deposit.currentOperation === "approval"
+        ? "approving"
+        : "pending"
+      : bridgeStep === "minting"
+      ? "minting"
+      : "pending";
+
+  return [
+    source,
+    {
+      chainId: destinationChainId,
+      status: destinationStatus,
+      mintTxHash: bridge.mintTxHash,
+      error: destinationStatus === "failed" ? bridgeError : undefined,
+      canRetry: destinationStatus === "failed" && canResume,
+    },
+  ];
+}
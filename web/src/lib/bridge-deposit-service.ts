@@ -0,0 +1,235 @@
+import { parseUnits } from "viem";
+import { getUsdcAddress } from "@/constant/contracts";
+import { createBatchError } from "@/lib/vault-operations";
+import type { BatchDepositService } from "@/lib/batch-deposit-service";
+import type { BridgeService } from "@/lib/bridge-service";
+import { createTypedEventEmitter } from "@/types/typed-event-emitter";
+import type {
+  BatchDepositEvents,
+  BatchDepositResult,
+  ChainAmount,
+} from "@/types/batch-operations";
+import type {
+  BridgeDepositEvents,
+  BridgeDepositJournal,
+  BridgeDepositResult,
+  BridgeDepositStage,
+  BridgeEvents,
+  BridgeRequest,
+  BridgeResult,
+} from "@/types/bridge-operations";
+import { BATCH_MESSAGES } from "@/constant/batch-messages";
+
+const BRIDGE_STEPS = 5; // switch + approve + burn + attest + mint
+const DEPOSIT_STEPS = 3; // switch + approve + deposit
+const USDC_DECIMALS = 6;
+
+export interface BridgeDepositService {
+  execute: (request: BridgeRequest) => Promise<BridgeDepositResult>;
+  resume: (journal: BridgeDepositJournal) => Promise<BridgeDepositResult>;
+  cancel: () => void;
+  getStatus: () => {
+    isRunning: boolean;
+    isCancelled: boolean;
+    stage?: BridgeDepositStage;
+  };
+  on: <K extends keyof BridgeDepositEvents>(
+    event: K,
+    listener: (data: BridgeDepositEvents[K]) => void
+  ) => void;
+  off: <K extends keyof BridgeDepositEvents>(
+    event: K,
+    listener: (data: BridgeDepositEvents[K]) => void
+  ) => void;
+}
+
+/**
+ * Bridge wallet USDC with CCTP, then deposit the minted amount into the
+ * destination vault. Each stage runs on the existing bridge and batch deposit
+ * services, so their events (and the hooks listening to them) see it too.
+ */
+export function createBridgeDepositService(
+  bridgeService: BridgeService,
+  depositService: BatchDepositService
+): BridgeDepositService {
+  let isRunning = false;
+  let isCancelled = false;
+  let stage: BridgeDepositStage | undefined;
+  let totalSteps = BRIDGE_STEPS + DEPOSIT_STEPS;
+
+  const events = createTypedEventEmitter<BridgeDepositEvents>();
+
+  function emitProgress(completed: number): void {
+    events.emit("progressUpdated", {
+      completed,
+      total: totalSteps,
+      percentage: Math.round((completed / totalSteps) * 100),
+    });
+  }
+
+  // The deposit stage's steps count after the bridge's
+  const handleBridgeProgress = ({
+    completed,
+  }: BridgeEvents["progressUpdated"]) => emitProgress(completed);
+  const handleDepositStarted = ({
+    totalSteps: depositSteps,
+  }: BatchDepositEvents["batchStarted"]) => {
+    totalSteps = BRIDGE_STEPS + depositSteps;
+  };
+  const handleDepositProgress = ({
+    completed,
+  }: BatchDepositEvents["progressUpdated"]) =>
+    emitProgress(BRIDGE_STEPS + completed);
+
+  function toDepositAmount(bridge: BridgeResult): ChainAmount {
+    const { destinationChainId, mintedAmount, amount } = bridge;
+    const depositAmount = mintedAmount ?? amount;
+    return {
+      chainId: destinationChainId,
+      tokenAddress: getUsdcAddress(destinationChainId),
+      amount: depositAmount,
+      amountWei: parseUnits(depositAmount, USDC_DECIMALS),
+    };
+  }
+
+  async function run(
+    request: BridgeRequest,
+    journal?: BridgeDepositJournal
+  ): Promise<BridgeDepositResult> {
+    if (isRunning) {
+      throw new Error(BATCH_MESSAGES.ERRORS.BATCH_ALREADY_RUNNING);
+    }
+
+    isRunning = true;
+    isCancelled = false;
+    totalSteps = BRIDGE_STEPS + DEPOSIT_STEPS;
+    const startedAt = journal?.startedAt ?? Date.now();
+
+    function finish(
+      result: Omit<BridgeDepositResult, "request" | "startedAt">
+    ): BridgeDepositResult {
+      const final = { ...result, request, startedAt, completedAt: Date.now() };
+      if (final.status === "success") {
+        events.emit("operationCompleted", { result: final });
+      } else {
+        const error =
+          final.error ??
+          createBatchError(
+            new Error(BATCH_MESSAGES.ERRORS.OPERATION_CANCELLED),
+            request.destinationChainId
+          );
+        events.emit("operationFailed", { result: final, error });
+      }
+      return final;
+    }
+
+    bridgeService.on("progressUpdated", handleBridgeProgress);
+    depositService.on("batchStarted", handleDepositStarted);
+    depositService.on("progressUpdated", handleDepositProgress);
+
+    try {
+      events.emit("operationStarted", { request, totalSteps });
+
+      stage = "bridging";
+      events.emit("stageStarted", { stage });
+      let bridge: BridgeResult;
+      try {
+        // The minted USDC is deposited by the connected account
+        bridge = await bridgeService.bridge(
+          { ...request, recipient: undefined },
+          journal?.bridge
+        );
+      } catch (error) {
+        // Rejected before anything was sent, e.g. an invalid amount
+        return finish({
+          status: "failed",
+          bridge: {
+            sourceChainId: request.sourceChainId,
+            destinationChainId: request.destinationChainId,
+            amount: request.amount,
+            status: "failed",
+            startedAt,
+          },
+          error: createBatchError(error, request.sourceChainId),
+        });
+      }
+      if (bridge.status !== "success") {
+        return finish({
+          status: bridge.status,
+          bridge,
+          error: bridge.error,
+        });
+      }
+      if (isCancelled) {
+        return finish({ status: "cancelled", bridge });
+      }
+
+      stage = "depositing";
+      events.emit("stageStarted", { stage });
+      const chainAmount = toDepositAmount(bridge);
+      events.emit("depositStarted", { chainAmount, bridge });
+
+      let deposit: BatchDepositResult | undefined;
+      try {
+        [deposit] = await depositService.executeBatch([chainAmount]);
+      } catch (error) {
+        return finish({
+          status: "failed",
+          bridge,
+          error: createBatchError(error, chainAmount.chainId),
+        });
+      }
+
+      return finish({
+        status:
+          deposit?.status === "success"
+            ? "success"
+            : !deposit || deposit.userCancelled || isCancelled
+            ? "cancelled"
+            : "failed",
+        bridge,
+        deposit,
+        error: deposit?.error,
+      });
+    } finally {
+      bridgeService.off("progressUpdated", handleBridgeProgress);
+      depositService.off("batchStarted", handleDepositStarted);
+      depositService.off("progressUpdated", handleDepositProgress);
+      isRunning = false;
+      stage = undefined;
+    }
+  }
+
+  async function execute(request: BridgeRequest): Promise<BridgeDepositResult> {
+    return run(request);
+  }
+
+  /**
+   * Continue a bridge and deposit recorded in a journal, e.g. after the
+   * attestation wait outlived the page
+   */
+  async function resume(
+    journal: BridgeDepositJournal
+  ): Promise<BridgeDepositResult> {
+    return run(journal.request, journal);
+  }
+
+  function cancel(): void {
+    isCancelled = true;
+    if (stage === "bridging") bridgeService.cancel();
+    if (stage === "depositing") depositService.cancel();
+  }
+
+  function getStatus() {
+    return { isRunning, isCancelled, stage };
+  }
+
+  return {
+    execute,
+    resume,
+    cancel,
+    getStatus,
+    on: events.on,
+    off: events.off,
+  };
+}
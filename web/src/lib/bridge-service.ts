@@ -0,0 +1,531 @@
+import type { Address, Hash, TransactionReceipt } from "viem";
+import { erc20Abi, formatUnits, isAddressEqual, parseEventLogs } from "viem";
+import {
+  readContract,
+  writeContract,
+  simulateContract,
+  switchChain,
+  waitForTransactionReceipt,
+  getAccount,
+} from "@wagmi/core";
+import {
+  SupportedChainId,
+  getCctpConfig,
+  getUsdcAddress,
+  type CctpConfig,
+} from "@/constant/contracts";
+import { wagmiConfig } from "@/wagmi";
+import {
+  parseAmountToBigInt,
+  isUserRejection,
+  categorizeError,
+  createBatchError,
+  BatchChainError,
+} from "@/lib/vault-operations";
+import {
+  ANY_DESTINATION_CALLER,
+  createIrisAttestationClient,
+  messageTransmitterV2Abi,
+  toBytes32Address,
+  tokenMessengerV2Abi,
+  type CctpAttestation,
+} from "@/lib/cctp";
+import { createTypedEventEmitter } from "@/types/typed-event-emitter";
+import type {
+  BridgeConfig,
+  BridgeEvents,
+  BridgeRequest,
+  BridgeResult,
+  BridgeResumePoint,
+  BridgeStep,
+  BridgeTransactionType,
+} from "@/types/bridge-operations";
+import { DEFAULT_BRIDGE_CONFIG as DEFAULT_CONFIG } from "@/constant/batch-operation-constants";
+import { BATCH_MESSAGES } from "@/constant/batch-messages";
+import {
+  sleep,
+  withTimeout,
+  retryOperation,
+  TimeoutError,
+} from "@/lib/async-utils";
+
+const TOTAL_STEPS = 5; // switch + approve + burn + attest + mint
+const USDC_DECIMALS = 6;
+
+export interface BridgeService {
+  bridge: (
+    request: BridgeRequest,
+    resume?: BridgeResumePoint
+  ) => Promise<BridgeResult>;
+  cancel: () => void;
+  getStatus: () => {
+    isRunning: boolean;
+    isCancelled: boolean;
+    currentStep?: BridgeStep;
+  };
+  on: <K extends keyof BridgeEvents>(
+    event: K,
+    listener: (data: BridgeEvents[K]) => void
+  ) => void;
+  off: <K extends keyof BridgeEvents>(
+    event: K,
+    listener: (data: BridgeEvents[K]) => void
+  ) => void;
+}
+
+/**
+ * Move wallet USDC between chains with Circle CCTP V2: burn on the source
+ * chain via TokenMessengerV2.depositForBurn, wait for the attestation, then
+ * mint on the destination via MessageTransmitterV2.receiveMessage.
+ */
+export function createBridgeService(
+  config: BridgeConfig = DEFAULT_CONFIG
+): BridgeService {
+  const account = getAccount(wagmiConfig);
+  if (!account.address) {
+    throw new Error(BATCH_MESSAGES.ERRORS.NO_WALLET_CONNECTED);
+  }
+  const userAddress = account.address;
+  const attestationClient =
+    config.attestationClient ?? createIrisAttestationClient();
+
+  let isRunning = false;
+  let isCancelled = false;
+  let currentStep: BridgeStep | undefined;
+  let completedSteps = 0;
+
+  const events = createTypedEventEmitter<BridgeEvents>();
+
+  function incrementProgress(): void {
+    completedSteps++;
+    events.emit("progressUpdated", {
+      completed: completedSteps,
+      total: TOTAL_STEPS,
+      percentage: Math.round((completedSteps / TOTAL_STEPS) * 100),
+    });
+  }
+
+  function assertNotCancelled(): void {
+    if (isCancelled) {
+      throw new Error(BATCH_MESSAGES.ERRORS.OPERATION_CANCELLED);
+    }
+  }
+
+  function requireCctp(chainId: SupportedChainId): CctpConfig {
+    const cctp = getCctpConfig(chainId);
+    if (!cctp) {
+      throw new Error(BATCH_MESSAGES.ERRORS.BRIDGE_UNSUPPORTED_CHAIN(chainId));
+    }
+    return cctp;
+  }
+
+  async function switchToChain(chainId: SupportedChainId): Promise<void> {
+    await retryOperation(
+      async () => {
+        await switchChain(wagmiConfig, { chainId });
+        await sleep(1000);
+      },
+      config.retryAttempts,
+      config.retryDelayMs,
+      `Chain switch to ${chainId}`
+    );
+  }
+
+  /**
+   * Wait for a sent transaction and fail unless it succeeded
+   */
+  async function confirm(
+    chainId: SupportedChainId,
+    type: BridgeTransactionType,
+    hash: Hash,
+    revertedMessage: string
+  ): Promise<TransactionReceipt> {
+    const receipt = await retryOperation(
+      () =>
+        waitForTransactionReceipt(wagmiConfig, {
+          hash,
+          chainId,
+          timeout: config.confirmationTimeoutMs,
+        }),
+      config.retryAttempts,
+      config.retryDelayMs,
+      `Bridge ${type} confirmation`
+    );
+    if (receipt.status !== "success") {
+      throw new Error(revertedMessage);
+    }
+
+    events.emit("transactionConfirmed", { chainId, txHash: hash, type });
+    return receipt;
+  }
+
+  /**
+   * Send a simulated request and wait for a successful receipt
+   */
+  async function submitAndConfirm(
+    chainId: SupportedChainId,
+    type: BridgeTransactionType,
+    submitTx: () => Promise<Hash>,
+    messages: { cancelled: string; reverted: string }
+  ): Promise<TransactionReceipt> {
+    let hash: Hash;
+    try {
+      hash = await withTimeout(submitTx(), config.timeoutMs);
+    } catch (error) {
+      if (isUserRejection(error)) {
+        throw new Error(messages.cancelled, { cause: error });
+      }
+      // The prompt may still be open, so a second one could burn twice
+      if (error instanceof TimeoutError) {
+        throw new BatchChainError({
+          type: "transaction",
+          message: error.message,
+          chainId,
+          step: currentStep,
+          originalError: error,
+          isRetryable: true,
+          suggestedAction:
+            "Check your wallet for a pending request before retrying",
+        });
+      }
+      // Only a send that never reached the node is safe to repeat
+      if (categorizeError(error) !== "network") throw error;
+      hash = await retryOperation(
+        submitTx,
+        config.retryAttempts,
+        config.retryDelayMs,
+        `Bridge ${type} transaction`,
+        {
+          shouldRetry: (retryError) =>
+            categorizeError(retryError) === "network",
+        }
+      );
+    }
+
+    events.emit("transactionSubmitted", { chainId, txHash: hash, type });
+    return confirm(chainId, type, hash, messages.reverted);
+  }
+
+  /**
+   * Approve the TokenMessenger for exactly `amount`, unless the allowance
+   * already covers it
+   */
+  async function approveIfNeeded(
+    chainId: SupportedChainId,
+    tokenMessenger: Address,
+    amount: bigint
+  ): Promise<Hash | undefined> {
+    const usdcAddress = getUsdcAddress(chainId);
+    const allowance = await retryOperation(
+      () =>
+        readContract(wagmiConfig, {
+          address: usdcAddress,
+          abi: erc20Abi,
+          functionName: "allowance",
+          args: [userAddress, tokenMessenger],
+          chainId,
+        }),
+      config.retryAttempts,
+      config.retryDelayMs,
+      "Bridge allowance check"
+    );
+    if (allowance >= amount) return undefined;
+
+    const { request } = await retryOperation(
+      () =>
+        simulateContract(wagmiConfig, {
+          address: usdcAddress,
+          abi: erc20Abi,
+          functionName: "approve",
+          args: [tokenMessenger, amount],
+          account: userAddress,
+          chainId,
+        }),
+      config.retryAttempts,
+      config.retryDelayMs,
+      `Bridge approval simulation for chain ${chainId}`
+    );
+
+    const receipt = await submitAndConfirm(
+      chainId,
+      "approval",
+      () => writeContract(wagmiConfig, request),
+      {
+        cancelled: BATCH_MESSAGES.ERRORS.USER_CANCELLED_APPROVAL,
+        reverted: BATCH_MESSAGES.ERRORS.TRANSACTION_FAILED_GENERIC,
+      }
+    );
+    return receipt.transactionHash;
+  }
+
+  async function burn(
+    chainId: SupportedChainId,
+    source: CctpConfig,
+    destination: CctpConfig,
+    recipient: Address,
+    amount: bigint,
+    submittedHash?: Hash
+  ): Promise<Hash> {
+    if (submittedHash) {
+      await confirm(
+        chainId,
+        "burn",
+        submittedHash,
+        BATCH_MESSAGES.ERRORS.BRIDGE_BURN_REVERTED
+      );
+      return submittedHash;
+    }
+
+    const { request } = await retryOperation(
+      () =>
+        simulateContract(wagmiConfig, {
+          address: source.tokenMessenger,
+          abi: tokenMessengerV2Abi,
+          functionName: "depositForBurn",
+          args: [
+            amount,
+            destination.domain,
+            toBytes32Address(recipient),
+            getUsdcAddress(chainId),
+            ANY_DESTINATION_CALLER,
+            config.maxFee,
+            config.minFinalityThreshold,
+          ],
+          account: userAddress,
+          chainId,
+        }),
+      config.retryAttempts,
+      config.retryDelayMs,
+      `Burn simulation for chain ${chainId}`
+    );
+
+    const receipt = await submitAndConfirm(
+      chainId,
+      "burn",
+      () => writeContract(wagmiConfig, request),
+      {
+        cancelled: BATCH_MESSAGES.ERRORS.USER_CANCELLED_BURN,
+        reverted: BATCH_MESSAGES.ERRORS.BRIDGE_BURN_REVERTED,
+      }
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Poll the attestation client until the burn is attested. Failed polls
+   * (e.g. the API being briefly unreachable) just count as "not yet".
+   */
+  async function waitForAttestation(
+    source: CctpConfig,
+    burnTxHash: Hash
+  ): Promise<CctpAttestation> {
+    const deadline = Date.now() + config.attestationTimeoutMs;
+    for (let attempt = 1; Date.now() < deadline; attempt++) {
+      assertNotCancelled();
+      const attestation = await attestationClient
+        .getAttestation(source.domain, burnTxHash)
+        .catch(() => null);
+      if (attestation) {
+        events.emit("attestationReceived", { burnTxHash, ...attestation });
+        return attestation;
+      }
+      events.emit("attestationPending", { burnTxHash, attempt });
+      await sleep(config.attestationPollIntervalMs);
+    }
+    throw new Error(BATCH_MESSAGES.ERRORS.ATTESTATION_TIMEOUT);
+  }
+
+  async function mint(
+    chainId: SupportedChainId,
+    destination: CctpConfig,
+    { message, attestation }: CctpAttestation,
+    submittedHash?: Hash
+  ): Promise<TransactionReceipt> {
+    if (submittedHash) {
+      return confirm(
+        chainId,
+        "mint",
+        submittedHash,
+        BATCH_MESSAGES.ERRORS.BRIDGE_MINT_REVERTED
+      );
+    }
+
+    const { request } = await retryOperation(
+      () =>
+        simulateContract(wagmiConfig, {
+          address: destination.messageTransmitter,
+          abi: messageTransmitterV2Abi,
+          functionName: "receiveMessage",
+          args: [message, attestation],
+          account: userAddress,
+          chainId,
+        }),
+      config.retryAttempts,
+      config.retryDelayMs,
+      `Mint simulation for chain ${chainId}`
+    );
+
+    return submitAndConfirm(
+      chainId,
+      "mint",
+      () => writeContract(wagmiConfig, request),
+      {
+        cancelled: BATCH_MESSAGES.ERRORS.USER_CANCELLED_MINT,
+        reverted: BATCH_MESSAGES.ERRORS.BRIDGE_MINT_REVERTED,
+      }
+    );
+  }
+
+  /**
+   * Net amount the mint credited to `recipient`. Without the event, assume
+   * the whole fee cap was taken.
+   */
+  function getMintedAmount(
+    receipt: TransactionReceipt,
+    recipient: Address,
+    amount: bigint
+  ): bigint {
+    const minted = parseEventLogs({
+      abi: tokenMessengerV2Abi,
+      eventName: "MintAndWithdraw",
+      logs: receipt.logs,
+    }).find((log) => isAddressEqual(log.args.mintRecipient, recipient));
+    return minted ? minted.args.amount : amount - config.maxFee;
+  }
+
+  async function bridge(
+    request: BridgeRequest,
+    resume: BridgeResumePoint = {}
+  ): Promise<BridgeResult> {
+    if (isRunning) {
+      throw new Error(BATCH_MESSAGES.ERRORS.BATCH_ALREADY_RUNNING);
+    }
+
+    const { sourceChainId, destinationChainId, amount } = request;
+    if (sourceChainId === destinationChainId) {
+      throw new Error(BATCH_MESSAGES.ERRORS.BRIDGE_SAME_CHAIN);
+    }
+    const source = requireCctp(sourceChainId);
+    const destination = requireCctp(destinationChainId);
+    const amountWei = parseAmountToBigInt(amount, sourceChainId);
+    if (amountWei <= config.maxFee) {
+      throw new Error(BATCH_MESSAGES.ERRORS.BRIDGE_AMOUNT_BELOW_FEE);
+    }
+
+    isRunning = true;
+    isCancelled = false;
+    completedSteps = 0;
+
+    const recipient = request.recipient ?? userAddress;
+    const result: BridgeResult = {
+      ...resume,
+      sourceChainId,
+      destinationChainId,
+      amount,
+      status: "success",
+      startedAt: Date.now(),
+    };
+    events.emit("bridgeStarted", { request, totalSteps: TOTAL_STEPS });
+
+    let stepChainId = sourceChainId;
+    async function runStep<T>(
+      step: BridgeStep,
+      chainId: SupportedChainId,
+      task: () => Promise<T>
+    ): Promise<T> {
+      assertNotCancelled();
+      currentStep = step;
+      stepChainId = chainId;
+      events.emit("stepStarted", { step, chainId });
+      const value = await task();
+      events.emit("stepCompleted", { step, chainId });
+      incrementProgress();
+      return value;
+    }
+
+    // Once the burn is sent, the allowance no longer matters
+    const hasBurned = Boolean(resume.burnTxHash);
+    const { message, attestation } = resume;
+
+    try {
+      await runStep("switching", sourceChainId, async () => {
+        if (!hasBurned) await switchToChain(sourceChainId);
+      });
+      result.approvalTxHash = await runStep("approving", sourceChainId, () =>
+        hasBurned
+          ? Promise.resolve(resume.approvalTxHash)
+          : approveIfNeeded(sourceChainId, source.tokenMessenger, amountWei)
+      );
+      result.burnTxHash = await runStep("burning", sourceChainId, () =>
+        burn(
+          sourceChainId,
+          source,
+          destination,
+          recipient,
+          amountWei,
+          resume.burnTxHash
+        )
+      );
+
+      const burnTxHash = result.burnTxHash;
+      const signed = await runStep("attesting", sourceChainId, async () =>
+        message && attestation
+          ? { message, attestation }
+          : waitForAttestation(source, burnTxHash)
+      );
+      result.message = signed.message;
+      result.attestation = signed.attestation;
+
+      const mintReceipt = await runStep(
+        "minting",
+        destinationChainId,
+        async () => {
+          if (!resume.mintTxHash) await switchToChain(destinationChainId);
+          return mint(
+            destinationChainId,
+            destination,
+            signed,
+            resume.mintTxHash
+          );
+        }
+      );
+      result.mintTxHash = mintReceipt.transactionHash;
+      result.mintedAmount = formatUnits(
+        getMintedAmount(mintReceipt, recipient, amountWei),
+        USDC_DECIMALS
+      );
+
+      result.completedAt = Date.now();
+      events.emit("bridgeCompleted", { result });
+      return result;
+    } catch (error) {
+      const bridgeError = createBatchError(error, stepChainId, currentStep);
+      result.userCancelled = bridgeError.type === "user_rejection";
+      result.status =
+        isCancelled || result.userCancelled ? "cancelled" : "failed";
+      result.error = bridgeError;
+      result.completedAt = Date.now();
+      events.emit("bridgeFailed", { result, error: bridgeError });
+      return result;
+    } finally {
+      isRunning = false;
+      currentStep = undefined;
+    }
+  }
+
+  function cancel(): void {
+    isCancelled = true;
+  }
+
+  function getStatus() {
+    return { isRunning, isCancelled, currentStep };
+  }
+
+  return {
+    bridge,
+    cancel,
+    getStatus,
+    on: events.on,
+    off: events.off,
+  };
+}
@@ -0,0 +1,110 @@
+import type { Address, Hash, Hex } from "viem";
+import { pad } from "viem";
+
+// Circle's sandbox attestation service, for testnet burns
+export const IRIS_SANDBOX_API_URL = "https://iris-api-sandbox.circle.com";
+
+// Any address may submit the mint on the destination chain
+export const ANY_DESTINATION_CALLER: Hex = `0x${"0".repeat(64)}`;
+
+export const tokenMessengerV2Abi = [
+  {
+    type: "function",
+    name: "depositForBurn",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "amount", type: "uint256" },
+      { name: "destinationDomain", type: "uint32" },
+      { name: "mintRecipient", type: "bytes32" },
+      { name: "burnToken", type: "address" },
+      { name: "destinationCaller", type: "bytes32" },
+      { name: "maxFee", type: "uint256" },
+      { name: "minFinalityThreshold", type: "uint32" },
+    ],
+    outputs: [],
+  },
+  {
+    // Emitted on the destination chain; `amount` is net of the fee
+    type: "event",
+    name: "MintAndWithdraw",
+    inputs: [
+      { name: "mintRecipient", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+      { name: "mintToken", type: "address", indexed: true },
+      { name: "feeCollected", type: "uint256", indexed: false },
+    ],
+  },
+] as const;
+
+export const messageTransmitterV2Abi = [
+  {
+    type: "function",
+    name: "receiveMessage",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "message", type: "bytes" },
+      { name: "attestation", type: "bytes" },
+    ],
+    outputs: [{ name: "success", type: "bool" }],
+  },
+] as const;
+
+/**
+ * CCTP addresses recipients as bytes32
+ */
+export function toBytes32Address(address: Address): Hex {
+  return pad(address, { size: 32 });
+}
+
+export interface CctpAttestation {
+  message: Hex;
+  attestation: Hex;
+}
+
+/**
+ * Source of signed burn messages. The bridge only needs this one call, so a
+ * local relayer or a test double can stand in for Circle's API.
+ */
+export interface AttestationClient {
+  // Resolves to null until the attestation for the burn is complete
+  getAttestation: (
+    sourceDomain: number,
+    burnTxHash: Hash
+  ) => Promise<CctpAttestation | null>;
+}
+
+interface IrisMessagesResponse {
+  messages?: {
+    status: "complete" | "pending_confirmations" | string;
+    message: Hex;
+    attestation: Hex;
+  }[];
+}
+
+/**
+ * Attestation client backed by Circle's Iris API (`/v2/messages`).
+ * NEXT_PUBLIC_CCTP_ATTESTATION_URL points it at a local stub instead.
+ */
+export function createIrisAttestationClient(
+  baseUrl: string = process.env.NEXT_PUBLIC_CCTP_ATTESTATION_URL ??
+    IRIS_SANDBOX_API_URL
+): AttestationClient {
+  return {
+    async getAttestation(sourceDomain, burnTxHash) {
+      const response = await fetch(
+        `${baseUrl}/v2/messages/${sourceDomain}?transactionHash=${burnTxHash}`
+      );
+      // The burn isn't indexed yet
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Attestation request failed (${response.status})`);
+      }
+
+      const { messages }: IrisMessagesResponse = await response.json();
+      const message = messages?.[0];
+      return message?.status === "complete"
+        ? { message: message.message, attestation: message.attestation }
+        : null;
+    },
+  };
+}
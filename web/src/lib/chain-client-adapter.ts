@@ -0,0 +1,114 @@
+import {
+  createPublicClient,
+  createWalletClient,
+  http,
+  type Account,
+  type Address,
+  type Chain,
+  type Hex,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import {
+  getAccount,
+  getPublicClient,
+  getWalletClient,
+  switchChain,
+  type Config,
+} from "@wagmi/core";
+import {
+  getChainName,
+  getRpcUrl,
+  getSupportedChainMeta,
+  type SupportedChainId,
+} from "@/constant/chains";
+
+export type ChainWalletClient = WalletClient<Transport, Chain, Account>;
+
+/**
+ * Where the task runners get their RPC clients and signer from, so they run
+ * the same against a browser wallet (wagmi) or a private key in Node
+ */
+export interface ChainClientAdapter {
+  // Undefined while no wallet is connected
+  getAddress: () => Address | undefined;
+  getPublicClient: (chainId: SupportedChainId) => PublicClient;
+  // Rejects when the signer can't sign on that chain right now
+  getWalletClient: (chainId: SupportedChainId) => Promise<ChainWalletClient>;
+  // Point the signer at a chain before signing there; no-op for local keys
+  switchChain: (chainId: SupportedChainId) => Promise<void>;
+  // Signs on any chain without switching, so chains can run in parallel
+  signsOnAnyChain: boolean;
+}
+
+/**
+ * Adapter over the connected wagmi wallet
+ */
+export function createWagmiChainAdapter(config: Config): ChainClientAdapter {
+  return {
+    getAddress: () => getAccount(config).address,
+    getPublicClient: (chainId) => {
+      const client: PublicClient | undefined = getPublicClient(config, {
+        chainId,
+      });
+      if (!client) {
+        throw new Error(`No public client for ${getChainName(chainId)}`);
+      }
+      return client;
+    },
+    getWalletClient: async (chainId) =>
+      (await getWalletClient(config, { chainId })) as ChainWalletClient,
+    switchChain: async (chainId) => {
+      await switchChain(config, { chainId });
+    },
+    // Injected wallets only sign on the active chain
+    signsOnAnyChain: false,
+  };
+}
+
+/**
+ * Adapter for scripts: a local private-key account that signs on every chain
+ * without switching. RPC URLs default to the chain registry
+ */
+export function createPrivateKeyChainAdapter(
+  privateKey: Hex,
+  rpcUrls: Partial<Record<SupportedChainId, string>> = {}
+): ChainClientAdapter {
+  const account = privateKeyToAccount(privateKey);
+  const publicClients = new Map<SupportedChainId, PublicClient>();
+  const walletClients = new Map<SupportedChainId, ChainWalletClient>();
+
+  const transport = (chainId: SupportedChainId) =>
+    http(rpcUrls[chainId] ?? getRpcUrl(chainId));
+
+  return {
+    getAddress: () => account.address,
+    getPublicClient: (chainId) => {
+      let client = publicClients.get(chainId);
+      if (!client) {
+        client = createPublicClient({
+          chain: getSupportedChainMeta(chainId),
+          transport: transport(chainId),
+        });
+        publicClients.set(chainId, client);
+      }
+      return client;
+    },
+    getWalletClient: async (chainId) => {
+      let client = walletClients.get(chainId);
+      if (!client) {
+        client = createWalletClient({
+          account,
+          chain: getSupportedChainMeta(chainId),
+          transport: transport(chainId),
+        });
+        walletClients.set(chainId, client);
+      }
+      return client;
+    },
+    switchChain: async () => {},
+    signsOnAnyChain: true,
+  };
+}
@@ -0,0 +1,91 @@
+import type { Address } from "viem";
+import { isAddressEqual } from "viem";
+import { getChainName } from "@/constant/chains";
+import { getToken } from "@/constant/tokens";
+import { parseAmountToBigInt } from "@/lib/vault-operations";
+import type { BatchDepositResult, ChainAmount } from "@/types/batch-operations";
+import type {
+  DepositSchedule,
+  DepositScheduleRunStatus,
+} from "@/types/deposit-schedule";
+
+const HOUR_MS = 3_600_000;
+
+export const SCHEDULE_INTERVALS = [
+  { label: "Hourly", intervalMs: HOUR_MS },
+  { label: "Daily", intervalMs: 24 * HOUR_MS },
+  { label: "Weekly", intervalMs: 7 * 24 * HOUR_MS },
+] as const;
+
+export function isScheduleDue(schedule: DepositSchedule, now: number): boolean {
+  return schedule.enabled && schedule.nextRunAt <= now;
+}
+
+/**
+ * Enabled schedules of `account` whose next run has passed, oldest first
+ */
+export function getDueSchedules(
+  schedules: DepositSchedule[],
+  account: Address,
+  now: number
+): DepositSchedule[] {
+  return schedules
+    .filter(
+      (schedule) =>
+        isAddressEqual(schedule.account, account) &&
+        isScheduleDue(schedule, now)
+    )
+    .sort((a, b) => a.nextRunAt - b.nextRunAt);
+}
+
+/**
+ * First slot of the schedule's cadence after `ranAt`, so a schedule that was
+ * missed for a while runs once rather than once per missed interval
+ */
+export function getNextRunAt(schedule: DepositSchedule, ranAt: number): number {
+  if (schedule.nextRunAt > ranAt) return schedule.nextRunAt;
+  const missed = Math.floor((ranAt - schedule.nextRunAt) / schedule.intervalMs);
+  return schedule.nextRunAt + (missed + 1) * schedule.intervalMs;
+}
+
+/**
+ * The schedule's deposits as service input. Throws when a chain no longer
+ * accepts the token or an amount fails validation
+ */
+export function toScheduleChainAmounts(
+  schedule: DepositSchedule
+): ChainAmount[] {
+  return schedule.chains.map(({ chainId, amount }) => {
+    const token = getToken(chainId, schedule.tokenSymbol);
+    if (!token) {
+      throw new Error(
+        `${schedule.tokenSymbol} is not accepted on ${getChainName(chainId)}`
+      );
+    }
+    return {
+      chainId,
+      tokenAddress: token.address,
+      amount,
+      amountWei: parseAmountToBigInt(amount, chainId, token.address),
+    };
+  });
+}
+
+export function getScheduleRunStatus(
+  results: BatchDepositResult[]
+): DepositScheduleRunStatus {
+  const succeeded = results.filter(
+    (result) => result.status === "success"
+  ).length;
+  if (results.length > 0 && succeeded === results.length) return "success";
+  return succeeded > 0 ? "partial" : "failed";
+}
+
+export function describeSchedule(schedule: DepositSchedule): string {
+  return schedule.chains
+    .map(
+      ({ chainId, amount }) =>
+        `${amount} ${schedule.tokenSymbol} on ${getChainName(chainId)}`
+    )
+    .join(", ");
+}
@@ -0,0 +1,178 @@
+import { formatUnits, parseUnits } from "viem";
+import { SupportedChainId } from "@/constant/chains";
+import { VALIDATION_MESSAGES } from "@/constant/operation-constants";
+import { CommonValidations } from "@/lib/validators";
+import type { DepositSplitStrategy } from "@/types/ui-state";
+
+export const SPLIT_STRATEGIES: {
+  strategy: DepositSplitStrategy;
+  label: string;
+  description: string;
+}[] = [
+  {
+    strategy: "equal",
+    label: "Equal",
+    description: "Same amount on every chain",
+  },
+  {
+    strategy: "wallet",
+    label: "By wallet",
+    description: "In proportion to each chain's wallet balance",
+  },
+  {
+    strategy: "vault",
+    label: "By vault",
+    description: "In proportion to what each vault already holds",
+  },
+  {
+    strategy: "max",
+    label: "Max per chain",
+    description: "Fill the largest wallets first, using as few chains as fit",
+  },
+];
+
+export interface SplitChain {
+  chainId: SupportedChainId;
+  decimals: number;
+  // Unknown balances count as empty, since no amount could be validated
+  walletBalance?: bigint;
+  vaultBalance?: bigint;
+}
+
+export interface DepositSplit {
+  // Input value per chain; "" where the chain gets nothing
+  amounts: Partial<Record<SupportedChainId, string>>;
+  error?: string;
+}
+
+interface Slot {
+  chain: SplitChain;
+  // In units of the split's precision (the smallest decimals among chains)
+  room: bigint;
+  weight: bigint;
+  allocated: bigint;
+}
+
+// Fill the slots with the most room first until nothing is left
+function fillLargestFirst(slots: Slot[], remaining: bigint): bigint {
+  const byRoom = [...slots].sort((a, b) =>
+    a.room === b.room ? 0 : a.room > b.room ? -1 : 1
+  );
+  for (const slot of byRoom) {
+    if (remaining === 0n) break;
+    const amount = slot.room < remaining ? slot.room : remaining;
+    slot.allocated += amount;
+    slot.room -= amount;
+    remaining -= amount;
+  }
+  return remaining;
+}
+
+/**
+ * Spread `remaining` by weight without passing any slot's room. A slot whose
+ * share would overflow is filled and the rest re-spread over the others
+ */
+function fillByWeight(slots: Slot[], remaining: bigint): bigint {
+  let active = slots.filter((slot) => slot.weight > 0n && slot.room > 0n);
+  while (active.length > 0 && remaining > 0n) {
+    const weightSum = active.reduce((sum, slot) => sum + slot.weight, 0n);
+    const share = (slot: Slot) => (remaining * slot.weight) / weightSum;
+
+    const full = active.filter((slot) => share(slot) >= slot.room);
+    if (full.length > 0) {
+      for (const slot of full) {
+        slot.allocated += slot.room;
+        remaining -= slot.room;
+        slot.room = 0n;
+      }
+      active = active.filter((slot) => slot.room > 0n);
+      continue;
+    }
+
+    const shares = active.map(share);
+    active.forEach((slot, index) => {
+      slot.allocated += shares[index];
+      slot.room -= shares[index];
+    });
+    remaining -= shares.reduce((sum, amount) => sum + amount, 0n);
+    break;
+  }
+  return remaining;
+}
+
+/**
+ * Per-chain amounts that add up to `total` exactly, none above its wallet
+ * balance and none with more decimals than its token allows. Rounding dust
+ * and anything the weighted chains can't hold goes to the chains with the
+ * most room left.
+ */
+export function splitDepositTotal(
+  total: string,
+  strategy: DepositSplitStrategy,
+  chains: SplitChain[],
+  tokenSymbol: string
+): DepositSplit {
+  if (chains.length === 0) {
+    return { amounts: {}, error: "Add a chain to split the total across" };
+  }
+
+  // Split at the coarsest precision so every share is valid on every chain
+  const decimals = Math.min(...chains.map((chain) => chain.decimals));
+  const validation = CommonValidations.tokenAmount(
+    total,
+    decimals,
+    tokenSymbol
+  );
+  if (!validation.isValid) {
+    return { amounts: {}, error: validation.error };
+  }
+
+  const scale = (chain: SplitChain) => 10n ** BigInt(chain.decimals - decimals);
+  const slots: Slot[] = chains.map((chain) => {
+    const room = (chain.walletBalance ?? 0n) / scale(chain);
+    return {
+      chain,
+      room,
+      weight:
+        strategy === "equal"
+          ? 1n
+          : strategy === "wallet"
+          ? room
+          : strategy === "vault"
+          ? (chain.vaultBalance ?? 0n) / scale(chain)
+          : 0n,
+      allocated: 0n,
+    };
+  });
+
+  const totalUnits = parseUnits(total.trim(), decimals);
+  const capacity = slots.reduce((sum, slot) => sum + slot.room, 0n);
+  if (totalUnits > capacity) {
+    return {
+      amounts: {},
+      error: VALIDATION_MESSAGES.ERRORS.INSUFFICIENT_WALLET_BALANCE(
+        tokenSymbol,
+        formatUnits(capacity, decimals)
+      ),
+    };
+  }
+  if (strategy === "vault" && slots.every((slot) => slot.weight === 0n)) {
+    return {
+      amounts: {},
+      error: `No ${tokenSymbol} in these vaults yet to split by`,
+    };
+  }
+
+  fillLargestFirst(slots, fillByWeight(slots, totalUnits));
+
+  return {
+    amounts: Object.fromEntries(
+      slots.map(({ chain, allocated }) => [
+        chain.chainId,
+        allocated > 0n
+          ? formatUnits(allocated * scale(chain), chain.decimals)
+          : "",
+      ])
+    ),
+  };
+}
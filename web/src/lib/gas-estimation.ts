@@ -0,0 +1,132 @@
+import type { Address, PublicClient } from "viem";
+import { erc20Abi } from "viem";
+import { getPublicClient } from "@wagmi/core";
+import { wagmiConfig } from "@/wagmi";
+import { simpleVaultAbi } from "@/generated/wagmi";
+import { getChainName, getSupportedChainMeta } from "@/constant/chains";
+import { SupportedChainId, getVaultAddress } from "@/constant/contracts";
+import {
+  addGasBuffer,
+  getGasCost,
+  resolveToken,
+  type GasEstimate,
+} from "@/lib/vault-operations";
+import { validateGasBalance } from "@/lib/validators";
+
+// Used when a call can't be estimated yet, e.g. a deposit before its approval
+export const APPROVAL_GAS_FALLBACK = 65_000n;
+export const DEPOSIT_GAS_FALLBACK = 150_000n;
+
+export interface ChainGasEstimate {
+  chainId: SupportedChainId;
+  nativeSymbol: string;
+  nativeDecimals: number;
+  nativeBalance: bigint;
+  // The vault's current allowance, in the token's decimals
+  allowance: bigint;
+  tokenDecimals: number;
+  // Switching chains is a wallet request and costs no gas
+  switchCost: bigint;
+  // Undefined when the allowance already covers the amount
+  approval?: GasEstimate;
+  approvalCost: bigint;
+  deposit: GasEstimate;
+  depositCost: bigint;
+  totalCost: bigint;
+  // Set when the native balance is below totalCost
+  warning?: string;
+}
+
+/**
+ * Estimate what one chain's approve → deposit will cost in its native token,
+ * with the usual buffer on each gas limit
+ */
+export async function estimateDepositGas(
+  chainId: SupportedChainId,
+  account: Address,
+  tokenAddress: Address,
+  amount: bigint
+): Promise<ChainGasEstimate> {
+  const client: PublicClient | undefined = getPublicClient(wagmiConfig, {
+    chainId,
+  });
+  if (!client) {
+    throw new Error(`No public client for ${getChainName(chainId)}`);
+  }
+  const vaultAddress = getVaultAddress(chainId);
+
+  const [allowance, nativeBalance, fees] = await Promise.all([
+    client.readContract({
+      address: tokenAddress,
+      abi: erc20Abi,
+      functionName: "allowance",
+      args: [account, vaultAddress],
+    }),
+    client.getBalance({ address: account }),
+    // Chains without EIP-1559 only quote a legacy gas price
+    client
+      .estimateFeesPerGas()
+      .then(({ maxFeePerGas, maxPriorityFeePerGas }) => ({
+        maxFeePerGas,
+        maxPriorityFeePerGas,
+      }))
+      .catch(async () => ({ gasPrice: await client.getGasPrice() })),
+  ]);
+
+  const needsApproval = allowance < amount;
+  const approvalGas = needsApproval
+    ? await client
+        .estimateContractGas({
+          address: tokenAddress,
+          abi: erc20Abi,
+          functionName: "approve",
+          args: [vaultAddress, amount],
+          account,
+        })
+        .catch(() => APPROVAL_GAS_FALLBACK)
+    : undefined;
+  // Without the allowance in place the deposit would revert during estimation
+  const depositGas = needsApproval
+    ? DEPOSIT_GAS_FALLBACK
+    : await client
+        .estimateContractGas({
+          address: vaultAddress,
+          abi: simpleVaultAbi,
+          functionName: "deposit",
+          args: [tokenAddress, amount],
+          account,
+        })
+        .catch(() => DEPOSIT_GAS_FALLBACK);
+
+  const approval =
+    approvalGas !== undefined
+      ? { gasLimit: addGasBuffer(approvalGas), ...fees }
+      : undefined;
+  const deposit = { gasLimit: addGasBuffer(depositGas), ...fees };
+  const approvalCost = approval ? getGasCost(approval) : 0n;
+  const depositCost = getGasCost(deposit);
+  const totalCost = approvalCost + depositCost;
+
+  const { nativeCurrency } = getSupportedChainMeta(chainId);
+  const gasCheck = validateGasBalance(
+    nativeBalance,
+    totalCost,
+    nativeCurrency.symbol
+  );
+
+  return {
+    chainId,
+    nativeSymbol: nativeCurrency.symbol,
+    nativeDecimals: nativeCurrency.decimals,
+    nativeBalance,
+    allowance,
+    tokenDecimals: resolveToken(chainId, tokenAddress).decimals,
+    switchCost: 0n,
+    approval,
+    approvalCost,
+    deposit,
+    depositCost,
+    totalCost,
+    warning: gasCheck.isValid ? undefined : gasCheck.error,
+  };
+}
@@ -0,0 +1,122 @@
+import {
+  domainSeparator,
+  parseSignature,
+  type Address,
+  type Hex,
+  type TypedDataDomain,
+} from "viem";
+
+/**
+ * Minimal EIP-2612 surface used to detect permit support and build signatures
+ */
+export const erc20PermitAbi = [
+  {
+    type: "function",
+    name: "name",
+    inputs: [],
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "version",
+    inputs: [],
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "nonces",
+    inputs: [{ name: "owner", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "DOMAIN_SEPARATOR",
+    inputs: [],
+    outputs: [{ name: "", type: "bytes32" }],
+    stateMutability: "view",
+  },
+] as const;
+
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+export interface PermitSignature {
+  deadline: bigint;
+  v: number;
+  r: Hex;
+  s: Hex;
+}
+
+export interface PermitParams {
+  name: string;
+  version: string;
+  chainId: number;
+  token: Address;
+  owner: Address;
+  spender: Address;
+  value: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+export function buildPermitDomain(
+  params: Pick<PermitParams, "name" | "version" | "chainId" | "token">
+): TypedDataDomain {
+  return {
+    name: params.name,
+    version: params.version,
+    chainId: params.chainId,
+    verifyingContract: params.token,
+  };
+}
+
+/**
+ * Whether our reconstructed domain matches the token's own DOMAIN_SEPARATOR.
+ * A mismatch means signing would produce a permit the token rejects.
+ */
+export function matchesDomainSeparator(
+  domain: TypedDataDomain,
+  onChainSeparator: Hex
+): boolean {
+  return (
+    domainSeparator({ domain }).toLowerCase() === onChainSeparator.toLowerCase()
+  );
+}
+
+export function buildPermitTypedData(params: PermitParams) {
+  return {
+    domain: buildPermitDomain(params),
+    types: PERMIT_TYPES,
+    primaryType: "Permit" as const,
+    message: {
+      owner: params.owner,
+      spender: params.spender,
+      value: params.value,
+      nonce: params.nonce,
+      deadline: params.deadline,
+    },
+  };
+}
+
+export function toPermitSignature(
+  signature: Hex,
+  deadline: bigint
+): PermitSignature {
+  const { r, s, v, yParity } = parseSignature(signature);
+  return {
+    deadline,
+    v: v !== undefined ? Number(v) : yParity + 27,
+    r,
+    s,
+  };
+}
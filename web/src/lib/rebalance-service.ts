@@ -0,0 +1,216 @@
+import { createBatchError } from "@/lib/vault-operations";
+import { createTypedEventEmitter } from "@/types/typed-event-emitter";
+import type {
+  BatchDepositResult,
+  BatchOperationError,
+  BatchWithdrawResult,
+  ChainAmount,
+} from "@/types/batch-operations";
+import type {
+  BridgeDepositResult,
+  BridgeRequest,
+} from "@/types/bridge-operations";
+import type {
+  RebalanceEvents,
+  RebalancePlan,
+  RebalanceResult,
+  RebalanceStage,
+  RebalanceStatus,
+} from "@/types/rebalance";
+import { BATCH_MESSAGES } from "@/constant/batch-messages";
+
+/**
+ * The operations a plan runs on. The app passes the batch withdraw, bridge
+ * and deposit, and batch deposit hooks' executors, so their journals,
+ * progress and history see each stage like a manual run
+ */
+export interface RebalanceExecutors {
+  withdraw: (chainAmounts: ChainAmount[]) => Promise<BatchWithdrawResult[]>;
+  bridgeAndDeposit: (request: BridgeRequest) => Promise<BridgeDepositResult>;
+  deposit: (chainAmounts: ChainAmount[]) => Promise<BatchDepositResult[]>;
+}
+
+export interface RebalanceService {
+  execute: (plan: RebalancePlan) => Promise<RebalanceResult>;
+  // Stops before the next step; the step in flight finishes
+  cancel: () => void;
+  getStatus: () => {
+    isRunning: boolean;
+    isCancelled: boolean;
+    stage?: RebalanceStage;
+  };
+  on: <K extends keyof RebalanceEvents>(
+    event: K,
+    listener: (data: RebalanceEvents[K]) => void
+  ) => void;
+  off: <K extends keyof RebalanceEvents>(
+    event: K,
+    listener: (data: RebalanceEvents[K]) => void
+  ) => void;
+}
+
+// One step for the withdraw batch, one per bridge, one for the deposit batch
+export function getRebalanceStepCount(plan: RebalancePlan): number {
+  return (
+    (plan.withdrawals.length > 0 ? 1 : 0) +
+    plan.bridges.length +
+    (plan.deposits.length > 0 ? 1 : 0)
+  );
+}
+
+/**
+ * Run a rebalance plan: withdraw the surplus, bridge it and deposit it on
+ * arrival, then deposit from the wallets. Stops at the first step that
+ * doesn't fully succeed, since later steps spend what it was meant to move.
+ */
+export function createRebalanceService(
+  executors: RebalanceExecutors
+): RebalanceService {
+  let isRunning = false;
+  let isCancelled = false;
+  let stage: RebalanceStage | undefined;
+
+  const events = createTypedEventEmitter<RebalanceEvents>();
+
+  async function execute(plan: RebalancePlan): Promise<RebalanceResult> {
+    if (isRunning) {
+      throw new Error(BATCH_MESSAGES.ERRORS.BATCH_ALREADY_RUNNING);
+    }
+
+    isRunning = true;
+    isCancelled = false;
+    const totalSteps = getRebalanceStepCount(plan);
+    let completed = 0;
+    const result: RebalanceResult = {
+      plan,
+      status: "success",
+      withdrawals: [],
+      bridges: [],
+      deposits: [],
+      startedAt: Date.now(),
+    };
+
+    function completeStep(): void {
+      completed++;
+      events.emit("progressUpdated", {
+        completed,
+        total: totalSteps,
+        percentage: Math.round((completed / totalSteps) * 100),
+      });
+    }
+
+    // Anything already moved makes a stopped rebalance partial
+    function stop(
+      error: BatchOperationError | undefined,
+      cancelled: boolean
+    ): RebalanceResult {
+      const status: RebalanceStatus =
+        completed > 0 ? "partial" : cancelled ? "cancelled" : "failed";
+      const final = { ...result, status, error, completedAt: Date.now() };
+      events.emit("rebalanceFailed", {
+        result: final,
+        error:
+          error ??
+          createBatchError(
+            new Error(BATCH_MESSAGES.ERRORS.OPERATION_CANCELLED),
+            plan.allocations[0].chainId
+          ),
+      });
+      return final;
+    }
+
+    function startStage(
+      next: RebalanceStage,
+      chainId?: RebalanceEvents["stageStarted"]["chainId"]
+    ): void {
+      stage = next;
+      events.emit("stageStarted", { stage: next, chainId });
+    }
+
+    try {
+      events.emit("rebalanceStarted", { plan, totalSteps });
+
+      if (plan.withdrawals.length > 0) {
+        startStage("withdrawing");
+        try {
+          result.withdrawals = await executors.withdraw(plan.withdrawals);
+        } catch (error) {
+          return stop(
+            createBatchError(error, plan.withdrawals[0].chainId),
+            false
+          );
+        }
+        const failed = result.withdrawals.find(
+          (withdrawal) => withdrawal.status !== "success"
+        );
+        if (failed) {
+          // A chain may have withdrawn before another failed
+          if (result.withdrawals.some(({ status }) => status === "success")) {
+            completed++;
+          }
+          return stop(failed.error, Boolean(failed.userCancelled));
+        }
+        completeStep();
+      }
+
+      for (const request of plan.bridges) {
+        if (isCancelled) return stop(undefined, true);
+        startStage("bridging", request.destinationChainId);
+        let bridge: BridgeDepositResult;
+        try {
+          bridge = await executors.bridgeAndDeposit(request);
+        } catch (error) {
+          return stop(createBatchError(error, request.sourceChainId), false);
+        }
+        result.bridges.push(bridge);
+        if (bridge.status !== "success") {
+          return stop(bridge.error, bridge.status === "cancelled");
+        }
+        completeStep();
+      }
+
+      if (plan.deposits.length > 0) {
+        if (isCancelled) return stop(undefined, true);
+        startStage("depositing");
+        try {
+          result.deposits = await executors.deposit(plan.deposits);
+        } catch (error) {
+          return stop(createBatchError(error, plan.deposits[0].chainId), false);
+        }
+        const failed = result.deposits.find(
+          (deposit) => deposit.status !== "success"
+        );
+        if (failed) {
+          if (result.deposits.some(({ status }) => status === "success")) {
+            completed++;
+          }
+          return stop(failed.error, Boolean(failed.userCancelled));
+        }
+        completeStep();
+      }
+
+      const final = { ...result, completedAt: Date.now() };
+      events.emit("rebalanceCompleted", { result: final });
+      return final;
+    } finally {
+      isRunning = false;
+      stage = undefined;
+    }
+  }
+
+  function cancel(): void {
+    isCancelled = true;
+  }
+
+  function getStatus() {
+    return { isRunning, isCancelled, stage };
+  }
+
+  return {
+    execute,
+    cancel,
+    getStatus,
+    on: events.on,
+    off: events.off,
+  };
+}
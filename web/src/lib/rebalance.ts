@@ -0,0 +1,250 @@
+import { formatUnits, parseUnits } from "viem";
+import {
+  SUPPORTED_CHAINS,
+  SupportedChainId,
+  getChainName,
+} from "@/constant/chains";
+import { BRIDGEABLE_CHAINS } from "@/constant/contracts";
+import {
+  getChainsForToken,
+  getToken,
+  type TokenSymbol,
+} from "@/constant/tokens";
+import type { ChainAmount } from "@/types/batch-operations";
+import type {
+  RebalanceAllocation,
+  RebalanceFunding,
+  RebalancePlan,
+  RebalanceTargets,
+} from "@/types/rebalance";
+
+// Moves smaller than this (in token units) are left out of a plan
+const MIN_MOVE = "0.01";
+
+// Targets are kept to two decimals of a percent
+const BASIS_POINTS = 10_000n;
+
+interface PlanRebalanceParams {
+  tokenSymbol: TokenSymbol;
+  funding: RebalanceFunding;
+  targets: RebalanceTargets;
+  vaultBalances: Partial<Record<SupportedChainId, bigint>>;
+  walletBalances?: Partial<Record<SupportedChainId, bigint>>;
+}
+
+/**
+ * Chains a rebalance of `tokenSymbol` can touch: every chain accepting it,
+ * or only the CCTP chains when moving USDC by bridge
+ */
+export function getRebalanceChains(
+  tokenSymbol: TokenSymbol,
+  funding: RebalanceFunding
+): SupportedChainId[] {
+  const chains = getChainsForToken(tokenSymbol);
+  if (funding === "wallet") return chains;
+  return tokenSymbol === "USDC"
+    ? chains.filter((chainId) => BRIDGEABLE_CHAINS.includes(chainId))
+    : [];
+}
+
+/**
+ * An even split over `chainIds`, the rounding remainder on the first
+ */
+export function getEqualTargets(
+  chainIds: SupportedChainId[]
+): RebalanceTargets {
+  if (chainIds.length === 0) return {};
+  const share = Math.floor(10_000 / chainIds.length) / 100;
+  const targets: RebalanceTargets = {};
+  chainIds.forEach((chainId, index) => {
+    targets[chainId] =
+      index === 0
+        ? Math.round((100 - share * (chainIds.length - 1)) * 100) / 100
+        : share;
+  });
+  return targets;
+}
+
+/**
+ * Error message for targets that can't be planned, or null
+ */
+export function validateRebalanceTargets(
+  targets: RebalanceTargets
+): string | null {
+  const values = Object.values(targets);
+  if (values.length < 2) return "Set a target for at least two chains";
+  if (values.some((value) => !Number.isFinite(value) || value < 0)) {
+    return "Targets must be zero or more";
+  }
+  const sum = values.reduce((acc, value) => acc + Math.round(value * 100), 0);
+  if (sum !== 10_000) {
+    return `Targets add up to ${sum / 100}%, not 100%`;
+  }
+  return null;
+}
+
+function toChainAmount(
+  chainId: SupportedChainId,
+  tokenSymbol: TokenSymbol,
+  amount: bigint
+): ChainAmount {
+  const token = getToken(chainId, tokenSymbol)!;
+  return {
+    chainId,
+    tokenAddress: token.address,
+    amount: formatUnits(amount, token.decimals),
+    amountWei: amount,
+  };
+}
+
+function toPercent(part: bigint, total: bigint): number {
+  return total > 0n ? Number((part * BASIS_POINTS) / total) / 100 : 0;
+}
+
+/**
+ * Withdrawals, bridges and deposits that move the token's vault balances to
+ * the target split. Targets are shares of the current vault total; with
+ * "wallet" funding the total grows or shrinks by what the wallets cover.
+ * Throws when the targets are invalid or can't be bridged
+ */
+export function planRebalance({
+  tokenSymbol,
+  funding,
+  targets,
+  vaultBalances,
+  walletBalances = {},
+}: PlanRebalanceParams): RebalancePlan {
+  const targetError = validateRebalanceTargets(targets);
+  if (targetError) throw new Error(targetError);
+
+  const plannable = getRebalanceChains(tokenSymbol, funding);
+  const chainIds = SUPPORTED_CHAINS.filter(
+    (chainId) => targets[chainId] !== undefined
+  );
+  const unsupported = chainIds.find((chainId) => !plannable.includes(chainId));
+  if (unsupported !== undefined) {
+    throw new Error(
+      funding === "bridge"
+        ? `${tokenSymbol} can't be bridged to or from ${getChainName(
+            unsupported
+          )}`
+        : `${tokenSymbol} is not accepted on ${getChainName(unsupported)}`
+    );
+  }
+
+  const total = chainIds.reduce(
+    (sum, chainId) => sum + (vaultBalances[chainId] ?? 0n),
+    0n
+  );
+  const basisPoints = chainIds.map((chainId) =>
+    BigInt(Math.round(targets[chainId]! * 100))
+  );
+  const targetAmounts = basisPoints.map((bps) => (total * bps) / BASIS_POINTS);
+  // Rounding dust goes to the chain with the largest target
+  const largest = basisPoints.indexOf(
+    basisPoints.reduce((max, bps) => (bps > max ? bps : max), 0n)
+  );
+  targetAmounts[largest] +=
+    total - targetAmounts.reduce((sum, amount) => sum + amount, 0n);
+
+  const allocations: RebalanceAllocation[] = chainIds.map((chainId, index) => {
+    const current = vaultBalances[chainId] ?? 0n;
+    return {
+      chainId,
+      current,
+      target: targetAmounts[index],
+      currentPercent: toPercent(current, total),
+      targetPercent: Number(basisPoints[index]) / 100,
+    };
+  });
+
+  const plan: RebalancePlan = {
+    tokenSymbol,
+    funding,
+    total,
+    allocations,
+    withdrawals: [],
+    bridges: [],
+    deposits: [],
+    shortfalls: [],
+  };
+
+  const minMove = (chainId: SupportedChainId) =>
+    parseUnits(MIN_MOVE, getToken(chainId, tokenSymbol)!.decimals);
+
+  if (funding === "wallet") {
+    for (const { chainId, current, target } of allocations) {
+      if (current - target >= minMove(chainId)) {
+        plan.withdrawals.push(
+          toChainAmount(chainId, tokenSymbol, current - target)
+        );
+      }
+      const needed = target - current;
+      if (needed < minMove(chainId)) continue;
+      const wallet = walletBalances[chainId] ?? 0n;
+      const deposit = needed < wallet ? needed : wallet;
+      if (deposit < needed) {
+        plan.shortfalls.push({ chainId, missing: needed - deposit });
+      }
+      if (deposit >= minMove(chainId)) {
+        plan.deposits.push(toChainAmount(chainId, tokenSymbol, deposit));
+      }
+    }
+    return plan;
+  }
+
+  // Largest surplus pays the largest deficit first, to keep bridges few
+  const bySize = (a: { remaining: bigint }, b: { remaining: bigint }) =>
+    a.remaining === b.remaining ? 0 : a.remaining > b.remaining ? -1 : 1;
+  const surpluses = allocations
+    .map(({ chainId, current, target }) => ({
+      chainId,
+      remaining: current - target,
+    }))
+    .filter(({ remaining }) => remaining > 0n)
+    .sort(bySize);
+  const deficits = allocations
+    .map(({ chainId, current, target }) => ({
+      chainId,
+      remaining: target - current,
+    }))
+    .filter(({ remaining }) => remaining > 0n)
+    .sort(bySize);
+
+  const withdrawn: Partial<Record<SupportedChainId, bigint>> = {};
+  let i = 0;
+  let j = 0;
+  while (i < surpluses.length && j < deficits.length) {
+    const source = surpluses[i];
+    const destination = deficits[j];
+    const move =
+      source.remaining < destination.remaining
+        ? source.remaining
+        : destination.remaining;
+    if (move >= minMove(source.chainId)) {
+      plan.bridges.push({
+        sourceChainId: source.chainId,
+        destinationChainId: destination.chainId,
+        amount: formatUnits(move, getToken(source.chainId, "USDC")!.decimals),
+      });
+      withdrawn[source.chainId] = (withdrawn[source.chainId] ?? 0n) + move;
+    }
+    source.remaining -= move;
+    destination.remaining -= move;
+    if (source.remaining < minMove(source.chainId)) i++;
+    if (destination.remaining < minMove(destination.chainId)) j++;
+  }
+
+  plan.withdrawals = chainIds
+    .filter((chainId) => withdrawn[chainId])
+    .map((chainId) => toChainAmount(chainId, tokenSymbol, withdrawn[chainId]!));
+  return plan;
+}
+
+export function isEmptyRebalancePlan(plan: RebalancePlan): boolean {
+  return (
+    plan.withdrawals.length === 0 &&
+    plan.bridges.length === 0 &&
+    plan.deposits.length === 0
+  );
+}
@@ -1,3 +1,5 @@
+import { SUPPORTED_CHAINS, getChainIconUrl } from "@/constant/chains";
+
 // Token logos - using local assets for brevity
 export const TOKEN_LOGOS: Record<string, string> = {
   USDC: "/tokens/usdc-logo.svg",
@@ -6,10 +8,9 @@ export const TOKEN_LOGOS: Record<string, string> = {
 };
 
 // Chain logos for background display
-export const CHAIN_LOGOS: Record<number, string> = {
-  11155111: "/tokens/eth-logo.svg",
-  1328: "/tokens/sei-logo.svg",
-};
+export const CHAIN_LOGOS: Record<number, string> = Object.fromEntries(
+  SUPPORTED_CHAINS.map((chainId) => [chainId, getChainIconUrl(chainId)])
+);
 
 export function getTokenLogo(symbol: string, logoURI?: string): string {
   return logoURI || TOKEN_LOGOS[symbol.toUpperCase()] || "";
@@ -0,0 +1,197 @@
+import type { Address, Hash, PublicClient } from "viem";
+import { formatUnits, parseUnits } from "viem";
+import { getPublicClient } from "@wagmi/core";
+import { wagmiConfig } from "@/wagmi";
+import {
+  getChainName,
+  getSupportedChainMeta,
+  isSupportedChainId,
+  txUrl,
+} from "@/constant/chains";
+import { getTokenByAddress } from "@/constant/tokens";
+import { createComponentLogger } from "@/lib/logger";
+import type { Transaction } from "@/stores/transactionStore";
+
+const logger = createComponentLogger("TransactionExport");
+
+export type ExportFormat = "csv" | "json";
+
+// Inclusive, in milliseconds like Transaction.timestamp
+export interface ExportDateRange {
+  from: number;
+  to: number;
+}
+
+export interface TransactionExportRow {
+  date: string;
+  chain: string;
+  chainId: number;
+  hash: string;
+  explorerUrl: string;
+  type: Transaction["type"];
+  status: Transaction["status"];
+  token: string;
+  amount: string;
+  gasCost: string;
+  gasToken: string;
+  blockNumber: string;
+}
+
+const CSV_COLUMNS: (keyof TransactionExportRow)[] = [
+  "date",
+  "chain",
+  "chainId",
+  "hash",
+  "explorerUrl",
+  "type",
+  "status",
+  "token",
+  "amount",
+  "gasCost",
+  "gasToken",
+  "blockNumber",
+];
+
+/**
+ * Amounts are plain decimal strings with every significant digit, e.g.
+ * "1234.5"; spreadsheets and accounting tools parse them as numbers, unlike
+ * the grouped display format
+ */
+function formatTokenAmount(tx: Transaction): string {
+  if (!tx.amount) return "";
+  const token =
+    tx.tokenAddress && isSupportedChainId(tx.chainId)
+      ? getTokenByAddress(tx.chainId, tx.tokenAddress as Address)
+      : undefined;
+  const decimals = token?.decimals ?? 6;
+  return formatUnits(parseUnits(tx.amount, decimals), decimals);
+}
+
+function formatGasCost(tx: Transaction): string {
+  if (!tx.gasUsed || !tx.gasPrice || !isSupportedChainId(tx.chainId)) {
+    return "";
+  }
+  const { decimals } = getSupportedChainMeta(tx.chainId).nativeCurrency;
+  return formatUnits(BigInt(tx.gasUsed) * BigInt(tx.gasPrice), decimals);
+}
+
+/**
+ * Vault events read from logs carry no gas data; look it up from the receipt.
+ * A failed lookup leaves the gas columns empty rather than failing the export.
+ */
+async function withGasDetails(tx: Transaction): Promise<Transaction> {
+  if ((tx.gasUsed && tx.gasPrice) || tx.status !== "confirmed") return tx;
+
+  const client: PublicClient | undefined = getPublicClient(wagmiConfig, {
+    chainId: tx.chainId,
+  });
+  if (!client) return tx;
+
+  try {
+    const receipt = await client.getTransactionReceipt({
+      hash: tx.hash as Hash,
+    });
+    return {
+      ...tx,
+      gasUsed: receipt.gasUsed.toString(),
+      gasPrice: receipt.effectiveGasPrice.toString(),
+      blockNumber: tx.blockNumber ?? Number(receipt.blockNumber),
+    };
+  } catch (error) {
+    logger.warn(`Receipt lookup failed for ${tx.hash}`, error);
+    return tx;
+  }
+}
+
+/**
+ * Export rows for every transaction in the range, oldest first. Gas is paid
+ * once per tx, so when a tx emitted several events only its first row
+ * carries the gas cost.
+ */
+export async function buildExportRows(
+  transactions: Transaction[],
+  { from, to }: ExportDateRange
+): Promise<TransactionExportRow[]> {
+  const inRange = transactions
+    .filter((tx) => tx.timestamp >= from && tx.timestamp <= to)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const receipts = new Map<string, Promise<Transaction>>();
+  const detailed = await Promise.all(
+    inRange.map((tx) => {
+      const key = `${tx.hash}:${tx.chainId}`;
+      if (!receipts.has(key)) receipts.set(key, withGasDetails(tx));
+      return receipts.get(key)!.then(({ gasUsed, gasPrice, blockNumber }) => ({
+        ...tx,
+        gasUsed,
+        gasPrice,
+        blockNumber,
+      }));
+    })
+  );
+
+  const gasCounted = new Set<string>();
+  return detailed.map((tx) => {
+    const key = `${tx.hash}:${tx.chainId}`;
+    const countGas = !gasCounted.has(key);
+    gasCounted.add(key);
+
+    const chainId = isSupportedChainId(tx.chainId) ? tx.chainId : undefined;
+    return {
+      date: new Date(tx.timestamp).toISOString(),
+      chain: chainId ? getChainName(chainId) : `Chain ${tx.chainId}`,
+      chainId: tx.chainId,
+      hash: tx.hash,
+      explorerUrl: (chainId && txUrl(chainId, tx.hash)) || "",
+      type: tx.type,
+      status: tx.status,
+      token: tx.tokenSymbol ?? "",
+      amount: formatTokenAmount(tx),
+      gasCost: countGas ? formatGasCost(tx) : "",
+      gasToken: chainId
+        ? getSupportedChainMeta(chainId).nativeCurrency.symbol
+        : "",
+      blockNumber: tx.blockNumber?.toString() ?? "",
+    };
+  });
+}
+
+function escapeCsvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: TransactionExportRow[]): string {
+  const lines = [
+    CSV_COLUMNS.join(","),
+    ...rows.map((row) =>
+      CSV_COLUMNS.map((column) => escapeCsvField(row[column])).join(",")
+    ),
+  ];
+  return lines.join("\r\n");
+}
+
+export function toJson(rows: TransactionExportRow[]): string {
+  return JSON.stringify(rows, null, 2);
+}
+
+/**
+ * Hand the export to the browser as a file download
+ */
+export function downloadExport(
+  rows: TransactionExportRow[],
+  format: ExportFormat,
+  { from, to }: ExportDateRange
+): void {
+  const content = format === "csv" ? toCsv(rows) : toJson(rows);
+  const type = format === "csv" ? "text/csv" : "application/json";
+  const day = (timestamp: number) =>
+    new Date(timestamp).toISOString().slice(0, 10);
+
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `argenta-history-${day(from)}-to-${day(to)}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,80 @@
+import type { Hash, PublicClient } from "viem";
+import {
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+} from "viem";
+import { getPublicClient } from "@wagmi/core";
+import { wagmiConfig } from "@/wagmi";
+import type { Transaction } from "@/stores/transactionStore";
+import type { VaultTransaction } from "@/lib/vault-history";
+
+// A pending tx the node no longer knows about is only treated as dropped
+// after this long, so a slow RPC doesn't flag a freshly broadcast one
+export const PENDING_DROP_TIMEOUT_MS = 30 * 60 * 1000;
+
+export function getTransactionKey(hash: string, chainId: number): string {
+  return `${hash.toLowerCase()}:${chainId}`;
+}
+
+/**
+ * One newest-first list of on-chain vault events and locally recorded
+ * transactions. On-chain events win for any `hash:chainId` they cover; the
+ * remaining local entries (pending, failed, cancelled or dropped attempts,
+ * and confirmed ones whose blocks haven't been scanned yet) are kept as-is.
+ */
+export function mergeTransactionHistory(
+  local: Transaction[],
+  onChain: VaultTransaction[]
+): Transaction[] {
+  const onChainKeys = new Set(
+    onChain.map((tx) => getTransactionKey(tx.hash, tx.chainId))
+  );
+
+  const confirmed: Transaction[] = onChain.map((tx) => ({
+    ...tx,
+    status: "confirmed",
+  }));
+  const localOnly = local.filter(
+    (tx) => !onChainKeys.has(getTransactionKey(tx.hash, tx.chainId))
+  );
+
+  return [...confirmed, ...localOnly].sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Check a pending transaction against its chain. Returns the fields to
+ * update, or null while it is still pending.
+ */
+export async function reconcilePendingTransaction(
+  tx: Transaction,
+  now: number = Date.now()
+): Promise<Partial<Transaction> | null> {
+  const client: PublicClient | undefined = getPublicClient(wagmiConfig, {
+    chainId: tx.chainId,
+  });
+  if (!client) return null;
+
+  const hash = tx.hash as Hash;
+  try {
+    const receipt = await client.getTransactionReceipt({ hash });
+    return {
+      status: receipt.status === "success" ? "confirmed" : "failed",
+      blockNumber: Number(receipt.blockNumber),
+      gasUsed: receipt.gasUsed.toString(),
+      gasPrice: receipt.effectiveGasPrice.toString(),
+    };
+  } catch (error) {
+    if (!(error instanceof TransactionReceiptNotFoundError)) throw error;
+  }
+
+  if (now - tx.timestamp < PENDING_DROP_TIMEOUT_MS) return null;
+
+  try {
+    // Still in the mempool
+    await client.getTransaction({ hash });
+    return null;
+  } catch (error) {
+    if (!(error instanceof TransactionNotFoundError)) throw error;
+    return { status: "dropped" };
+  }
+}
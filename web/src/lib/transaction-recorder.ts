@@ -0,0 +1,87 @@
+import type { Address } from "viem";
+import { formatUnits } from "viem";
+import { getVaultAddress } from "@/constant/contracts";
+import { getTokenByAddress } from "@/constant/tokens";
+import type { BatchDepositService } from "@/lib/batch-deposit-service";
+import type { BatchDepositEvents } from "@/types/batch-operations";
+import { useTransactionStore } from "@/stores/transactionStore";
+
+/**
+ * Record every approval and deposit a batch deposit service sends in the
+ * persisted transaction store. Returns a function that stops recording.
+ *
+ * A chain that fails while its tx is still unconfirmed (e.g. a receipt
+ * timeout) keeps the entry pending with the error attached; receipt checks
+ * in the history view settle it later.
+ */
+export function recordBatchDepositTransactions(
+  service: Pick<BatchDepositService, "on" | "off">,
+  account: Address
+): () => void {
+  // Txs of this session still waiting for a receipt, per chain
+  const unconfirmed = new Map<number, Set<string>>();
+
+  const handleSubmitted = ({
+    chainId,
+    txHash,
+    type,
+    tokenAddress,
+    amount,
+  }: BatchDepositEvents["transactionSubmitted"]) => {
+    const token = getTokenByAddress(chainId, tokenAddress);
+    useTransactionStore.getState().addTransaction({
+      hash: txHash,
+      type,
+      status: "pending",
+      amount: formatUnits(amount, token?.decimals ?? 18),
+      tokenSymbol: token?.symbol,
+      tokenAddress,
+      chainId,
+      timestamp: Date.now(),
+      from: account,
+      to: type === "approval" ? tokenAddress : getVaultAddress(chainId),
+    });
+
+    const pending = unconfirmed.get(chainId) ?? new Set<string>();
+    pending.add(txHash);
+    unconfirmed.set(chainId, pending);
+  };
+
+  const handleConfirmed = ({
+    chainId,
+    txHash,
+    status,
+    blockNumber,
+    gasUsed,
+    effectiveGasPrice,
+  }: BatchDepositEvents["transactionConfirmed"]) => {
+    useTransactionStore.getState().updateTransaction(txHash, chainId, {
+      status: status === "success" ? "confirmed" : "failed",
+      blockNumber: Number(blockNumber),
+      gasUsed: gasUsed.toString(),
+      gasPrice: effectiveGasPrice?.toString(),
+    });
+    unconfirmed.get(chainId)?.delete(txHash);
+  };
+
+  const handleChainFailed = ({
+    chainId,
+    error,
+  }: BatchDepositEvents["chainFailed"]) => {
+    const { updateTransaction } = useTransactionStore.getState();
+    for (const txHash of unconfirmed.get(chainId) ?? []) {
+      updateTransaction(txHash, chainId, { error: error.message });
+    }
+    unconfirmed.delete(chainId);
+  };
+
+  service.on("transactionSubmitted", handleSubmitted);
+  service.on("transactionConfirmed", handleConfirmed);
+  service.on("chainFailed", handleChainFailed);
+
+  return () => {
+    service.off("transactionSubmitted", handleSubmitted);
+    service.off("transactionConfirmed", handleConfirmed);
+    service.off("chainFailed", handleChainFailed);
+  };
+}
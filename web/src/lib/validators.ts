@@ -248,12 +248,13 @@ export function validateSufficientBalance(
  */
 export function validateGasBalance(
   ethBalance: bigint,
-  warningThreshold: bigint
+  warningThreshold: bigint,
+  nativeSymbol = "ETH"
 ): ValidationResult {
   if (ethBalance < warningThreshold) {
     return {
       isValid: false,
-      error: "Low ETH balance for gas fees",
+      error: `Low ${nativeSymbol} balance for gas fees`,
     };
   }
   return { isValid: true };
@@ -382,8 +383,12 @@ export const CommonValidations = {
   /**
    * Gas balance validation
    */
-  gasBalance: (ethBalance: bigint, threshold: bigint): ValidationResult => {
-    return validateGasBalance(ethBalance, threshold);
+  gasBalance: (
+    ethBalance: bigint,
+    threshold: bigint,
+    nativeSymbol?: string
+  ): ValidationResult => {
+    return validateGasBalance(ethBalance, threshold, nativeSymbol);
   },
 
   /**
@@ -0,0 +1,340 @@
+import type { Address, PublicClient } from "viem";
+import { erc20Abi, formatUnits, getAbiItem } from "viem";
+import { getPublicClient } from "@wagmi/core";
+import { wagmiConfig } from "@/wagmi";
+import { SupportedChainId, getChainRegistryEntry } from "@/constant/chains";
+import { getVaultAddress, getVaultDeploymentBlock } from "@/constant/contracts";
+import { getChainTokens, getTokenByAddress } from "@/constant/tokens";
+import { simpleVaultAbi } from "@/generated/wagmi";
+import { createComponentLogger } from "@/lib/logger";
+
+const logger = createComponentLogger("VaultHistory");
+
+// getLogs span for chains whose registry entry doesn't cap it
+const DEFAULT_LOG_BLOCK_RANGE = 2000;
+// Bound the RPC fan-out of a single page (initial load or "load more")
+const MAX_CHUNKS_PER_PAGE = 10;
+
+const depositedEvent = getAbiItem({ abi: simpleVaultAbi, name: "Deposited" });
+const withdrawnEvent = getAbiItem({ abi: simpleVaultAbi, name: "Withdrawn" });
+const approvalEvent = getAbiItem({ abi: erc20Abi, name: "Approval" });
+
+export interface VaultTransaction {
+  // `${chainId}:${hash}:${logIndex}`, one tx can emit several vault events
+  id: string;
+  hash: string;
+  logIndex: number;
+  type: "deposit" | "withdrawal" | "approval";
+  amount: string;
+  tokenSymbol: string;
+  tokenAddress: string;
+  chainId: number;
+  timestamp: number;
+  blockNumber: number;
+  from: string;
+  to: string;
+}
+
+// Inclusive [fromBlock, toBlock]
+export type BlockRange = [number, number];
+
+/**
+ * Scan state of one account on one chain. Block numbers are plain numbers so
+ * the cache can be persisted as JSON.
+ */
+export interface ChainHistoryCache {
+  // Scanned ranges, sorted newest first and never overlapping
+  ranges: BlockRange[];
+  latestBlock: number;
+  // Everything from here up to latestBlock has been scanned without gaps
+  coveredFromBlock: number;
+  coveredFromTimestamp: number;
+  hasMore: boolean;
+  transactions: VaultTransaction[];
+}
+
+export interface LoadHistoryPageOptions {
+  pageSize: number;
+  // Stop once the gap above the previously cached head is filled
+  newBlocksOnly?: boolean;
+}
+
+/**
+ * Insert a scanned range, merging it with overlapping or adjacent ones
+ */
+export function mergeRange(
+  ranges: BlockRange[],
+  range: BlockRange
+): BlockRange[] {
+  const sorted = [...ranges, range].sort((a, b) => b[1] - a[1]);
+  const merged: BlockRange[] = [];
+  for (const [from, to] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && to >= last[0] - 1) {
+      last[0] = Math.min(last[0], from);
+    } else {
+      merged.push([from, to]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Highest block range between the deployment block and `latestBlock` that
+ * hasn't been scanned yet, or null once history is complete
+ */
+export function findNextGap(
+  ranges: BlockRange[],
+  latestBlock: number,
+  deploymentBlock: number
+): BlockRange | null {
+  let cursor = latestBlock;
+  let floor = deploymentBlock;
+  for (const [from, to] of ranges) {
+    if (to < cursor) {
+      floor = Math.max(floor, to + 1);
+      break;
+    }
+    cursor = Math.min(cursor, from - 1);
+  }
+  return cursor >= floor ? [floor, cursor] : null;
+}
+
+// How far back a chain with older pages left has been scanned
+export interface ChainScanBoundary {
+  chainId: SupportedChainId;
+  coveredFromTimestamp: number;
+}
+
+/**
+ * Merge per-chain histories into one newest-first list. A chain that still
+ * has older pages doesn't hide other chains' older entries; it is reported
+ * in `scanning` instead, so the list can mark where its entries stop.
+ */
+export function mergeChainHistories(
+  histories: Partial<Record<SupportedChainId, ChainHistoryCache>>
+): {
+  transactions: VaultTransaction[];
+  hasMore: boolean;
+  scanning: ChainScanBoundary[];
+} {
+  const entries = (
+    Object.entries(histories) as [string, ChainHistoryCache | undefined][]
+  ).flatMap(([chainId, cache]) =>
+    cache ? [{ chainId: Number(chainId) as SupportedChainId, cache }] : []
+  );
+
+  const transactions = entries
+    .flatMap(({ cache }) =>
+      cache.transactions.filter(
+        (tx) => tx.blockNumber >= cache.coveredFromBlock
+      )
+    )
+    .sort(
+      (a, b) =>
+        b.timestamp - a.timestamp ||
+        b.blockNumber - a.blockNumber ||
+        b.logIndex - a.logIndex
+    );
+
+  const scanning = entries
+    .filter(({ cache }) => cache.hasMore)
+    .map(({ chainId, cache }) => ({
+      chainId,
+      coveredFromTimestamp: cache.coveredFromTimestamp,
+    }));
+
+  return { transactions, hasMore: scanning.length > 0, scanning };
+}
+
+async function getBlockTimestamp(
+  client: PublicClient,
+  blockNumber: number
+): Promise<number> {
+  const block = await client.getBlock({ blockNumber: BigInt(blockNumber) });
+  return Number(block.timestamp) * 1000;
+}
+
+/**
+ * Timestamps for a set of blocks, one getBlock per distinct block
+ */
+async function getBlockTimestamps(
+  client: PublicClient,
+  blockNumbers: number[]
+): Promise<Map<number, number>> {
+  const timestamps = new Map<number, number>();
+  await Promise.all(
+    [...new Set(blockNumbers)].map(async (blockNumber) => {
+      timestamps.set(blockNumber, await getBlockTimestamp(client, blockNumber));
+    })
+  );
+  return timestamps;
+}
+
+/**
+ * Vault activity of `account` in one block range: the vault's own
+ * Deposited/Withdrawn events, plus token approvals to the vault for context
+ */
+async function fetchVaultTransactions(
+  client: PublicClient,
+  chainId: SupportedChainId,
+  account: Address,
+  fromBlock: number,
+  toBlock: number
+): Promise<VaultTransaction[]> {
+  const vaultAddress = getVaultAddress(chainId);
+  const tokenAddresses = getChainTokens(chainId).map((token) => token.address);
+  const range = { fromBlock: BigInt(fromBlock), toBlock: BigInt(toBlock) };
+
+  const [depositLogs, withdrawalLogs, approvalLogs] = await Promise.all([
+    client.getLogs({
+      address: vaultAddress,
+      event: depositedEvent,
+      args: { user: account },
+      ...range,
+    }),
+    client.getLogs({
+      address: vaultAddress,
+      event: withdrawnEvent,
+      args: { user: account },
+      ...range,
+    }),
+    client.getLogs({
+      address: tokenAddresses,
+      event: approvalEvent,
+      args: { owner: account, spender: vaultAddress },
+      ...range,
+    }),
+  ]);
+
+  const entries = [
+    ...depositLogs.map((log) => ({
+      log,
+      type: "deposit" as const,
+      token: log.args.token,
+      amount: log.args.amount,
+      from: account,
+      to: vaultAddress,
+    })),
+    ...withdrawalLogs.map((log) => ({
+      log,
+      type: "withdrawal" as const,
+      token: log.args.token,
+      amount: log.args.amount,
+      from: vaultAddress,
+      to: account,
+    })),
+    ...approvalLogs.map((log) => ({
+      log,
+      type: "approval" as const,
+      token: log.address,
+      amount: log.args.value,
+      from: account,
+      to: vaultAddress,
+    })),
+  ];
+
+  // A failed lookup throws so the chunk is rescanned instead of cached with
+  // made-up timestamps
+  const timestamps = await getBlockTimestamps(
+    client,
+    entries.map(({ log }) => Number(log.blockNumber))
+  );
+
+  return entries.map(({ log, type, token, amount, from, to }) => {
+    const tokenInfo = token ? getTokenByAddress(chainId, token) : undefined;
+    return {
+      id: `${chainId}:${log.transactionHash}:${log.logIndex}`,
+      hash: log.transactionHash,
+      logIndex: log.logIndex,
+      type,
+      amount: formatUnits(amount ?? 0n, tokenInfo?.decimals ?? 18),
+      tokenSymbol: tokenInfo?.symbol ?? "UNKNOWN",
+      tokenAddress: token ?? "",
+      chainId,
+      timestamp: timestamps.get(Number(log.blockNumber))!,
+      blockNumber: Number(log.blockNumber),
+      from,
+      to,
+    };
+  });
+}
+
+/**
+ * Scan the next page of one chain's history, newest unscanned blocks first,
+ * and return the updated cache. Fills the gap above the cached head before
+ * paging backwards towards the vault deployment block.
+ */
+export async function loadHistoryPage(
+  chainId: SupportedChainId,
+  account: Address,
+  cache: ChainHistoryCache | undefined,
+  { pageSize, newBlocksOnly = false }: LoadHistoryPageOptions
+): Promise<ChainHistoryCache> {
+  const client: PublicClient | undefined = getPublicClient(wagmiConfig, {
+    chainId,
+  });
+  if (!client) {
+    throw new Error(`No public client for chain ${chainId}`);
+  }
+
+  const deploymentBlock = getVaultDeploymentBlock(chainId);
+  const chunkSize =
+    getChainRegistryEntry(chainId).maxLogBlockRange ?? DEFAULT_LOG_BLOCK_RANGE;
+  const latestBlock = Number(await client.getBlockNumber());
+
+  let ranges = cache?.ranges ?? [];
+  const found: VaultTransaction[] = [];
+
+  for (let i = 0; i < MAX_CHUNKS_PER_PAGE && found.length < pageSize; i++) {
+    const gap = findNextGap(ranges, latestBlock, deploymentBlock);
+    if (!gap) break;
+    if (newBlocksOnly && cache && gap[1] <= cache.latestBlock) break;
+
+    const toBlock = gap[1];
+    const fromBlock = Math.max(gap[0], toBlock - chunkSize + 1);
+    try {
+      found.push(
+        ...(await fetchVaultTransactions(
+          client,
+          chainId,
+          account,
+          fromBlock,
+          toBlock
+        ))
+      );
+    } catch (error) {
+      // Keep what this page already scanned; the range is retried next time
+      if (i === 0) throw error;
+      logger.warn(
+        `Log scan failed for chain ${chainId} blocks ${fromBlock}-${toBlock}`,
+        error
+      );
+      break;
+    }
+    ranges = mergeRange(ranges, [fromBlock, toBlock]);
+  }
+
+  const gap = findNextGap(ranges, latestBlock, deploymentBlock);
+  const coveredFromBlock = gap ? gap[1] + 1 : deploymentBlock;
+  const coveredFromTimestamp =
+    cache?.coveredFromBlock === coveredFromBlock
+      ? cache.coveredFromTimestamp
+      : await getBlockTimestamp(client, coveredFromBlock).catch(() => 0);
+
+  const byId = new Map(
+    (cache?.transactions ?? []).map((tx) => [tx.id, tx] as const)
+  );
+  for (const tx of found) byId.set(tx.id, tx);
+
+  return {
+    ranges,
+    latestBlock,
+    coveredFromBlock,
+    coveredFromTimestamp,
+    hasMore: gap !== null,
+    transactions: [...byId.values()].sort(
+      (a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex
+    ),
+  };
+}
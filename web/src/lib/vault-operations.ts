@@ -2,18 +2,20 @@ import {
   parseUnits,
   UserRejectedRequestError,
   TransactionRejectedRpcError,
+  ContractFunctionRevertedError,
   type Address,
   type Hash,
 } from "viem";
 import { SupportedChainId } from "@/constant/chains";
 import { getUsdcAddress, getVaultAddress } from "@/constant/contracts";
-import { getToken } from "@/constant/tokens";
+import { getToken, getTokenByAddress, type TokenInfo } from "@/constant/tokens";
 import { createComponentLogger } from "@/lib/logger";
 import { CommonValidations, validateOrThrow } from "@/lib/validators";
 import { BATCH_MESSAGES } from "@/constant/batch-messages";
 import type {
   BatchOperationError,
   BatchErrorType,
+  BatchExecutionStep,
   ChainOperation,
 } from "@/types/batch-operations";
 
@@ -23,27 +25,87 @@ const logger = createComponentLogger("VaultOperations");
 // Error Handling Utilities
 // ============================================================================
 
+/**
+ * Find the first error in a `cause` chain (viem nests RPC errors several
+ * levels deep) that matches the predicate
+ */
+function findInErrorChain(
+  error: unknown,
+  predicate: (error: unknown) => boolean
+): unknown {
+  const seen = new Set<unknown>();
+  let current = error;
+  while (current && !seen.has(current)) {
+    if (predicate(current)) return current;
+    seen.add(current);
+    current = (current as { cause?: unknown }).cause;
+  }
+  return undefined;
+}
+
 /**
  * Check if an error is a user rejection
  */
 export function isUserRejection(error: any): boolean {
-  return (
-    error instanceof UserRejectedRequestError ||
-    error instanceof TransactionRejectedRpcError ||
-    error?.code === 4001 || // MetaMask user rejection
-    error?.message?.toLowerCase().includes("user rejected") ||
-    error?.message?.toLowerCase().includes("user denied")
+  return Boolean(
+    findInErrorChain(
+      error,
+      (e) =>
+        e instanceof UserRejectedRequestError ||
+        e instanceof TransactionRejectedRpcError ||
+        (e as { code?: number }).code === 4001 || // MetaMask user rejection
+        /user (rejected|denied)/i.test((e as Error).message ?? "")
+    )
   );
 }
 
+export type VaultCustomError = "InvalidAmount" | "InsufficientBalance";
+
+/**
+ * Decode a SimpleVault custom error from a simulation or receipt revert
+ */
+export function decodeVaultError(error: any): VaultCustomError | undefined {
+  const revert = findInErrorChain(
+    error,
+    (e) => e instanceof ContractFunctionRevertedError
+  ) as ContractFunctionRevertedError | undefined;
+  const errorName = revert?.data?.errorName;
+  return errorName === "InvalidAmount" || errorName === "InsufficientBalance"
+    ? errorName
+    : undefined;
+}
+
+/**
+ * Thrown by the batch services once a chain failure has been classified, so
+ * callers up the stack keep the step it failed at
+ */
+export class BatchChainError extends Error {
+  constructor(readonly batchError: BatchOperationError) {
+    super(batchError.message, { cause: batchError.originalError });
+    this.name = "BatchChainError";
+  }
+}
+
 /**
  * Categorize error by type for better handling
  */
 export function categorizeError(error: any): BatchErrorType {
+  if (error instanceof BatchChainError) {
+    return error.batchError.type;
+  }
+
   if (isUserRejection(error)) {
     return "user_rejection";
   }
 
+  const vaultError = decodeVaultError(error);
+  if (vaultError === "InsufficientBalance") {
+    return "insufficient_funds";
+  }
+  if (vaultError === "InvalidAmount") {
+    return "validation";
+  }
+
   if (error?.message?.toLowerCase().includes("insufficient")) {
     return "insufficient_funds";
   }
@@ -74,9 +136,14 @@ export function categorizeError(error: any): BatchErrorType {
 export function createBatchError(
   error: any,
   chainId: SupportedChainId,
-  step?: string
+  step?: BatchExecutionStep
 ): BatchOperationError {
+  if (error instanceof BatchChainError) {
+    return error.batchError;
+  }
+
   const errorType = categorizeError(error);
+  const vaultError = decodeVaultError(error);
 
   let message: string;
   let isRetryable: boolean;
@@ -84,15 +151,36 @@ export function createBatchError(
 
   switch (errorType) {
     case "user_rejection":
-      message = BATCH_MESSAGES.ERRORS.TRANSACTION_CANCELLED_BY_USER;
+      // The services wrap rejections in a step-specific message
+      // (e.g. USER_CANCELLED_DEPOSIT) with the wallet error as cause
+      message = error?.cause
+        ? error.message
+        : BATCH_MESSAGES.ERRORS.TRANSACTION_CANCELLED_BY_USER;
       isRetryable = true;
       suggestedAction = "Try again or skip this chain";
       break;
 
     case "insufficient_funds":
-      message = BATCH_MESSAGES.ERRORS.INSUFFICIENT_FUNDS;
+      message =
+        vaultError === "InsufficientBalance"
+          ? BATCH_MESSAGES.ERRORS.VAULT_INSUFFICIENT_BALANCE
+          : BATCH_MESSAGES.ERRORS.INSUFFICIENT_FUNDS;
       isRetryable = false;
-      suggestedAction = "Reduce the amount or add more funds";
+      suggestedAction =
+        vaultError === "InsufficientBalance"
+          ? "Withdraw at most your vault balance on this chain"
+          : "Reduce the amount or add more funds";
+      break;
+
+    case "validation":
+      message =
+        vaultError === "InvalidAmount"
+          ? BATCH_MESSAGES.ERRORS.VAULT_INVALID_AMOUNT
+          : error?.shortMessage ||
+            error?.message ||
+            BATCH_MESSAGES.ERRORS.UNEXPECTED_ERROR_OCCURRED;
+      isRetryable = false;
+      suggestedAction = "Enter an amount greater than zero";
       break;
 
     case "network":
@@ -122,11 +210,11 @@ export function createBatchError(
 
   return {
     type: errorType,
-    code: error?.code?.toString(),
+    code: vaultError ?? error?.code?.toString(),
     message,
     originalError: error,
     chainId,
-    step: step as any,
+    step,
     isRetryable,
     suggestedAction,
   };
@@ -137,47 +225,69 @@ export function createBatchError(
 // ============================================================================
 
 /**
- * Parse amount string to bigint
+ * Resolve a registered token on a chain, defaulting to USDC
+ */
+export function resolveToken(
+  chainId: SupportedChainId,
+  tokenAddress?: Address
+): TokenInfo {
+  const token = tokenAddress
+    ? getTokenByAddress(chainId, tokenAddress)
+    : getToken(chainId, "USDC");
+  if (!token) {
+    throw new Error(
+      `Token ${tokenAddress ?? "USDC"} not found for chain ${chainId}`
+    );
+  }
+  return token;
+}
+
+/**
+ * Parse amount string to bigint using the token's decimals
  */
 export function parseAmountToBigInt(
   amount: string,
-  chainId: SupportedChainId
+  chainId: SupportedChainId,
+  tokenAddress?: Address
 ): bigint {
-  const usdcToken = getToken(chainId, "USDC");
-  if (!usdcToken) {
-    throw new Error(`USDC token not found for chain ${chainId}`);
-  }
+  const token = resolveToken(chainId, tokenAddress);
 
   validateOrThrow(
-    CommonValidations.tokenAmountWithMin(amount, usdcToken.decimals, "USDC"),
+    CommonValidations.tokenAmountWithMin(amount, token.decimals, token.symbol),
     "Amount validation failed"
   );
 
-  return parseUnits(amount.trim(), usdcToken.decimals);
+  return parseUnits(amount.trim(), token.decimals);
 }
 
 /**
  * Validate that all necessary addresses are available for a chain operation
  */
-export function validateChainOperation(chainId: SupportedChainId): {
-  usdcAddress: Address;
+export function validateChainOperation(
+  chainId: SupportedChainId,
+  tokenAddress: Address = getUsdcAddress(chainId)
+): {
+  tokenAddress: Address;
   vaultAddress: Address;
 } {
   try {
-    const usdcAddress = getUsdcAddress(chainId);
     const vaultAddress = getVaultAddress(chainId);
 
     validateOrThrow(
-      CommonValidations.address(usdcAddress),
-      `Invalid USDC address for chain ${chainId}`
+      CommonValidations.address(tokenAddress),
+      `Invalid token address for chain ${chainId}`
     );
 
+    if (!getTokenByAddress(chainId, tokenAddress)) {
+      throw new Error(`Token ${tokenAddress} is not registered`);
+    }
+
     validateOrThrow(
       CommonValidations.address(vaultAddress),
       `Invalid vault address for chain ${chainId}`
     );
 
-    return { usdcAddress, vaultAddress };
+    return { tokenAddress, vaultAddress };
   } catch (error) {
     const reason = error instanceof Error ? error.message : undefined;
     throw new Error(
@@ -367,17 +477,21 @@ export function prepareDepositTransaction(params: DepositParams) {
  */
 export function prepareChainOperation(
   chainId: SupportedChainId,
-  amount: string
+  amount: string,
+  tokenAddress?: Address
 ): ChainOperation {
-  const amountWei = parseAmountToBigInt(amount, chainId);
+  const amountWei = parseAmountToBigInt(amount, chainId, tokenAddress);
 
-  const { usdcAddress, vaultAddress } = validateChainOperation(chainId);
+  const { tokenAddress: validatedToken, vaultAddress } = validateChainOperation(
+    chainId,
+    tokenAddress
+  );
 
   return {
     chainId,
     needsApproval: true,
     amount: amountWei,
-    tokenAddress: usdcAddress,
+    tokenAddress: validatedToken,
     vaultAddress: vaultAddress,
   };
 }
@@ -406,6 +520,13 @@ export function addGasBuffer(
   return (gasLimit * BigInt(Math.floor(multiplier * 100))) / BigInt(100);
 }
 
+/**
+ * Worst-case native cost of a gas estimate, in wei
+ */
+export function getGasCost(estimate: GasEstimate): bigint {
+  return estimate.gasLimit * (estimate.maxFeePerGas ?? estimate.gasPrice ?? 0n);
+}
+
 // ============================================================================
 // Transaction Monitoring Utilities
 // ============================================================================
@@ -497,7 +618,8 @@ export function formatAmount(amount: bigint, decimals: number = 6): string {
  */
 export function validateChainAmount(
   chainId: SupportedChainId,
-  amount: string
+  amount: string,
+  tokenAddress?: Address
 ): {
   isValid: boolean;
   error?: string;
@@ -505,21 +627,23 @@ export function validateChainAmount(
   errorType?: BatchErrorType;
 } {
   try {
-    validateChainOperation(chainId);
+    validateChainOperation(chainId, tokenAddress);
 
-    const usdcToken = getToken(chainId, "USDC");
-    if (!usdcToken) {
+    const token = tokenAddress
+      ? getTokenByAddress(chainId, tokenAddress)
+      : getToken(chainId, "USDC");
+    if (!token) {
       return {
         isValid: false,
-        error: `USDC token not found for chain ${chainId}`,
+        error: `Token ${tokenAddress ?? "USDC"} not found for chain ${chainId}`,
         errorType: "VALIDATION_ERROR" as BatchErrorType,
       };
     }
 
     const amountValidation = CommonValidations.tokenAmountWithMin(
       amount,
-      usdcToken.decimals,
-      "USDC"
+      token.decimals,
+      token.symbol
     );
 
     if (!amountValidation.isValid) {
@@ -529,7 +653,7 @@ export function validateChainAmount(
       };
     }
 
-    const amountWei = parseUnits(amount.trim(), usdcToken.decimals);
+    const amountWei = parseUnits(amount.trim(), token.decimals);
 
     const bigIntValidation = CommonValidations.bigIntAmount(amountWei);
     if (!bigIntValidation.isValid) {
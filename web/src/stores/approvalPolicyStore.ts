@@ -0,0 +1,43 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { SupportedChainId } from "@/constant/chains";
+import { DEFAULT_APPROVAL_POLICY } from "@/lib/approval-policy";
+import type { ApprovalPolicy } from "@/types/batch-operations";
+
+interface ApprovalPolicyState {
+  policies: Partial<Record<SupportedChainId, ApprovalPolicy>>;
+}
+
+interface ApprovalPolicyActions {
+  getPolicy: (chainId: SupportedChainId) => ApprovalPolicy;
+  setPolicy: (chainId: SupportedChainId, policy: ApprovalPolicy) => void;
+}
+
+type ApprovalPolicyStore = ApprovalPolicyState & ApprovalPolicyActions;
+
+/**
+ * Persisted approval policy per chain; chains without a choice approve the
+ * exact deposit amount
+ */
+export const useApprovalPolicyStore = create<ApprovalPolicyStore>()(
+  persist(
+    (set, get) => ({
+      policies: {},
+
+      getPolicy: (chainId: SupportedChainId): ApprovalPolicy =>
+        get().policies[chainId] ?? DEFAULT_APPROVAL_POLICY,
+
+      setPolicy: (chainId: SupportedChainId, policy: ApprovalPolicy): void => {
+        set((state: ApprovalPolicyState) => ({
+          policies: { ...state.policies, [chainId]: policy },
+        }));
+      },
+    }),
+    {
+      name: "argenta-approval-policy",
+      partialize: (state: ApprovalPolicyStore) => ({
+        policies: state.policies,
+      }),
+    }
+  )
+);
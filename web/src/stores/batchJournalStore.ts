@@ -0,0 +1,118 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { isAddressEqual, type Address } from "viem";
+import { logger } from "@/lib/logger";
+import { SupportedChainId } from "@/constant/chains";
+import { getUsdcAddress } from "@/constant/contracts";
+import type {
+  BatchJournal,
+  BatchJournalChainEntry,
+  ChainAmount,
+} from "@/types/batch-operations";
+
+interface BatchJournalState {
+  journal: BatchJournal | null;
+}
+
+interface BatchJournalActions {
+  startJournal: (account: Address, chainAmounts: ChainAmount[]) => void;
+  updateChain: (
+    chainId: SupportedChainId,
+    tokenAddress: Address,
+    patch: Partial<
+      Omit<BatchJournalChainEntry, "chainId" | "tokenAddress" | "amount">
+    >
+  ) => void;
+  clearJournal: () => void;
+}
+
+type BatchJournalStore = BatchJournalState & BatchJournalActions;
+
+/**
+ * Whether a journal still has chains that never reached a final state
+ */
+export function hasUnfinishedChains(journal: BatchJournal | null): boolean {
+  return Boolean(journal?.chains.some((chain) => !chain.status));
+}
+
+/**
+ * Whether a journal entry is the deposit of `tokenAddress` on `chainId`.
+ * Journals written before multi-token batches only deposited USDC
+ */
+function isJournalEntry(
+  entry: BatchJournalChainEntry,
+  chainId: SupportedChainId,
+  tokenAddress: Address
+): boolean {
+  return (
+    entry.chainId === chainId &&
+    isAddressEqual(entry.tokenAddress ?? getUsdcAddress(chainId), tokenAddress)
+  );
+}
+
+/**
+ * Persisted record of the batch deposit in flight, so a reload can pick up
+ * submitted transactions instead of losing them
+ */
+export const useBatchJournalStore = create<BatchJournalStore>()(
+  persist(
+    (set) => ({
+      journal: null,
+
+      startJournal: (account: Address, chainAmounts: ChainAmount[]): void => {
+        const startedAt = Date.now();
+        set({
+          journal: {
+            id: `${account}-${startedAt}`,
+            account,
+            startedAt,
+            // amountWei is a bigint and not serializable, keep the decimal string
+            chains: chainAmounts.map(({ chainId, tokenAddress, amount }) => ({
+              chainId,
+              tokenAddress,
+              amount,
+              step: "pending",
+            })),
+          },
+        });
+        logger.info("Batch journal started", {
+          chainCount: chainAmounts.length,
+        });
+      },
+
+      updateChain: (chainId, tokenAddress, patch): void => {
+        // The raw wallet/RPC error isn't serializable (bigints, cycles)
+        if (patch.error) {
+          patch = {
+            ...patch,
+            error: { ...patch.error, originalError: undefined },
+          };
+        }
+        set((state: BatchJournalState) => {
+          if (!state.journal) return state;
+          return {
+            journal: {
+              ...state.journal,
+              chains: state.journal.chains.map((chain) =>
+                isJournalEntry(chain, chainId, tokenAddress)
+                  ? { ...chain, ...patch }
+                  : chain
+              ),
+            },
+          };
+        });
+      },
+
+      clearJournal: (): void => {
+        set({ journal: null });
+        logger.info("Batch journal cleared");
+      },
+    }),
+    {
+      name: "argenta-batch-journal",
+      partialize: (state: BatchJournalStore) => ({
+        journal: state.journal,
+      }),
+    }
+  )
+);
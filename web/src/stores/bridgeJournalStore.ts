@@ -0,0 +1,73 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { Address } from "viem";
+import { logger } from "@/lib/logger";
+import type {
+  BridgeDepositJournal,
+  BridgeRequest,
+  BridgeResumePoint,
+} from "@/types/bridge-operations";
+
+interface BridgeJournalState {
+  journal: BridgeDepositJournal | null;
+}
+
+interface BridgeJournalActions {
+  startJournal: (account: Address, request: BridgeRequest) => void;
+  updateBridge: (patch: BridgeResumePoint) => void;
+  clearJournal: () => void;
+}
+
+type BridgeJournalStore = BridgeJournalState & BridgeJournalActions;
+
+/**
+ * Persisted record of the bridge and deposit in flight, so a burn awaiting
+ * its attestation survives a reload
+ */
+export const useBridgeJournalStore = create<BridgeJournalStore>()(
+  persist(
+    (set) => ({
+      journal: null,
+
+      startJournal: (account: Address, request: BridgeRequest): void => {
+        const startedAt = Date.now();
+        set({
+          journal: {
+            id: `${account}-${startedAt}`,
+            account,
+            request,
+            startedAt,
+            bridge: {},
+          },
+        });
+        logger.info("Bridge journal started", {
+          sourceChainId: request.sourceChainId,
+          destinationChainId: request.destinationChainId,
+        });
+      },
+
+      updateBridge: (patch): void => {
+        set((state: BridgeJournalState) => {
+          if (!state.journal) return state;
+          return {
+            journal: {
+              ...state.journal,
+              bridge: { ...state.journal.bridge, ...patch },
+            },
+          };
+        });
+      },
+
+      clearJournal: (): void => {
+        set({ journal: null });
+        logger.info("Bridge journal cleared");
+      },
+    }),
+    {
+      name: "argenta-bridge-journal",
+      partialize: (state: BridgeJournalStore) => ({
+        journal: state.journal,
+      }),
+    }
+  )
+);
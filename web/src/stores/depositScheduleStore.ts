@@ -0,0 +1,91 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { logger } from "@/lib/logger";
+import { getNextRunAt } from "@/lib/deposit-schedule";
+import type {
+  DepositSchedule,
+  DepositScheduleRunStatus,
+} from "@/types/deposit-schedule";
+
+interface DepositScheduleState {
+  schedules: DepositSchedule[];
+}
+
+interface DepositScheduleActions {
+  addSchedule: (
+    schedule: Omit<DepositSchedule, "id" | "createdAt" | "enabled">
+  ) => string;
+  setEnabled: (id: string, enabled: boolean) => void;
+  removeSchedule: (id: string) => void;
+  // Advance past a due run. Called without a status to claim or skip the
+  // run, then again with the outcome once a claimed run finishes
+  recordRun: (
+    id: string,
+    ranAt: number,
+    status?: DepositScheduleRunStatus
+  ) => void;
+}
+
+type DepositScheduleStore = DepositScheduleState & DepositScheduleActions;
+
+/**
+ * Persisted recurring deposits; the scheduler runs them while the app is open
+ * and `argenta schedule` runs an exported copy headlessly
+ */
+export const useDepositScheduleStore = create<DepositScheduleStore>()(
+  persist(
+    (set) => ({
+      schedules: [],
+
+      addSchedule: (schedule): string => {
+        const createdAt = Date.now();
+        const id = `${schedule.account}-${createdAt}`;
+        set((state: DepositScheduleState) => ({
+          schedules: [
+            ...state.schedules,
+            { ...schedule, id, createdAt, enabled: true },
+          ],
+        }));
+        logger.info("Deposit schedule added", {
+          id,
+          intervalMs: schedule.intervalMs,
+        });
+        return id;
+      },
+
+      setEnabled: (id: string, enabled: boolean): void => {
+        set((state: DepositScheduleState) => ({
+          schedules: state.schedules.map((schedule) =>
+            schedule.id === id ? { ...schedule, enabled } : schedule
+          ),
+        }));
+      },
+
+      removeSchedule: (id: string): void => {
+        set((state: DepositScheduleState) => ({
+          schedules: state.schedules.filter((schedule) => schedule.id !== id),
+        }));
+      },
+
+      recordRun: (id, ranAt, status): void => {
+        set((state: DepositScheduleState) => ({
+          schedules: state.schedules.map((schedule) =>
+            schedule.id === id
+              ? {
+                  ...schedule,
+                  nextRunAt: getNextRunAt(schedule, ranAt),
+                  lastRun: status ? { ranAt, status } : schedule.lastRun,
+                }
+              : schedule
+          ),
+        }));
+      },
+    }),
+    {
+      name: "argenta-deposit-schedules",
+      partialize: (state: DepositScheduleStore) => ({
+        schedules: state.schedules,
+      }),
+    }
+  )
+);
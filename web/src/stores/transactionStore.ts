@@ -2,11 +2,19 @@ import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import { logger } from "@/lib/logger";
 
+// "dropped": never mined and no longer known to the node
+export type TransactionStatus =
+  | "pending"
+  | "confirmed"
+  | "failed"
+  | "cancelled"
+  | "dropped";
+
 export interface Transaction {
   id: string;
   hash: string;
   type: "deposit" | "withdrawal" | "approval";
-  status: "pending" | "confirmed" | "failed" | "cancelled";
+  status: TransactionStatus;
   amount?: string;
   tokenSymbol?: string;
   tokenAddress?: string;
@@ -29,6 +37,11 @@ interface TransactionActions {
   addTransaction: (
     transaction: Omit<Transaction, "id"> & { timestamp?: number }
   ) => string;
+  updateTransaction: (
+    hash: string,
+    chainId: number,
+    updates: Partial<Omit<Transaction, "id" | "hash" | "chainId">>
+  ) => void;
   setLoading: (loading: boolean) => void;
   clearHistory: () => void;
 }
@@ -101,6 +114,20 @@ export const useTransactionStore = create<TransactionStore>()(
         return newTransaction.id;
       },
 
+      updateTransaction: (hash, chainId, updates): void => {
+        set((state: TransactionState) => ({
+          transactions: state.transactions.map((tx: Transaction) =>
+            tx.hash === hash && tx.chainId === chainId
+              ? { ...tx, ...updates }
+              : tx
+          ),
+        }));
+        logger.info("Transaction status updated in store", {
+          key: `${hash}:${chainId}`,
+          status: updates.status,
+        });
+      },
+
       setLoading: (loading: boolean): void => set({ isLoading: loading }),
 
       clearHistory: (): void => {
@@ -0,0 +1,64 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { Address } from "viem";
+import { logger } from "@/lib/logger";
+import { SupportedChainId } from "@/constant/chains";
+import type { ChainHistoryCache } from "@/lib/vault-history";
+
+interface VaultHistoryState {
+  // Keyed by getHistoryKey(account, chainId)
+  histories: Record<string, ChainHistoryCache>;
+}
+
+interface VaultHistoryActions {
+  setChainHistory: (
+    account: Address,
+    chainId: SupportedChainId,
+    cache: ChainHistoryCache
+  ) => void;
+  clearHistory: () => void;
+}
+
+type VaultHistoryStore = VaultHistoryState & VaultHistoryActions;
+
+export function getHistoryKey(
+  account: Address,
+  chainId: SupportedChainId
+): string {
+  return `${account.toLowerCase()}:${chainId}`;
+}
+
+/**
+ * Persisted scan ranges and decoded vault events per account and chain, so
+ * revisiting the history only fetches blocks mined since the last visit
+ */
+export const useVaultHistoryStore = create<VaultHistoryStore>()(
+  persist(
+    (set) => ({
+      histories: {},
+
+      setChainHistory: (account, chainId, cache): void => {
+        set((state: VaultHistoryState) => ({
+          histories: {
+            ...state.histories,
+            [getHistoryKey(account, chainId)]: cache,
+          },
+        }));
+      },
+
+      clearHistory: (): void => {
+        set({ histories: {} });
+        logger.info("Vault history cache cleared");
+      },
+    }),
+    {
+      name: "argenta-vault-history",
+      // v1 decodes vault events; drop caches built from USDC transfer logs
+      version: 1,
+      migrate: () => ({ histories: {} }),
+      partialize: (state: VaultHistoryStore) => ({
+        histories: state.histories,
+      }),
+    }
+  )
+);
@@ -0,0 +1,194 @@
+import { spawn, spawnSync, type ChildProcess } from "child_process";
+import { existsSync, readFileSync } from "fs";
+import { fileURLToPath } from "url";
+import {
+  createPublicClient,
+  createWalletClient,
+  erc20Abi,
+  getContractAddress,
+  http,
+  type Address,
+  type Chain,
+  type Hex,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { simpleVaultAbi } from "@/generated/wagmi";
+import type { ChainKey, ChainRegistryEntry } from "@/constant/chain-registry";
+
+/**
+ * Local Anvil chains standing in for the registry chains, with SimpleVault
+ * and a mock ERC-20 deployed on each. Needs `anvil` on PATH and the Foundry
+ * artifacts from `forge build` in `contracts/`.
+ */
+
+// Anvil's first two default accounts
+export const ANVIL_DEPLOYER_KEY: Hex =
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+export const ANVIL_DEPOSITOR_KEY: Hex =
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+
+const ANVIL_PORTS: Partial<Record<ChainKey, number>> = {
+  ETH_SEPOLIA: 18545,
+  SEI_TESTNET: 18546,
+};
+
+// Tokens the depositor starts with on each chain (MockUSDC has 6 decimals)
+export const DEPOSITOR_FUNDING = 10_000n * 10n ** 6n;
+
+const FOUNDRY_OUT = fileURLToPath(
+  new URL("../../../contracts/out/", import.meta.url)
+);
+const ARTIFACTS = {
+  vault: `${FOUNDRY_OUT}SimpleVault.sol/SimpleVault.json`,
+  token: `${FOUNDRY_OUT}SimpleVault.t.sol/MockUSDC.json`,
+};
+
+const deployer = privateKeyToAccount(ANVIL_DEPLOYER_KEY);
+
+// A fresh chain deploys the token at nonce 0 and the vault at nonce 1
+export const ANVIL_TOKEN_ADDRESS = getContractAddress({
+  from: deployer.address,
+  nonce: 0n,
+});
+export const ANVIL_VAULT_ADDRESS = getContractAddress({
+  from: deployer.address,
+  nonce: 1n,
+});
+
+export function isAnvilAvailable(): boolean {
+  const anvil = spawnSync("anvil", ["--version"], { stdio: "ignore" });
+  return (
+    anvil.status === 0 &&
+    existsSync(ARTIFACTS.vault) &&
+    existsSync(ARTIFACTS.token)
+  );
+}
+
+export function anvilRpcUrl(key: ChainKey): string | undefined {
+  const port = ANVIL_PORTS[key];
+  return port ? `http://127.0.0.1:${port}` : undefined;
+}
+
+/**
+ * Point the registry's RPCs, USDC and vault at the Anvil deployments.
+ * Meant for a `vi.mock("@/constant/chain-registry")` factory
+ */
+export function withAnvilDeployments<
+  T extends { CHAIN_REGISTRY: Record<ChainKey, ChainRegistryEntry> }
+>(registry: T): T {
+  const entries = Object.entries(registry.CHAIN_REGISTRY).map(
+    ([key, entry]) => {
+      const rpcUrl = anvilRpcUrl(key as ChainKey);
+      if (!rpcUrl) return [key, entry];
+      return [
+        key,
+        {
+          ...entry,
+          rpcUrl,
+          tokens: {
+            ...entry.tokens,
+            USDC: { address: ANVIL_TOKEN_ADDRESS, decimals: 6 },
+          },
+          vault: {
+            address: ANVIL_VAULT_ADDRESS,
+            deploymentBlock: 0,
+            supportsPermit: true,
+          },
+        },
+      ];
+    }
+  );
+  return { ...registry, CHAIN_REGISTRY: Object.fromEntries(entries) };
+}
+
+function readBytecode(path: string): Hex {
+  return JSON.parse(readFileSync(path, "utf8")).bytecode.object;
+}
+
+async function waitForRpc(rpcUrl: string, timeoutMs = 10_000): Promise<void> {
+  const client = createPublicClient({ transport: http(rpcUrl) });
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    try {
+      await client.getChainId();
+      return;
+    } catch {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  }
+  throw new Error(`Anvil did not start at ${rpcUrl}`);
+}
+
+export interface AnvilChain {
+  rpcUrl: string;
+  stop: () => void;
+}
+
+/**
+ * Start an Anvil node for `chain` and deploy the mock token and vault,
+ * funding the depositor account
+ */
+export async function startAnvilChain(
+  key: ChainKey,
+  chain: Chain
+): Promise<AnvilChain> {
+  const rpcUrl = anvilRpcUrl(key);
+  if (!rpcUrl) throw new Error(`No Anvil port configured for ${key}`);
+
+  const node: ChildProcess = spawn(
+    "anvil",
+    ["--chain-id", String(chain.id), "--port", String(ANVIL_PORTS[key])],
+    { stdio: "ignore" }
+  );
+  const stop = () => {
+    node.kill();
+  };
+
+  try {
+    await waitForRpc(rpcUrl);
+
+    const publicClient = createPublicClient({ chain, transport: http(rpcUrl) });
+    const wallet = createWalletClient({
+      account: deployer,
+      chain,
+      transport: http(rpcUrl),
+    });
+
+    for (const bytecode of [
+      readBytecode(ARTIFACTS.token),
+      readBytecode(ARTIFACTS.vault),
+    ]) {
+      // Neither contract takes constructor arguments
+      const hash = await wallet.deployContract({ abi: [], bytecode });
+      await publicClient.waitForTransactionReceipt({ hash });
+    }
+
+    const funding = await wallet.writeContract({
+      address: ANVIL_TOKEN_ADDRESS,
+      abi: erc20Abi,
+      functionName: "transfer",
+      args: [
+        privateKeyToAccount(ANVIL_DEPOSITOR_KEY).address,
+        DEPOSITOR_FUNDING,
+      ],
+    });
+    await publicClient.waitForTransactionReceipt({ hash: funding });
+  } catch (error) {
+    stop();
+    throw error;
+  }
+
+  return { rpcUrl, stop };
+}
+
+export async function readVaultBalance(
+  rpcUrl: string,
+  user: Address
+): Promise<bigint> {
+  return createPublicClient({ transport: http(rpcUrl) }).readContract({
+    address: ANVIL_VAULT_ADDRESS,
+    abi: simpleVaultAbi,
+    functionName: "getBalance",
+    args: [user, ANVIL_TOKEN_ADDRESS],
+  });
+}
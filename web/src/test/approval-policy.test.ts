@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { maxUint256 } from "viem";
+import { getApprovalAmount } from "@/lib/approval-policy";
+
+const AMOUNT = 5_000_000n;
+
+describe("getApprovalAmount", () => {
+  it("should approve exactly the deposit by default", () => {
+    expect(getApprovalAmount({ strategy: "exact" }, AMOUNT, 6)).toBe(AMOUNT);
+    expect(getApprovalAmount({ strategy: "unlimited" }, AMOUNT, 6)).toBe(
+      maxUint256
+    );
+  });
+
+  it("should approve the custom cap but never less than the deposit", () => {
+    expect(
+      getApprovalAmount({ strategy: "custom", customCap: "100" }, AMOUNT, 6)
+    ).toBe(100_000_000n);
+    expect(
+      getApprovalAmount({ strategy: "custom", customCap: "1" }, AMOUNT, 6)
+    ).toBe(AMOUNT);
+    expect(
+      getApprovalAmount({ strategy: "custom", customCap: "abc" }, AMOUNT, 6)
+    ).toBe(AMOUNT);
+  });
+});
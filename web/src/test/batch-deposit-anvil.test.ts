@@ -0,0 +1,128 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { privateKeyToAccount } from "viem/accounts";
+import { createBatchDepositService } from "@/lib/batch-deposit-service";
+import { createPrivateKeyChainAdapter } from "@/lib/chain-client-adapter";
+import { CHAIN_REGISTRY } from "@/constant/chain-registry";
+import { SupportedChainId } from "@/constant/chains";
+import { DEFAULT_BATCH_DEPOSIT_CONFIG } from "@/constant/batch-operation-constants";
+import type { BatchDepositConfig, ChainAmount } from "@/types/batch-operations";
+import {
+  ANVIL_DEPOSITOR_KEY,
+  ANVIL_TOKEN_ADDRESS,
+  isAnvilAvailable,
+  readVaultBalance,
+  startAnvilChain,
+  type AnvilChain,
+} from "./anvil-harness";
+
+vi.mock("@/constant/chain-registry", async (importOriginal) => {
+  const { withAnvilDeployments } = await import("./anvil-harness");
+  return withAnvilDeployments(
+    await importOriginal<typeof import("@/constant/chain-registry")>()
+  );
+});
+
+const DEPOSITOR = privateKeyToAccount(ANVIL_DEPOSITOR_KEY).address;
+const CHAINS = [
+  { key: "ETH_SEPOLIA", chainId: SupportedChainId.ETH_SEPOLIA },
+  { key: "SEI_TESTNET", chainId: SupportedChainId.SEI_TESTNET },
+] as const;
+
+// A local key signs on both chains at once
+const ANVIL_CONFIG: BatchDepositConfig = {
+  ...DEFAULT_BATCH_DEPOSIT_CONFIG,
+  parallelChains: true,
+};
+
+function deposits(amount: string): ChainAmount[] {
+  return CHAINS.map(({ chainId }) => ({
+    chainId,
+    tokenAddress: ANVIL_TOKEN_ADDRESS,
+    amount,
+    amountWei: BigInt(amount) * 10n ** 6n,
+  }));
+}
+
+describe.skipIf(!isAnvilAvailable())("BatchDepositService on Anvil", () => {
+  const nodes: AnvilChain[] = [];
+
+  beforeAll(async () => {
+    for (const { key } of CHAINS) {
+      nodes.push(await startAnvilChain(key, CHAIN_REGISTRY[key].chain));
+    }
+  }, 60_000);
+
+  afterAll(() => {
+    nodes.forEach((node) => node.stop());
+  });
+
+  async function vaultBalances(): Promise<bigint[]> {
+    return Promise.all(
+      nodes.map((node) => readVaultBalance(node.rpcUrl, DEPOSITOR))
+    );
+  }
+
+  it("should approve and deposit on both chains", async () => {
+    const service = createBatchDepositService(
+      createPrivateKeyChainAdapter(ANVIL_DEPOSITOR_KEY),
+      { ...ANVIL_CONFIG, usePermit: false }
+    );
+    const before = await vaultBalances();
+
+    const results = await service.executeBatch(deposits("10"));
+
+    expect(results.map((result) => result.status)).toEqual([
+      "success",
+      "success",
+    ]);
+    expect(results.every((result) => result.approvalTxHash)).toBe(true);
+    const after = await vaultBalances();
+    expect(after.map((balance, i) => balance - before[i])).toEqual([
+      10_000_000n,
+      10_000_000n,
+    ]);
+  }, 60_000);
+
+  it("should deposit with a permit signature instead of an approve tx", async () => {
+    const service = createBatchDepositService(
+      createPrivateKeyChainAdapter(ANVIL_DEPOSITOR_KEY),
+      ANVIL_CONFIG
+    );
+    const before = await vaultBalances();
+
+    const results = await service.executeBatch(deposits("3"));
+
+    expect(results.map((result) => result.status)).toEqual([
+      "success",
+      "success",
+    ]);
+    expect(results.some((result) => result.approvalTxHash)).toBe(false);
+    const after = await vaultBalances();
+    expect(after.map((balance, i) => balance - before[i])).toEqual([
+      3_000_000n,
+      3_000_000n,
+    ]);
+  }, 60_000);
+
+  it("should skip the approval once an unlimited allowance is in place", async () => {
+    const service = createBatchDepositService(
+      createPrivateKeyChainAdapter(ANVIL_DEPOSITOR_KEY),
+      {
+        ...ANVIL_CONFIG,
+        usePermit: false,
+        getApprovalPolicy: () => ({ strategy: "unlimited" }),
+      }
+    );
+
+    const first = await service.executeBatch(deposits("1"));
+    const second = await service.executeBatch(deposits("1"));
+
+    expect(first.every((result) => result.approvalTxHash)).toBe(true);
+    expect(second.map((result) => result.status)).toEqual([
+      "success",
+      "success",
+    ]);
+    expect(second.some((result) => result.approvalTxHash)).toBe(false);
+  }, 60_000);
+});
@@ -1,378 +1,651 @@
-// import { describe, it, expect, beforeEach, vi } from "vitest";
-// import { createBatchDepositService } from "@/lib/batch-deposit-service";
-// import { SupportedChainId } from "@/constant/contracts";
-// import type { BatchDepositConfig } from "@/types/batch-operations";
-
-// // Mock wagmi config and core actions
-// const mockGetAccount = vi.fn(() => ({
-//   address: "0x1234567890abcdef1234567890abcdef12345678",
-// }));
-// const mockWriteContract = vi
-//   .fn()
-//   .mockImplementation(({ functionName }: any) => {
-//     const mockBehavior = (global as any).__mockWriteContractBehavior;
-//     if (mockBehavior && mockBehavior[functionName]) {
-//       return mockBehavior[functionName]();
-//     }
-//     if (functionName === "approve")
-//       return ("0xapprove" + Math.random().toString(16).slice(2, 8)).padEnd(
-//         66,
-//         "0"
-//       );
-//     return ("0xdeposit" + Math.random().toString(16).slice(2, 8)).padEnd(
-//       66,
-//       "0"
-//     );
-//   });
-
-// vi.mock("@wagmi/core", () => ({
-//   getAccount: mockGetAccount,
-//   readContract: vi.fn().mockImplementation(() => {
-//     const val = (global as any).__mockAllowance;
-//     return val !== undefined ? val : 0n;
-//   }),
-//   writeContract: mockWriteContract,
-//   switchChain: vi.fn().mockResolvedValue(undefined),
-//   waitForTransactionReceipt: vi.fn().mockResolvedValue({ status: "success" }),
-//   getPublicClient: vi.fn(() => ({
-//     getLogs: vi.fn().mockResolvedValue([]),
-//   })),
-// }));
-
-// vi.mock("@/wagmi", () => ({
-//   wagmiConfig: {
-//     chains: [{ id: SupportedChainId.ETH_SEPOLIA }],
-//   },
-// }));
-
-// function userRejectedError(message = "User rejected") {
-//   return { message } as any;
-// }
-
-// const TEST_CONFIG: BatchDepositConfig = {
-//   timeoutMs: 15000,
-//   confirmationTimeoutMs: 15000,
-//   retryAttempts: 2,
-//   retryDelayMs: 10,
-// };
-
-// const NO_RETRY_CONFIG: BatchDepositConfig = {
-//   ...TEST_CONFIG,
-//   retryAttempts: 1,
-// };
-
-// // Capture emitted events for assertions
-// function captureEvents(service: ReturnType<typeof createBatchDepositService>) {
-//   const events: Record<string, any[]> = {};
-//   const on = (event: any) => {
-//     events[event] = [];
-//     service.on(event, (data: any) => events[event].push(data));
-//   };
-//   [
-//     "batchStarted",
-//     "batchCompleted",
-//     "batchFailed",
-//     "chainStarted",
-//     "chainCompleted",
-//     "chainFailed",
-//     "stepStarted",
-//     "stepCompleted",
-//     "transactionSubmitted",
-//     "transactionConfirmed",
-//     "progressUpdated",
-//   ].forEach(on);
-//   return events;
-// }
-
-// describe("BatchDepositService", () => {
-//   beforeEach(() => {
-//     vi.clearAllMocks();
-//   });
-
-//   it("executes a single chain batch successfully (approval + deposit)", async () => {
-//     const service = createBatchDepositService(TEST_CONFIG);
-//     const events = captureEvents(service);
-
-//     const results = await service.executeBatch([
-//       {
-//         chainId: SupportedChainId.ETH_SEPOLIA,
-//         amount: "1",
-//         amountWei: 1_000_000n,
-//       },
-//     ]);
-
-//     expect(results).toHaveLength(1);
-//     const res = results[0];
-//     expect(res.status).toBe("success");
-//     expect(res.approvalTxHash).toBeDefined();
-//     expect(res.depositTxHash).toBeDefined();
-
-//     // Events sanity
-//     expect(events.batchStarted?.length).toBe(1);
-//     expect(events.chainStarted?.length).toBe(1);
-//     expect(events.transactionSubmitted?.length).toBeGreaterThanOrEqual(2);
-//     expect(events.transactionConfirmed?.length).toBeGreaterThanOrEqual(2);
-//   });
-
-//   it("prevents concurrent batch executions", async () => {
-//     const service = createBatchDepositService(TEST_CONFIG);
-
-//     const firstPromise = service.executeBatch([
-//       {
-//         chainId: SupportedChainId.ETH_SEPOLIA,
-//         amount: "1",
-//         amountWei: 1_000_000n,
-//       },
-//     ]);
-
-//     await expect(
-//       service.executeBatch([
-//         {
-//           chainId: SupportedChainId.SEI_TESTNET,
-//           amount: "1",
-//           amountWei: 1_000_000n,
-//         },
-//       ])
-//     ).rejects.toThrow(/already in progress/);
-
-//     await firstPromise;
-//   });
-
-//   it("handles user cancellation during approval (status cancelled)", async () => {
-//     // Set up mock behavior for this test
-//     (global as any).__mockWriteContractBehavior = {
-//       approve: () => {
-//         throw userRejectedError();
-//       },
-//     };
-
-//     const service = createBatchDepositService(TEST_CONFIG);
-
-//     const results = await service.executeBatch([
-//       {
-//         chainId: SupportedChainId.ETH_SEPOLIA,
-//         amount: "2",
-//         amountWei: 2_000_000n,
-//       },
-//     ]);
-
-//     const res = results[0];
-//     expect(res.status).toBe("cancelled");
-//     expect(res.userCancelled).toBe(true);
-//     expect(res.error).toMatch(/User cancelled approval/i);
-
-//     // Clean up
-//     delete (global as any).__mockWriteContractBehavior;
-//   });
-
-//   it("handles user cancellation during deposit (status partial)", async () => {
-//     // Set up mock behavior for this test
-//     (global as any).__mockWriteContractBehavior = {
-//       approve: () => "0xapprovehash".padEnd(66, "0"),
-//       deposit: () => {
-//         throw userRejectedError();
-//       },
-//     };
-
-//     const service = createBatchDepositService(TEST_CONFIG);
-
-//     const results = await service.executeBatch([
-//       {
-//         chainId: SupportedChainId.ETH_SEPOLIA,
-//         amount: "3",
-//         amountWei: 3_000_000n,
-//       },
-//     ]);
-
-//     const res = results[0];
-//     expect(res.status).toBe("partial");
-//     expect(res.userCancelled).toBe(true);
-//     expect(res.error).toMatch(/User cancelled deposit/i);
-//     expect(res.approvalTxHash).toBeDefined();
-//     expect(res.depositTxHash).toBeUndefined();
-
-//     // Clean up
-//     delete (global as any).__mockWriteContractBehavior;
-//   });
-
-//   it("allows retryChain after a failed deposit execution", async () => {
-//     // Set up initial failure behavior
-//     (global as any).__mockWriteContractBehavior = {
-//       approve: () => "0xapprovehash".padEnd(66, "0"),
-//       deposit: () => {
-//         throw new Error("deposit failed consistently");
-//       },
-//     };
-
-//     const service = createBatchDepositService(NO_RETRY_CONFIG);
-
-//     const initial = await service.executeBatch([
-//       {
-//         chainId: SupportedChainId.ETH_SEPOLIA,
-//         amount: "4",
-//         amountWei: 4_000_000n,
-//       },
-//     ]);
-//     expect(initial[0].status).toBe("failed");
-
-//     // Now make deposit succeed on retry
-//     (global as any).__mockWriteContractBehavior = {
-//       approve: () => "0xapprovehash".padEnd(66, "0"),
-//       deposit: () => "0xdeposithash".padEnd(66, "0"),
-//     };
-
-//     const retryResult = await service.retryChain(
-//       SupportedChainId.ETH_SEPOLIA,
-//       "4"
-//     );
-
-//     expect(retryResult.status).toBe("success");
-//     expect(retryResult.depositTxHash).toBeDefined();
-
-//     // Clean up
-//     delete (global as any).__mockWriteContractBehavior;
-//   });
-
-//   it("skips approval when allowance already sufficient", async () => {
-//     (global as any).__mockAllowance = 10_000_000_000n; // high allowance
-//     const service = createBatchDepositService(TEST_CONFIG);
-//     const chainId = SupportedChainId.ETH_SEPOLIA;
-
-//     const events = captureEvents(service);
-//     const results = await service.executeBatch([
-//       { chainId, amount: "5", amountWei: 5_000_000n },
-//     ]);
-
-//     delete (global as any).__mockAllowance;
-
-//     expect(results[0].status).toBe("success");
-//     const submittedTypes = (events.transactionSubmitted || []).map(
-//       (e) => e.type
-//     );
-//     expect(submittedTypes.filter((t) => t === "approval")).toHaveLength(0);
-//     expect(submittedTypes.filter((t) => t === "deposit")).toHaveLength(1);
-//   });
-
-//   it("executes a multi-chain batch (two chains) successfully", async () => {
-//     const service = createBatchDepositService(TEST_CONFIG);
-//     const events = captureEvents(service);
-
-//     const results = await service.executeBatch([
-//       {
-//         chainId: SupportedChainId.ETH_SEPOLIA,
-//         amount: "1",
-//         amountWei: 1_000_000n,
-//       },
-//       {
-//         chainId: SupportedChainId.SEI_TESTNET,
-//         amount: "2",
-//         amountWei: 2_000_000n,
-//       },
-//     ]);
-
-//     expect(results).toHaveLength(2);
-//     expect(results[0].status).toBe("success");
-//     expect(results[1].status).toBe("success");
-//     expect(events.batchStarted[0].totalSteps).toBe(6); // 2 chains * 3 steps
-//     expect(events.chainStarted.length).toBe(2);
-//     expect(events.chainCompleted.length).toBe(2);
-//     const finalProgress = events.progressUpdated.at(-1);
-//     expect(finalProgress.percentage).toBe(100);
-//   });
-
-//   it("handles failure on second chain while first succeeds", async () => {
-//     let currentChain: number | undefined = SupportedChainId.ETH_SEPOLIA;
-
-//     // Set up mock behavior that tracks chain switches
-//     const mockSwitchChain = vi.mocked(
-//       vi.fn().mockImplementation(async ({ chainId }: any) => {
-//         currentChain = chainId;
-//         return Promise.resolve(undefined);
-//       })
-//     );
-
-//     // Replace the switchChain mock temporarily
-//     const wagmiCore = await import("@wagmi/core");
-//     const originalSwitchChain = wagmiCore.switchChain;
-//     (wagmiCore as any).switchChain = mockSwitchChain;
-
-//     // Set up writeContract behavior that fails on SEI_TESTNET
-//     (global as any).__mockWriteContractBehavior = {
-//       approve: () => "0xapprovehash".padEnd(66, "0"),
-//       deposit: () => {
-//         if (currentChain === SupportedChainId.SEI_TESTNET) {
-//           throw new Error("forced deposit failure");
-//         }
-//         return "0xdeposithash".padEnd(66, "0");
-//       },
-//     };
-
-//     const service = createBatchDepositService(NO_RETRY_CONFIG);
-//     const events = captureEvents(service);
-
-//     const results = await service.executeBatch([
-//       {
-//         chainId: SupportedChainId.ETH_SEPOLIA,
-//         amount: "1",
-//         amountWei: 1_000_000n,
-//       },
-//       {
-//         chainId: SupportedChainId.SEI_TESTNET,
-//         amount: "2",
-//         amountWei: 2_000_000n,
-//       },
-//     ]);
-
-//     expect(results).toHaveLength(2);
-//     expect(results[0].status).toBe("success");
-//     expect(results[1].status).toBe("failed");
-//     expect(events.batchCompleted.length + events.batchFailed.length).toBe(1);
-
-//     // Clean up
-//     delete (global as any).__mockWriteContractBehavior;
-//     (wagmiCore as any).switchChain = originalSwitchChain;
-//   });
-
-//   it("throws on invalid user address format", () => {
-//     // Mock getAccount to return invalid address
-//     mockGetAccount.mockReturnValueOnce({
-//       address: "0x123" as any,
-//     } as any);
-
-//     expect(() => createBatchDepositService(TEST_CONFIG)).toThrow(
-//       /Invalid user address/
-//     );
-
-//     // Restore original mock
-//     mockGetAccount.mockReturnValue({
-//       address: "0x1234567890abcdef1234567890abcdef12345678",
-//     } as any);
-//   });
-
-//   it("errors when chain contract addresses invalid (simulate by patching validation)", async () => {
-//     const vaultOps = await import("@/lib/vault-operations");
-//     const originalValidate = vaultOps.validateChainOperation;
-//     vi.spyOn(vaultOps, "validateChainOperation").mockImplementation(
-//       (chainId: any) => {
-//         if (chainId === SupportedChainId.ETH_SEPOLIA) {
-//           throw new Error("Invalid vault address");
-//         }
-//         return originalValidate(chainId);
-//       }
-//     );
-
-//     const service = createBatchDepositService(TEST_CONFIG);
-//     const results = await service.executeBatch([
-//       {
-//         chainId: SupportedChainId.ETH_SEPOLIA,
-//         amount: "1",
-//         amountWei: 1_000_000n,
-//       },
-//     ]);
-
-//     expect(results[0].status).toBe("failed");
-//     expect(results[0].error).toMatch(/Invalid vault address/);
-
-//     (vaultOps.validateChainOperation as any).mockRestore?.();
-//   });
-// });
+import { describe, it, expect, vi } from "vitest";
+import { domainSeparator, type Address, type Hash } from "viem";
+import { createBatchDepositService } from "@/lib/batch-deposit-service";
+import type { ChainClientAdapter } from "@/lib/chain-client-adapter";
+import { SupportedChainId } from "@/constant/chains";
+import { getUsdcAddress } from "@/constant/contracts";
+import {
+  DEFAULT_BATCH_CONFIG,
+  DEFAULT_BATCH_DEPOSIT_CONFIG,
+} from "@/constant/batch-operation-constants";
+import type {
+  BatchDepositConfig,
+  BatchDepositEvents,
+  BatchExecutionConfig,
+  ChainAmount,
+} from "@/types/batch-operations";
+
+// Sepolia's vault takes permit deposits; Sei's predates depositWithPermit
+vi.mock("@/constant/chain-registry", async (importOriginal) => {
+  const registry = await importOriginal<
+    typeof import("@/constant/chain-registry")
+  >();
+  const sepolia = registry.CHAIN_REGISTRY.ETH_SEPOLIA;
+  return {
+    ...registry,
+    CHAIN_REGISTRY: {
+      ...registry.CHAIN_REGISTRY,
+      ETH_SEPOLIA: {
+        ...sepolia,
+        vault: { ...sepolia.vault, supportsPermit: true },
+      },
+    },
+  };
+});
+
+const ACCOUNT = "0x1234567890abcdef1234567890abcdef12345678";
+
+// No retries, no permit or bundle probing: one wallet call per step
+const TEST_CONFIG: BatchDepositConfig = {
+  ...DEFAULT_BATCH_DEPOSIT_CONFIG,
+  usePermit: false,
+  useAtomicBatch: false,
+  parallelChains: true,
+  execution: {
+    ...DEFAULT_BATCH_CONFIG,
+    retry: { ...DEFAULT_BATCH_CONFIG.retry, maxAttempts: 1, delayMs: 0 },
+  },
+};
+
+type WriteBehavior = Partial<
+  Record<
+    "approve" | "deposit",
+    (chainId: SupportedChainId) => Hash | Promise<Hash>
+  >
+>;
+
+const txHash = (label: string, chainId: SupportedChainId) =>
+  `0x${label}${chainId.toString(16)}`.padEnd(66, "0") as Hash;
+
+/**
+ * EIP-2612 reads of a token named "USD Coin", version "2"
+ */
+function readPermitToken(
+  chainId: SupportedChainId,
+  { address, functionName }: { address: Address; functionName: string }
+) {
+  switch (functionName) {
+    case "name":
+      return "USD Coin";
+    case "version":
+      return "2";
+    case "nonces":
+      return 0n;
+    case "DOMAIN_SEPARATOR":
+      return domainSeparator({
+        domain: {
+          name: "USD Coin",
+          version: "2",
+          chainId,
+          verifyingContract: address,
+        },
+      });
+  }
+}
+
+/**
+ * In-memory adapter: allowance reads return `allowance`, permit reads
+ * describe an EIP-2612 token, simulations echo their request unless the
+ * function is listed in `revertedSimulations` (as `name` or `name:chainId`),
+ * writes return a hash unless `write` overrides them and receipts succeed
+ * unless their hash is listed in `reverted`. The wallet supports atomic
+ * bundles, which land as one tx
+ */
+function createFakeAdapter({
+  allowance = 0n,
+  write = {},
+  reverted = [],
+  revertedSimulations = [],
+}: {
+  allowance?: bigint | ((chainId: SupportedChainId) => bigint);
+  write?: WriteBehavior;
+  reverted?: Hash[];
+  revertedSimulations?: string[];
+} = {}) {
+  const simulationReverts = (chainId: SupportedChainId, functionName: string) =>
+    revertedSimulations.includes(functionName) ||
+    revertedSimulations.includes(`${functionName}:${chainId}`);
+
+  const writeContract = vi.fn(
+    async (chainId: SupportedChainId, functionName: "approve" | "deposit") =>
+      write[functionName]?.(chainId) ??
+      txHash(functionName === "approve" ? "a" : "d", chainId)
+  );
+  const signTypedData = vi.fn(
+    async () => `0x${"11".repeat(32)}${"22".repeat(32)}1b` as Hash
+  );
+  const sendCalls = vi.fn(async (chainId: SupportedChainId) => ({
+    id: `bundle-${chainId}`,
+  }));
+
+  const adapter: ChainClientAdapter = {
+    getAddress: () => ACCOUNT,
+    getPublicClient: (chainId) =>
+      ({
+        readContract: vi.fn(async (request) =>
+          request.functionName === "allowance"
+            ? typeof allowance === "function"
+              ? allowance(chainId)
+              : allowance
+            : readPermitToken(chainId, request)
+        ),
+        simulateContract: vi.fn(async (request) => {
+          if (simulationReverts(chainId, request.functionName)) {
+            throw new Error("execution reverted");
+          }
+          return { request };
+        }),
+        // approve + deposit in sequence
+        simulateCalls: vi.fn(async () => ({
+          results: (["approve", "deposit"] as const).map((functionName) =>
+            simulationReverts(chainId, functionName)
+              ? { status: "failure", error: new Error("execution reverted") }
+              : { status: "success" }
+          ),
+        })),
+        waitForTransactionReceipt: vi.fn(async ({ hash }) => ({
+          transactionHash: hash,
+          status: reverted.includes(hash) ? "reverted" : "success",
+          blockNumber: 1n,
+          gasUsed: 21_000n,
+          effectiveGasPrice: 1n,
+        })),
+      } as never),
+    getWalletClient: async (chainId) =>
+      ({
+        account: { address: ACCOUNT, type: "json-rpc" },
+        writeContract: ({ functionName }: { functionName: "approve" }) =>
+          writeContract(chainId, functionName),
+        signTypedData,
+        getCapabilities: async () => ({ atomic: { status: "supported" } }),
+        sendCalls: () => sendCalls(chainId),
+        getCallsStatus: async () => ({
+          status: "success",
+          receipts: [
+            {
+              transactionHash: txHash("b", chainId),
+              status: "success",
+              blockNumber: 1n,
+              gasUsed: 60_000n,
+            },
+          ],
+        }),
+      } as never),
+    switchChain: vi.fn().mockResolvedValue(undefined),
+    signsOnAnyChain: true,
+  };
+  return { adapter, writeContract, signTypedData, sendCalls };
+}
+
+function withExecution(
+  execution: Partial<BatchExecutionConfig>
+): BatchDepositConfig {
+  return {
+    ...TEST_CONFIG,
+    execution: { ...TEST_CONFIG.execution!, ...execution },
+  };
+}
+
+function chainAmount(chainId: SupportedChainId, amount: string): ChainAmount {
+  return {
+    chainId,
+    tokenAddress: getUsdcAddress(chainId),
+    amount,
+    amountWei: BigInt(Number(amount) * 1_000_000),
+  };
+}
+
+function captureEvents(service: ReturnType<typeof createBatchDepositService>) {
+  const captured: {
+    [K in keyof BatchDepositEvents]?: BatchDepositEvents[K][];
+  } = {};
+  (
+    [
+      "batchStarted",
+      "chainCompleted",
+      "chainFailed",
+      "transactionSubmitted",
+      "bundleSubmitted",
+      "progressUpdated",
+    ] as const
+  ).forEach((event) => {
+    const list: unknown[] = [];
+    captured[event] = list as never;
+    service.on(event, (data) => list.push(data));
+  });
+  return captured;
+}
+
+function userRejectedError(): never {
+  throw Object.assign(new Error("User rejected the request"), { code: 4001 });
+}
+
+describe("BatchDepositService", () => {
+  it("should approve then deposit on every chain of the batch", async () => {
+    const { adapter } = createFakeAdapter();
+    const service = createBatchDepositService(adapter, TEST_CONFIG);
+    const events = captureEvents(service);
+
+    const results = await service.executeBatch([
+      chainAmount(SupportedChainId.ETH_SEPOLIA, "1"),
+      chainAmount(SupportedChainId.SEI_TESTNET, "2"),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual([
+      "success",
+      "success",
+    ]);
+    expect(results[0].approvalTxHash).toBe(
+      txHash("a", SupportedChainId.ETH_SEPOLIA)
+    );
+    expect(results[1].depositTxHash).toBe(
+      txHash("d", SupportedChainId.SEI_TESTNET)
+    );
+    expect(events.batchStarted?.[0].totalSteps).toBe(6);
+    expect(events.transactionSubmitted).toHaveLength(4);
+    expect(events.progressUpdated?.at(-1)?.percentage).toBe(100);
+  });
+
+  it("should skip the approval when the allowance already covers it", async () => {
+    const { adapter, writeContract } = createFakeAdapter({
+      allowance: 10_000_000_000n,
+    });
+    const service = createBatchDepositService(adapter, TEST_CONFIG);
+
+    const [result] = await service.executeBatch([
+      chainAmount(SupportedChainId.ETH_SEPOLIA, "5"),
+    ]);
+
+    expect(result.status).toBe("success");
+    expect(result.approvalTxHash).toBeUndefined();
+    expect(writeContract).toHaveBeenCalledTimes(1);
+    expect(writeContract).toHaveBeenCalledWith(
+      SupportedChainId.ETH_SEPOLIA,
+      "deposit"
+    );
+  });
+
+  it("should prevent concurrent batch executions", async () => {
+    const { adapter } = createFakeAdapter();
+    const service = createBatchDepositService(adapter, TEST_CONFIG);
+
+    const first = service.executeBatch([
+      chainAmount(SupportedChainId.ETH_SEPOLIA, "1"),
+    ]);
+    await expect(
+      service.executeBatch([chainAmount(SupportedChainId.SEI_TESTNET, "1")])
+    ).rejects.toThrow(/already in progress/);
+
+    await first;
+  });
+
+  it("should mark a rejected approval cancelled and a rejected deposit partial", async () => {
+    const { adapter } = createFakeAdapter({
+      write: {
+        approve: (chainId) =>
+          chainId === SupportedChainId.ETH_SEPOLIA
+            ? userRejectedError()
+            : txHash("a", chainId),
+        deposit: (chainId) =>
+          chainId === SupportedChainId.SEI_TESTNET
+            ? userRejectedError()
+            : txHash("d", chainId),
+      },
+    });
+    const service = createBatchDepositService(adapter, TEST_CONFIG);
+
+    const [sepolia, sei] = await service.executeBatch([
+      chainAmount(SupportedChainId.ETH_SEPOLIA, "2"),
+      chainAmount(SupportedChainId.SEI_TESTNET, "3"),
+    ]);
+
+    expect(sepolia).toMatchObject({ status: "cancelled", userCancelled: true });
+    expect(sepolia.error?.message).toMatch(/User cancelled approval/);
+    expect(sei).toMatchObject({ status: "partial", userCancelled: true });
+    expect(sei.error?.message).toMatch(/User cancelled deposit/);
+    expect(sei.approvalTxHash).toBeDefined();
+    expect(sei.depositTxHash).toBeUndefined();
+  });
+
+  it("should fail one chain without stopping the others, then retry it", async () => {
+    let seiDepositFails = true;
+    const { adapter } = createFakeAdapter({
+      write: {
+        deposit: (chainId) => {
+          if (chainId === SupportedChainId.SEI_TESTNET && seiDepositFails) {
+            throw new Error("forced deposit failure");
+          }
+          return txHash("d", chainId);
+        },
+      },
+    });
+    const service = createBatchDepositService(adapter, TEST_CONFIG);
+    const events = captureEvents(service);
+
+    const results = await service.executeBatch([
+      chainAmount(SupportedChainId.ETH_SEPOLIA, "1"),
+      chainAmount(SupportedChainId.SEI_TESTNET, "2"),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual([
+      "success",
+      "failed",
+    ]);
+    expect(events.chainFailed?.[0].chainId).toBe(SupportedChainId.SEI_TESTNET);
+
+    seiDepositFails = false;
+    const retried = await service.retryChain(SupportedChainId.SEI_TESTNET, "2");
+    expect(retried.status).toBe("success");
+    expect(retried.depositTxHash).toBeDefined();
+  });
+
+  it("should fail the step on a wallet timeout without sending it again", async () => {
+    const { adapter, writeContract } = createFakeAdapter({
+      write: { deposit: () => new Promise<Hash>(() => {}) },
+    });
+    const service = createBatchDepositService(
+      adapter,
+      withExecution({
+        timeouts: { ...DEFAULT_BATCH_CONFIG.timeouts, deposit: 20 },
+        retry: { ...DEFAULT_BATCH_CONFIG.retry, maxAttempts: 3, delayMs: 0 },
+      })
+    );
+
+    const [result] = await service.executeBatch([
+      chainAmount(SupportedChainId.ETH_SEPOLIA, "1"),
+    ]);
+
+    expect(result.status).toBe("failed");
+    expect(result.error).toMatchObject({
+      step: "depositing",
+      message: "Timeout after 20ms",
+    });
+    expect(
+      writeContract.mock.calls.map(([, functionName]) => functionName)
+    ).toEqual(["approve", "deposit"]);
+  });
+
+  it("should retry only errors of a retryable type", async () => {
+    let networkFailures = 1;
+    const { adapter, writeContract } = createFakeAdapter({
+      allowance: 10n ** 12n,
+      write: {
+        deposit: (chainId) => {
+          if (chainId === SupportedChainId.ETH_SEPOLIA) {
+            throw new Error("insufficient funds for gas");
+          }
+          if (networkFailures-- > 0) throw new Error("network error");
+          return txHash("d", chainId);
+        },
+      },
+    });
+    const service = createBatchDepositService(
+      adapter,
+      withExecution({
+        retry: { ...DEFAULT_BATCH_CONFIG.retry, maxAttempts: 3, delayMs: 0 },
+      })
+    );
+
+    const [sepolia, sei] = await service.executeBatch([
+      chainAmount(SupportedChainId.ETH_SEPOLIA, "1"),
+      chainAmount(SupportedChainId.SEI_TESTNET, "1"),
+    ]);
+
+    expect(sepolia.error).toMatchObject({
+      type: "insufficient_funds",
+      step: "depositing",
+    });
+    expect(sei.status).toBe("success");
+    expect(writeContract.mock.calls).toEqual([
+      [SupportedChainId.ETH_SEPOLIA, "deposit"],
+      [SupportedChainId.SEI_TESTNET, "deposit"],
+      [SupportedChainId.SEI_TESTNET, "deposit"],
+    ]);
+  });
+
+  it("should stop the batch at a failed chain unless continueOnFailure is set", async () => {
+    const { adapter, writeContract } = createFakeAdapter({
+      write: {
+        approve: () => {
+          throw new Error("insufficient funds for gas");
+        },
+      },
+    });
+    const service = createBatchDepositService(adapter, {
+      ...withExecution({ continueOnFailure: false }),
+      parallelChains: false,
+    });
+
+    const results = await service.executeBatch([
+      chainAmount(SupportedChainId.ETH_SEPOLIA, "1"),
+      chainAmount(SupportedChainId.SEI_TESTNET, "1"),
+    ]);
+
+    expect(results).toMatchObject([
+      { chainId: SupportedChainId.ETH_SEPOLIA, status: "failed" },
+    ]);
+    expect(writeContract).toHaveBeenCalledTimes(1);
+  });
+
+  it("should fail the chain when its deposit receipt reverted", async () => {
+    const { adapter } = createFakeAdapter({
+      reverted: [txHash("d", SupportedChainId.SEI_TESTNET)],
+    });
+    const service = createBatchDepositService(adapter, TEST_CONFIG);
+    const events = captureEvents(service);
+
+    const [sepolia, sei] = await service.executeBatch([
+      chainAmount(SupportedChainId.ETH_SEPOLIA, "1"),
+      chainAmount(SupportedChainId.SEI_TESTNET, "2"),
+    ]);
+
+    expect(sepolia.status).toBe("success");
+    expect(sei.status).toBe("failed");
+    expect(sei.error).toMatchObject({
+      type: "transaction",
+      step: "depositing",
+      message: "Deposit transaction reverted",
+    });
+    expect(events.chainFailed?.map(({ chainId }) => chainId)).toEqual([
+      SupportedChainId.SEI_TESTNET,
+    ]);
+  });
+
+  it("should approve instead when the vault can't take the permit deposit", async () => {
+    const { adapter, writeContract, signTypedData } = createFakeAdapter({
+      revertedSimulations: ["depositWithPermit"],
+    });
+    const service = createBatchDepositService(adapter, {
+      ...TEST_CONFIG,
+      usePermit: true,
+    });
+
+    const [result] = await service.executeBatch([
+      chainAmount(SupportedChainId.ETH_SEPOLIA, "1"),
+    ]);
+
+    expect(signTypedData).toHaveBeenCalledTimes(1);
+    expect(result.status).toBe("success");
+    expect(result.approvalTxHash).toBe(
+      txHash("a", SupportedChainId.ETH_SEPOLIA)
+    );
+    expect(
+      writeContract.mock.calls.map(([, functionName]) => functionName)
+    ).toEqual(["approve", "deposit"]);
+  });
+
+  it("should not ask for a permit on a vault without depositWithPermit", async () => {
+    const { adapter, signTypedData } = createFakeAdapter();
+    const service = createBatchDepositService(adapter, {
+      ...TEST_CONFIG,
+      usePermit: true,
+    });
+
+    const [result] = await service.executeBatch([
+      chainAmount(SupportedChainId.SEI_TESTNET, "1"),
+    ]);
+
+    expect(signTypedData).not.toHaveBeenCalled();
+    expect(result.approvalTxHash).toBe(
+      txHash("a", SupportedChainId.SEI_TESTNET)
+    );
+  });
+
+  it("should announce a bundle when sent and record its single tx once", async () => {
+    const { adapter, writeContract } = createFakeAdapter();
+    const service = createBatchDepositService(adapter, {
+      ...TEST_CONFIG,
+      useAtomicBatch: true,
+    });
+    const events = captureEvents(service);
+
+    const [result] = await service.executeBatch([
+      chainAmount(SupportedChainId.ETH_SEPOLIA, "1"),
+    ]);
+
+    expect(writeContract).not.toHaveBeenCalled();
+    expect(events.bundleSubmitted).toEqual([
+      {
+        chainId: SupportedChainId.ETH_SEPOLIA,
+        tokenAddress: getUsdcAddress(SupportedChainId.ETH_SEPOLIA),
+        bundleId: `bundle-${SupportedChainId.ETH_SEPOLIA}`,
+      },
+    ]);
+    expect(events.transactionSubmitted).toMatchObject([
+      { txHash: txHash("b", SupportedChainId.ETH_SEPOLIA), type: "deposit" },
+    ]);
+    expect(result.status).toBe("success");
+  });
+
+  it("should wait for a journaled bundle on resume instead of sending another", async () => {
+    const { adapter, writeContract, sendCalls } = createFakeAdapter();
+    const service = createBatchDepositService(adapter, {
+      ...TEST_CONFIG,
+      useAtomicBatch: true,
+    });
+
+    const [result] = await service.resumeBatch({
+      id: "journal",
+      account: ACCOUNT,
+      startedAt: 0,
+      chains: [
+        {
+          chainId: SupportedChainId.SEI_TESTNET,
+          tokenAddress: getUsdcAddress(SupportedChainId.SEI_TESTNET),
+          amount: "4",
+          step: "approving",
+          bundleId: `bundle-${SupportedChainId.SEI_TESTNET}`,
+        },
+      ],
+    });
+
+    expect(sendCalls).not.toHaveBeenCalled();
+    expect(writeContract).not.toHaveBeenCalled();
+    expect(result).toMatchObject({
+      status: "success",
+      depositTxHash: txHash("b", SupportedChainId.SEI_TESTNET),
+    });
+  });
+
+  it("should switch chain by chain when the signer is tied to the active chain", async () => {
+    const { adapter } = createFakeAdapter();
+    const service = createBatchDepositService(
+      { ...adapter, signsOnAnyChain: false },
+      TEST_CONFIG
+    );
+
+    await service.executeBatch([
+      chainAmount(SupportedChainId.ETH_SEPOLIA, "1"),
+      chainAmount(SupportedChainId.SEI_TESTNET, "1"),
+    ]);
+
+    expect(vi.mocked(adapter.switchChain).mock.calls).toEqual([
+      [SupportedChainId.ETH_SEPOLIA],
+      [SupportedChainId.SEI_TESTNET],
+    ]);
+  });
+
+  it("should hold the next step while paused and continue on resume", async () => {
+    const { adapter, writeContract } = createFakeAdapter();
+    const service = createBatchDepositService(adapter, TEST_CONFIG);
+    service.on("transactionSubmitted", ({ type }) => {
+      if (type === "approval") service.pause();
+    });
+
+    const running = service.executeBatch([
+      chainAmount(SupportedChainId.ETH_SEPOLIA, "1"),
+    ]);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(service.getStatus().isPaused).toBe(true);
+    expect(
+      writeContract.mock.calls.map(([, functionName]) => functionName)
+    ).toEqual(["approve"]);
+
+    service.resume();
+    const [result] = await running;
+
+    expect(result.status).toBe("success");
+    expect(
+      writeContract.mock.calls.map(([, functionName]) => functionName)
+    ).toEqual(["approve", "deposit"]);
+  });
+
+  it("should dry-run each chain without sending anything", async () => {
+    const { adapter, writeContract, signTypedData, sendCalls } =
+      createFakeAdapter({
+        allowance: (chainId) =>
+          chainId === SupportedChainId.SEI_TESTNET ? 10n ** 12n : 0n,
+        revertedSimulations: [`deposit:${SupportedChainId.SEI_TESTNET}`],
+      });
+    const service = createBatchDepositService(adapter, {
+      ...TEST_CONFIG,
+      usePermit: true,
+      useAtomicBatch: true,
+    });
+
+    const [sepolia, sei] = await service.simulateBatch([
+      chainAmount(SupportedChainId.ETH_SEPOLIA, "1"),
+      chainAmount(SupportedChainId.SEI_TESTNET, "2"),
+    ]);
+
+    expect(sepolia).toMatchObject({ needsApproval: true, wouldSucceed: true });
+    expect(sei).toMatchObject({
+      needsApproval: false,
+      wouldSucceed: false,
+      error: { step: "depositing" },
+    });
+    expect(writeContract).not.toHaveBeenCalled();
+    expect(signTypedData).not.toHaveBeenCalled();
+    expect(sendCalls).not.toHaveBeenCalled();
+  });
+
+  it("should report a deposit that only reverts after the approval", async () => {
+    const { adapter } = createFakeAdapter({
+      revertedSimulations: ["deposit"],
+    });
+    const service = createBatchDepositService(adapter, TEST_CONFIG);
+
+    const [result] = await service.simulateBatch([
+      chainAmount(SupportedChainId.SEI_TESTNET, "1"),
+    ]);
+
+    expect(result).toMatchObject({
+      needsApproval: true,
+      wouldSucceed: false,
+      error: { step: "depositing" },
+    });
+    expect(result.depositUnverified).toBeUndefined();
+  });
+
+  it("should require a connected account", () => {
+    const { adapter } = createFakeAdapter();
+
+    expect(() =>
+      createBatchDepositService(
+        { ...adapter, getAddress: () => undefined },
+        TEST_CONFIG
+      )
+    ).toThrow(/wallet/i);
+  });
+});
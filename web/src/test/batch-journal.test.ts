@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { useBatchJournalStore } from "@/stores/batchJournalStore";
+import { SupportedChainId } from "@/constant/chains";
+import { getToken, getUsdc } from "@/constant/tokens";
+
+const ACCOUNT = "0x1234567890abcdef1234567890abcdef12345678";
+const USDC = getUsdc(SupportedChainId.ETH_SEPOLIA).address;
+const EURC = getToken(SupportedChainId.ETH_SEPOLIA, "EURC")!.address;
+
+describe("Batch journal", () => {
+  beforeEach(() => {
+    useBatchJournalStore.getState().clearJournal();
+  });
+
+  it("should update only the entry of the token that progressed", () => {
+    const { startJournal, updateChain } = useBatchJournalStore.getState();
+    startJournal(ACCOUNT, [
+      {
+        chainId: SupportedChainId.ETH_SEPOLIA,
+        tokenAddress: USDC,
+        amount: "1",
+        amountWei: 1_000_000n,
+      },
+      {
+        chainId: SupportedChainId.ETH_SEPOLIA,
+        tokenAddress: EURC,
+        amount: "2",
+        amountWei: 2_000_000n,
+      },
+    ]);
+
+    updateChain(SupportedChainId.ETH_SEPOLIA, EURC, { status: "success" });
+
+    expect(
+      useBatchJournalStore
+        .getState()
+        .journal?.chains.map(({ tokenAddress, status }) => [
+          tokenAddress,
+          status,
+        ])
+    ).toEqual([
+      [USDC, undefined],
+      [EURC, "success"],
+    ]);
+  });
+
+  it("should treat entries journaled without a token as USDC", () => {
+    useBatchJournalStore.setState({
+      journal: {
+        id: "legacy",
+        account: ACCOUNT,
+        startedAt: 0,
+        chains: [
+          {
+            chainId: SupportedChainId.ETH_SEPOLIA,
+            amount: "1",
+            step: "approving",
+          },
+        ],
+      },
+    });
+
+    useBatchJournalStore
+      .getState()
+      .updateChain(SupportedChainId.ETH_SEPOLIA, USDC, { step: "depositing" });
+
+    expect(useBatchJournalStore.getState().journal?.chains[0].step).toBe(
+      "depositing"
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Hash } from "viem";
+import { createBatchWithdrawService } from "@/lib/batch-withdraw-service";
+import { SupportedChainId } from "@/constant/chains";
+import { getUsdcAddress } from "@/constant/contracts";
+import { DEFAULT_BATCH_WITHDRAW_CONFIG } from "@/constant/batch-operation-constants";
+import type {
+  BatchWithdrawConfig,
+  ChainAmount,
+} from "@/types/batch-operations";
+
+const ACCOUNT = "0x1234567890abcdef1234567890abcdef12345678";
+
+const wagmi = vi.hoisted(() => ({
+  getAccount: vi.fn(),
+  switchChain: vi.fn(),
+  simulateContract: vi.fn(),
+  writeContract: vi.fn(),
+  waitForTransactionReceipt: vi.fn(),
+}));
+
+vi.mock("@/wagmi", () => ({ wagmiConfig: {} }));
+vi.mock("@wagmi/core", () => wagmi);
+
+const TEST_CONFIG: BatchWithdrawConfig = {
+  ...DEFAULT_BATCH_WITHDRAW_CONFIG,
+  retryAttempts: 3,
+  retryDelayMs: 0,
+};
+
+const txHash = (chainId: SupportedChainId) =>
+  `0x${chainId.toString(16)}`.padEnd(66, "0") as Hash;
+
+function chainAmount(chainId: SupportedChainId, amount: string): ChainAmount {
+  return {
+    chainId,
+    tokenAddress: getUsdcAddress(chainId),
+    amount,
+    amountWei: BigInt(Number(amount) * 1_000_000),
+  };
+}
+
+describe("BatchWithdrawService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    wagmi.getAccount.mockReturnValue({ address: ACCOUNT });
+    wagmi.switchChain.mockResolvedValue(undefined);
+    wagmi.simulateContract.mockImplementation(async (_config, request) => ({
+      request,
+    }));
+    wagmi.writeContract.mockImplementation(async (_config, { chainId }) =>
+      txHash(chainId)
+    );
+    wagmi.waitForTransactionReceipt.mockImplementation(
+      async (_config, { hash }) => ({
+        transactionHash: hash,
+        status: "success",
+      })
+    );
+  });
+
+  it("should fail the chain when its withdraw receipt reverted", async () => {
+    wagmi.waitForTransactionReceipt.mockImplementation(
+      async (_config, { hash, chainId }) => ({
+        transactionHash: hash,
+        status:
+          chainId === SupportedChainId.SEI_TESTNET ? "reverted" : "success",
+      })
+    );
+    const service = createBatchWithdrawService(TEST_CONFIG);
+    const confirmed = vi.fn();
+    service.on("transactionConfirmed", confirmed);
+
+    const [sepolia, sei] = await service.executeBatch([
+      chainAmount(SupportedChainId.ETH_SEPOLIA, "1"),
+      chainAmount(SupportedChainId.SEI_TESTNET, "2"),
+    ]);
+
+    expect(sepolia).toMatchObject({
+      status: "success",
+      withdrawTxHash: txHash(SupportedChainId.ETH_SEPOLIA),
+    });
+    expect(sei.status).toBe("failed");
+    expect(sei.error).toMatchObject({
+      type: "transaction",
+      step: "withdrawing",
+      message: "Withdraw transaction reverted",
+    });
+    expect(confirmed.mock.calls.map(([{ chainId }]) => chainId)).toEqual([
+      SupportedChainId.ETH_SEPOLIA,
+    ]);
+  });
+
+  it("should fail on a wallet timeout without prompting again", async () => {
+    wagmi.writeContract.mockReturnValue(new Promise<Hash>(() => {}));
+    const service = createBatchWithdrawService({
+      ...TEST_CONFIG,
+      timeoutMs: 20,
+    });
+
+    const [result] = await service.executeBatch([
+      chainAmount(SupportedChainId.ETH_SEPOLIA, "1"),
+    ]);
+
+    expect(result.error).toMatchObject({
+      step: "withdrawing",
+      message: "Timeout after 20ms",
+    });
+    expect(wagmi.writeContract).toHaveBeenCalledTimes(1);
+  });
+});
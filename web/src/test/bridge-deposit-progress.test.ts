@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import {
+  getBridgeDepositChainStatuses,
+  type BridgeDepositOperation,
+} from "@/lib/bridge-deposit-progress";
+import { SupportedChainId } from "@/constant/chains";
+
+const SOURCE = SupportedChainId.ETH_SEPOLIA;
+const DESTINATION = SupportedChainId.SEI_TESTNET;
+const BURN_TX = `0x${"b".repeat(64)}` as const;
+const MINT_TX = `0x${"c".repeat(64)}` as const;
+
+function operation(
+  overrides: Partial<BridgeDepositOperation> = {}
+): BridgeDepositOperation {
+  return {
+    request: {
+      sourceChainId: SOURCE,
+      destinationChainId: DESTINATION,
+      amount: "10",
+    },
+    stage: "bridging",
+    bridge: {},
+    ...overrides,
+  };
+}
+
+describe("getBridgeDepositChainStatuses", () => {
+  it("should show the source chain awaiting attestation", () => {
+    const [source, destination] = getBridgeDepositChainStatuses(
+      operation({ bridgeStep: "attesting", bridge: { burnTxHash: BURN_TX } }),
+      { statuses: [] },
+      false
+    );
+
+    expect(source).toMatchObject({
+      chainId: SOURCE,
+      status: "attesting",
+      burnTxHash: BURN_TX,
+    });
+    expect(destination).toMatchObject({
+      chainId: DESTINATION,
+      status: "pending",
+    });
+  });
+
+  it("should offer a resume on the chain the bridge failed on", () => {
+    const [source, destination] = getBridgeDepositChainStatuses(
+      operation({
+        bridgeStep: "minting",
+        bridge: { burnTxHash: BURN_TX },
+        bridgeError: {
+          type: "transaction",
+          message: "Mint reverted",
+          chainId: DESTINATION,
+          isRetryable: true,
+        },
+      }),
+      { statuses: [] },
+      true
+    );
+
+    expect(source.status).toBe("completed");
+    expect(destination).toMatchObject({ status: "failed", canRetry: true });
+  });
+
+  it("should let the deposit result take over the destination row", () => {
+    const [, destination] = getBridgeDepositChainStatuses(
+      operation({ stage: "depositing", bridge: { mintTxHash: MINT_TX } }),
+      { statuses: [{ chainId: DESTINATION, status: "completed" }] },
+      false
+    );
+
+    expect(destination).toEqual({
+      chainId: DESTINATION,
+      status: "completed",
+      mintTxHash: MINT_TX,
+    });
+  });
+});
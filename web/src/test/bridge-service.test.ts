@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Hash } from "viem";
+import { createBridgeService } from "@/lib/bridge-service";
+import type { AttestationClient } from "@/lib/cctp";
+import { SupportedChainId } from "@/constant/chains";
+import { DEFAULT_BRIDGE_CONFIG } from "@/constant/batch-operation-constants";
+import type { BridgeConfig } from "@/types/bridge-operations";
+
+const ACCOUNT = "0x1234567890abcdef1234567890abcdef12345678";
+
+const wagmi = vi.hoisted(() => ({
+  getAccount: vi.fn(),
+  switchChain: vi.fn(),
+  readContract: vi.fn(),
+  simulateContract: vi.fn(),
+  writeContract: vi.fn(),
+  waitForTransactionReceipt: vi.fn(),
+}));
+
+vi.mock("@/wagmi", () => ({ wagmiConfig: {} }));
+vi.mock("@wagmi/core", () => wagmi);
+
+const TX_HASHES: Record<string, Hash> = {
+  approve: `0x${"a".repeat(64)}`,
+  depositForBurn: `0x${"b".repeat(64)}`,
+  receiveMessage: `0x${"c".repeat(64)}`,
+};
+
+const TEST_CONFIG: BridgeConfig = {
+  ...DEFAULT_BRIDGE_CONFIG,
+  retryAttempts: 3,
+  retryDelayMs: 0,
+  attestationPollIntervalMs: 0,
+};
+
+const REQUEST = {
+  sourceChainId: SupportedChainId.ETH_SEPOLIA,
+  destinationChainId: SupportedChainId.SEI_TESTNET,
+  amount: "5",
+};
+
+/**
+ * Attestation client that reports the burn pending `pendingPolls` times
+ * before returning a signed message
+ */
+function createStubAttestationClient(pendingPolls = 0) {
+  const getAttestation = vi.fn(async () =>
+    pendingPolls-- > 0
+      ? null
+      : { message: "0x01" as const, attestation: "0x02" as const }
+  );
+  return { getAttestation } satisfies AttestationClient;
+}
+
+function writtenFunctions() {
+  return wagmi.writeContract.mock.calls.map(
+    ([, request]) => request.functionName
+  );
+}
+
+describe("BridgeService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    wagmi.getAccount.mockReturnValue({ address: ACCOUNT });
+    wagmi.switchChain.mockResolvedValue(undefined);
+    wagmi.readContract.mockResolvedValue(0n);
+    wagmi.simulateContract.mockImplementation(
+      async (_config, { functionName }) => ({ request: { functionName } })
+    );
+    wagmi.writeContract.mockImplementation(
+      async (_config, { functionName }) => TX_HASHES[functionName]
+    );
+    wagmi.waitForTransactionReceipt.mockImplementation(
+      async (_config, { hash }) => ({
+        transactionHash: hash,
+        status: "success",
+        logs: [],
+      })
+    );
+  });
+
+  it("should burn, wait for the attestation and mint", async () => {
+    const attestationClient = createStubAttestationClient(1);
+    const service = createBridgeService({ ...TEST_CONFIG, attestationClient });
+    const pending = vi.fn();
+    service.on("attestationPending", pending);
+
+    const result = await service.bridge(REQUEST);
+
+    expect(result).toMatchObject({
+      status: "success",
+      approvalTxHash: TX_HASHES.approve,
+      burnTxHash: TX_HASHES.depositForBurn,
+      mintTxHash: TX_HASHES.receiveMessage,
+      message: "0x01",
+      attestation: "0x02",
+      // No MintAndWithdraw log, so the whole fee cap counts as taken
+      mintedAmount: "4.9995",
+    });
+    expect(attestationClient.getAttestation).toHaveBeenCalledWith(
+      0,
+      TX_HASHES.depositForBurn
+    );
+    expect(pending).toHaveBeenCalledTimes(1);
+    expect(writtenFunctions()).toEqual([
+      "approve",
+      "depositForBurn",
+      "receiveMessage",
+    ]);
+  });
+
+  it("should fail the burn on a wallet timeout without prompting again", async () => {
+    const attestationClient = createStubAttestationClient();
+    wagmi.writeContract.mockImplementation(async (_config, { functionName }) =>
+      functionName === "depositForBurn"
+        ? new Promise<Hash>(() => {})
+        : TX_HASHES[functionName]
+    );
+    const service = createBridgeService({
+      ...TEST_CONFIG,
+      timeoutMs: 20,
+      attestationClient,
+    });
+
+    const result = await service.bridge(REQUEST);
+
+    expect(result.status).toBe("failed");
+    expect(result.error).toMatchObject({
+      step: "burning",
+      message: "Timeout after 20ms",
+    });
+    expect(writtenFunctions()).toEqual(["approve", "depositForBurn"]);
+    expect(attestationClient.getAttestation).not.toHaveBeenCalled();
+  });
+
+  it("should not resend a burn that failed for a non-network reason", async () => {
+    wagmi.writeContract.mockImplementation(
+      async (_config, { functionName }) => {
+        if (functionName === "depositForBurn") {
+          throw new Error("insufficient funds for gas");
+        }
+        return TX_HASHES[functionName];
+      }
+    );
+    const service = createBridgeService({
+      ...TEST_CONFIG,
+      attestationClient: createStubAttestationClient(),
+    });
+
+    const result = await service.bridge(REQUEST);
+
+    expect(result.error).toMatchObject({ type: "insufficient_funds" });
+    expect(writtenFunctions()).toEqual(["approve", "depositForBurn"]);
+  });
+});
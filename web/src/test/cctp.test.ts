@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createIrisAttestationClient, toBytes32Address } from "@/lib/cctp";
+
+function mockFetch(status: number, body?: unknown) {
+  const fetchMock = vi.fn().mockResolvedValue({
+    status,
+    ok: status >= 200 && status < 300,
+    json: async () => body,
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("CCTP attestation client", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should query messages by source domain and burn hash", async () => {
+    const fetchMock = mockFetch(404);
+    const client = createIrisAttestationClient("http://localhost:8080");
+
+    await expect(client.getAttestation(0, "0xabc")).resolves.toBeNull();
+    expect(fetchMock).toHaveBeenCalledWith(
+      "http://localhost:8080/v2/messages/0?transactionHash=0xabc"
+    );
+  });
+
+  it("should only return complete attestations", async () => {
+    const client = createIrisAttestationClient("http://localhost:8080");
+    const message = { message: "0x01", attestation: "0x02" };
+
+    mockFetch(200, {
+      messages: [{ ...message, status: "pending_confirmations" }],
+    });
+    await expect(client.getAttestation(0, "0xabc")).resolves.toBeNull();
+
+    mockFetch(200, { messages: [{ ...message, status: "complete" }] });
+    await expect(client.getAttestation(0, "0xabc")).resolves.toEqual(message);
+  });
+
+  it("should pad recipients to bytes32", () => {
+    expect(toBytes32Address("0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238")).toBe(
+      `0x${"0".repeat(24)}1c7D4B196Cb0C7B01d743Fbc6116a902379C7238`
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { parseCliArgs } from "@/cli/args";
+import { SupportedChainId } from "@/constant/chains";
+
+describe("parseCliArgs", () => {
+  it("should parse repeated --chain flags by name or chain id", () => {
+    expect(
+      parseCliArgs([
+        "deposit",
+        "--chain",
+        "sepolia=10",
+        "--chain=1328=5",
+        "--dry-run",
+      ])
+    ).toEqual({
+      command: "deposit",
+      chains: [
+        { chainId: SupportedChainId.ETH_SEPOLIA, amount: "10" },
+        { chainId: SupportedChainId.SEI_TESTNET, amount: "5" },
+      ],
+      token: "USDC",
+      rpcUrls: {},
+      dryRun: true,
+    });
+  });
+
+  it("should reject unknown chains and tokens a chain doesn't accept", () => {
+    expect(() => parseCliArgs(["deposit", "--chain", "base=1"])).toThrow(
+      'Unknown chain "base"'
+    );
+    expect(() =>
+      parseCliArgs(["deposit", "--chain", "sei=1", "--token", "eurc"])
+    ).toThrow("EURC is not accepted on Sei Testnet");
+  });
+
+  it("should parse the schedule command and keep flags to their command", () => {
+    expect(
+      parseCliArgs([
+        "schedule",
+        "--file",
+        "schedules.json",
+        "--once",
+        "--rpc",
+        "sei=http://127.0.0.1:8545",
+      ])
+    ).toEqual({
+      command: "schedule",
+      file: "schedules.json",
+      rpcUrls: { [SupportedChainId.SEI_TESTNET]: "http://127.0.0.1:8545" },
+      once: true,
+    });
+    expect(() => parseCliArgs(["schedule", "--once"])).toThrow("--file");
+    expect(() =>
+      parseCliArgs(["schedule", "--file", "s.json", "--chain", "sei=1"])
+    ).toThrow('Unknown option "--chain" for schedule');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  getDueSchedules,
+  getNextRunAt,
+  getScheduleRunStatus,
+} from "@/lib/deposit-schedule";
+import { SupportedChainId } from "@/constant/chains";
+import type { BatchDepositResult } from "@/types/batch-operations";
+import type { DepositSchedule } from "@/types/deposit-schedule";
+
+const ACCOUNT = "0x1234567890abcdef1234567890abcdef12345678";
+const HOUR = 3_600_000;
+
+function schedule(overrides: Partial<DepositSchedule> = {}): DepositSchedule {
+  return {
+    id: "daily",
+    account: ACCOUNT,
+    tokenSymbol: "USDC",
+    chains: [{ chainId: SupportedChainId.ETH_SEPOLIA, amount: "10" }],
+    intervalMs: 24 * HOUR,
+    nextRunAt: 100 * HOUR,
+    mode: "prompt",
+    enabled: true,
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+describe("deposit schedules", () => {
+  it("should return the account's enabled due schedules, oldest first", () => {
+    const schedules = [
+      schedule({ id: "later", nextRunAt: 110 * HOUR }),
+      schedule({ id: "earlier", nextRunAt: 90 * HOUR }),
+      schedule({ id: "paused", nextRunAt: 50 * HOUR, enabled: false }),
+      schedule({ id: "upcoming", nextRunAt: 200 * HOUR }),
+      schedule({
+        id: "other",
+        account: "0x000000000000000000000000000000000000dEaD",
+      }),
+    ];
+
+    expect(
+      getDueSchedules(
+        schedules,
+        // Address comparison ignores checksum casing
+        "0x1234567890ABCDEF1234567890ABCDEF12345678",
+        120 * HOUR
+      ).map(({ id }) => id)
+    ).toEqual(["earlier", "later"]);
+  });
+
+  it("should advance to the next cadence slot without backfilling", () => {
+    const daily = schedule();
+
+    expect(getNextRunAt(daily, 100 * HOUR)).toBe(124 * HOUR);
+    expect(getNextRunAt(daily, 101 * HOUR)).toBe(124 * HOUR);
+    // Three days missed: one run, then back on the original time of day
+    expect(getNextRunAt(daily, 173 * HOUR)).toBe(196 * HOUR);
+    // Not yet due: leave it alone
+    expect(getNextRunAt(daily, 99 * HOUR)).toBe(100 * HOUR);
+  });
+
+  it("should summarize a run from its chain results", () => {
+    const result = (status: BatchDepositResult["status"]) =>
+      ({ status } as BatchDepositResult);
+
+    expect(getScheduleRunStatus([result("success"), result("success")])).toBe(
+      "success"
+    );
+    expect(getScheduleRunStatus([result("success"), result("failed")])).toBe(
+      "partial"
+    );
+    expect(getScheduleRunStatus([result("cancelled")])).toBe("failed");
+    expect(getScheduleRunStatus([])).toBe("failed");
+  });
+});
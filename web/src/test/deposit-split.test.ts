@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { parseUnits } from "viem";
+import { splitDepositTotal, type SplitChain } from "@/lib/deposit-split";
+import { SupportedChainId } from "@/constant/chains";
+
+const SEPOLIA = SupportedChainId.ETH_SEPOLIA;
+const SEI = SupportedChainId.SEI_TESTNET;
+const usdc = (amount: string) => parseUnits(amount, 6);
+
+const chain = (
+  chainId: SupportedChainId,
+  wallet: string,
+  vault = "0"
+): SplitChain => ({
+  chainId,
+  decimals: 6,
+  walletBalance: usdc(wallet),
+  vaultBalance: usdc(vault),
+});
+
+describe("splitDepositTotal", () => {
+  it("should split equally and give the rounding dust to the roomier chain", () => {
+    const split = splitDepositTotal(
+      "0.000003",
+      "equal",
+      [chain(SEPOLIA, "10"), chain(SEI, "20")],
+      "USDC"
+    );
+
+    expect(split.error).toBeUndefined();
+    expect(split.amounts).toEqual({ [SEPOLIA]: "0.000001", [SEI]: "0.000002" });
+  });
+
+  it("should split by wallet balance", () => {
+    const split = splitDepositTotal(
+      "30",
+      "wallet",
+      [chain(SEPOLIA, "25"), chain(SEI, "75")],
+      "USDC"
+    );
+
+    expect(split.amounts).toEqual({ [SEPOLIA]: "7.5", [SEI]: "22.5" });
+  });
+
+  it("should cap vault-weighted shares at the wallet and spill the rest over", () => {
+    const split = splitDepositTotal(
+      "50",
+      "vault",
+      [chain(SEPOLIA, "10", "90"), chain(SEI, "100", "10")],
+      "USDC"
+    );
+
+    expect(split.amounts).toEqual({ [SEPOLIA]: "10", [SEI]: "40" });
+  });
+
+  it("should fill the largest wallets first and leave the rest empty", () => {
+    const split = splitDepositTotal(
+      "60",
+      "max",
+      [chain(SEPOLIA, "10"), chain(SEI, "75")],
+      "USDC"
+    );
+
+    expect(split.amounts).toEqual({ [SEPOLIA]: "", [SEI]: "60" });
+  });
+
+  it("should reject totals above the wallets or past the token's decimals", () => {
+    const chains = [chain(SEPOLIA, "10"), chain(SEI, "5")];
+
+    const tooMuch = splitDepositTotal("16", "equal", chains, "USDC");
+    expect(tooMuch.amounts).toEqual({});
+    expect(tooMuch.error).toContain("15");
+
+    const tooPrecise = splitDepositTotal("1.0000001", "equal", chains, "USDC");
+    expect(tooPrecise.amounts).toEqual({});
+    expect(tooPrecise.error).toBeDefined();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { getPublicClient } from "@wagmi/core";
+import { DEPOSIT_GAS_FALLBACK, estimateDepositGas } from "@/lib/gas-estimation";
+import { SupportedChainId } from "@/constant/chains";
+import { getUsdcAddress } from "@/constant/contracts";
+
+vi.mock("@/wagmi", () => ({ wagmiConfig: {} }));
+vi.mock("@wagmi/core", () => ({ getPublicClient: vi.fn() }));
+
+const ACCOUNT = "0x000000000000000000000000000000000000dEaD";
+const CHAIN_ID = SupportedChainId.ETH_SEPOLIA;
+const GWEI = 1_000_000_000n;
+
+function mockClient({
+  allowance,
+  balance,
+}: {
+  allowance: bigint;
+  balance: bigint;
+}) {
+  const client = {
+    readContract: vi.fn().mockResolvedValue(allowance),
+    getBalance: vi.fn().mockResolvedValue(balance),
+    estimateFeesPerGas: vi
+      .fn()
+      .mockResolvedValue({ maxFeePerGas: GWEI, maxPriorityFeePerGas: 1n }),
+    getGasPrice: vi.fn(),
+    estimateContractGas: vi.fn().mockResolvedValue(50_000n),
+  };
+  vi.mocked(getPublicClient).mockReturnValue(client as never);
+  return client;
+}
+
+describe("estimateDepositGas", () => {
+  beforeEach(() => {
+    vi.mocked(getPublicClient).mockReset();
+  });
+
+  it("should price approval and a fallback deposit when allowance is short", async () => {
+    const client = mockClient({ allowance: 0n, balance: 10n ** 18n });
+
+    const estimate = await estimateDepositGas(
+      CHAIN_ID,
+      ACCOUNT,
+      getUsdcAddress(CHAIN_ID),
+      1_000_000n
+    );
+
+    // Only the approval is estimated; the deposit would revert without it
+    expect(client.estimateContractGas).toHaveBeenCalledTimes(1);
+    expect(estimate.approvalCost).toBe(60_000n * GWEI);
+    expect(estimate.depositCost).toBe(
+      ((DEPOSIT_GAS_FALLBACK * 120n) / 100n) * GWEI
+    );
+    expect(estimate.totalCost).toBe(
+      estimate.approvalCost + estimate.depositCost
+    );
+    expect(estimate.warning).toBeUndefined();
+  });
+
+  it("should warn when the native balance can't cover the estimate", async () => {
+    mockClient({ allowance: 1_000_000n, balance: 1n });
+
+    const estimate = await estimateDepositGas(
+      CHAIN_ID,
+      ACCOUNT,
+      getUsdcAddress(CHAIN_ID),
+      1_000_000n
+    );
+
+    expect(estimate.approval).toBeUndefined();
+    expect(estimate.depositCost).toBe(60_000n * GWEI);
+    expect(estimate.warning).toBe("Low ETH balance for gas fees");
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi } from "vitest";
+import { parseUnits } from "viem";
+import { planRebalance, isEmptyRebalancePlan } from "@/lib/rebalance";
+import { createRebalanceService } from "@/lib/rebalance-service";
+import { SupportedChainId } from "@/constant/chains";
+import type { BridgeDepositResult } from "@/types/bridge-operations";
+
+const SEPOLIA = SupportedChainId.ETH_SEPOLIA;
+const SEI = SupportedChainId.SEI_TESTNET;
+const usdc = (amount: string) => parseUnits(amount, 6);
+
+describe("planRebalance", () => {
+  it("should withdraw the surplus and bridge it to the chain below target", () => {
+    const plan = planRebalance({
+      tokenSymbol: "USDC",
+      funding: "bridge",
+      targets: { [SEPOLIA]: 60, [SEI]: 40 },
+      vaultBalances: { [SEPOLIA]: usdc("80"), [SEI]: usdc("20") },
+    });
+
+    expect(plan.total).toBe(usdc("100"));
+    expect(plan.allocations.map(({ target }) => target)).toEqual([
+      usdc("60"),
+      usdc("40"),
+    ]);
+    expect(plan.withdrawals).toMatchObject([
+      { chainId: SEPOLIA, amount: "20", amountWei: usdc("20") },
+    ]);
+    expect(plan.bridges).toEqual([
+      { sourceChainId: SEPOLIA, destinationChainId: SEI, amount: "20" },
+    ]);
+    expect(plan.deposits).toEqual([]);
+  });
+
+  it("should fund deposits from the wallet and report what it is short", () => {
+    const plan = planRebalance({
+      tokenSymbol: "USDC",
+      funding: "wallet",
+      targets: { [SEPOLIA]: 50, [SEI]: 50 },
+      vaultBalances: { [SEPOLIA]: usdc("80"), [SEI]: usdc("20") },
+      walletBalances: { [SEI]: usdc("10") },
+    });
+
+    expect(plan.withdrawals).toMatchObject([
+      { chainId: SEPOLIA, amountWei: usdc("30") },
+    ]);
+    expect(plan.deposits).toMatchObject([
+      { chainId: SEI, amountWei: usdc("10") },
+    ]);
+    expect(plan.shortfalls).toEqual([{ chainId: SEI, missing: usdc("20") }]);
+    expect(plan.bridges).toEqual([]);
+  });
+
+  it("should skip dust moves and reject targets that don't add up", () => {
+    const plan = planRebalance({
+      tokenSymbol: "USDC",
+      funding: "bridge",
+      targets: { [SEPOLIA]: 50, [SEI]: 50 },
+      vaultBalances: { [SEPOLIA]: usdc("10.004"), [SEI]: usdc("9.996") },
+    });
+    expect(isEmptyRebalancePlan(plan)).toBe(true);
+
+    expect(() =>
+      planRebalance({
+        tokenSymbol: "USDC",
+        funding: "bridge",
+        targets: { [SEPOLIA]: 70, [SEI]: 40 },
+        vaultBalances: {},
+      })
+    ).toThrow("Targets add up to 110%, not 100%");
+  });
+});
+
+describe("RebalanceService", () => {
+  it("should stop after a failed bridge and report the rebalance partial", async () => {
+    const plan = planRebalance({
+      tokenSymbol: "USDC",
+      funding: "bridge",
+      targets: { [SEPOLIA]: 0, [SEI]: 100 },
+      vaultBalances: { [SEPOLIA]: usdc("5"), [SEI]: usdc("5") },
+    });
+    const executors = {
+      withdraw: vi.fn(async () => [
+        { chainId: SEPOLIA, status: "success" as const, startedAt: 0 },
+      ]),
+      bridgeAndDeposit: vi.fn(
+        async (request): Promise<BridgeDepositResult> => ({
+          request,
+          status: "failed",
+          bridge: { ...request, status: "failed", startedAt: 0 },
+          error: {
+            type: "network",
+            message: "attestation timed out",
+            chainId: SEPOLIA,
+            isRetryable: true,
+          },
+          startedAt: 0,
+        })
+      ),
+      deposit: vi.fn(),
+    };
+    const service = createRebalanceService(executors);
+    const progress: number[] = [];
+    service.on("progressUpdated", ({ completed }) => progress.push(completed));
+
+    const result = await service.execute(plan);
+
+    expect(executors.withdraw).toHaveBeenCalledWith(plan.withdrawals);
+    expect(executors.bridgeAndDeposit).toHaveBeenCalledWith(plan.bridges[0]);
+    expect(executors.deposit).not.toHaveBeenCalled();
+    expect(result.status).toBe("partial");
+    expect(result.error?.message).toBe("attestation timed out");
+    expect(progress).toEqual([1]);
+    expect(service.getStatus().isRunning).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from "vitest";
+import { sepolia } from "viem/chains";
+import { getUsdcAddress } from "@/constant/contracts";
+import { buildExportRows, toCsv } from "@/lib/transaction-export";
+import type { Transaction } from "@/stores/transactionStore";
+
+vi.mock("@/wagmi", () => ({ wagmiConfig: {} }));
+
+function tx(overrides: Partial<Transaction>): Transaction {
+  return {
+    id: "1",
+    hash: "0xabc",
+    type: "deposit",
+    status: "failed",
+    amount: "1234.5",
+    tokenSymbol: "USDC",
+    tokenAddress: getUsdcAddress(sepolia.id),
+    chainId: sepolia.id,
+    timestamp: Date.UTC(2025, 0, 15),
+    ...overrides,
+  };
+}
+
+describe("Transaction export", () => {
+  it("should export rows in range, oldest first, with gas cost once per tx", async () => {
+    const rows = await buildExportRows(
+      [
+        tx({ id: "a", timestamp: Date.UTC(2025, 0, 20), hash: "0x2" }),
+        tx({
+          id: "b",
+          gasUsed: "21000",
+          gasPrice: "1000000000",
+          blockNumber: 42,
+        }),
+        tx({ id: "c", type: "approval", gasUsed: "21000", gasPrice: "1" }),
+        tx({ id: "d", timestamp: Date.UTC(2024, 0, 1) }),
+      ],
+      { from: Date.UTC(2025, 0, 1), to: Date.UTC(2025, 0, 31) }
+    );
+
+    expect(rows.map((row) => row.hash)).toEqual(["0xabc", "0xabc", "0x2"]);
+    expect(rows[0]).toMatchObject({
+      chain: "Sepolia",
+      explorerUrl: "https://sepolia.etherscan.io/tx/0xabc",
+      amount: "1234.5",
+      gasCost: "0.000021",
+      gasToken: "ETH",
+      blockNumber: "42",
+    });
+    expect(rows[1].gasCost).toBe("");
+  });
+
+  it("should quote CSV fields containing separators", async () => {
+    const rows = await buildExportRows(
+      [tx({ tokenSymbol: 'USDC "bridged", v2' })],
+      { from: 0, to: Date.UTC(2030, 0, 1) }
+    );
+    const [header, line] = toCsv(rows).split("\r\n");
+
+    expect(header.split(",")).toContain("explorerUrl");
+    expect(line).toContain('"USDC ""bridged"", v2",1234.5,');
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from "vitest";
+import { mergeTransactionHistory } from "@/lib/transaction-reconciliation";
+import type { VaultTransaction } from "@/lib/vault-history";
+import type { Transaction } from "@/stores/transactionStore";
+
+vi.mock("@/wagmi", () => ({ wagmiConfig: {} }));
+
+function onChainTx(hash: string, timestamp: number): VaultTransaction {
+  return {
+    id: `1:${hash}:0`,
+    hash,
+    logIndex: 0,
+    type: "deposit",
+    amount: "1",
+    tokenSymbol: "USDC",
+    tokenAddress: "",
+    chainId: 1,
+    timestamp,
+    blockNumber: 1,
+    from: "",
+    to: "",
+  };
+}
+
+function localTx(
+  hash: string,
+  status: Transaction["status"],
+  timestamp: number
+): Transaction {
+  return { id: hash, hash, type: "deposit", status, chainId: 1, timestamp };
+}
+
+describe("Transaction history reconciliation", () => {
+  it("should prefer on-chain events and keep local-only attempts", () => {
+    const merged = mergeTransactionHistory(
+      [localTx("0xAA", "pending", 3_000), localTx("0xbb", "failed", 2_000)],
+      [onChainTx("0xaa", 1_000)]
+    );
+
+    expect(merged.map((tx) => [tx.hash, tx.status])).toEqual([
+      ["0xbb", "failed"],
+      ["0xaa", "confirmed"],
+    ]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  mergeRange,
+  findNextGap,
+  mergeChainHistories,
+  type ChainHistoryCache,
+  type VaultTransaction,
+} from "@/lib/vault-history";
+import { SupportedChainId } from "@/constant/chains";
+
+vi.mock("@/wagmi", () => ({ wagmiConfig: {} }));
+
+function tx(
+  chainId: number,
+  blockNumber: number,
+  timestamp: number
+): VaultTransaction {
+  return {
+    id: `${chainId}:0x${blockNumber}:0`,
+    hash: `0x${blockNumber}`,
+    logIndex: 0,
+    type: "deposit",
+    amount: "1",
+    tokenSymbol: "USDC",
+    tokenAddress: "",
+    chainId,
+    timestamp,
+    blockNumber,
+    from: "",
+    to: "",
+  };
+}
+
+describe("Vault history ranges", () => {
+  it("should merge adjacent and overlapping ranges", () => {
+    expect(mergeRange([[100, 199]], [200, 299])).toEqual([[100, 299]]);
+    expect(mergeRange([[100, 199]], [150, 250])).toEqual([[100, 250]]);
+    expect(mergeRange([[100, 199]], [300, 399])).toEqual([
+      [300, 399],
+      [100, 199],
+    ]);
+  });
+
+  it("should find the newest unscanned gap first", () => {
+    expect(findNextGap([], 1000, 0)).toEqual([0, 1000]);
+    expect(findNextGap([[500, 800]], 1000, 0)).toEqual([801, 1000]);
+    expect(findNextGap([[500, 1000]], 1000, 0)).toEqual([0, 499]);
+    expect(
+      findNextGap(
+        [
+          [900, 1000],
+          [100, 499],
+        ],
+        1000,
+        0
+      )
+    ).toEqual([500, 899]);
+    expect(findNextGap([[0, 1000]], 1000, 0)).toBeNull();
+  });
+});
+
+describe("Cross-chain history merge", () => {
+  it("should keep older entries of complete chains and report the scanning one", () => {
+    const complete: ChainHistoryCache = {
+      ranges: [[0, 100]],
+      latestBlock: 100,
+      coveredFromBlock: 0,
+      coveredFromTimestamp: 0,
+      hasMore: false,
+      transactions: [tx(1, 90, 9_000), tx(1, 10, 1_000)],
+    };
+    const incomplete: ChainHistoryCache = {
+      ranges: [[500, 1000]],
+      latestBlock: 1000,
+      coveredFromBlock: 500,
+      coveredFromTimestamp: 5_000,
+      hasMore: true,
+      transactions: [tx(2, 700, 7_000)],
+    };
+
+    const { transactions, hasMore, scanning } = mergeChainHistories({
+      [SupportedChainId.ETH_SEPOLIA]: complete,
+      [SupportedChainId.SEI_TESTNET]: incomplete,
+    });
+
+    expect(hasMore).toBe(true);
+    expect(transactions.map((t) => t.timestamp)).toEqual([9_000, 7_000, 1_000]);
+    expect(scanning).toEqual([
+      { chainId: SupportedChainId.SEI_TESTNET, coveredFromTimestamp: 5_000 },
+    ]);
+  });
+});
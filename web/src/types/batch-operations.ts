@@ -11,12 +11,16 @@ export type BatchDepositStatus =
 
 export type BatchDepositStep = "switching" | "approving" | "depositing";
 
-export type BatchTransactionType = "approval" | "deposit";
+export type BatchWithdrawStep = "switching" | "withdrawing";
+
+export type BatchTransactionType = "approval" | "deposit" | "withdrawal";
 
 // Core Batch Operation Types
 
 export interface ChainAmount {
   chainId: SupportedChainId;
+  // ERC-20 deposited into / withdrawn from the vault
+  tokenAddress: Address;
   amount: string;
   amountWei: bigint;
 }
@@ -72,6 +76,10 @@ export type BatchExecutionStep =
   | "switching"
   | "approving"
   | "depositing"
+  | "withdrawing"
+  | "burning"
+  | "attesting"
+  | "minting"
   | "confirming"
   | "completed";
 
@@ -141,25 +149,56 @@ export interface BatchExecutionConfig {
 
 export interface BatchDepositResult {
   chainId: SupportedChainId;
+  tokenAddress?: Address;
   status: BatchDepositStatus;
   approvalTxHash?: Hash;
   depositTxHash?: Hash;
-  error?: string;
+  error?: BatchOperationError;
   userCancelled?: boolean;
   startedAt: number;
   completedAt?: number;
 }
 
+/**
+ * Dry-run outcome for one chain: nothing is signed or sent
+ */
+export interface BatchSimulationResult {
+  chainId: SupportedChainId;
+  tokenAddress: Address;
+  amount: string;
+  needsApproval: boolean;
+  wouldSucceed: boolean;
+  // The RPC can't simulate approve + deposit together, so the deposit
+  // was not checked against the new allowance
+  depositUnverified?: boolean;
+  // Why the approval or deposit would revert
+  error?: BatchOperationError;
+}
+
 export interface BatchDepositEvents {
   batchStarted: { chainCount: number; totalSteps: number };
   batchCompleted: { results: BatchDepositResult[] };
   batchFailed: { error: string };
+  // Pipelines halt at their next step boundary until batchResumed
+  batchPaused: { pausedAt: number };
+  batchResumed: { resumedAt: number };
   chainStarted: { chainId: SupportedChainId; index: number };
-  chainCompleted: { chainId: SupportedChainId; result: BatchDepositResult };
-  chainFailed: { chainId: SupportedChainId; error: string };
+  // A batch may deposit several tokens on one chain, so chain events also
+  // name the token
+  chainCompleted: {
+    chainId: SupportedChainId;
+    tokenAddress: Address;
+    result: BatchDepositResult;
+  };
+  chainFailed: {
+    chainId: SupportedChainId;
+    tokenAddress: Address;
+    error: BatchOperationError;
+  };
 
   stepStarted: {
     chainId: SupportedChainId;
+    tokenAddress: Address;
     step: BatchDepositStep;
     stepNumber: number;
     totalSteps: number;
@@ -168,6 +207,7 @@ export interface BatchDepositEvents {
   };
   stepCompleted: {
     chainId: SupportedChainId;
+    tokenAddress: Address;
     step: BatchDepositStep;
     stepNumber: number;
     totalSteps: number;
@@ -178,20 +218,133 @@ export interface BatchDepositEvents {
     chainId: SupportedChainId;
     txHash: Hash;
     type: BatchTransactionType;
+    tokenAddress: Address;
+    amount: bigint;
+  };
+  // EIP-5792 approve + deposit bundle accepted by the wallet, not yet landed
+  bundleSubmitted: {
+    chainId: SupportedChainId;
+    tokenAddress: Address;
+    bundleId: string;
   };
   transactionConfirmed: {
     chainId: SupportedChainId;
     txHash: Hash;
     type: BatchTransactionType;
+    // From the receipt; wallet bundle receipts carry no effective gas price
+    status: "success" | "reverted";
+    blockNumber: bigint;
+    gasUsed: bigint;
+    effectiveGasPrice?: bigint;
   };
   progressUpdated: { completed: number; total: number; percentage: number };
 }
 
+/**
+ * How much allowance an approval grants the vault: exactly the deposit,
+ * unlimited, or a custom ceiling so later deposits skip the approve step
+ */
+export type ApprovalStrategy = "exact" | "unlimited" | "custom";
+
+export interface ApprovalPolicy {
+  strategy: ApprovalStrategy;
+  // Token units, e.g. "1000"; only read for the custom strategy
+  customCap?: string;
+}
+
 export interface BatchDepositConfig {
   timeoutMs: number;
   confirmationTimeoutMs: number;
   retryAttempts: number;
   retryDelayMs: number;
+  // Sign an EIP-2612 permit instead of sending an approve tx when the token supports it
+  usePermit?: boolean;
+  permitDeadlineSeconds?: number;
+  // Bundle approve + deposit into one EIP-5792 sendCalls when the wallet supports it
+  useAtomicBatch?: boolean;
+  callsStatusPollIntervalMs?: number;
+  // Run each chain's pipeline concurrently instead of switching chains one by one.
+  // Ignored unless the adapter's signer can sign on non-active chains
+  parallelChains?: boolean;
+  // Per-step timeouts, retry policy and stop-on-failure for batch deposits;
+  // falls back to DEFAULT_BATCH_CONFIG
+  execution?: BatchExecutionConfig;
+  // Approval policy per chain; exact approvals when unset
+  getApprovalPolicy?: (chainId: SupportedChainId) => ApprovalPolicy;
+}
+
+export interface BatchWithdrawResult {
+  chainId: SupportedChainId;
+  tokenAddress?: Address;
+  status: Exclude<BatchDepositStatus, "partial">;
+  withdrawTxHash?: Hash;
+  error?: BatchOperationError;
+  userCancelled?: boolean;
+  startedAt: number;
+  completedAt?: number;
+}
+
+export interface BatchWithdrawEvents {
+  batchStarted: { chainCount: number; totalSteps: number };
+  batchCompleted: { results: BatchWithdrawResult[] };
+  batchFailed: { error: string };
+  chainStarted: { chainId: SupportedChainId; index: number };
+  chainCompleted: { chainId: SupportedChainId; result: BatchWithdrawResult };
+  chainFailed: { chainId: SupportedChainId; error: BatchOperationError };
+
+  stepStarted: {
+    chainId: SupportedChainId;
+    step: BatchWithdrawStep;
+    stepNumber: number;
+    totalSteps: number;
+    chainStep: number;
+    chainTotal: number;
+  };
+  stepCompleted: {
+    chainId: SupportedChainId;
+    step: BatchWithdrawStep;
+    stepNumber: number;
+    totalSteps: number;
+    chainStep: number;
+    chainTotal: number;
+  };
+  transactionSubmitted: {
+    chainId: SupportedChainId;
+    txHash: Hash;
+    type: "withdrawal";
+  };
+  transactionConfirmed: {
+    chainId: SupportedChainId;
+    txHash: Hash;
+    type: "withdrawal";
+  };
+  progressUpdated: { completed: number; total: number; percentage: number };
+}
+
+export type BatchWithdrawConfig = BatchDepositConfig;
+
+// Persisted Batch Journal
+
+export interface BatchJournalChainEntry {
+  chainId: SupportedChainId;
+  // Missing on journals written before multi-token support (USDC)
+  tokenAddress?: Address;
+  amount: string;
+  step: "pending" | BatchDepositStep;
+  // Set once the chain reached a final state
+  status?: BatchDepositStatus;
+  approvalTxHash?: Hash;
+  depositTxHash?: Hash;
+  // sendCalls id of an approve + deposit bundle, set before it lands
+  bundleId?: string;
+  error?: BatchOperationError;
+}
+
+export interface BatchJournal {
+  id: string;
+  account: Address;
+  startedAt: number;
+  chains: BatchJournalChainEntry[];
 }
 
 // Event Types for Progress Tracking
@@ -0,0 +1,130 @@
+import type { Address, Hash, Hex } from "viem";
+import { SupportedChainId } from "@/constant/contracts";
+import type { AttestationClient } from "@/lib/cctp";
+import type {
+  BatchDepositResult,
+  BatchOperationError,
+  ChainAmount,
+} from "@/types/batch-operations";
+
+export type BridgeStep =
+  | "switching"
+  | "approving"
+  | "burning"
+  | "attesting"
+  | "minting";
+
+export type BridgeTransactionType = "approval" | "burn" | "mint";
+
+export type BridgeStatus = "success" | "failed" | "cancelled";
+
+export interface BridgeRequest {
+  sourceChainId: SupportedChainId;
+  destinationChainId: SupportedChainId;
+  // USDC, human readable
+  amount: string;
+  // Defaults to the connected account
+  recipient?: Address;
+}
+
+export interface BridgeResult {
+  sourceChainId: SupportedChainId;
+  destinationChainId: SupportedChainId;
+  amount: string;
+  status: BridgeStatus;
+  approvalTxHash?: Hash;
+  burnTxHash?: Hash;
+  // Signed burn message, enough to mint even if the page reloads
+  message?: Hex;
+  attestation?: Hex;
+  mintTxHash?: Hash;
+  // USDC received on the destination, net of the fee, human readable
+  mintedAmount?: string;
+  error?: BatchOperationError;
+  userCancelled?: boolean;
+  startedAt: number;
+  completedAt?: number;
+}
+
+/**
+ * Outputs of a bridge that was interrupted. Steps whose output is present are
+ * not sent again; a submitted burn or mint is only awaited.
+ */
+export type BridgeResumePoint = Pick<
+  BridgeResult,
+  "approvalTxHash" | "burnTxHash" | "message" | "attestation" | "mintTxHash"
+>;
+
+export interface BridgeEvents {
+  bridgeStarted: { request: BridgeRequest; totalSteps: number };
+  bridgeCompleted: { result: BridgeResult };
+  bridgeFailed: { result: BridgeResult; error: BatchOperationError };
+
+  stepStarted: { step: BridgeStep; chainId: SupportedChainId };
+  stepCompleted: { step: BridgeStep; chainId: SupportedChainId };
+  transactionSubmitted: {
+    chainId: SupportedChainId;
+    txHash: Hash;
+    type: BridgeTransactionType;
+  };
+  transactionConfirmed: {
+    chainId: SupportedChainId;
+    txHash: Hash;
+    type: BridgeTransactionType;
+  };
+  attestationPending: { burnTxHash: Hash; attempt: number };
+  attestationReceived: { burnTxHash: Hash; message: Hex; attestation: Hex };
+  progressUpdated: { completed: number; total: number; percentage: number };
+}
+
+// Bridge and deposit: bridge USDC, then deposit what was minted
+
+export type BridgeDepositStage = "bridging" | "depositing";
+
+export interface BridgeDepositResult {
+  request: BridgeRequest;
+  status: BridgeStatus;
+  bridge: BridgeResult;
+  // Missing when the bridge didn't complete or the deposit was cancelled
+  deposit?: BatchDepositResult;
+  error?: BatchOperationError;
+  startedAt: number;
+  completedAt?: number;
+}
+
+/**
+ * Persisted record of a bridge and deposit still bridging. Once the deposit
+ * starts it is journaled like any other batch deposit.
+ */
+export interface BridgeDepositJournal {
+  id: string;
+  account: Address;
+  request: BridgeRequest;
+  startedAt: number;
+  bridge: BridgeResumePoint;
+}
+
+export interface BridgeDepositEvents {
+  operationStarted: { request: BridgeRequest; totalSteps: number };
+  operationCompleted: { result: BridgeDepositResult };
+  operationFailed: { result: BridgeDepositResult; error: BatchOperationError };
+  stageStarted: { stage: BridgeDepositStage };
+  // Emitted before the deposit is sent, so it can be journaled first
+  depositStarted: { chainAmount: ChainAmount; bridge: BridgeResult };
+  progressUpdated: { completed: number; total: number; percentage: number };
+}
+
+export interface BridgeConfig {
+  timeoutMs: number;
+  confirmationTimeoutMs: number;
+  retryAttempts: number;
+  retryDelayMs: number;
+  // Fee cap in USDC base units; a fast transfer needs it above zero
+  maxFee: bigint;
+  // 1000 = fast (soft finality), 2000 = standard (hard finality)
+  minFinalityThreshold: number;
+  attestationPollIntervalMs: number;
+  attestationTimeoutMs: number;
+  // Defaults to Circle's sandbox API
+  attestationClient?: AttestationClient;
+}
@@ -0,0 +1,31 @@
+import type { Address } from "viem";
+import type { SupportedChainId } from "@/constant/chains";
+import type { TokenSymbol } from "@/constant/tokens";
+
+// "prompt" asks before running a due schedule, "auto" starts it right away
+export type DepositScheduleMode = "prompt" | "auto";
+
+export type DepositScheduleRunStatus = "success" | "partial" | "failed";
+
+export interface DepositScheduleChain {
+  chainId: SupportedChainId;
+  // Token units, e.g. "10"
+  amount: string;
+}
+
+/**
+ * A recurring batch deposit. Missed runs are not backfilled: a run moves
+ * `nextRunAt` to the first slot of the cadence after it
+ */
+export interface DepositSchedule {
+  id: string;
+  account: Address;
+  tokenSymbol: TokenSymbol;
+  chains: DepositScheduleChain[];
+  intervalMs: number;
+  nextRunAt: number;
+  mode: DepositScheduleMode;
+  enabled: boolean;
+  createdAt: number;
+  lastRun?: { ranAt: number; status: DepositScheduleRunStatus };
+}
@@ -0,0 +1,69 @@
+import type { SupportedChainId } from "@/constant/chains";
+import type { TokenSymbol } from "@/constant/tokens";
+import type {
+  BatchDepositResult,
+  BatchOperationError,
+  BatchWithdrawResult,
+  ChainAmount,
+} from "@/types/batch-operations";
+import type {
+  BridgeDepositResult,
+  BridgeRequest,
+} from "@/types/bridge-operations";
+
+// Share of the token's vault total per chain in percent, e.g. 60 and 40
+export type RebalanceTargets = Partial<Record<SupportedChainId, number>>;
+
+/**
+ * Where a chain below its target gets the tokens from:
+ * "bridge" withdraws the surplus elsewhere and moves it with CCTP (USDC only),
+ * "wallet" deposits from the chain's own wallet and leaves withdrawn
+ * surplus in the wallet it came out to
+ */
+export type RebalanceFunding = "bridge" | "wallet";
+
+export interface RebalanceAllocation {
+  chainId: SupportedChainId;
+  // Vault balances in base units
+  current: bigint;
+  target: bigint;
+  currentPercent: number;
+  targetPercent: number;
+}
+
+export interface RebalancePlan {
+  tokenSymbol: TokenSymbol;
+  funding: RebalanceFunding;
+  // Vault total across the planned chains, base units
+  total: bigint;
+  allocations: RebalanceAllocation[];
+  withdrawals: ChainAmount[];
+  // Each one bridges and deposits the minted amount, net of the CCTP fee
+  bridges: BridgeRequest[];
+  deposits: ChainAmount[];
+  // Wallet balance missing for a "wallet" deposit; what is there is deposited
+  shortfalls: { chainId: SupportedChainId; missing: bigint }[];
+}
+
+export type RebalanceStage = "withdrawing" | "bridging" | "depositing";
+
+export type RebalanceStatus = "success" | "partial" | "failed" | "cancelled";
+
+export interface RebalanceResult {
+  plan: RebalancePlan;
+  status: RebalanceStatus;
+  withdrawals: BatchWithdrawResult[];
+  bridges: BridgeDepositResult[];
+  deposits: BatchDepositResult[];
+  error?: BatchOperationError;
+  startedAt: number;
+  completedAt?: number;
+}
+
+export interface RebalanceEvents {
+  rebalanceStarted: { plan: RebalancePlan; totalSteps: number };
+  rebalanceCompleted: { result: RebalanceResult };
+  rebalanceFailed: { result: RebalanceResult; error: BatchOperationError };
+  stageStarted: { stage: RebalanceStage; chainId?: SupportedChainId };
+  progressUpdated: { completed: number; total: number; percentage: number };
+}
@@ -4,7 +4,11 @@ import {
   SUPPORTED_TOKENS,
   BUTTON_STATES,
 } from "@/constant/operation-constants";
-import type { BatchTransactionType } from "@/types/batch-operations";
+import type {
+  BatchOperationError,
+  BatchTransactionType,
+} from "@/types/batch-operations";
+import type { BridgeTransactionType } from "@/types/bridge-operations";
 
 export type OperationType =
   (typeof OPERATION_TYPES)[keyof typeof OPERATION_TYPES];
@@ -19,6 +23,9 @@ export interface ChainDepositAmount {
   amount: string;
 }
 
+// How a single deposit total is spread over the active chains
+export type DepositSplitStrategy = "equal" | "wallet" | "vault" | "max";
+
 export interface BatchDepositState {
   inputs: Record<SupportedChainId, string>;
   isValid: boolean;
@@ -27,19 +34,29 @@ export interface BatchDepositState {
   warnings: Record<SupportedChainId, string[]>;
 }
 
+export type BatchWithdrawState = BatchDepositState;
+
 export interface ChainOperationStatus {
   chainId: SupportedChainId;
   status:
     | "pending"
     | "approving"
     | "depositing"
+    | "withdrawing"
+    | "burning"
+    | "attesting"
+    | "minting"
     | "completed"
     | "failed"
     | "retrying"
     | "partial";
   approveTxHash?: string;
   depositTxHash?: string;
-  error?: string;
+  withdrawTxHash?: string;
+  // Bridge and deposit: burn on the source chain, mint on the destination
+  burnTxHash?: string;
+  mintTxHash?: string;
+  error?: BatchOperationError;
   canRetry?: boolean;
 }
 
@@ -48,11 +65,12 @@ export interface BatchDepositProgress {
   currentStep: number;
   percentage: number;
   currentChain?: SupportedChainId;
-  currentOperation?: BatchTransactionType;
+  currentOperation?: BatchTransactionType | BridgeTransactionType;
   chainStatuses: ChainOperationStatus[];
   isComplete: boolean;
   hasFailures: boolean;
   batchCompletedSuccessfully: boolean;
+  isPaused?: boolean;
   isRetrying?: boolean;
   retryingChainId?: SupportedChainId | null;
 }
@@ -2,7 +2,11 @@ import { getDefaultConfig } from "@rainbow-me/rainbowkit";
 import { injectedWallet, metaMaskWallet } from "@rainbow-me/rainbowkit/wallets";
 import { http } from "viem";
 import type { Config } from "wagmi";
-import { SUPPORTED_CHAIN_CONFIGS, SupportedChainId } from "./constant/chains";
+import {
+  SUPPORTED_CHAIN_CONFIGS,
+  SUPPORTED_CHAINS,
+  getRpcUrl,
+} from "./constant/chains";
 
 const walletConnectProjectId =
   process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID ||
@@ -17,10 +21,9 @@ export const wagmiConfig = getDefaultConfig({
   appName: "Argenta",
   projectId: walletConnectProjectId,
   chains: SUPPORTED_CHAIN_CONFIGS,
-  transports: {
-    [SupportedChainId.ETH_SEPOLIA]: http(),
-    [SupportedChainId.SEI_TESTNET]: http(),
-  },
+  transports: Object.fromEntries(
+    SUPPORTED_CHAINS.map((chainId) => [chainId, http(getRpcUrl(chainId))])
+  ),
   wallets: [
     {
       groupName: "Recommended",